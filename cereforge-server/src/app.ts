@@ -13,6 +13,8 @@ import authRoutes from './routes/auth.routes';
 import publicRoutes from './routes/public.routes';
 import calendarRoutes from './routes/calendar.routes';
 import adminRoutes from './routes/admin.routes'
+import partnerRoutes from './routes/partner.routes';
+import consultationRoutes from './routes/consultation.routes';
 
 // Create Express app
 const app = express();
@@ -68,7 +70,7 @@ app.use(cors({
   credentials: true, // ✅ CRITICAL: Allows cookies to be sent/received
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-  exposedHeaders: ['Set-Cookie'],
+  exposedHeaders: ['Set-Cookie', 'Content-Disposition', 'X-Export-Truncated'],
   maxAge: 86400,
   optionsSuccessStatus: 204 // ✅ Better for legacy browsers
 }));
@@ -179,6 +181,8 @@ app.use(`/api/${API_VERSION}/auth`, authRoutes);
 app.use(`/api/${API_VERSION}/public`, publicRoutes);
 app.use(`/api/${API_VERSION}/calendar`, calendarRoutes); 
 app.use(`/api/${API_VERSION}/admin`, adminRoutes);
+app.use(`/api/${API_VERSION}/partner`, partnerRoutes);
+app.use(`/api/${API_VERSION}/consultations`, consultationRoutes);
 
 // ==========================================
 // 404 HANDLER
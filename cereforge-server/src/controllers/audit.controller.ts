@@ -0,0 +1,87 @@
+// src/controllers/audit.controller.ts
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/errors';
+import logger from '../utils/logger';
+import { exportAuditLogs, queryAuditLogs } from '../services/audit.service';
+
+const CSV_COLUMNS = [
+  'created_at',
+  'risk_level',
+  'action',
+  'entity_type',
+  'entity_id',
+  'user_id',
+  'user_email',
+  'ip_address',
+  'user_agent',
+  'request_method',
+  'request_path',
+  'details'
+] as const;
+
+/**
+ * Quote a CSV cell; prefix formula-looking values so spreadsheets don't evaluate them
+ */
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: any[]): string => {
+  const lines = rows.map((row) =>
+    CSV_COLUMNS.map((column) =>
+      toCsvCell(column === 'user_email' ? row.user?.email : row[column])
+    ).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...lines].join('\r\n');
+};
+
+/**
+ * GET /api/v1/admin/audit-logs
+ * Filtered audit trail with cursor pagination
+ */
+export const listAuditLogs = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  logger.info(`Fetching audit logs for admin: ${user.userId}`);
+
+  const result = await queryAuditLogs(req.query as any);
+
+  res.json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * GET /api/v1/admin/audit-logs/export?format=csv|json
+ * Download everything matching the filters (capped)
+ */
+export const exportAuditLogsHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { format, ...filters } = req.query as any;
+
+  logger.info(`Exporting audit logs (${format}) for admin: ${user.userId}`);
+
+  const { items, truncated } = await exportAuditLogs(filters);
+  const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('X-Export-Truncated', String(truncated));
+
+  if (format === 'json') {
+    res.json({
+      success: true,
+      data: { items, truncated },
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.send(toCsv(items));
+});
@@ -1,10 +1,23 @@
 import { Request, Response } from 'express';
-import { verifyEmail, login, logout, refreshAccessToken } from '../services/auth.service';
-import { verifyRefreshToken } from '../utils/jwt';
+import {
+  verifyEmail,
+  login,
+  logout,
+  refreshAccessToken,
+  rotateRefreshToken,
+  startMfaLoginEnrollment,
+  completeMfaLogin,
+  requestPasswordReset,
+  resetPassword,
+  changePassword,
+  listUserSessions,
+  revokeUserSession,
+  revokeOtherSessions
+} from '../services/auth.service';
 import { logAuthEvent } from '../services/audit.service';
-import { asyncHandler } from '../utils/errors';
+import { ApiError, asyncHandler, Errors } from '../utils/errors';
+import { getRequestCountry } from '../utils/geo';
 import logger from '../utils/logger';
-import { getFreshSupabase } from '../config/database';
 
 /**
  * ✅ FIXED: Cookie Configuration for Development & Production
@@ -66,7 +79,20 @@ export const loginHandler = asyncHandler(async (req: Request, res: Response) =>
 
   logger.info(`Login attempt for: ${email}`);
 
-  const result = await login(email, password, role, ipAddress, userAgent);
+  const result = await login(email, password, role, ipAddress, userAgent, getRequestCountry(req));
+
+  // ✅ Step 3 required: no cookies until the authenticator code is verified
+  if ('mfaRequired' in result) {
+    res.json({
+      success: true,
+      data: result,
+      message: result.mfaEnrolled
+        ? 'Enter the code from your authenticator app'
+        : 'Two-factor authentication must be set up to continue',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
 
   await logAuthEvent(
     'login',
@@ -95,6 +121,73 @@ export const loginHandler = asyncHandler(async (req: Request, res: Response) =>
   });
 });
 
+/**
+ * POST /api/v1/auth/login/mfa/setup
+ * Step 3 (first time): get a TOTP secret/QR for a role that requires 2FA
+ */
+export const mfaLoginSetupHandler = asyncHandler(async (req: Request, res: Response) => {
+  const { mfaToken } = req.body;
+
+  const enrollment = await startMfaLoginEnrollment(mfaToken);
+
+  res.json({
+    success: true,
+    data: enrollment,
+    message: 'Scan the QR code with your authenticator app',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/auth/login/mfa
+ * Step 3 of Smart Login: verify TOTP / recovery code and start the session
+ */
+export const mfaLoginHandler = asyncHandler(async (req: Request, res: Response) => {
+  const { mfaToken, code } = req.body;
+  const ipAddress = req.ip || 'unknown';
+  const userAgent = req.get('user-agent') || 'unknown';
+
+  let result;
+  try {
+    result = await completeMfaLogin(mfaToken, code, ipAddress, userAgent, getRequestCountry(req));
+  } catch (error) {
+    await logAuthEvent('mfa_failed', undefined, ipAddress, userAgent, {
+      step: 'login',
+      reason: error instanceof Error ? error.message : 'unknown'
+    });
+    throw error;
+  }
+
+  await logAuthEvent(
+    'login',
+    result.user.id,
+    ipAddress,
+    userAgent,
+    {
+      email: result.user.email,
+      role: result.user.role,
+      systemType: result.user.systemType,
+      mfa: true,
+      mfaMethod: result.mfaMethod
+    }
+  );
+
+  res.cookie('authToken', result.token, getCookieConfig(15 * 60 * 1000));
+  res.cookie('refreshToken', result.refreshToken, getCookieConfig(7 * 24 * 60 * 60 * 1000));
+
+  logger.info(`User ${result.user.email} logged in successfully (MFA)`);
+
+  res.json({
+    success: true,
+    data: {
+      user: result.user,
+      ...(result.recoveryCodes && { recoveryCodes: result.recoveryCodes })
+    },
+    message: 'Login successful',
+    timestamp: new Date().toISOString()
+  });
+});
+
 /**
  * GET /api/v1/auth/me
  * ⚡ ULTRA-FAST: Validate current session (JWT only, no DB query)
@@ -111,7 +204,9 @@ export const getMeHandler = asyncHandler(async (req: Request, res: Response) =>
         name: user.name,
         role: user.role,
         systemType: user.systemType,
-        permissions: user.permissions
+        permissions: user.permissions,
+        mustChangePassword: !!user.mustChangePassword,
+        mfa: !!user.mfa
       },
       authenticated: true
     },
@@ -159,7 +254,7 @@ export const logoutHandler = asyncHandler(async (req: Request, res: Response) =>
 
 /**
  * POST /api/v1/auth/refresh
- * ✅ SECURITY FIX: Validate session is still active before refreshing
+ * ✅ Rotates the refresh token on every call; a replayed token revokes the session
  */
 export const refreshTokenHandler = asyncHandler(async (req: Request, res: Response) => {
   const refreshToken = req.cookies?.refreshToken;
@@ -176,127 +271,31 @@ export const refreshTokenHandler = asyncHandler(async (req: Request, res: Respon
     return;
   }
 
-  // ✅ Verify refresh token
-  const payload = verifyRefreshToken(refreshToken);
-
-  if (!payload) {
-    const isProduction = process.env.NODE_ENV === 'production';
-    const cookieOptions = {
-      httpOnly: true,
-      secure: isProduction,
-      sameSite: 'lax' as const,
-      domain: isProduction ? '.cereforge.com' : undefined,
-      path: '/'
-    };
-
-    res.clearCookie('authToken', cookieOptions);
-    res.clearCookie('refreshToken', cookieOptions);
-
-    logger.warn('Invalid or expired refresh token received');
-
-    res.status(401).json({
-      success: false,
-      error: {
-        code: 'INVALID_TOKEN',
-        message: 'Invalid or expired refresh token'
-      },
-      timestamp: new Date().toISOString()
-    });
-    return;
-  }
+  const ipAddress = req.ip || 'unknown';
+  const userAgent = req.get('user-agent') || 'unknown';
 
   try {
-    // ✅ SECURITY FIX: Validate session is still active
-    const adminClient = getFreshSupabase();
-    const { data: session, error: sessionError } = await adminClient
-      .from('user_sessions')
-      .select('is_active, expires_at')
-      .eq('id', payload.sessionId)
-      .eq('user_id', payload.userId)
-      .maybeSingle();
-
-    // ❌ Session not found or inactive
-    if (sessionError || !session || !session.is_active) {
-      const isProduction = process.env.NODE_ENV === 'production';
-      const cookieOptions = {
-        httpOnly: true,
-        secure: isProduction,
-        sameSite: 'lax' as const,
-        domain: isProduction ? '.cereforge.com' : undefined,
-        path: '/'
-      };
-
-      res.clearCookie('authToken', cookieOptions);
-      res.clearCookie('refreshToken', cookieOptions);
-
-      logger.warn(`Refresh denied: Session ${payload.sessionId} is ${!session ? 'missing' : 'inactive'}`);
-
-      res.status(401).json({
-        success: false,
-        error: {
-          code: 'SESSION_TERMINATED',
-          message: 'Session has been terminated. Please login again.'
-        },
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-
-    // ❌ Session expired
-    if (new Date(session.expires_at) < new Date()) {
-      const isProduction = process.env.NODE_ENV === 'production';
-      const cookieOptions = {
-        httpOnly: true,
-        secure: isProduction,
-        sameSite: 'lax' as const,
-        domain: isProduction ? '.cereforge.com' : undefined,
-        path: '/'
-      };
-
-      res.clearCookie('authToken', cookieOptions);
-      res.clearCookie('refreshToken', cookieOptions);
-
-      // Mark session as inactive
-      await adminClient
-        .from('user_sessions')
-        .update({ is_active: false })
-        .eq('id', payload.sessionId);
-
-      logger.warn(`Refresh denied: Session ${payload.sessionId} expired at ${session.expires_at}`);
-
-      res.status(401).json({
-        success: false,
-        error: {
-          code: 'SESSION_EXPIRED',
-          message: 'Session has expired. Please login again.'
-        },
-        timestamp: new Date().toISOString()
-      });
-      return;
-    }
-
-    // ✅ Session valid - generate new access token
-    const newAccessToken = await refreshAccessToken(
-      payload.userId,
-      payload.sessionId,
-      payload.role,
-      payload.systemType
-    );
+    const result = await rotateRefreshToken(refreshToken, ipAddress, userAgent);
 
     await logAuthEvent(
       'token_refresh',
-      payload.userId,
-      req.ip || 'unknown',
-      req.get('user-agent') || 'unknown',
+      result.userId,
+      ipAddress,
+      userAgent,
       {
-        sessionId: payload.sessionId,
-        systemType: payload.systemType
+        sessionId: result.sessionId,
+        systemType: result.systemType,
+        rotated: !!result.refreshToken
       }
     );
 
-    res.cookie('authToken', newAccessToken, getCookieConfig(15 * 60 * 1000));
+    res.cookie('authToken', result.token, getCookieConfig(15 * 60 * 1000));
+    // Inside the rotation grace window the browser already holds the newer refresh token
+    if (result.refreshToken) {
+      res.cookie('refreshToken', result.refreshToken, getCookieConfig(7 * 24 * 60 * 60 * 1000));
+    }
 
-    logger.info(`Access token refreshed for user ${payload.userId}`);
+    logger.info(`Access token refreshed for user ${result.userId}`);
 
     res.json({
       success: true,
@@ -304,8 +303,6 @@ export const refreshTokenHandler = asyncHandler(async (req: Request, res: Respon
       timestamp: new Date().toISOString()
     });
   } catch (error) {
-    logger.error('Token refresh failed:', error);
-
     const isProduction = process.env.NODE_ENV === 'production';
     const cookieOptions = {
       httpOnly: true,
@@ -318,6 +315,13 @@ export const refreshTokenHandler = asyncHandler(async (req: Request, res: Respon
     res.clearCookie('authToken', cookieOptions);
     res.clearCookie('refreshToken', cookieOptions);
 
+    // Known refresh failures (invalid, terminated, expired, reused) keep their own code
+    if (error instanceof ApiError && error.statusCode === 401) {
+      throw error;
+    }
+
+    logger.error('Token refresh failed:', error);
+
     res.status(401).json({
       success: false,
       error: {
@@ -327,4 +331,174 @@ export const refreshTokenHandler = asyncHandler(async (req: Request, res: Respon
       timestamp: new Date().toISOString()
     });
   }
-});
\ No newline at end of file
+});
+
+/**
+ * POST /api/v1/auth/forgot-password
+ * Email a single-use reset link (response never reveals whether the email exists)
+ */
+export const forgotPasswordHandler = asyncHandler(async (req: Request, res: Response) => {
+  const { email } = req.body;
+  const ipAddress = req.ip || 'unknown';
+  const userAgent = req.get('user-agent') || 'unknown';
+
+  logger.info(`Password reset requested for: ${email}`);
+
+  await requestPasswordReset(email, ipAddress, userAgent);
+
+  res.json({
+    success: true,
+    message: 'If an account exists for this email, a password reset link has been sent.',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/auth/reset-password
+ * Set a new password using a reset token and sign out every session
+ */
+export const resetPasswordHandler = asyncHandler(async (req: Request, res: Response) => {
+  const { token, newPassword } = req.body;
+  const ipAddress = req.ip || 'unknown';
+  const userAgent = req.get('user-agent') || 'unknown';
+
+  await resetPassword(token, newPassword, ipAddress, userAgent);
+
+  const isProduction = process.env.NODE_ENV === 'production';
+  const cookieOptions = {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'lax' as const,
+    domain: isProduction ? '.cereforge.com' : undefined,
+    path: '/'
+  };
+
+  res.clearCookie('authToken', cookieOptions);
+  res.clearCookie('refreshToken', cookieOptions);
+
+  res.json({
+    success: true,
+    message: 'Password reset successfully. Please log in with your new password.',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/auth/change-password
+ * Change password for the signed-in user (also completes a forced change)
+ */
+export const changePasswordHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { currentPassword, newPassword } = req.body;
+  const ipAddress = req.ip || 'unknown';
+  const userAgent = req.get('user-agent') || 'unknown';
+
+  await changePassword(
+    user.userId,
+    user.email,
+    user.sessionId,
+    currentPassword,
+    newPassword,
+    ipAddress,
+    userAgent
+  );
+
+  // Reissue the access token so the restricted claim is dropped immediately
+  const newAccessToken = await refreshAccessToken(
+    user.userId,
+    user.sessionId,
+    user.role,
+    user.systemType,
+    !!user.mfa
+  );
+
+  res.cookie('authToken', newAccessToken, getCookieConfig(15 * 60 * 1000));
+
+  res.json({
+    success: true,
+    data: {
+      user: {
+        id: user.userId,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        systemType: user.systemType,
+        permissions: user.permissions,
+        mustChangePassword: false,
+        mfa: !!user.mfa
+      }
+    },
+    message: 'Password changed successfully',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * GET /api/v1/auth/sessions
+ * List the signed-in user's active sessions (devices)
+ */
+export const listSessionsHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  const sessions = await listUserSessions(user.userId, user.sessionId);
+
+  res.json({
+    success: true,
+    data: sessions,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * DELETE /api/v1/auth/sessions/:id
+ * Sign out a single device
+ */
+export const revokeSessionHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+
+  if (id === user.sessionId) {
+    throw Errors.badRequest('Use logout to end the current session');
+  }
+
+  await revokeUserSession(user.userId, id);
+
+  await logAuthEvent(
+    'session_revoked',
+    user.userId,
+    req.ip || 'unknown',
+    req.get('user-agent') || 'unknown',
+    { revokedSessionId: id, scope: 'single' }
+  );
+
+  res.json({
+    success: true,
+    message: 'Session signed out',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * DELETE /api/v1/auth/sessions
+ * Sign out everywhere except the current session
+ */
+export const revokeOtherSessionsHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  const revokedCount = await revokeOtherSessions(user.userId, user.sessionId);
+
+  await logAuthEvent(
+    'session_revoked',
+    user.userId,
+    req.ip || 'unknown',
+    req.get('user-agent') || 'unknown',
+    { scope: 'others', revokedCount }
+  );
+
+  res.json({
+    success: true,
+    data: { revokedCount },
+    message: revokedCount === 1 ? 'Signed out 1 other session' : `Signed out ${revokedCount} other sessions`,
+    timestamp: new Date().toISOString()
+  });
+});
@@ -0,0 +1,116 @@
+// =====================================================
+// PUBLIC BOOKING CONTROLLERS (no sign-in; the link id is the key)
+// =====================================================
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/errors';
+import {
+  bookConsultation,
+  cancelBooking,
+  getManagedBooking,
+  getPublicBookingConfig,
+  getPublicBookingSlots,
+  getRescheduleSlots,
+  rescheduleBooking
+} from '../services/booking.service';
+
+/**
+ * GET /api/v1/public/booking/:id
+ * Booking page config for a shared booking link
+ */
+export const getBookingConfig = asyncHandler(async (req: Request, res: Response) => {
+  const config = await getPublicBookingConfig(req.params.id);
+
+  res.status(200).json({
+    success: true,
+    data: config,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * GET /api/v1/public/booking/:id/slots
+ * Open times for a booking link, in the booker's timezone
+ */
+export const getBookingSlots = asyncHandler(async (req: Request, res: Response) => {
+  const result = await getPublicBookingSlots(req.params.id, req.query as any);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/public/booking/:id/book
+ * Book a consultation slot
+ */
+export const bookConsultationSlot = asyncHandler(async (req: Request, res: Response) => {
+  const confirmation = await bookConsultation(req.params.id, req.body, req.ip || 'unknown');
+
+  res.status(201).json({
+    success: true,
+    data: confirmation,
+    message: 'Consultation booked',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * GET /api/v1/public/booking/manage/:token
+ * A booking as its booker sees it (manage link from the confirmation email)
+ */
+export const getBookingForManage = asyncHandler(async (req: Request, res: Response) => {
+  const booking = await getManagedBooking(req.params.token);
+
+  res.status(200).json({
+    success: true,
+    data: booking,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * GET /api/v1/public/booking/manage/:token/slots
+ * Open times the booking could move to
+ */
+export const getBookingRescheduleSlots = asyncHandler(async (req: Request, res: Response) => {
+  const result = await getRescheduleSlots(req.params.token, req.query as any);
+
+  res.status(200).json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/public/booking/manage/:token/reschedule
+ * Move a booking to another open slot
+ */
+export const rescheduleBookingSlot = asyncHandler(async (req: Request, res: Response) => {
+  const booking = await rescheduleBooking(req.params.token, req.body, req.ip || 'unknown');
+
+  res.status(200).json({
+    success: true,
+    data: booking,
+    message: 'Booking rescheduled',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/public/booking/manage/:token/cancel
+ * Cancel a booking
+ */
+export const cancelBookingSlot = asyncHandler(async (req: Request, res: Response) => {
+  const booking = await cancelBooking(req.params.token, req.body, req.ip || 'unknown');
+
+  res.status(200).json({
+    success: true,
+    data: booking,
+    message: 'Booking cancelled',
+    timestamp: new Date().toISOString()
+  });
+});
@@ -11,10 +11,13 @@ import {
   getEventById,
   updateCalendarEvent,
   deleteCalendarEvent,
+  exportCalendarEvents,
+  importCalendarEvents,
   createPublicHoliday,
   updatePublicHoliday,
   deletePublicHoliday
 } from '../services/calendar.service';
+import { getFreeBusy } from '../services/availability.service';
 import { GetEventsParams, DeleteEventType } from '../types/calendar.types';
 
 /**
@@ -51,7 +54,8 @@ export const getEvents = asyncHandler(async (req: Request, res: Response) => {
   const params: GetEventsParams = {
     startDate: req.query.startDate as string,
     endDate: req.query.endDate as string,
-    includeRecurring
+    includeRecurring,
+    timezone: req.query.timezone as string | undefined
   };
 
   logger.info(`Fetching events for user: ${user.userId}`, params);
@@ -85,7 +89,7 @@ export const getEvent = asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * PUT /api/v1/calendar/events/:id
- * Update calendar event
+ * Update calendar event; recurring events take scope + instanceStart
  */
 export const updateEvent = asyncHandler(async (req: Request, res: Response) => {
   const user = req.user!;
@@ -107,17 +111,18 @@ export const updateEvent = asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * DELETE /api/v1/calendar/events/:id
- * Delete calendar event
+ * Delete calendar event; recurring events take deleteType + instanceStart
  */
 export const deleteEvent = asyncHandler(async (req: Request, res: Response) => {
   const user = req.user!;
   const { id } = req.params;
   const ipAddress = req.ip || 'unknown';
   const deleteType = (req.query.deleteType as DeleteEventType) || 'single';
+  const instanceStart = req.query.instanceStart as string | undefined;
 
   logger.info(`Deleting event ${id} (type: ${deleteType}) for user: ${user.userId}`);
 
-  await deleteCalendarEvent(id, user.userId, deleteType, ipAddress);
+  await deleteCalendarEvent(id, user.userId, deleteType, ipAddress, instanceStart);
 
   res.json({
     success: true,
@@ -126,6 +131,70 @@ export const deleteEvent = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
+/**
+ * GET /api/v1/calendar/export.ics
+ * Download the user's events as an iCalendar file
+ */
+export const exportCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const range = {
+    start: req.query.start as string | undefined,
+    end: req.query.end as string | undefined
+  };
+
+  logger.info(`Exporting calendar for user: ${user.userId}`, range);
+
+  const ics = await exportCalendarEvents(user.userId, range);
+
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'attachment; filename="cereforge-calendar.ics"');
+  res.send(ics);
+});
+
+/**
+ * POST /api/v1/calendar/import
+ * Import events from an .ics file (dryRun previews without writing)
+ */
+export const importCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Importing calendar for user: ${user.userId} (dryRun: ${req.body.dryRun})`);
+
+  const result = await importCalendarEvents(user.userId, req.body, ipAddress);
+
+  res.status(result.dryRun ? 200 : 201).json({
+    success: true,
+    data: result,
+    message: result.dryRun
+      ? 'Import preview ready'
+      : `Imported ${result.summary.create} event${result.summary.create === 1 ? '' : 's'}`,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/calendar/freebusy
+ * Busy times for internal attendees and suggested meeting slots
+ */
+export const getAvailability = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  logger.info(`Checking free/busy for user: ${user.userId}`, {
+    attendees: req.body.emails.length,
+    start: req.body.start,
+    end: req.body.end
+  });
+
+  const result = await getFreeBusy(user.userId, req.body);
+
+  res.json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString()
+  });
+});
+
 /**
  * GET /api/v1/calendar/public-holidays
  * Get public holidays
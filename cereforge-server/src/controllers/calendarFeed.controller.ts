@@ -0,0 +1,115 @@
+// =====================================================
+// CALENDAR FEED CONTROLLERS
+// =====================================================
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/errors';
+import logger from '../utils/logger';
+import {
+  getCalendarFeed,
+  regenerateCalendarFeed,
+  updateCalendarFeedOptions,
+  revokeCalendarFeed,
+  renderCalendarFeed
+} from '../services/calendarFeed.service';
+
+/**
+ * Subscription URL for a feed token
+ */
+function getFeedUrl(req: Request, token: string): string {
+  const apiBaseUrl = process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+  return `${apiBaseUrl}/api/v1/calendar/feeds/${token}.ics`;
+}
+
+/**
+ * GET /api/v1/calendar/feed
+ * Get the user's private feed settings (null when none)
+ */
+export const getFeed = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  const feed = await getCalendarFeed(user.userId);
+
+  res.json({
+    success: true,
+    data: feed,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/calendar/feed
+ * Create the feed or regenerate its token (old URL stops working)
+ */
+export const regenerateFeed = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Regenerating calendar feed for user: ${user.userId}`);
+
+  const { feed, token } = await regenerateCalendarFeed(user.userId, req.body, ipAddress);
+
+  res.status(201).json({
+    success: true,
+    data: { ...feed, url: getFeedUrl(req, token) },
+    message: 'Calendar feed URL created',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * PATCH /api/v1/calendar/feed
+ * Update what the feed includes
+ */
+export const updateFeed = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  const feed = await updateCalendarFeedOptions(user.userId, req.body);
+
+  res.json({
+    success: true,
+    data: feed,
+    message: 'Calendar feed updated',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * DELETE /api/v1/calendar/feed
+ * Revoke the feed URL
+ */
+export const revokeFeed = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Revoking calendar feed for user: ${user.userId}`);
+
+  await revokeCalendarFeed(user.userId, ipAddress);
+
+  res.json({
+    success: true,
+    message: 'Calendar feed revoked',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * GET /api/v1/calendar/feeds/:token.ics
+ * Serve the feed to calendar apps (the token is the credential)
+ */
+export const serveFeed = asyncHandler(async (req: Request, res: Response) => {
+  const feed = await renderCalendarFeed(req.params.token);
+
+  res.setHeader('Cache-Control', 'private, max-age=900');
+  res.setHeader('ETag', feed.etag);
+  res.setHeader('Last-Modified', feed.generatedAt.toUTCString());
+
+  if (req.headers['if-none-match'] === feed.etag) {
+    res.status(304).end();
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="cereforge.ics"');
+  res.send(feed.ics);
+});
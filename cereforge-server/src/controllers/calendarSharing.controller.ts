@@ -0,0 +1,163 @@
+// =====================================================
+// SHARED CALENDAR CONTROLLERS
+// =====================================================
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/errors';
+import logger from '../utils/logger';
+import {
+  listCalendars,
+  createCalendar,
+  updateCalendar,
+  deleteCalendar,
+  getCalendarMembers,
+  addCalendarMember,
+  updateCalendarMember,
+  removeCalendarMember
+} from '../services/calendarSharing.service';
+
+/**
+ * GET /api/v1/calendar/calendars
+ * Calendars the user owns or has been shared, with their access level
+ */
+export const getCalendars = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  const calendars = await listCalendars(user.userId);
+
+  res.json({
+    success: true,
+    data: calendars,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/calendar/calendars
+ * Create a team or partner-project calendar
+ */
+export const createSharedCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Creating ${req.body.type} calendar for user: ${user.userId}`);
+
+  const calendar = await createCalendar(user.userId, user.role, req.body, ipAddress);
+
+  res.status(201).json({
+    success: true,
+    data: calendar,
+    message: 'Calendar created',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * PATCH /api/v1/calendar/calendars/:id
+ * Rename or recolor a calendar (owner only)
+ */
+export const updateSharedCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+
+  const calendar = await updateCalendar(id, user.userId, req.body);
+
+  res.json({
+    success: true,
+    data: calendar,
+    message: 'Calendar updated',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * DELETE /api/v1/calendar/calendars/:id
+ * Delete a shared calendar and its events (owner only)
+ */
+export const deleteSharedCalendar = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Deleting calendar ${id} for user: ${user.userId}`);
+
+  await deleteCalendar(id, user.userId, ipAddress);
+
+  res.json({
+    success: true,
+    message: 'Calendar deleted',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * GET /api/v1/calendar/calendars/:id/members
+ * Who the calendar is shared with (owner only)
+ */
+export const getMembers = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+
+  const members = await getCalendarMembers(id, user.userId);
+
+  res.json({
+    success: true,
+    data: members,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/calendar/calendars/:id/members
+ * Share the calendar with a user by email
+ */
+export const addMember = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  const member = await addCalendarMember(id, user.userId, req.body, ipAddress);
+
+  res.status(201).json({
+    success: true,
+    data: member,
+    message: `Calendar shared with ${member.full_name || member.email}`,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * PATCH /api/v1/calendar/calendars/:id/members/:userId
+ * Change a member's permission
+ */
+export const updateMember = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id, userId } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  await updateCalendarMember(id, userId, user.userId, req.body.permission, ipAddress);
+
+  res.json({
+    success: true,
+    message: 'Permission updated',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * DELETE /api/v1/calendar/calendars/:id/members/:userId
+ * Remove a member (or leave a calendar shared with you)
+ */
+export const removeMember = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id, userId } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  await removeCalendarMember(id, userId, user.userId, ipAddress);
+
+  res.json({
+    success: true,
+    message: userId === user.userId ? 'You left the calendar' : 'Member removed',
+    timestamp: new Date().toISOString()
+  });
+});
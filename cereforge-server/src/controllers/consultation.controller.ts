@@ -0,0 +1,143 @@
+// =====================================================
+// CONSULTATION BOOKING TYPE CONTROLLERS
+// =====================================================
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/errors';
+import logger from '../utils/logger';
+import {
+  listConsultationTypes,
+  getConsultationType,
+  createConsultationType,
+  updateConsultationType,
+  deleteConsultationType,
+  regenerateBookingLink,
+  revokeBookingLink
+} from '../services/consultation.service';
+
+/**
+ * GET /api/v1/consultations
+ * The user's consultation types, plus system bookings for admin/core
+ */
+export const getConsultations = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  const consultations = await listConsultationTypes(user.userId, user.role);
+
+  res.json({
+    success: true,
+    data: consultations,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * GET /api/v1/consultations/:id
+ * Single consultation type
+ */
+export const getConsultation = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+
+  const consultation = await getConsultationType(id, user.userId, user.role);
+
+  res.json({
+    success: true,
+    data: consultation,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/consultations
+ * Create a consultation type
+ */
+export const createConsultation = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Creating consultation type for user: ${user.userId}`);
+
+  const consultation = await createConsultationType(user.userId, user.role, req.body, ipAddress);
+
+  res.status(201).json({
+    success: true,
+    data: consultation,
+    message: 'Consultation created',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * PATCH /api/v1/consultations/:id
+ * Update a consultation type (including pausing it)
+ */
+export const updateConsultation = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  const consultation = await updateConsultationType(id, user.userId, user.role, req.body, ipAddress);
+
+  res.json({
+    success: true,
+    data: consultation,
+    message: 'Consultation updated',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * DELETE /api/v1/consultations/:id
+ * Delete a consultation type
+ */
+export const deleteConsultation = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Deleting consultation type ${id} for user: ${user.userId}`);
+
+  await deleteConsultationType(id, user.userId, user.role, ipAddress);
+
+  res.json({
+    success: true,
+    message: 'Consultation deleted',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/consultations/:id/link (and /system/link)
+ * New booking link; the previous URL stops working
+ */
+export const regenerateLink = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const ipAddress = req.ip || 'unknown';
+
+  const bookingPath = await regenerateBookingLink(req.params.id || null, user.userId, user.role, ipAddress);
+
+  res.json({
+    success: true,
+    data: { bookingPath },
+    message: 'Booking link regenerated',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * DELETE /api/v1/consultations/:id/link (and /system/link)
+ * Revoke a booking link
+ */
+export const revokeLink = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const ipAddress = req.ip || 'unknown';
+
+  await revokeBookingLink(req.params.id || null, user.userId, user.role, ipAddress);
+
+  res.json({
+    success: true,
+    message: 'Booking link revoked',
+    timestamp: new Date().toISOString()
+  });
+});
@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import {
+  getMfaStatus,
+  startTotpEnrollment,
+  confirmTotpEnrollment,
+  verifyMfaCode,
+  disableMfa,
+  regenerateRecoveryCodes
+} from '../services/mfa.service';
+import { upgradeSessionToMfa } from '../services/auth.service';
+import { logAuthEvent } from '../services/audit.service';
+import { asyncHandler } from '../utils/errors';
+import logger from '../utils/logger';
+
+const getCookieConfig = (maxAge: number) => {
+  const isProduction = process.env.NODE_ENV === 'production';
+
+  return {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'lax' as const,
+    domain: isProduction ? '.cereforge.com' : undefined,
+    maxAge,
+    path: '/'
+  };
+};
+
+/**
+ * Swap the session cookies for MFA-verified ones
+ */
+const setMfaSessionCookies = async (req: Request, res: Response) => {
+  const tokens = await upgradeSessionToMfa(req.user!);
+  res.cookie('authToken', tokens.token, getCookieConfig(15 * 60 * 1000));
+  res.cookie('refreshToken', tokens.refreshToken, getCookieConfig(7 * 24 * 60 * 60 * 1000));
+};
+
+/**
+ * GET /api/v1/auth/mfa
+ * Current 2FA status for the signed-in user
+ */
+export const getMfaStatusHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  const status = await getMfaStatus(user.userId, user.role);
+
+  res.json({
+    success: true,
+    data: { ...status, sessionVerified: !!user.mfa },
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/auth/mfa/enroll
+ * Start TOTP enrollment (returns secret + QR code)
+ */
+export const startMfaEnrollmentHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  const enrollment = await startTotpEnrollment(user.userId, user.email);
+
+  res.json({
+    success: true,
+    data: enrollment,
+    message: 'Scan the QR code with your authenticator app',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/auth/mfa/enroll/confirm
+ * Confirm enrollment with a code; returns one-time recovery codes
+ */
+export const confirmMfaEnrollmentHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { code } = req.body;
+
+  const recoveryCodes = await confirmTotpEnrollment(user.userId, code);
+
+  await logAuthEvent('mfa_enabled', user.userId, req.ip || 'unknown', req.get('user-agent') || 'unknown', {
+    during: 'settings'
+  });
+
+  // The code just proved possession - this session counts as verified
+  await setMfaSessionCookies(req, res);
+
+  logger.info(`User ${user.userId} enabled two-factor authentication`);
+
+  res.json({
+    success: true,
+    data: { recoveryCodes },
+    message: 'Two-factor authentication enabled',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/auth/mfa/verify
+ * Step-up: verify a code for an existing session so MFA-protected routes open up
+ */
+export const verifyMfaHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { code } = req.body;
+  const ipAddress = req.ip || 'unknown';
+  const userAgent = req.get('user-agent') || 'unknown';
+
+  let method;
+  try {
+    method = await verifyMfaCode(user.userId, code);
+  } catch (error) {
+    await logAuthEvent('mfa_failed', user.userId, ipAddress, userAgent, { step: 'step_up' });
+    throw error;
+  }
+
+  await setMfaSessionCookies(req, res);
+
+  await logAuthEvent('mfa_verified', user.userId, ipAddress, userAgent, {
+    step: 'step_up',
+    method,
+    sessionId: user.sessionId
+  });
+
+  res.json({
+    success: true,
+    data: { mfa: true, method },
+    message: 'Verification successful',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * DELETE /api/v1/auth/mfa
+ * Disable 2FA (only for roles not covered by the policy)
+ */
+export const disableMfaHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { code } = req.body;
+
+  await disableMfa(user.userId, user.role, code);
+
+  await logAuthEvent('mfa_disabled', user.userId, req.ip || 'unknown', req.get('user-agent') || 'unknown', {
+    sessionId: user.sessionId
+  });
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication disabled',
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/auth/mfa/recovery-codes
+ * Replace recovery codes (old ones stop working)
+ */
+export const regenerateRecoveryCodesHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { code } = req.body;
+
+  const recoveryCodes = await regenerateRecoveryCodes(user.userId, code);
+
+  await logAuthEvent('mfa_recovery_codes_regenerated', user.userId, req.ip || 'unknown', req.get('user-agent') || 'unknown', {});
+
+  res.json({
+    success: true,
+    data: { recoveryCodes },
+    message: 'New recovery codes generated',
+    timestamp: new Date().toISOString()
+  });
+});
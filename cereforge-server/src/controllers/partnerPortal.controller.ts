@@ -0,0 +1,44 @@
+// src/controllers/partnerPortal.controller.ts
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/errors';
+import logger from '../utils/logger';
+import { getMyPartner, updateMyPartner } from '../services/partnerPortal.service';
+
+/**
+ * GET /api/v1/partner/me
+ * Get the logged-in partner's own record
+ */
+export const getMyPartnerHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  logger.info(`Fetching own partner profile for: ${user.userId}`);
+
+  const result = await getMyPartner(user.userId);
+
+  res.json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * PATCH /api/v1/partner/me
+ * Update website, LinkedIn, profile photo or project brief
+ */
+export const updateMyPartnerHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Partner ${user.userId} updating own profile`);
+
+  const result = await updateMyPartner(user.userId, req.body, ipAddress);
+
+  res.json({
+    success: true,
+    data: result,
+    message: 'Profile updated successfully',
+    timestamp: new Date().toISOString(),
+  });
+});
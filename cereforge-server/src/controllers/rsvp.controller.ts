@@ -0,0 +1,42 @@
+// =====================================================
+// RSVP CONTROLLERS (public, token-authenticated)
+// =====================================================
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/errors';
+import logger from '../utils/logger';
+import { getInvitationByToken, respondToInvitation } from '../services/invitation.service';
+
+/**
+ * GET /api/v1/public/rsvp/:token
+ * Get invitation details for an RSVP link
+ */
+export const getInvitation = asyncHandler(async (req: Request, res: Response) => {
+  const invitation = await getInvitationByToken(req.params.token);
+
+  res.status(200).json({
+    success: true,
+    data: invitation,
+    timestamp: new Date().toISOString()
+  });
+});
+
+/**
+ * POST /api/v1/public/rsvp/:token
+ * Accept, decline or tentatively accept an invitation
+ */
+export const respondToRsvp = asyncHandler(async (req: Request, res: Response) => {
+  const ipAddress = req.ip || 'unknown';
+  const { response } = req.body;
+
+  logger.info(`RSVP response received: ${response}`);
+
+  const invitation = await respondToInvitation(req.params.token, response, ipAddress);
+
+  res.status(200).json({
+    success: true,
+    data: invitation,
+    message: 'Response recorded',
+    timestamp: new Date().toISOString()
+  });
+});
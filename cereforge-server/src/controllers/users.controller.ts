@@ -0,0 +1,225 @@
+// src/controllers/users.controller.ts
+
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/errors';
+import logger from '../utils/logger';
+import { unlockAccount } from '../services/accountSecurity.service';
+import { logAuthEvent } from '../services/audit.service';
+import {
+  getUsers,
+  getUserById,
+  createStaffUser,
+  updateUser,
+  changeUserRole,
+  updateUserStatus,
+  updateUserPermissions,
+} from '../services/users.service';
+import { PERMISSIONS, PERMISSION_KEYS, ROLE_DEFAULT_PERMISSIONS } from '../utils/permissions';
+import { UserStatus } from '../types/types';
+
+/**
+ * GET /api/v1/admin/users
+ * List system users with pagination and filters
+ */
+export const listUsers = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+
+  logger.info(`Fetching users for core: ${user.userId}`);
+
+  const result = await getUsers(req.query);
+
+  res.json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * GET /api/v1/admin/users/:id
+ * Get single user with staff details and session count
+ */
+export const getUser = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+
+  logger.info(`Fetching user ${id} for core: ${user.userId}`);
+
+  const result = await getUserById(id);
+
+  res.json({
+    success: true,
+    data: result,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * POST /api/v1/admin/users
+ * Create an admin / core account and send the invite email
+ */
+export const createUserHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Creating ${req.body.role} user by core: ${user.userId}`);
+
+  const result = await createStaffUser(req.body, { userId: user.userId, name: user.name, role: user.role }, ipAddress);
+
+  res.status(201).json({
+    success: true,
+    data: result,
+    message: result.inviteSent
+      ? 'User created and invitation sent'
+      : 'User created, but the invitation email could not be sent',
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * PUT /api/v1/admin/users/:id
+ * Update profile and staff details
+ */
+export const updateUserHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Updating user ${id} by core: ${user.userId}`);
+
+  const result = await updateUser(id, req.body, user.userId, ipAddress);
+
+  res.json({
+    success: true,
+    data: result,
+    message: 'User updated successfully',
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * PATCH /api/v1/admin/users/:id/role
+ * Switch a staff account between admin and core (signs the user out everywhere)
+ */
+export const updateUserRoleHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const { role, ...details } = req.body;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Changing role of user ${id} to ${role} by core: ${user.userId}`);
+
+  const result = await changeUserRole(id, role, details, user.userId, user.role, ipAddress);
+
+  res.json({
+    success: true,
+    data: result,
+    message: `Role changed to ${role}. ${result.revokedSessions} session(s) signed out`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * PATCH /api/v1/admin/users/:id/status
+ * Activate, suspend or deactivate an account
+ */
+export const updateUserStatusHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const { status, reason } = req.body;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Changing status of user ${id} to ${status} by core: ${user.userId}`);
+
+  const result = await updateUserStatus(id, status, user.userId, user.role, ipAddress, reason);
+
+  res.json({
+    success: true,
+    data: result,
+    message: `User ${status === UserStatus.ACTIVE ? 'reactivated' : status} successfully`,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * DELETE /api/v1/admin/users/:id
+ * Deactivate an account (users are never hard-deleted - audit history references them)
+ */
+export const deactivateUserHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Deactivating user ${id} by core: ${user.userId}`);
+
+  const result = await updateUserStatus(id, UserStatus.DEACTIVATED, user.userId, user.role, ipAddress);
+
+  res.json({
+    success: true,
+    data: result,
+    message: 'User deactivated successfully',
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * GET /api/v1/admin/permissions
+ * Permission catalog and what each role gets by default
+ */
+export const getPermissionCatalog = asyncHandler(async (_req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      permissions: PERMISSION_KEYS.map((key) => ({ key, description: PERMISSIONS[key] })),
+      roleDefaults: ROLE_DEFAULT_PERMISSIONS,
+    },
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * PUT /api/v1/admin/users/:id/permissions
+ * Replace a staff user's permission overrides
+ */
+export const updateUserPermissionsHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Updating permissions of user ${id} by: ${user.userId}`);
+
+  const result = await updateUserPermissions(id, req.body.overrides, user.userId, user.role, ipAddress);
+
+  res.json({
+    success: true,
+    data: result,
+    message: 'Permissions updated. They apply the next time the user\'s session refreshes',
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * DELETE /api/v1/admin/users/:id/lockout
+ * Clear a failed-login lockout for a user
+ */
+export const unlockUserHandler = asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const ipAddress = req.ip || 'unknown';
+
+  logger.info(`Clearing lockout for user ${id} by admin: ${user.userId}`);
+
+  const result = await unlockAccount(id);
+
+  await logAuthEvent('account_unlocked', id, ipAddress, req.get('user-agent') || 'unknown', {
+    unlockedBy: user.userId,
+    wasLocked: result.wasLocked
+  });
+
+  res.json({
+    success: true,
+    data: result,
+    message: result.wasLocked ? 'Account unlocked successfully' : 'Failed sign-in attempts cleared',
+    timestamp: new Date().toISOString(),
+  });
+});
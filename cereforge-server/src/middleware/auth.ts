@@ -5,6 +5,7 @@ import { Errors } from '../utils/errors';
 import supabase from '../config/database';
 import logger from '../utils/logger';
 import { SystemType, UserRole } from '../types/types';
+import { Permission } from '../utils/permissions';
 
 declare global {
   namespace Express {
@@ -16,11 +17,32 @@ declare global {
 
 /**
  * ✅ OPTIMIZED: JWT-first with minimal DB queries
+ * Rejects restricted sessions that still have to replace a temporary password
  */
 export async function authenticate(
   req: Request,
   _res: Response,
   next: NextFunction
+): Promise<void> {
+  return authenticateRequest(req, next, false);
+}
+
+/**
+ * Same as authenticate, but also admits restricted sessions
+ * Only for the routes a user needs to complete a forced password change
+ */
+export async function authenticateAllowingPasswordChange(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  return authenticateRequest(req, next, true);
+}
+
+async function authenticateRequest(
+  req: Request,
+  next: NextFunction,
+  allowPasswordChange: boolean
 ): Promise<void> {
   try {
     // 1. Get token from cookie (preferred) or Authorization header
@@ -48,18 +70,29 @@ export async function authenticate(
       throw Errors.invalidToken();
     }
 
-    // 3. ✅ Validate systemType exists in token
-    if (!payload.systemType) {
-      logger.warn(`Token missing systemType for user ${payload.userId}`);
+    // 3. ✅ Validate systemType and sessionId exist in token
+    if (!payload.systemType || !payload.sessionId) {
+      logger.warn(`Token missing systemType or sessionId for user ${payload.userId}`);
       throw Errors.invalidToken();
     }
 
-    // 4. ✅ OPTIMIZED: Single DB query for user validation (combined)
-    const { data: user, error: userError } = await supabase
-      .from('user_profiles')
-      .select('status, system_type')
-      .eq('id', payload.userId)
-      .single();
+    // 4. ✅ OPTIMIZED: User and session lookups run in parallel
+    const [
+      { data: user, error: userError },
+      { data: session, error: sessionError }
+    ] = await Promise.all([
+      supabase
+        .from('user_profiles')
+        .select('status, system_type, must_change_password')
+        .eq('id', payload.userId)
+        .single(),
+      supabase
+        .from('user_sessions')
+        .select('is_active, expires_at')
+        .eq('id', payload.sessionId)
+        .eq('user_id', payload.userId)
+        .maybeSingle()
+    ]);
 
     if (userError || !user) {
       logger.warn(`User ${payload.userId} not found in database`);
@@ -83,39 +116,31 @@ export async function authenticate(
       }
     }
 
-    // 7. ✅ OPTIONAL: Lightweight session check (async, non-blocking)
-    if (payload.sessionId) {
-      // Fire-and-forget session activity update
-      supabase
-        .from('user_sessions')
-        .select('is_active, expires_at')
-        .eq('id', payload.sessionId)
-        .eq('user_id', payload.userId)
-        .maybeSingle()
-        .then(({ data: session, error }) => {
-          if (!error && session) {
-            // Check if session is valid
-            if (!session.is_active || new Date(session.expires_at) < new Date()) {
-              logger.warn(`Invalid session ${payload.sessionId} for user ${payload.userId}`);
-              return;
-            }
-
-            // Update last activity (fire-and-forget)
-            supabase
-              .from('user_sessions')
-              .update({ last_activity: new Date().toISOString() })
-              .eq('id', payload.sessionId)
-              .then(({ error: updateError }) => {
-                if (updateError) {
-                  logger.warn('Failed to update session activity:', updateError);
-                }
-              });
-          }
-        });
-    }
-
-    // 8. ✅ Attach user payload to request (JWT is source of truth)
-    req.user = payload;
+    // 7. ✅ Restricted session: only the password change routes are reachable
+    if (user.must_change_password && !allowPasswordChange) {
+      logger.warn(`User ${payload.userId} must change password before accessing ${req.path}`);
+      throw Errors.passwordChangeRequired();
+    }
+
+    // 8. ✅ Session must still be active - revoked sessions are rejected immediately
+    if (sessionError || !session || !session.is_active || new Date(session.expires_at) < new Date()) {
+      logger.warn(`Rejected request on revoked or expired session ${payload.sessionId} for user ${payload.userId}`);
+      throw Errors.sessionTerminated();
+    }
+
+    // Update last activity (fire-and-forget)
+    supabase
+      .from('user_sessions')
+      .update({ last_activity: new Date().toISOString() })
+      .eq('id', payload.sessionId)
+      .then(({ error: updateError }) => {
+        if (updateError) {
+          logger.warn('Failed to update session activity:', updateError);
+        }
+      });
+
+    // 9. ✅ Attach user payload to request (JWT is source of truth, except the DB password-change flag)
+    req.user = { ...payload, mustChangePassword: !!user.must_change_password };
     
     next();
   } catch (error) {
@@ -123,10 +148,18 @@ export async function authenticate(
   }
 }
 
+export interface RequireRoleOptions {
+  requireMfa?: boolean; // Session must carry the mfa claim (sensitive admin actions)
+}
+
 /**
  * ✅ Check if user has required role(s) AND is SYSTEM_USER
+ * Pass { requireMfa: true } as the last argument to demand a 2FA-verified session
  */
-export function requireRole(...allowedRoles: UserRole[]) {
+export function requireRole(...args: Array<UserRole | RequireRoleOptions>) {
+  const allowedRoles = args.filter((arg): arg is UserRole => typeof arg === 'string');
+  const options = args.find((arg): arg is RequireRoleOptions => typeof arg === 'object') || {};
+
   return (req: Request, _res: Response, next: NextFunction): void => {
     try {
       if (!req.user) {
@@ -144,6 +177,11 @@ export function requireRole(...allowedRoles: UserRole[]) {
         throw Errors.insufficientPermissions();
       }
 
+      if (options.requireMfa && !req.user.mfa) {
+        logger.warn(`MFA required for user ${req.user.userId} on ${req.path}`);
+        throw Errors.mfaRequired();
+      }
+
       next();
     } catch (error) {
       next(error);
@@ -196,20 +234,36 @@ export function requireCommercialUser() {
 }
 
 /**
- * Check if user has specific permission
+ * ✅ Check the session's resolved permissions (role defaults + per-user overrides)
+ * Multiple permissions must all be held; { requireMfa: true } works as in requireRole
  */
-export function requirePermission(permission: string) {
+export function requirePermission(...args: Array<Permission | RequireRoleOptions>) {
+  const required = args.filter((arg): arg is Permission => typeof arg === 'string');
+  const options = args.find((arg): arg is RequireRoleOptions => typeof arg === 'object') || {};
+
   return (req: Request, _res: Response, next: NextFunction): void => {
     try {
       if (!req.user) {
         throw Errors.unauthorized();
       }
 
-      if (!req.user.permissions || !req.user.permissions[permission]) {
-        logger.warn(`Permission denied: ${permission} for user ${req.user.userId}`);
+      // SYSTEM_USERS ONLY
+      if (req.user.systemType !== SystemType.SYSTEM_USERS) {
+        logger.warn(`Non-system user ${req.user.userId} attempted system route`);
+        throw Errors.forbidden('This route is for system users only');
+      }
+
+      const missing = required.filter((permission) => !req.user!.permissions?.[permission]);
+      if (missing.length > 0) {
+        logger.warn(`Permission denied: ${missing.join(', ')} for user ${req.user.userId} on ${req.path}`);
         throw Errors.insufficientPermissions();
       }
 
+      if (options.requireMfa && !req.user.mfa) {
+        logger.warn(`MFA required for user ${req.user.userId} on ${req.path}`);
+        throw Errors.mfaRequired();
+      }
+
       next();
     } catch (error) {
       next(error);
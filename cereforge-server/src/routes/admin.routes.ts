@@ -12,7 +12,20 @@ import {
   updatePartnerHandler,
   updatePartnerStatusHandler,
 } from '../controllers/partners.controller';
-import { authenticate, requireRole } from '../middleware/auth';
+import {
+  listUsers,
+  getUser,
+  createUserHandler,
+  updateUserHandler,
+  updateUserRoleHandler,
+  updateUserStatusHandler,
+  deactivateUserHandler,
+  updateUserPermissionsHandler,
+  getPermissionCatalog,
+  unlockUserHandler,
+} from '../controllers/users.controller';
+import { listAuditLogs, exportAuditLogsHandler } from '../controllers/audit.controller';
+import { authenticate, requirePermission, requireRole } from '../middleware/auth';
 import { validateBody, validateQuery, validateParams } from '../middleware/validator';
 import { generalLimiter } from '../middleware/rateLimiter';
 import { 
@@ -21,6 +34,14 @@ import {
   getPartnersQuerySchema,
   updatePartnerSchema,
   updatePartnerStatusSchema,
+  getAuditLogsQuerySchema,
+  exportAuditLogsQuerySchema,
+  getUsersQuerySchema,
+  createUserSchema,
+  updateUserSchema,
+  updateUserRoleSchema,
+  updateUserStatusSchema,
+  updateUserPermissionsSchema,
 } from '../utils/validators';
 import { UserRole } from '../types/types';
 import { z } from 'zod';
@@ -28,7 +49,7 @@ import { z } from 'zod';
 const router = Router();
 
 // =====================================================
-// PARTNER APPLICATIONS ROUTES (Admin/Core only)
+// PARTNER APPLICATIONS ROUTES (partners.view / partners.approve)
 // =====================================================
 
 /**
@@ -38,7 +59,7 @@ const router = Router();
 router.get(
   '/partner-applications',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('partners.view'),
   generalLimiter,
   validateQuery(getPendingPartnersQuerySchema),
   listPartnerApplications
@@ -51,7 +72,7 @@ router.get(
 router.get(
   '/partner-applications/:id',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('partners.view'),
   generalLimiter,
   validateParams(z.object({ id: z.string().uuid() })),
   getPartnerApplication
@@ -70,7 +91,7 @@ router.get(
 router.patch(
   '/partner-applications/:id/status',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('partners.approve', { requireMfa: true }),
   generalLimiter,
   validateParams(z.object({ id: z.string().uuid() })),
   validateBody(updatePartnerApplicationStatusSchema),
@@ -78,7 +99,7 @@ router.patch(
 );
 
 // =====================================================
-// PARTNERS ROUTES (Admin/Core only)
+// PARTNERS ROUTES (partners.view / partners.edit / partners.status)
 // =====================================================
 
 /**
@@ -88,7 +109,7 @@ router.patch(
 router.get(
   '/partners',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('partners.view'),
   generalLimiter,
   validateQuery(getPartnersQuerySchema),
   listPartners
@@ -101,7 +122,7 @@ router.get(
 router.get(
   '/partners/:id',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('partners.view'),
   generalLimiter,
   validateParams(z.object({ id: z.string().uuid() })),
   getPartner
@@ -114,7 +135,7 @@ router.get(
 router.put(
   '/partners/:id',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('partners.edit'),
   generalLimiter,
   validateParams(z.object({ id: z.string().uuid() })),
   validateBody(updatePartnerSchema),
@@ -129,11 +150,194 @@ router.put(
 router.patch(
   '/partners/:id/status',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('partners.status', { requireMfa: true }),
   generalLimiter,
   validateParams(z.object({ id: z.string().uuid() })),
   validateBody(updatePartnerStatusSchema),
   updatePartnerStatusHandler
 );
 
+// =====================================================
+// USER MANAGEMENT ROUTES (core only, and users.manage)
+// =====================================================
+
+/**
+ * GET /api/v1/admin/permissions
+ * Permission catalog and role defaults
+ */
+router.get(
+  '/permissions',
+  authenticate,
+  requireRole(UserRole.CORE),
+  requirePermission('users.manage'),
+  generalLimiter,
+  getPermissionCatalog
+);
+
+/**
+ * GET /api/v1/admin/users
+ * List system users with filters
+ */
+router.get(
+  '/users',
+  authenticate,
+  requireRole(UserRole.CORE),
+  requirePermission('users.manage'),
+  generalLimiter,
+  validateQuery(getUsersQuerySchema),
+  listUsers
+);
+
+/**
+ * GET /api/v1/admin/users/:id
+ * Get single user by ID
+ */
+router.get(
+  '/users/:id',
+  authenticate,
+  requireRole(UserRole.CORE),
+  requirePermission('users.manage'),
+  generalLimiter,
+  validateParams(z.object({ id: z.string().uuid() })),
+  getUser
+);
+
+/**
+ * POST /api/v1/admin/users
+ * Create an admin / core account and email the invite
+ */
+router.post(
+  '/users',
+  authenticate,
+  requireRole(UserRole.CORE),
+  requirePermission('users.manage', { requireMfa: true }),
+  generalLimiter,
+  validateBody(createUserSchema),
+  createUserHandler
+);
+
+/**
+ * PUT /api/v1/admin/users/:id
+ * Update profile and staff details
+ */
+router.put(
+  '/users/:id',
+  authenticate,
+  requireRole(UserRole.CORE),
+  requirePermission('users.manage'),
+  generalLimiter,
+  validateParams(z.object({ id: z.string().uuid() })),
+  validateBody(updateUserSchema),
+  updateUserHandler
+);
+
+/**
+ * PATCH /api/v1/admin/users/:id/role
+ * Switch between admin and core - revokes the user's sessions
+ * Body: { "role": "core", "department": "Engineering" }
+ */
+router.patch(
+  '/users/:id/role',
+  authenticate,
+  requireRole(UserRole.CORE),
+  requirePermission('users.manage', { requireMfa: true }),
+  generalLimiter,
+  validateParams(z.object({ id: z.string().uuid() })),
+  validateBody(updateUserRoleSchema),
+  updateUserRoleHandler
+);
+
+/**
+ * PATCH /api/v1/admin/users/:id/status
+ * Activate, suspend or deactivate an account
+ * Body: { "status": "suspended", "reason": "..." }
+ */
+router.patch(
+  '/users/:id/status',
+  authenticate,
+  requireRole(UserRole.CORE),
+  requirePermission('users.manage', { requireMfa: true }),
+  generalLimiter,
+  validateParams(z.object({ id: z.string().uuid() })),
+  validateBody(updateUserStatusSchema),
+  updateUserStatusHandler
+);
+
+/**
+ * DELETE /api/v1/admin/users/:id
+ * Deactivate an account (soft delete)
+ */
+router.delete(
+  '/users/:id',
+  authenticate,
+  requireRole(UserRole.CORE),
+  requirePermission('users.manage', { requireMfa: true }),
+  generalLimiter,
+  validateParams(z.object({ id: z.string().uuid() })),
+  deactivateUserHandler
+);
+
+/**
+ * PUT /api/v1/admin/users/:id/permissions
+ * Replace a staff user's permission overrides (applied from their next token refresh)
+ * Body: { "overrides": { "audit.export": true } }
+ */
+router.put(
+  '/users/:id/permissions',
+  authenticate,
+  requireRole(UserRole.CORE),
+  requirePermission('users.manage', { requireMfa: true }),
+  generalLimiter,
+  validateParams(z.object({ id: z.string().uuid() })),
+  validateBody(updateUserPermissionsSchema),
+  updateUserPermissionsHandler
+);
+
+// =====================================================
+// USER ACCOUNT ROUTES (users.unlock)
+// =====================================================
+
+/**
+ * DELETE /api/v1/admin/users/:id/lockout
+ * Clear a failed-login lockout (and progressive backoff)
+ */
+router.delete(
+  '/users/:id/lockout',
+  authenticate,
+  requirePermission('users.unlock', { requireMfa: true }),
+  generalLimiter,
+  validateParams(z.object({ id: z.string().uuid() })),
+  unlockUserHandler
+);
+
+// =====================================================
+// AUDIT LOG ROUTES (audit.read / audit.export)
+// =====================================================
+
+/**
+ * GET /api/v1/admin/audit-logs
+ * Query: userId, action, entityType, entityId, riskLevel, from, to, cursor, limit, sortOrder
+ */
+router.get(
+  '/audit-logs',
+  authenticate,
+  requirePermission('audit.read'),
+  generalLimiter,
+  validateQuery(getAuditLogsQuerySchema),
+  listAuditLogs
+);
+
+/**
+ * GET /api/v1/admin/audit-logs/export
+ * Same filters as the list, plus format=csv|json
+ */
+router.get(
+  '/audit-logs/export',
+  authenticate,
+  requirePermission('audit.export'),
+  generalLimiter,
+  validateQuery(exportAuditLogsQuerySchema),
+  exportAuditLogsHandler
+);
+
 export default router;
\ No newline at end of file
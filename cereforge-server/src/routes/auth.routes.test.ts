@@ -0,0 +1,182 @@
+import express from 'express';
+import cookieParser from 'cookie-parser';
+import request from 'supertest';
+import authRoutes from './auth.routes';
+import { supabaseAdmin } from '../config/database';
+import { generateRefreshToken, hashToken } from '../utils/jwt';
+import { errorHandler, ErrorCode } from '../utils/errors';
+import { SystemType, UserRole } from '../types/types';
+
+// Same in-memory tables as auth.service.test.ts, so the route runs the real rotation
+jest.mock('../config/database', () => {
+  type Row = Record<string, any>;
+  const tables: Record<string, Row[]> = {};
+
+  class FakeQuery {
+    private filters: [string, unknown][] = [];
+    private patch: Row | null = null;
+
+    constructor(private readonly table: string) {}
+
+    select() {
+      return this;
+    }
+
+    update(values: Row) {
+      this.patch = values;
+      return this;
+    }
+
+    eq(column: string, value: unknown) {
+      this.filters.push([column, value]);
+      return this;
+    }
+
+    maybeSingle() {
+      return Promise.resolve({ data: this.run()[0] ?? null, error: null });
+    }
+
+    single() {
+      const row = this.run()[0];
+      return Promise.resolve(row ? { data: row, error: null } : { data: null, error: { message: 'No rows' } });
+    }
+
+    then<T>(resolve: (value: { data: Row[]; error: null }) => T, reject?: (reason: unknown) => T) {
+      return Promise.resolve({ data: this.run(), error: null }).then(resolve, reject);
+    }
+
+    private run(): Row[] {
+      const rows = (tables[this.table] ||= []).filter(row =>
+        this.filters.every(([column, value]) => row[column] === value)
+      );
+      if (this.patch) rows.forEach(row => Object.assign(row, this.patch));
+      return rows.map(row => ({ ...row }));
+    }
+  }
+
+  const client = { from: (table: string) => new FakeQuery(table), tables };
+  return { __esModule: true, default: client, supabase: client, supabaseAdmin: client, getFreshSupabase: () => client };
+});
+
+jest.mock('../services/audit.service', () => ({
+  createAuditLog: jest.fn(),
+  logAuthEvent: jest.fn()
+}));
+
+jest.mock('../services/email.service', () => ({}));
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const tables = (supabaseAdmin as any).tables as Record<string, Record<string, any>[]>;
+
+const USER_ID = 'user-1';
+const SESSION_ID = 'session-1';
+
+const app = express();
+app.use(cookieParser());
+app.use('/api/v1/auth', authRoutes);
+app.use(errorHandler);
+
+function refresh(refreshToken: string) {
+  return request(app)
+    .post('/api/v1/auth/refresh')
+    .set('Cookie', `refreshToken=${refreshToken}`);
+}
+
+// Set-Cookie values keyed by cookie name
+function cookies(res: request.Response): Record<string, string> {
+  const header = res.headers['set-cookie'] as unknown as string[] | undefined;
+  return Object.fromEntries((header ?? []).map(cookie => {
+    const [pair] = cookie.split(';');
+    const separator = pair.indexOf('=');
+    return [pair.slice(0, separator), cookie];
+  }));
+}
+
+function cookieValue(cookie: string): string {
+  return cookie.slice(cookie.indexOf('=') + 1, cookie.indexOf(';'));
+}
+
+function expectCleared(res: request.Response): void {
+  const set = cookies(res);
+  for (const name of ['authToken', 'refreshToken']) {
+    expect(cookieValue(set[name])).toBe('');
+    expect(set[name]).toContain('Expires=Thu, 01 Jan 1970');
+  }
+}
+
+describe('POST /api/v1/auth/refresh', () => {
+  let initialToken: string;
+
+  beforeEach(() => {
+    initialToken = generateRefreshToken({
+      userId: USER_ID,
+      email: 'partner@example.com',
+      name: 'Partner',
+      role: UserRole.PARTNER,
+      systemType: SystemType.SYSTEM_USERS,
+      sessionId: SESSION_ID,
+      mfa: false
+    });
+
+    tables.user_profiles = [{
+      id: USER_ID,
+      email: 'partner@example.com',
+      full_name: 'Partner',
+      role: UserRole.PARTNER,
+      system_type: SystemType.SYSTEM_USERS,
+      must_change_password: false
+    }];
+    tables.user_sessions = [{
+      id: SESSION_ID,
+      user_id: USER_ID,
+      is_active: true,
+      expires_at: new Date(Date.now() + 86400000).toISOString(),
+      refresh_token_hash: hashToken(initialToken),
+      previous_refresh_token_hash: null,
+      refresh_rotated_at: null,
+      last_activity: null,
+      revoked_reason: null
+    }];
+  });
+
+  it('sets a new access token and a rotated refresh token', async () => {
+    const res = await refresh(initialToken);
+
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+
+    const set = cookies(res);
+    expect(cookieValue(set.authToken)).not.toBe('');
+    expect(set.authToken).toContain('HttpOnly');
+
+    const rotated = cookieValue(set.refreshToken);
+    expect(rotated).not.toBe(initialToken);
+    expect(set.refreshToken).toContain('HttpOnly');
+    expect(tables.user_sessions[0].refresh_token_hash).toBe(hashToken(rotated));
+  });
+
+  it('clears both cookies when the refresh token is rejected', async () => {
+    const res = await refresh('not-a-token');
+
+    expect(res.status).toBe(401);
+    expect(res.body.success).toBe(false);
+    expectCleared(res);
+  });
+
+  it('answers a replayed refresh token with REFRESH_TOKEN_REUSED', async () => {
+    await refresh(initialToken).expect(200);
+    // Push the rotation out of the grace window
+    tables.user_sessions[0].refresh_rotated_at = new Date(Date.now() - 60 * 1000).toISOString();
+
+    const res = await refresh(initialToken);
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.code).toBe(ErrorCode.REFRESH_TOKEN_REUSED);
+    expect(tables.user_sessions[0].is_active).toBe(false);
+    expectCleared(res);
+  });
+});
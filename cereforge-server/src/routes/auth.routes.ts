@@ -1,21 +1,46 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import {
   verifyEmailHandler,
   loginHandler,
   logoutHandler,
   refreshTokenHandler,
-  getMeHandler // ✅ NEW
+  getMeHandler, // ✅ NEW
+  forgotPasswordHandler,
+  resetPasswordHandler,
+  changePasswordHandler,
+  listSessionsHandler,
+  revokeSessionHandler,
+  revokeOtherSessionsHandler,
+  mfaLoginHandler,
+  mfaLoginSetupHandler
 } from '../controllers/auth.controller';
-import { validateBody } from '../middleware/validator';
-import { authenticate } from '../middleware/auth';
+import {
+  getMfaStatusHandler,
+  startMfaEnrollmentHandler,
+  confirmMfaEnrollmentHandler,
+  verifyMfaHandler,
+  disableMfaHandler,
+  regenerateRecoveryCodesHandler
+} from '../controllers/mfa.controller';
+import { validateBody, validateParams } from '../middleware/validator';
+import { authenticate, authenticateAllowingPasswordChange } from '../middleware/auth';
 import {
   emailVerificationLimiter,
+  generalLimiter,
   loginLimiter,
+  passwordResetLimiter,
   tokenRefreshLimiterPerUser
 } from '../middleware/rateLimiter';
 import {
   verifyEmailSchema,
-  loginSchema
+  loginSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  changePasswordSchema,
+  mfaCodeSchema,
+  mfaLoginSchema,
+  mfaLoginSetupSchema
 } from '../utils/validators';
 
 const router = Router();
@@ -42,6 +67,28 @@ router.post(
   loginHandler
 );
 
+/**
+ * POST /api/v1/auth/login/mfa/setup
+ * First-time TOTP setup during login (roles that require 2FA)
+ */
+router.post(
+  '/login/mfa/setup',
+  loginLimiter,
+  validateBody(mfaLoginSetupSchema),
+  mfaLoginSetupHandler
+);
+
+/**
+ * POST /api/v1/auth/login/mfa
+ * Verify authenticator / recovery code (Step 3 of Smart Login)
+ */
+router.post(
+  '/login/mfa',
+  loginLimiter,
+  validateBody(mfaLoginSchema),
+  mfaLoginHandler
+);
+
 /**
  * GET /api/v1/auth/me
  * ⚡ FAST: Check if current session is valid
@@ -49,7 +96,7 @@ router.post(
  */
 router.get(
   '/me',
-  authenticate, // ✅ Validates JWT + session
+  authenticateAllowingPasswordChange, // ✅ Validates JWT + session (restricted sessions allowed)
   getMeHandler
 );
 
@@ -59,7 +106,7 @@ router.get(
  */
 router.post(
   '/logout',
-  authenticate,
+  authenticateAllowingPasswordChange,
   logoutHandler
 );
 
@@ -73,4 +120,142 @@ router.post(
   refreshTokenHandler
 );
 
+/**
+ * POST /api/v1/auth/forgot-password
+ * Request a password reset email
+ */
+router.post(
+  '/forgot-password',
+  passwordResetLimiter,
+  validateBody(forgotPasswordSchema),
+  forgotPasswordHandler
+);
+
+/**
+ * POST /api/v1/auth/reset-password
+ * Reset password with a token from the reset email
+ */
+router.post(
+  '/reset-password',
+  passwordResetLimiter,
+  validateBody(resetPasswordSchema),
+  resetPasswordHandler
+);
+
+/**
+ * POST /api/v1/auth/change-password
+ * Change password (the only action available to a restricted session)
+ */
+router.post(
+  '/change-password',
+  authenticateAllowingPasswordChange,
+  passwordResetLimiter,
+  validateBody(changePasswordSchema),
+  changePasswordHandler
+);
+
+/**
+ * GET /api/v1/auth/sessions
+ * List my active sessions / devices
+ */
+router.get(
+  '/sessions',
+  authenticate,
+  generalLimiter,
+  listSessionsHandler
+);
+
+/**
+ * DELETE /api/v1/auth/sessions
+ * Sign out everywhere else (keeps the current session)
+ */
+router.delete(
+  '/sessions',
+  authenticate,
+  generalLimiter,
+  revokeOtherSessionsHandler
+);
+
+/**
+ * DELETE /api/v1/auth/sessions/:id
+ * Sign out a specific device
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  generalLimiter,
+  validateParams(z.object({ id: z.string().uuid() })),
+  revokeSessionHandler
+);
+
+/**
+ * GET /api/v1/auth/mfa
+ * Two-factor status for the current user
+ */
+router.get(
+  '/mfa',
+  authenticate,
+  generalLimiter,
+  getMfaStatusHandler
+);
+
+/**
+ * POST /api/v1/auth/mfa/enroll
+ * Start TOTP enrollment (QR code + secret)
+ */
+router.post(
+  '/mfa/enroll',
+  authenticate,
+  generalLimiter,
+  startMfaEnrollmentHandler
+);
+
+/**
+ * POST /api/v1/auth/mfa/enroll/confirm
+ * Confirm enrollment with a code, returns recovery codes
+ */
+router.post(
+  '/mfa/enroll/confirm',
+  authenticate,
+  loginLimiter,
+  validateBody(mfaCodeSchema),
+  confirmMfaEnrollmentHandler
+);
+
+/**
+ * POST /api/v1/auth/mfa/verify
+ * Step-up verification for the current session
+ */
+router.post(
+  '/mfa/verify',
+  authenticate,
+  loginLimiter,
+  validateBody(mfaCodeSchema),
+  verifyMfaHandler
+);
+
+/**
+ * POST /api/v1/auth/mfa/recovery-codes
+ * Regenerate recovery codes
+ */
+router.post(
+  '/mfa/recovery-codes',
+  authenticate,
+  loginLimiter,
+  validateBody(mfaCodeSchema),
+  regenerateRecoveryCodesHandler
+);
+
+/**
+ * DELETE /api/v1/auth/mfa
+ * Disable two-factor authentication
+ */
+router.delete(
+  '/mfa',
+  authenticate,
+  loginLimiter,
+  validateBody(mfaCodeSchema),
+  disableMfaHandler
+);
+
 export default router;
\ No newline at end of file
@@ -11,23 +11,52 @@ import {
   getEvent,
   updateEvent,
   deleteEvent,
+  exportCalendar,
+  importCalendar,
+  getAvailability,
   getPublicHolidays,
   createHoliday,
   updateHoliday,
   deleteHoliday
 } from '../controllers/calendar.controller';
-import { authenticate, requireRole } from '../middleware/auth';
-import { validateBody, validateQuery } from '../middleware/validator';
+import {
+  getFeed,
+  regenerateFeed,
+  updateFeed,
+  revokeFeed,
+  serveFeed
+} from '../controllers/calendarFeed.controller';
+import {
+  getCalendars,
+  createSharedCalendar,
+  updateSharedCalendar,
+  deleteSharedCalendar,
+  getMembers,
+  addMember,
+  updateMember,
+  removeMember
+} from '../controllers/calendarSharing.controller';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { validateBody, validateQuery, validateParams } from '../middleware/validator';
 import { generalLimiter } from '../middleware/rateLimiter';
 import {
   createCalendarEventSchema,
   updateCalendarEventSchema,
   getEventsQuerySchema,
   deleteEventQuerySchema,
+  exportCalendarQuerySchema,
+  importCalendarSchema,
+  freeBusySchema,
+  calendarFeedOptionsSchema,
+  calendarFeedParamsSchema,
+  createCalendarSchema,
+  updateCalendarSchema,
+  addCalendarMemberSchema,
+  updateCalendarMemberSchema,
+  calendarParamsSchema,
   createPublicHolidaySchema,
   getPublicHolidaysQuerySchema
 } from '../utils/validators';
-import { UserRole } from '../types/types';
 
 const router = Router();
 
@@ -51,7 +80,8 @@ router.get(
 /**
  * POST /api/v1/calendar/events
  * Create new calendar event
- * Body: { title, startTime, endTime, recurrence, guests[], ... }
+ * Body: { title, startTime, endTime, recurrence, guests[], calendarId?, force?, ... }
+ * 409 CONFLICT lists overlapping events unless force is set
  */
 router.post(
   '/events',
@@ -74,8 +104,9 @@ router.get(
 
 /**
  * PUT /api/v1/calendar/events/:id
- * Update calendar event
- * Body: Partial event data
+ * Update calendar event (own events, or any in a calendar shared with edit access)
+ * Body: Partial event data, plus scope + instanceStart for recurring events, calendarId to move it
+ * 409 CONFLICT lists overlapping events when the times move, unless force is set
  */
 router.put(
   '/events/:id',
@@ -88,7 +119,7 @@ router.put(
 /**
  * DELETE /api/v1/calendar/events/:id
  * Delete calendar event
- * Query param: deleteType ('single' | 'thisAndFuture' | 'all')
+ * Query param: deleteType ('single' | 'thisAndFuture' | 'all'), instanceStart (occurrence start)
  */
 router.delete(
   '/events/:id',
@@ -98,6 +129,222 @@ router.delete(
   deleteEvent
 );
 
+// =====================================================
+// SHARED CALENDARS
+// =====================================================
+
+/**
+ * GET /api/v1/calendar/calendars
+ * Calendars the user owns or has been shared (personal one created on first call)
+ */
+router.get(
+  '/calendars',
+  authenticate,
+  generalLimiter,
+  getCalendars
+);
+
+/**
+ * POST /api/v1/calendar/calendars
+ * Create a team or partner-project calendar
+ * Body: { name, description?, type, color, partnerId? }
+ */
+router.post(
+  '/calendars',
+  authenticate,
+  generalLimiter,
+  validateBody(createCalendarSchema),
+  createSharedCalendar
+);
+
+/**
+ * PATCH /api/v1/calendar/calendars/:id
+ * Update calendar settings (owner only)
+ * Body: { name?, description?, color? }
+ */
+router.patch(
+  '/calendars/:id',
+  authenticate,
+  generalLimiter,
+  validateParams(calendarParamsSchema),
+  validateBody(updateCalendarSchema),
+  updateSharedCalendar
+);
+
+/**
+ * DELETE /api/v1/calendar/calendars/:id
+ * Delete a team or partner-project calendar with its events (owner only)
+ */
+router.delete(
+  '/calendars/:id',
+  authenticate,
+  generalLimiter,
+  validateParams(calendarParamsSchema),
+  deleteSharedCalendar
+);
+
+/**
+ * GET /api/v1/calendar/calendars/:id/members
+ * List members and their permissions (owner only)
+ */
+router.get(
+  '/calendars/:id/members',
+  authenticate,
+  generalLimiter,
+  validateParams(calendarParamsSchema),
+  getMembers
+);
+
+/**
+ * POST /api/v1/calendar/calendars/:id/members
+ * Share the calendar
+ * Body: { email, permission: 'freebusy' | 'read' | 'edit' }
+ */
+router.post(
+  '/calendars/:id/members',
+  authenticate,
+  generalLimiter,
+  validateParams(calendarParamsSchema),
+  validateBody(addCalendarMemberSchema),
+  addMember
+);
+
+/**
+ * PATCH /api/v1/calendar/calendars/:id/members/:userId
+ * Change a member's permission (owner only)
+ * Body: { permission }
+ */
+router.patch(
+  '/calendars/:id/members/:userId',
+  authenticate,
+  generalLimiter,
+  validateParams(calendarParamsSchema),
+  validateBody(updateCalendarMemberSchema),
+  updateMember
+);
+
+/**
+ * DELETE /api/v1/calendar/calendars/:id/members/:userId
+ * Remove a member; members can remove themselves to leave
+ */
+router.delete(
+  '/calendars/:id/members/:userId',
+  authenticate,
+  generalLimiter,
+  validateParams(calendarParamsSchema),
+  removeMember
+);
+
+// =====================================================
+// ICS IMPORT / EXPORT
+// =====================================================
+
+/**
+ * GET /api/v1/calendar/export.ics
+ * Download events as an iCalendar file
+ * Query params: start, end (optional ISO 8601 bounds)
+ */
+router.get(
+  '/export.ics',
+  authenticate,
+  generalLimiter,
+  validateQuery(exportCalendarQuerySchema),
+  exportCalendar
+);
+
+/**
+ * POST /api/v1/calendar/import
+ * Import an .ics file
+ * Body: { ics, dryRun, timezone?, label? }
+ */
+router.post(
+  '/import',
+  authenticate,
+  generalLimiter,
+  validateBody(importCalendarSchema),
+  importCalendar
+);
+
+// =====================================================
+// FREE/BUSY
+// =====================================================
+
+/**
+ * POST /api/v1/calendar/freebusy
+ * Busy intervals for internal users (no event details) and free slots
+ * Body: { emails[], start, end, timezone?, durationMinutes?, workingHours?, holidayCountry? }
+ */
+router.post(
+  '/freebusy',
+  authenticate,
+  generalLimiter,
+  validateBody(freeBusySchema),
+  getAvailability
+);
+
+// =====================================================
+// PRIVATE ICAL FEED
+// =====================================================
+
+/**
+ * GET /api/v1/calendar/feed
+ * Get private feed settings
+ */
+router.get(
+  '/feed',
+  authenticate,
+  generalLimiter,
+  getFeed
+);
+
+/**
+ * POST /api/v1/calendar/feed
+ * Create the feed or regenerate its secret URL
+ * Body: { includeHolidays, holidayCountry? }
+ */
+router.post(
+  '/feed',
+  authenticate,
+  generalLimiter,
+  validateBody(calendarFeedOptionsSchema),
+  regenerateFeed
+);
+
+/**
+ * PATCH /api/v1/calendar/feed
+ * Update feed options, keeping the URL
+ * Body: { includeHolidays, holidayCountry? }
+ */
+router.patch(
+  '/feed',
+  authenticate,
+  generalLimiter,
+  validateBody(calendarFeedOptionsSchema),
+  updateFeed
+);
+
+/**
+ * DELETE /api/v1/calendar/feed
+ * Revoke the feed URL
+ */
+router.delete(
+  '/feed',
+  authenticate,
+  generalLimiter,
+  revokeFeed
+);
+
+/**
+ * GET /api/v1/calendar/feeds/:token.ics
+ * iCalendar subscription feed (no session; the secret token authenticates)
+ */
+router.get(
+  '/feeds/:token.ics',
+  generalLimiter,
+  validateParams(calendarFeedParamsSchema),
+  serveFeed
+);
+
 // =====================================================
 // PUBLIC HOLIDAYS ROUTES
 // =====================================================
@@ -117,13 +364,13 @@ router.get(
 
 /**
  * POST /api/v1/calendar/public-holidays
- * Create public holiday (Admin/Core only)
+ * Create public holiday (holidays.manage)
  * Body: { title, holidayDate, isRecurring, countries[] }
  */
 router.post(
   '/public-holidays',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('holidays.manage'),
   generalLimiter,
   validateBody(createPublicHolidaySchema),
   createHoliday
@@ -131,13 +378,13 @@ router.post(
 
 /**
  * PUT /api/v1/calendar/public-holidays/:id
- * Update public holiday (Admin/Core only)
+ * Update public holiday (holidays.manage)
  * Body: Partial holiday data
  */
 router.put(
   '/public-holidays/:id',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('holidays.manage'),
   generalLimiter,
   validateBody(createPublicHolidaySchema.partial()),
   updateHoliday
@@ -145,12 +392,12 @@ router.put(
 
 /**
  * DELETE /api/v1/calendar/public-holidays/:id
- * Delete public holiday (Admin/Core only)
+ * Delete public holiday (holidays.manage)
  */
 router.delete(
   '/public-holidays/:id',
   authenticate,
-  requireRole(UserRole.ADMIN, UserRole.CORE),
+  requirePermission('holidays.manage'),
   generalLimiter,
   deleteHoliday
 );
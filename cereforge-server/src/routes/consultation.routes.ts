@@ -0,0 +1,135 @@
+// src/routes/consultation.routes.ts
+// =====================================================
+// CONSULTATION BOOKING TYPE ROUTES
+// =====================================================
+
+import { Router } from 'express';
+import {
+  getConsultations,
+  getConsultation,
+  createConsultation,
+  updateConsultation,
+  deleteConsultation,
+  regenerateLink,
+  revokeLink
+} from '../controllers/consultation.controller';
+import { authenticate } from '../middleware/auth';
+import { validateBody, validateParams } from '../middleware/validator';
+import { generalLimiter } from '../middleware/rateLimiter';
+import {
+  createConsultationTypeSchema,
+  updateConsultationTypeSchema,
+  consultationParamsSchema
+} from '../utils/validators';
+
+const router = Router();
+
+/**
+ * GET /api/v1/consultations
+ * Own consultation types; admin/core also get the system bookings
+ */
+router.get(
+  '/',
+  authenticate,
+  generalLimiter,
+  getConsultations
+);
+
+/**
+ * POST /api/v1/consultations
+ * Create a consultation type (max 2 per user; system bookings admin/core only)
+ * Body: { consultationType, companyName, description, durationMinutes, bufferHours, timezone, schedule, isActive, isSystemBooking }
+ */
+router.post(
+  '/',
+  authenticate,
+  generalLimiter,
+  validateBody(createConsultationTypeSchema),
+  createConsultation
+);
+
+/**
+ * POST /api/v1/consultations/system/link
+ * Regenerate the shared system booking link (admin/core)
+ */
+router.post(
+  '/system/link',
+  authenticate,
+  generalLimiter,
+  regenerateLink
+);
+
+/**
+ * DELETE /api/v1/consultations/system/link
+ * Revoke the shared system booking link (admin/core)
+ */
+router.delete(
+  '/system/link',
+  authenticate,
+  generalLimiter,
+  revokeLink
+);
+
+/**
+ * GET /api/v1/consultations/:id
+ * Get a consultation type
+ */
+router.get(
+  '/:id',
+  authenticate,
+  generalLimiter,
+  validateParams(consultationParamsSchema),
+  getConsultation
+);
+
+/**
+ * PATCH /api/v1/consultations/:id
+ * Update a consultation type
+ * Body: Partial consultation data (isActive to pause or resume)
+ */
+router.patch(
+  '/:id',
+  authenticate,
+  generalLimiter,
+  validateParams(consultationParamsSchema),
+  validateBody(updateConsultationTypeSchema),
+  updateConsultation
+);
+
+/**
+ * DELETE /api/v1/consultations/:id
+ * Delete a consultation type
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  generalLimiter,
+  validateParams(consultationParamsSchema),
+  deleteConsultation
+);
+
+/**
+ * POST /api/v1/consultations/:id/link
+ * Regenerate a consultation's booking link (creates it if revoked)
+ */
+router.post(
+  '/:id/link',
+  authenticate,
+  generalLimiter,
+  validateParams(consultationParamsSchema),
+  regenerateLink
+);
+
+/**
+ * DELETE /api/v1/consultations/:id/link
+ * Revoke a consultation's booking link
+ */
+router.delete(
+  '/:id/link',
+  authenticate,
+  generalLimiter,
+  validateParams(consultationParamsSchema),
+  revokeLink
+);
+
+export default router;
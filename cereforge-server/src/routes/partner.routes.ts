@@ -0,0 +1,42 @@
+// src/routes/partner.routes.ts
+
+import { Router } from 'express';
+import { getMyPartnerHandler, updateMyPartnerHandler } from '../controllers/partnerPortal.controller';
+import { authenticate, requireRole } from '../middleware/auth';
+import { validateBody } from '../middleware/validator';
+import { generalLimiter } from '../middleware/rateLimiter';
+import { updateMyPartnerSchema } from '../utils/validators';
+import { UserRole } from '../types/types';
+
+const router = Router();
+
+// ==========================================
+// PARTNER SELF-SERVICE ROUTES (partner only)
+// ==========================================
+
+/**
+ * GET /api/v1/partner/me
+ * Own partner record, assigned contacts and signed document links
+ */
+router.get(
+  '/me',
+  authenticate,
+  requireRole(UserRole.PARTNER),
+  generalLimiter,
+  getMyPartnerHandler
+);
+
+/**
+ * PATCH /api/v1/partner/me
+ * Update website, LinkedIn, profile photo or project brief
+ */
+router.patch(
+  '/me',
+  authenticate,
+  requireRole(UserRole.PARTNER),
+  generalLimiter,
+  validateBody(updateMyPartnerSchema),
+  updateMyPartnerHandler
+);
+
+export default router;
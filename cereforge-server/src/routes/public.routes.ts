@@ -1,8 +1,28 @@
 import { Router } from 'express';
 import { submitGetStartedForm } from '../controllers/getStarted.controller';
-import { validateBody } from '../middleware/validator';
+import { getInvitation, respondToRsvp } from '../controllers/rsvp.controller';
+import {
+  getBookingConfig,
+  getBookingSlots,
+  bookConsultationSlot,
+  getBookingForManage,
+  getBookingRescheduleSlots,
+  rescheduleBookingSlot,
+  cancelBookingSlot
+} from '../controllers/booking.controller';
+import { validateBody, validateParams, validateQuery } from '../middleware/validator';
 import { generalLimiter } from '../middleware/rateLimiter';
-import { getStartedSchema } from '../utils/validators';
+import {
+  getStartedSchema,
+  rsvpTokenParamsSchema,
+  rsvpResponseSchema,
+  bookingLinkParamsSchema,
+  bookingSlotsQuerySchema,
+  bookConsultationSchema,
+  bookingManageParamsSchema,
+  rescheduleBookingSchema,
+  cancelBookingSchema
+} from '../utils/validators';
 
 const router = Router();
 
@@ -17,4 +37,116 @@ router.post(
   submitGetStartedForm
 );
 
+/**
+ * GET /api/v1/public/rsvp/:token
+ * Get invitation details for a guest's RSVP link
+ */
+router.get(
+  '/rsvp/:token',
+  generalLimiter,
+  validateParams(rsvpTokenParamsSchema),
+  getInvitation
+);
+
+/**
+ * POST /api/v1/public/rsvp/:token
+ * Record a guest's response (accepted | declined | maybe)
+ */
+router.post(
+  '/rsvp/:token',
+  generalLimiter,
+  validateParams(rsvpTokenParamsSchema),
+  validateBody(rsvpResponseSchema),
+  respondToRsvp
+);
+
+// Manage routes first so /booking/:id/... never swallows them
+
+/**
+ * GET /api/v1/public/booking/manage/:token
+ * Booking details for the booker's manage page
+ */
+router.get(
+  '/booking/manage/:token',
+  generalLimiter,
+  validateParams(bookingManageParamsSchema),
+  getBookingForManage
+);
+
+/**
+ * GET /api/v1/public/booking/manage/:token/slots
+ * Open times to reschedule to
+ * Query: from, to (ISO), tz (booker's timezone)
+ */
+router.get(
+  '/booking/manage/:token/slots',
+  generalLimiter,
+  validateParams(bookingManageParamsSchema),
+  validateQuery(bookingSlotsQuerySchema),
+  getBookingRescheduleSlots
+);
+
+/**
+ * POST /api/v1/public/booking/manage/:token/reschedule
+ * Move the booking; the owner is emailed
+ * Body: start (ISO), timezone
+ */
+router.post(
+  '/booking/manage/:token/reschedule',
+  generalLimiter,
+  validateParams(bookingManageParamsSchema),
+  validateBody(rescheduleBookingSchema),
+  rescheduleBookingSlot
+);
+
+/**
+ * POST /api/v1/public/booking/manage/:token/cancel
+ * Cancel the booking; the owner is emailed
+ * Body: reason
+ */
+router.post(
+  '/booking/manage/:token/cancel',
+  generalLimiter,
+  validateParams(bookingManageParamsSchema),
+  validateBody(cancelBookingSchema),
+  cancelBookingSlot
+);
+
+/**
+ * GET /api/v1/public/booking/:id
+ * Resolve a booking link (uniqueId) to its consultation's availability
+ */
+router.get(
+  '/booking/:id',
+  generalLimiter,
+  validateParams(bookingLinkParamsSchema),
+  getBookingConfig
+);
+
+/**
+ * GET /api/v1/public/booking/:id/slots
+ * Open times for a booking link
+ * Query: from, to (ISO), tz (booker's timezone), type (consultation id on the system link)
+ */
+router.get(
+  '/booking/:id/slots',
+  generalLimiter,
+  validateParams(bookingLinkParamsSchema),
+  validateQuery(bookingSlotsQuerySchema),
+  getBookingSlots
+);
+
+/**
+ * POST /api/v1/public/booking/:id/book
+ * Book a slot; creates the event on the owner's calendar and emails both sides
+ * Body: start (ISO), type (consultation id on the system link), name, email, company, projectDescription, timezone
+ */
+router.post(
+  '/booking/:id/book',
+  generalLimiter,
+  validateParams(bookingLinkParamsSchema),
+  validateBody(bookConsultationSchema),
+  bookConsultationSlot
+);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,276 @@
+import { supabaseAdmin } from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
+import { DeviceInfo } from '../utils/userAgent';
+import { logAuthEvent } from './audit.service';
+import { sendNewSignInEmail } from './email.service';
+import logger from '../utils/logger';
+
+/**
+ * Progressive lockout: after MAX_FAILED_ATTEMPTS failures the account locks for
+ * BASE_LOCKOUT_MINUTES, doubling for each lockout since the last successful login
+ */
+const MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10);
+const BASE_LOCKOUT_MINUTES = 15;
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+
+// Compare-and-swap attempts on the failure counter before giving up
+const MAX_COUNTER_RETRIES = 5;
+
+export type LoginAnomaly = 'new_device' | 'new_country';
+
+export interface SignInContext {
+  device: DeviceInfo;
+  ipAddress: string;
+  userAgent: string;
+  country: string | null;
+}
+
+/**
+ * Lockout duration for the Nth lockout (0-based)
+ */
+function lockoutMinutes(lockoutCount: number): number {
+  return Math.min(BASE_LOCKOUT_MINUTES * 2 ** lockoutCount, MAX_LOCKOUT_MINUTES);
+}
+
+/**
+ * Profiles store emails lowercased; match however the address was typed
+ */
+async function findAccountByEmail(email: string) {
+  const { data, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, failed_login_attempts, lockout_count, locked_until')
+    .eq('email', email.trim().toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Failed to load lockout state for ${email}:`, error);
+    throw Errors.database('Failed to verify account status');
+  }
+
+  return data;
+}
+
+/**
+ * Reject sign-in while the account is locked (checked before the password)
+ */
+export async function assertAccountNotLocked(email: string): Promise<void> {
+  const account = await findAccountByEmail(email);
+
+  if (account?.locked_until && new Date(account.locked_until) > new Date()) {
+    throw Errors.accountLocked(account.locked_until);
+  }
+}
+
+/**
+ * Count a failed password / 2FA attempt against the account
+ * The counter is bumped with a compare-and-swap on its previous value, so
+ * concurrent failures each count once; a lost race re-reads and tries again.
+ * Returns the lock expiry when this failure locked the account, otherwise null
+ */
+export async function recordFailedLogin(
+  email: string,
+  ipAddress: string,
+  userAgent: string,
+  step: 'password' | 'mfa' = 'password'
+): Promise<string | null> {
+  try {
+    for (let retry = 0; retry < MAX_COUNTER_RETRIES; retry++) {
+      const account = await findAccountByEmail(email);
+
+      // Unknown email - nothing to lock (loginLimiter still applies per IP)
+      if (!account) return null;
+
+      const previous: number | null = account.failed_login_attempts;
+      const attempts = (previous || 0) + 1;
+      const now = new Date();
+      const locking = attempts >= MAX_FAILED_ATTEMPTS;
+
+      const lockoutCount = account.lockout_count || 0;
+      const minutes = lockoutMinutes(lockoutCount);
+      const lockedUntil = new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+
+      const update = supabaseAdmin
+        .from('user_profiles')
+        .update(locking
+          ? {
+            failed_login_attempts: 0,
+            lockout_count: lockoutCount + 1,
+            locked_until: lockedUntil,
+            last_failed_login: now.toISOString()
+          }
+          : { failed_login_attempts: attempts, last_failed_login: now.toISOString() })
+        .eq('id', account.id);
+
+      const { data: updated, error } = await (previous === null
+        ? update.is('failed_login_attempts', null)
+        : update.eq('failed_login_attempts', previous)
+      ).select('id').maybeSingle();
+
+      if (error) {
+        logger.error(`Failed to record failed login for ${email}:`, error);
+        return null;
+      }
+
+      // Another failure moved the counter first - count on top of it
+      if (!updated) continue;
+
+      if (!locking) return null;
+
+      logger.warn(`Account ${email} locked for ${minutes} minutes after ${attempts} failed attempts`);
+
+      await logAuthEvent('account_locked', account.id, ipAddress, userAgent, {
+        email,
+        step,
+        failedAttempts: attempts,
+        lockoutNumber: lockoutCount + 1,
+        lockoutMinutes: minutes,
+        lockedUntil
+      });
+
+      return lockedUntil;
+    }
+
+    logger.warn(`Gave up counting a failed login for ${email} after ${MAX_COUNTER_RETRIES} concurrent updates`);
+    return null;
+  } catch (error) {
+    // Never turn a failed login into a 500 because the counter couldn't be updated
+    logger.error('Failed to record failed login:', error);
+    return null;
+  }
+}
+
+/**
+ * Clear the counters after a completed sign-in
+ */
+export async function resetFailedLogins(profile: {
+  id: string;
+  failed_login_attempts?: number | null;
+  lockout_count?: number | null;
+}): Promise<void> {
+  if (!profile.failed_login_attempts && !profile.lockout_count) return;
+
+  const { error } = await supabaseAdmin
+    .from('user_profiles')
+    .update({ failed_login_attempts: 0, lockout_count: 0, locked_until: null })
+    .eq('id', profile.id);
+
+  if (error) {
+    logger.error(`Failed to reset failed logins for user ${profile.id}:`, error);
+  }
+}
+
+/**
+ * Admin: clear a lockout (and the progressive backoff) for a user
+ */
+export async function unlockAccount(userId: string): Promise<{ wasLocked: boolean }> {
+  try {
+    const { data: account, error: fetchError } = await supabaseAdmin
+      .from('user_profiles')
+      .select('id, locked_until')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      logger.error(`Failed to load user ${userId} for unlock:`, fetchError);
+      throw Errors.database('Failed to fetch user');
+    }
+
+    if (!account) {
+      throw Errors.notFound('User');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('user_profiles')
+      .update({ failed_login_attempts: 0, lockout_count: 0, locked_until: null })
+      .eq('id', userId);
+
+    if (error) {
+      logger.error(`Failed to unlock user ${userId}:`, error);
+      throw Errors.database('Failed to unlock account');
+    }
+
+    const wasLocked = !!account.locked_until && new Date(account.locked_until) > new Date();
+    logger.info(`Lockout cleared for user ${userId} (was locked: ${wasLocked})`);
+
+    return { wasLocked };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Failed to unlock account:', error);
+    throw Errors.internal('Failed to unlock account');
+  }
+}
+
+/**
+ * Compare a sign-in against the user's previous sessions
+ * First-ever sign-in has nothing to compare against and is never flagged
+ */
+export async function detectLoginAnomalies(
+  userId: string,
+  device: DeviceInfo,
+  country: string | null
+): Promise<LoginAnomaly[]> {
+  const { data: previous, error } = await supabaseAdmin
+    .from('user_sessions')
+    .select('device_type, browser, os, country')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    logger.error(`Failed to load session history for user ${userId}:`, error);
+    return [];
+  }
+
+  if (!previous || previous.length === 0) return [];
+
+  const anomalies: LoginAnomaly[] = [];
+
+  const knownDevice = previous.some((session) =>
+    session.device_type === device.deviceType &&
+    session.browser === device.browser &&
+    session.os === device.os
+  );
+  if (!knownDevice) anomalies.push('new_device');
+
+  const knownCountries = previous.map((session) => session.country).filter(Boolean);
+  if (country && knownCountries.length > 0 && !knownCountries.includes(country)) {
+    anomalies.push('new_country');
+  }
+
+  return anomalies;
+}
+
+/**
+ * Record the anomaly and email the account owner
+ * Called without awaiting - a slow mail provider must not hold up the login
+ */
+export async function reportSuspiciousLogin(
+  profile: { id: string; email: string; full_name: string },
+  sessionId: string,
+  anomalies: LoginAnomaly[],
+  context: SignInContext
+): Promise<void> {
+  await logAuthEvent('suspicious_login', profile.id, context.ipAddress, context.userAgent, {
+    email: profile.email,
+    sessionId,
+    anomalies,
+    country: context.country,
+    deviceType: context.device.deviceType,
+    browser: context.device.browser,
+    os: context.device.os
+  });
+
+  await sendNewSignInEmail(
+    profile.email,
+    profile.full_name,
+    {
+      browser: context.device.browser,
+      os: context.device.os,
+      ipAddress: context.ipAddress,
+      country: context.country,
+      time: new Date().toISOString(),
+      reasons: anomalies
+    },
+    profile.id
+  );
+}
@@ -6,6 +6,7 @@
 
 import { createAuditLog } from './audit.service';
 import logger from '../utils/logger';
+import { GuestResponseStatus } from '../types/calendar.types';
 
 /**
  * Log calendar event created
@@ -43,6 +44,8 @@ export async function logCalendarEventUpdated(
     title?: string;
     fieldsUpdated: string[];
     isRecurringUpdate: boolean;
+    scope?: 'single' | 'thisAndFuture' | 'all';
+    instanceStart?: string;
   }
 ): Promise<void> {
   await createAuditLog({
@@ -67,6 +70,7 @@ export async function logCalendarEventDeleted(
     title: string;
     deleteType: 'single' | 'thisAndFuture' | 'all';
     isRecurring: boolean;
+    instanceStart?: string;
   }
 ): Promise<void> {
   await createAuditLog({
@@ -80,6 +84,161 @@ export async function logCalendarEventDeleted(
   });
 }
 
+/**
+ * Log calendar imported from an .ics file
+ */
+export async function logCalendarImported(
+  userId: string,
+  ipAddress: string,
+  details: {
+    created: number;
+    duplicates: number;
+    skipped: number;
+  }
+): Promise<void> {
+  await createAuditLog({
+    userId,
+    action: 'calendar_imported',
+    entityType: 'calendar_event',
+    ipAddress,
+    details,
+    riskLevel: 'low'
+  });
+}
+
+/**
+ * Log private calendar feed created or its token regenerated
+ */
+export async function logCalendarFeedRegenerated(
+  userId: string,
+  ipAddress: string,
+  details: {
+    includeHolidays: boolean;
+    holidayCountry?: string | null;
+  }
+): Promise<void> {
+  await createAuditLog({
+    userId,
+    action: 'calendar_feed_regenerated',
+    entityType: 'calendar_feed',
+    ipAddress,
+    details,
+    riskLevel: 'medium'
+  });
+}
+
+/**
+ * Log private calendar feed revoked
+ */
+export async function logCalendarFeedRevoked(
+  userId: string,
+  ipAddress: string
+): Promise<void> {
+  await createAuditLog({
+    userId,
+    action: 'calendar_feed_revoked',
+    entityType: 'calendar_feed',
+    ipAddress,
+    riskLevel: 'low'
+  });
+}
+
+/**
+ * Log shared calendar created
+ */
+export async function logCalendarCreated(
+  userId: string,
+  calendarId: string,
+  ipAddress: string,
+  details: {
+    name: string;
+    type: string;
+    partnerId?: string;
+  }
+): Promise<void> {
+  await createAuditLog({
+    userId,
+    action: 'calendar_created',
+    entityType: 'calendar',
+    entityId: calendarId,
+    ipAddress,
+    details,
+    riskLevel: 'low'
+  });
+}
+
+/**
+ * Log shared calendar deleted (its events go with it)
+ */
+export async function logCalendarDeleted(
+  userId: string,
+  calendarId: string,
+  ipAddress: string,
+  details: {
+    name: string;
+    type: string;
+  }
+): Promise<void> {
+  await createAuditLog({
+    userId,
+    action: 'calendar_deleted',
+    entityType: 'calendar',
+    entityId: calendarId,
+    ipAddress,
+    details,
+    riskLevel: 'medium'
+  });
+}
+
+/**
+ * Log a calendar shared, its permission changed or access removed
+ */
+export async function logCalendarSharingChanged(
+  userId: string,
+  calendarId: string,
+  ipAddress: string,
+  details: {
+    memberId: string;
+    change: 'added' | 'updated' | 'removed';
+    permission?: string;
+  }
+): Promise<void> {
+  await createAuditLog({
+    userId,
+    action: 'calendar_sharing_changed',
+    entityType: 'calendar',
+    entityId: calendarId,
+    ipAddress,
+    details,
+    riskLevel: 'medium'
+  });
+}
+
+/**
+ * Log consultation booking type created, updated or deleted
+ */
+export async function logConsultationTypeChanged(
+  userId: string,
+  consultationId: string,
+  ipAddress: string,
+  details: {
+    change: 'created' | 'updated' | 'deleted';
+    consultationType: string;
+    isSystemBooking: boolean;
+    fieldsUpdated?: string[];
+  }
+): Promise<void> {
+  await createAuditLog({
+    userId,
+    action: `consultation_type_${details.change}`,
+    entityType: 'consultation_type',
+    entityId: consultationId,
+    ipAddress,
+    details,
+    riskLevel: details.isSystemBooking ? 'medium' : 'low'
+  });
+}
+
 /**
  * Log event invitation sent
  */
@@ -105,6 +264,91 @@ export async function logEventInvitationSent(
   });
 }
 
+/**
+ * Log guest RSVP (public link, no signed-in user)
+ */
+export async function logEventRsvp(
+  eventId: string,
+  guestId: string,
+  ipAddress: string,
+  details: {
+    guestEmail: string;
+    response: GuestResponseStatus;
+    previousResponse: GuestResponseStatus;
+  }
+): Promise<void> {
+  try {
+    await createAuditLog({
+      action: 'event_rsvp',
+      entityType: 'calendar_event',
+      entityId: eventId,
+      ipAddress,
+      details: {
+        ...details,
+        guestId
+      },
+      riskLevel: 'low'
+    });
+  } catch (error) {
+    logger.error('Failed to log event RSVP:', error);
+  }
+}
+
+/**
+ * Log consultation booked through a public booking link (no signed-in user)
+ */
+export async function logConsultationBooked(
+  eventId: string,
+  ipAddress: string,
+  details: {
+    consultationId: string;
+    consultationType: string;
+    bookerEmail: string;
+    startTime: string;
+  }
+): Promise<void> {
+  try {
+    await createAuditLog({
+      action: 'consultation_booked',
+      entityType: 'calendar_event',
+      entityId: eventId,
+      ipAddress,
+      details,
+      riskLevel: 'low'
+    });
+  } catch (error) {
+    logger.error('Failed to log consultation booking:', error);
+  }
+}
+
+/**
+ * Log a booked consultation rescheduled or cancelled by the booker (manage link)
+ */
+export async function logConsultationBookingChanged(
+  eventId: string,
+  ipAddress: string,
+  details: {
+    change: 'rescheduled' | 'cancelled';
+    bookerEmail: string;
+    previousStartTime: string;
+    startTime?: string;
+    reason?: string;
+  }
+): Promise<void> {
+  try {
+    await createAuditLog({
+      action: `consultation_booking_${details.change}`,
+      entityType: 'calendar_event',
+      entityId: eventId,
+      ipAddress,
+      details,
+      riskLevel: 'low'
+    });
+  } catch (error) {
+    logger.error('Failed to log consultation booking change:', error);
+  }
+}
+
 /**
  * Log event invitation queued
  */
@@ -253,4 +497,28 @@ export async function logEventReminderSent(
   } catch (error) {
     logger.error('Failed to log event reminder sent:', error);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Log a public booking link created, regenerated or revoked
+ */
+export async function logBookingLinkChanged(
+  userId: string,
+  linkId: string,
+  ipAddress: string,
+  details: {
+    change: 'created' | 'regenerated' | 'revoked';
+    consultationId: string | null;
+    isSystemBooking: boolean;
+  }
+): Promise<void> {
+  await createAuditLog({
+    userId,
+    action: `booking_link_${details.change}`,
+    entityType: 'booking_link',
+    entityId: linkId,
+    ipAddress,
+    details,
+    riskLevel: 'low'
+  });
+}
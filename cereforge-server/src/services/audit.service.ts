@@ -1,4 +1,5 @@
-import { getFreshSupabase } from '../config/database';
+import { getFreshSupabase, supabaseAdmin } from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
 import logger from '../utils/logger';
 
 interface AuditLogEntry {
@@ -68,7 +69,7 @@ export async function createAuditLog(entry: AuditLogEntry): Promise<void> {
  * ✅ FIXED: Now works for email verification (pre-auth) and login/logout (authenticated)
  */
 export async function logAuthEvent(
-  action: 'login' | 'logout' | 'login_failed' | 'token_refresh' | 'password_reset_request' | 'password_changed' ,
+  action: 'login' | 'logout' | 'login_failed' | 'token_refresh' | 'password_reset_request' | 'password_changed' | 'session_revoked' | 'mfa_enabled' | 'mfa_disabled' | 'mfa_verified' | 'mfa_failed' | 'mfa_recovery_codes_regenerated' | 'account_locked' | 'account_unlocked' | 'suspicious_login',
   userId: string | undefined,
   ipAddress: string,
   userAgent: string,
@@ -81,6 +82,15 @@ export async function logAuthEvent(
     token_refresh: 'low',
     password_reset_request: 'medium',
     password_changed: 'high',
+    session_revoked: 'medium',
+    mfa_enabled: 'high',
+    mfa_disabled: 'high',
+    mfa_verified: 'low',
+    mfa_failed: 'medium',
+    mfa_recovery_codes_regenerated: 'high',
+    account_locked: 'high',
+    account_unlocked: 'medium',
+    suspicious_login: 'high',
   };
 
   await createAuditLog({
@@ -113,4 +123,202 @@ export async function logPartnerEvent(
     details,
     riskLevel: action === 'application_approved' ? 'medium' : 'low'
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Log user management events (staff accounts, roles, account status)
+ */
+export async function logUserEvent(
+  action: 'user_invited' | 'user_updated' | 'user_role_changed' | 'user_status_changed' | 'user_permissions_changed',
+  userId: string | undefined,
+  targetUserId: string,
+  ipAddress: string,
+  details?: Record<string, any>
+): Promise<void> {
+  const riskLevelMap: Record<typeof action, AuditLogEntry['riskLevel']> = {
+    user_invited: 'medium',
+    user_updated: 'low',
+    user_role_changed: 'high',
+    user_status_changed: 'high',
+    user_permissions_changed: 'high',
+  };
+
+  await createAuditLog({
+    userId,
+    action,
+    entityType: 'user',
+    entityId: targetUserId,
+    ipAddress,
+    details,
+    riskLevel: riskLevelMap[action]
+  });
+}
+
+// =====================================================
+// QUERYING (admin audit log viewer)
+// =====================================================
+
+const AUDIT_LOG_COLUMNS = `
+  id,
+  user_id,
+  action,
+  entity_type,
+  entity_id,
+  ip_address,
+  user_agent,
+  request_method,
+  request_path,
+  details,
+  risk_level,
+  created_at,
+  user:user_profiles(id, email, full_name, role)
+`;
+
+const EXPORT_BATCH_SIZE = 1000;
+const EXPORT_MAX_ROWS = 10000;
+
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string; // comma-separated
+  entityType?: string;
+  entityId?: string;
+  riskLevel?: string; // comma-separated
+  from?: string;
+  to?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface CursorPaginatedResponse<T> {
+  items: T[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Cursor = (created_at, id) of the last row, so new inserts never shift pages
+ */
+function encodeCursor(row: { created_at: string; id: string }): string {
+  return Buffer.from(JSON.stringify([row.created_at, row.id])).toString('base64url');
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Both parts end up inside a PostgREST .or() string, so only a real UUID and a
+// timestamp we re-serialize ourselves are allowed through
+function decodeCursor(cursor: string): { createdAt: string; id: string } {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof createdAt !== 'string' || typeof id !== 'string' || !UUID_PATTERN.test(id) || isNaN(Date.parse(createdAt))) {
+      throw new Error('Malformed cursor');
+    }
+    return { createdAt: new Date(createdAt).toISOString(), id };
+  } catch {
+    throw Errors.badRequest('Invalid pagination cursor');
+  }
+}
+
+const splitList = (value: string) => value.split(',').map((v) => v.trim()).filter(Boolean);
+
+function buildAuditLogQuery(filters: AuditLogFilters, cursor?: { createdAt: string; id: string }) {
+  const ascending = filters.sortOrder === 'asc';
+
+  let query = supabaseAdmin
+    .from('audit_logs')
+    .select(AUDIT_LOG_COLUMNS);
+
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.action) query = query.in('action', splitList(filters.action));
+  if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+  if (filters.entityId) query = query.eq('entity_id', filters.entityId);
+  if (filters.riskLevel) query = query.in('risk_level', splitList(filters.riskLevel));
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+
+  if (cursor) {
+    const op = ascending ? 'gt' : 'lt';
+    query = query.or(
+      `created_at.${op}."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.${op}.${cursor.id})`
+    );
+  }
+
+  return query
+    .order('created_at', { ascending })
+    .order('id', { ascending });
+}
+
+/**
+ * Filtered, cursor-paginated audit log listing
+ */
+export async function queryAuditLogs(
+  filters: AuditLogFilters & { cursor?: string; limit?: number }
+): Promise<CursorPaginatedResponse<any>> {
+  try {
+    const limit = filters.limit || 50;
+    const cursor = filters.cursor ? decodeCursor(filters.cursor) : undefined;
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error } = await buildAuditLogQuery(filters, cursor).limit(limit + 1);
+
+    if (error) {
+      logger.error('Failed to query audit logs:', error);
+      throw Errors.database('Failed to fetch audit logs');
+    }
+
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+
+    return {
+      items,
+      pagination: {
+        limit,
+        nextCursor: hasMore ? encodeCursor(items[items.length - 1]) : null,
+        hasMore
+      }
+    };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Query audit logs error:', error);
+    throw Errors.internal('Failed to fetch audit logs');
+  }
+}
+
+/**
+ * All rows matching the filters (capped) for CSV/JSON export
+ */
+export async function exportAuditLogs(
+  filters: AuditLogFilters
+): Promise<{ items: any[]; truncated: boolean }> {
+  try {
+    const items: any[] = [];
+    let cursor: { createdAt: string; id: string } | undefined;
+
+    while (items.length < EXPORT_MAX_ROWS) {
+      const { data, error } = await buildAuditLogQuery(filters, cursor).limit(EXPORT_BATCH_SIZE);
+
+      if (error) {
+        logger.error('Failed to export audit logs:', error);
+        throw Errors.database('Failed to export audit logs');
+      }
+
+      const batch = data || [];
+      items.push(...batch);
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return { items, truncated: false };
+      }
+
+      const last = batch[batch.length - 1];
+      cursor = { createdAt: last.created_at, id: last.id };
+    }
+
+    return { items: items.slice(0, EXPORT_MAX_ROWS), truncated: true };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Export audit logs error:', error);
+    throw Errors.internal('Failed to export audit logs');
+  }
+}
@@ -0,0 +1,200 @@
+import { rotateRefreshToken } from './auth.service';
+import { createAuditLog } from './audit.service';
+import { supabaseAdmin } from '../config/database';
+import { generateRefreshToken, hashToken } from '../utils/jwt';
+import { ApiError, ErrorCode } from '../utils/errors';
+import { SystemType, UserRole } from '../types/types';
+
+// In-memory stand-in for the tables refresh rotation touches. Filters are
+// applied when the query is awaited, and rows come back as copies, like rows
+// read over the wire, so concurrent readers can hold stale values.
+jest.mock('../config/database', () => {
+  type Row = Record<string, any>;
+  const tables: Record<string, Row[]> = {};
+
+  class FakeQuery {
+    private filters: [string, unknown][] = [];
+    private patch: Row | null = null;
+
+    constructor(private readonly table: string) {}
+
+    select() {
+      return this;
+    }
+
+    update(values: Row) {
+      this.patch = values;
+      return this;
+    }
+
+    eq(column: string, value: unknown) {
+      this.filters.push([column, value]);
+      return this;
+    }
+
+    maybeSingle() {
+      return Promise.resolve({ data: this.run()[0] ?? null, error: null });
+    }
+
+    single() {
+      const row = this.run()[0];
+      return Promise.resolve(row ? { data: row, error: null } : { data: null, error: { message: 'No rows' } });
+    }
+
+    then<T>(resolve: (value: { data: Row[]; error: null }) => T, reject?: (reason: unknown) => T) {
+      return Promise.resolve({ data: this.run(), error: null }).then(resolve, reject);
+    }
+
+    private run(): Row[] {
+      const rows = (tables[this.table] ||= []).filter(row =>
+        this.filters.every(([column, value]) => row[column] === value)
+      );
+      if (this.patch) rows.forEach(row => Object.assign(row, this.patch));
+      return rows.map(row => ({ ...row }));
+    }
+  }
+
+  const client = { from: (table: string) => new FakeQuery(table), tables };
+  return { __esModule: true, default: client, supabase: client, supabaseAdmin: client, getFreshSupabase: () => client };
+});
+
+jest.mock('./audit.service', () => ({
+  createAuditLog: jest.fn(),
+  logAuthEvent: jest.fn()
+}));
+
+jest.mock('./email.service', () => ({}));
+
+jest.mock('../utils/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const tables = (supabaseAdmin as any).tables as Record<string, Record<string, any>[]>;
+
+const USER_ID = 'user-1';
+const SESSION_ID = 'session-1';
+const IP = '203.0.113.7';
+const USER_AGENT = 'jest';
+
+function issueToken(): string {
+  return generateRefreshToken({
+    userId: USER_ID,
+    email: 'partner@example.com',
+    name: 'Partner',
+    role: UserRole.PARTNER,
+    systemType: SystemType.SYSTEM_USERS,
+    sessionId: SESSION_ID,
+    mfa: false
+  });
+}
+
+function session(): Record<string, any> {
+  return tables.user_sessions.find(row => row.id === SESSION_ID)!;
+}
+
+// Push the last rotation out of the grace window
+function expireGrace(): void {
+  session().refresh_rotated_at = new Date(Date.now() - 60 * 1000).toISOString();
+}
+
+function rotate(token: string) {
+  return rotateRefreshToken(token, IP, USER_AGENT);
+}
+
+async function expectReuse(promise: Promise<unknown>): Promise<void> {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(ApiError);
+  expect((error as ApiError).code).toBe(ErrorCode.REFRESH_TOKEN_REUSED);
+}
+
+describe('rotateRefreshToken', () => {
+  let initialToken: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    initialToken = issueToken();
+
+    tables.user_profiles = [{
+      id: USER_ID,
+      email: 'partner@example.com',
+      full_name: 'Partner',
+      role: UserRole.PARTNER,
+      system_type: SystemType.SYSTEM_USERS,
+      must_change_password: false
+    }];
+    tables.user_sessions = [{
+      id: SESSION_ID,
+      user_id: USER_ID,
+      is_active: true,
+      expires_at: new Date(Date.now() + 86400000).toISOString(),
+      refresh_token_hash: hashToken(initialToken),
+      previous_refresh_token_hash: null,
+      refresh_rotated_at: null,
+      last_activity: null,
+      revoked_reason: null
+    }];
+  });
+
+  it('accepts a rotated token exactly once', async () => {
+    const first = await rotate(initialToken);
+    expect(first.refreshToken).not.toBe(initialToken);
+    expect(session().refresh_token_hash).toBe(hashToken(first.refreshToken!));
+
+    const second = await rotate(first.refreshToken!);
+    expect(second.sessionId).toBe(SESSION_ID);
+    expect(session().refresh_token_hash).toBe(hashToken(second.refreshToken!));
+
+    expireGrace();
+    await expectReuse(rotate(first.refreshToken!));
+  });
+
+  it('gives the token it just replaced an access token, but no new refresh token, within the grace window', async () => {
+    const rotated = await rotate(initialToken);
+
+    const replay = await rotate(initialToken);
+
+    expect(replay.token).toEqual(expect.any(String));
+    expect(replay.refreshToken).toBeUndefined();
+    expect(session()).toMatchObject({ is_active: true, refresh_token_hash: hashToken(rotated.refreshToken!) });
+    expect(createAuditLog).not.toHaveBeenCalled();
+  });
+
+  it('revokes the whole family and writes a critical audit row when an old token comes back', async () => {
+    const rotated = await rotate(initialToken);
+    expireGrace();
+
+    await expectReuse(rotate(initialToken));
+
+    expect(session()).toMatchObject({ is_active: false, revoked_reason: 'refresh_token_reuse' });
+    expect(createAuditLog).toHaveBeenCalledTimes(1);
+    expect(createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      userId: USER_ID,
+      action: 'refresh_token_reuse',
+      entityType: 'session',
+      entityId: SESSION_ID,
+      ipAddress: IP,
+      riskLevel: 'critical',
+      details: { trigger: 'stale_token', familyRevoked: true }
+    }));
+
+    // The legitimate holder's newer token dies with the family
+    const error = await rotate(rotated.refreshToken!).then(() => null, (err: unknown) => err);
+    expect((error as ApiError).code).toBe(ErrorCode.SESSION_TERMINATED);
+  });
+
+  it('rotates once for two concurrent refreshes with the same token and keeps the session', async () => {
+    const results = await Promise.all([rotate(initialToken), rotate(initialToken)]);
+
+    const winners = results.filter(result => result.refreshToken);
+    const graced = results.filter(result => !result.refreshToken);
+
+    expect(winners).toHaveLength(1);
+    expect(graced).toHaveLength(1);
+    expect(graced[0].token).toEqual(expect.any(String));
+
+    // The compare-and-swap kept the winner's hash; the loser never overwrote it
+    expect(session()).toMatchObject({ is_active: true, refresh_token_hash: hashToken(winners[0].refreshToken!) });
+    expect(createAuditLog).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,44 @@
 import supabase, { supabaseAdmin } from '../config/database';
-import { generateAccessToken, generateRefreshToken, generateSessionId, JWTPayload } from '../utils/jwt';
-import { Errors } from '../utils/errors';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  generateSessionId,
+  generateSecureToken,
+  hashToken,
+  verifyRefreshToken,
+  generateMfaChallengeToken,
+  verifyMfaChallengeToken,
+  JWTPayload
+} from '../utils/jwt';
+import { ApiError, Errors } from '../utils/errors';
+import { validatePasswordStrength } from '../utils/password';
+import { sendPasswordResetEmail } from './email.service';
+import { createAuditLog, logAuthEvent } from './audit.service';
+import {
+  confirmTotpEnrollment,
+  isMfaEnabled,
+  isMfaRequiredForRole,
+  startTotpEnrollment,
+  verifyMfaCode,
+  MfaMethod,
+  TotpEnrollment
+} from './mfa.service';
+import {
+  assertAccountNotLocked,
+  detectLoginAnomalies,
+  recordFailedLogin,
+  reportSuspiciousLogin,
+  resetFailedLogins
+} from './accountSecurity.service';
+import { parseUserAgent } from '../utils/userAgent';
+import { resolvePermissions } from '../utils/permissions';
 import logger from '../utils/logger';
 import { SystemType, UserRole } from '../types/types';
 
+const PASSWORD_RESET_EXPIRY_MS = 60 * 60 * 1000; // 1 hour
+// The token a refresh just replaced still gets an access token for this long (tabs refreshing together)
+const REFRESH_GRACE_MS = 10 * 1000;
+
 interface EmailVerificationResult {
   exists: boolean;
   role?: UserRole;
@@ -28,9 +63,44 @@ interface LoginResult {
     role: UserRole;
     systemType: SystemType;
     permissions?: Record<string, boolean>;
+    mustChangePassword: boolean;
+    mfa: boolean;
   };
 }
 
+export interface MfaChallengeResult {
+  mfaRequired: true;
+  mfaEnrolled: boolean;
+  mfaToken: string;
+}
+
+interface MfaLoginResult extends LoginResult {
+  mfaMethod: MfaMethod;
+  recoveryCodes?: string[];
+}
+
+interface RotatedTokens {
+  token: string;
+  refreshToken?: string; // Omitted inside the grace window: the cookie already holds the newer token
+  userId: string;
+  sessionId: string;
+  systemType: SystemType;
+}
+
+export interface UserSessionSummary {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  deviceType: string | null;
+  browser: string | null;
+  os: string | null;
+  country: string | null;
+  lastActivity: string;
+  createdAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
 /**
  * Verify email (no changes needed - already optimized)
  */
@@ -107,17 +177,204 @@ export async function verifyEmail(email: string): Promise<EmailVerificationResul
   }
 }
 
+/**
+ * ✅ OPTIMIZED: Single JOIN query for profile + permissions, plus account checks
+ */
+async function loadLoginProfile(
+  userId: string,
+  role: UserRole
+): Promise<{ profile: any; permissions: Record<string, boolean> }> {
+  const query = role === 'core' 
+    ? `id, email, full_name, role, system_type, status, must_change_password, failed_login_attempts, lockout_count, core_staff!inner(permissions)`
+    : role === 'admin'
+    ? `id, email, full_name, role, system_type, status, must_change_password, failed_login_attempts, lockout_count, admin_staff!inner(permissions)`
+    : `id, email, full_name, role, system_type, status, must_change_password, failed_login_attempts, lockout_count`;
+
+  const { data: userProfile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select(query)
+    .eq('id', userId)
+    .single();
+
+  if (profileError || !userProfile) {
+    logger.error('Failed to fetch user profile:', profileError);
+    throw Errors.notFound('User profile');
+  }
+
+  // Type assertion for the user profile
+  const profile = userProfile as any;
+
+  if (!profile.system_type) {
+    logger.error(`User ${profile.id} missing system_type during login!`);
+    throw Errors.internal('Account configuration error.');
+  }
+
+  if (profile.role !== role) {
+    logger.warn(`Role mismatch for ${profile.email}`);
+    throw Errors.invalidCredentials();
+  }
+
+  if (profile.system_type !== SystemType.SYSTEM_USERS) {
+    logger.warn(`Non-system user attempted system login: ${profile.email}`);
+    throw Errors.forbidden('This login endpoint is for system users only');
+  }
+
+  if (profile.status !== 'active') {
+    if (profile.status === 'suspended') {
+      throw Errors.accountSuspended();
+    } else if (profile.status === 'pending') {
+      throw Errors.accountPending();
+    } else if (profile.status === 'deactivated') {
+      throw Errors.forbidden('This account has been deactivated');
+    } else {
+      throw Errors.unauthorized('Account is not active');
+    }
+  }
+
+  // ✅ OPTIMIZED: Role defaults + overrides from the JOIN result
+  const permissions = resolvePermissions(role, staffPermissionOverrides(profile, role));
+
+  return { profile, permissions };
+}
+
+/**
+ * Per-user permission overrides from the joined admin_staff / core_staff row
+ */
+function staffPermissionOverrides(profile: any, role: UserRole): Record<string, unknown> | null {
+  const staff = role === UserRole.CORE
+    ? profile.core_staff
+    : role === UserRole.ADMIN
+    ? profile.admin_staff
+    : null;
+
+  const record = Array.isArray(staff) ? staff[0] : staff;
+  return record?.permissions || null;
+}
+
+/**
+ * Issue tokens and record a new session row for a fully authenticated login
+ */
+async function createLoginSession(
+  profile: any,
+  permissions: Record<string, boolean>,
+  mfa: boolean,
+  ipAddress: string,
+  userAgent: string,
+  country: string | null
+): Promise<LoginResult> {
+  // Accounts created with a temporary password get a restricted session
+  const mustChangePassword = !!profile.must_change_password;
+
+  // Generate session
+  const sessionId = generateSessionId();
+  const jwtPayload: JWTPayload = {
+    userId: profile.id,
+    email: profile.email,
+    name: profile.full_name,
+    role: profile.role as UserRole,
+    systemType: profile.system_type as SystemType,
+    sessionId,
+    permissions,
+    mustChangePassword,
+    mfa
+  };
+
+  const token = generateAccessToken(jwtPayload);
+  const refreshToken = generateRefreshToken({
+    userId: profile.id,
+    email: profile.email,
+    name: profile.full_name,
+    role: profile.role as UserRole,
+    systemType: profile.system_type as SystemType,
+    sessionId,
+    mfa
+  });
+
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + 7);
+
+  // ✅ One session row per sign-in so each device can be listed and revoked on its own
+  const device = parseUserAgent(userAgent);
+
+  // Compare against earlier sessions before this one is added to the history
+  const anomalies = await detectLoginAnomalies(profile.id, device, country);
+
+  const { error: sessionError } = await supabaseAdmin
+    .from('user_sessions')
+    .insert({
+      id: sessionId,
+      user_id: profile.id,
+      token_hash: token.substring(0, 50),
+      refresh_token_hash: hashToken(refreshToken),
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      device_type: device.deviceType,
+      browser: device.browser,
+      os: device.os,
+      country,
+      expires_at: expiresAt.toISOString(),
+      is_active: true
+    });
+
+  if (sessionError) {
+    logger.error('Failed to create session:', sessionError);
+    throw Errors.internal('Failed to create session.');
+  }
+
+  logger.info(`✅ Created new session for user ${profile.email}`);
+
+  await resetFailedLogins(profile);
+
+  if (anomalies.length > 0) {
+    // ✅ Non-blocking: audit + "new sign-in" email
+    reportSuspiciousLogin(profile, sessionId, anomalies, { device, ipAddress, userAgent, country })
+      .catch((err) => logger.error('Failed to report suspicious login:', err));
+  }
+
+  // ✅ Update last_login (non-blocking)
+  supabaseAdmin
+    .from('user_profiles')
+    .update({ last_login: new Date().toISOString() })
+    .eq('id', profile.id)
+    .then(({ error }) => {
+      if (error) {
+        logger.error('Failed to update last_login:', error);
+      }
+    });
+
+  return {
+    token,
+    refreshToken,
+    sessionId,
+    user: {
+      id: profile.id,
+      email: profile.email,
+      name: profile.full_name,
+      role: profile.role as UserRole,
+      systemType: profile.system_type as SystemType,
+      permissions,
+      mustChangePassword,
+      mfa
+    }
+  };
+}
+
 /**
  * ✅ OPTIMIZED: Login with single JOIN query for permissions
+ * Roles with 2FA enabled (or required by policy) get an MFA challenge instead of a session
  */
 export async function login(
   email: string,
   password: string,
   role: UserRole,
   ipAddress: string,
-  userAgent: string
-): Promise<LoginResult> {
+  userAgent: string,
+  country: string | null = null
+): Promise<LoginResult | MfaChallengeResult> {
   try {
+    // ✅ Persistent lockout (survives restarts, unlike loginLimiter)
+    await assertAccountNotLocked(email);
+
     // Authenticate with Supabase Auth
     const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
       email,
@@ -126,170 +383,109 @@ export async function login(
 
     if (authError || !authData.user) {
       logger.warn(`Failed login attempt for ${email}`);
-      throw Errors.invalidCredentials();
+      const lockedUntil = await recordFailedLogin(email, ipAddress, userAgent);
+      throw lockedUntil ? Errors.accountLocked(lockedUntil) : Errors.invalidCredentials();
     }
 
-    // ✅ OPTIMIZED: Single query with LEFT JOIN to get user + permissions
-    const query = role === 'core' 
-      ? `id, email, full_name, role, system_type, status, core_staff!inner(permissions)`
-      : role === 'admin'
-      ? `id, email, full_name, role, system_type, status, admin_staff!inner(permissions)`
-      : `id, email, full_name, role, system_type, status`;
+    const { profile, permissions } = await loadLoginProfile(authData.user.id, role);
 
-    const { data: userProfile, error: profileError } = await supabase
-      .from('user_profiles')
-      .select(query)
-      .eq('id', authData.user.id)
-      .single();
-
-    if (profileError || !userProfile) {
-      logger.error('Failed to fetch user profile:', profileError);
-      throw Errors.notFound('User profile');
+    // ✅ Step 3: TOTP challenge (or first-time enrollment when policy requires it)
+    const mfaEnrolled = await isMfaEnabled(profile.id);
+    if (mfaEnrolled || isMfaRequiredForRole(profile.role)) {
+      logger.info(`MFA challenge issued for ${email} (enrolled: ${mfaEnrolled})`);
+      return {
+        mfaRequired: true,
+        mfaEnrolled,
+        mfaToken: generateMfaChallengeToken(profile.id, profile.role as UserRole)
+      };
     }
 
-    // Type assertion for the user profile
-    const profile = userProfile as any;
+    const result = await createLoginSession(profile, permissions, false, ipAddress, userAgent, country);
 
-    if (!profile.system_type) {
-      logger.error(`User ${profile.id} missing system_type during login!`);
-      throw Errors.internal('Account configuration error.');
+    logger.info(`User ${email} logged in successfully`);
+    return result;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
     }
+    logger.error('Login failed:', error);
+    throw Errors.internal('Login failed');
+  }
+}
 
-    if (profile.role !== role) {
-      logger.warn(`Role mismatch for ${email}`);
-      throw Errors.invalidCredentials();
-    }
+/**
+ * Resolve an MFA challenge token or fail with a restart-login error
+ */
+function resolveMfaChallenge(mfaToken: string) {
+  const challenge = verifyMfaChallengeToken(mfaToken);
+  if (!challenge) {
+    throw Errors.unauthorized('Your sign-in attempt has expired. Please start again.');
+  }
+  return challenge;
+}
 
-    if (profile.system_type !== SystemType.SYSTEM_USERS) {
-      logger.warn(`Non-system user attempted system login: ${email}`);
-      throw Errors.forbidden('This login endpoint is for system users only');
-    }
+/**
+ * Login step 3 (first time only): begin TOTP enrollment for a policy-required role
+ */
+export async function startMfaLoginEnrollment(mfaToken: string): Promise<TotpEnrollment> {
+  const challenge = resolveMfaChallenge(mfaToken);
 
-    if (profile.status !== 'active') {
-      if (profile.status === 'suspended') {
-        throw Errors.accountSuspended();
-      } else if (profile.status === 'pending') {
-        throw Errors.accountPending();
-      } else {
-        throw Errors.unauthorized('Account is not active');
-      }
-    }
+  const { data: user, error } = await supabase
+    .from('user_profiles')
+    .select('email')
+    .eq('id', challenge.userId)
+    .single();
 
-    // ✅ OPTIMIZED: Extract permissions from JOIN result
-    let permissions: Record<string, boolean> = {};
-    if (role === UserRole.CORE && profile.core_staff?.[0]?.permissions) {
-      permissions = profile.core_staff[0].permissions;
-    } else if (role === UserRole.ADMIN && profile.admin_staff?.[0]?.permissions) {
-      permissions = profile.admin_staff[0].permissions;
-    }
+  if (error || !user) {
+    throw Errors.notFound('User');
+  }
 
-    // Generate session
-    const sessionId = generateSessionId();
-    const jwtPayload: JWTPayload = {
-      userId: profile.id,
-      email: profile.email,
-      name: profile.full_name,
-      role: profile.role as UserRole,
-      systemType: profile.system_type as SystemType,
-      sessionId,
-      permissions
-    };
+  return startTotpEnrollment(challenge.userId, user.email);
+}
 
-    const token = generateAccessToken(jwtPayload);
-    const refreshToken = generateRefreshToken({
-      userId: profile.id,
-      email: profile.email,
-      name: profile.full_name,
-      role: profile.role as UserRole,
-      systemType: profile.system_type as SystemType,
-      sessionId
-    });
+/**
+ * Login step 3: exchange the challenge token + code for a full (mfa) session
+ */
+export async function completeMfaLogin(
+  mfaToken: string,
+  code: string,
+  ipAddress: string,
+  userAgent: string,
+  country: string | null = null
+): Promise<MfaLoginResult> {
+  try {
+    const challenge = resolveMfaChallenge(mfaToken);
+    const { profile, permissions } = await loadLoginProfile(challenge.userId, challenge.role);
 
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
+    await assertAccountNotLocked(profile.email);
 
-    // ✅ Check for existing active session
-    const { data: existingSession } = await supabaseAdmin
-      .from('user_sessions')
-      .select('id')
-      .eq('user_id', profile.id)
-      .eq('is_active', true)
-      .maybeSingle();
+    let mfaMethod: MfaMethod = 'totp';
+    let recoveryCodes: string[] | undefined;
 
-    if (existingSession) {
-      // Update existing session
-      const { error: updateError } = await supabaseAdmin
-        .from('user_sessions')
-        .update({
-          token_hash: token.substring(0, 50),
-          refresh_token_hash: refreshToken.substring(0, 50),
-          ip_address: ipAddress,
-          user_agent: userAgent,
-          expires_at: expiresAt.toISOString(),
-          last_activity: new Date().toISOString()
-        })
-        .eq('id', existingSession.id);
-
-      if (updateError) {
-        logger.error('Failed to update session:', updateError);
-        throw Errors.internal('Failed to update session.');
+    try {
+      if (await isMfaEnabled(profile.id)) {
+        mfaMethod = await verifyMfaCode(profile.id, code);
+      } else {
+        // First sign-in under policy: the code confirms the pending enrollment
+        recoveryCodes = await confirmTotpEnrollment(profile.id, code);
+        await logAuthEvent('mfa_enabled', profile.id, ipAddress, userAgent, { during: 'login' });
       }
-
-      logger.info(`✅ Updated existing session for user ${email}`);
-    } else {
-      // Create new session
-      const { error: sessionError } = await supabaseAdmin
-        .from('user_sessions')
-        .insert({
-          id: sessionId,
-          user_id: profile.id,
-          token_hash: token.substring(0, 50),
-          refresh_token_hash: refreshToken.substring(0, 50),
-          ip_address: ipAddress,
-          user_agent: userAgent,
-          expires_at: expiresAt.toISOString(),
-          is_active: true
-        });
-
-      if (sessionError) {
-        logger.error('Failed to create session:', sessionError);
-        throw Errors.internal('Failed to create session.');
+    } catch (error) {
+      // Wrong codes count towards the same lockout as wrong passwords
+      if (error instanceof ApiError && error.statusCode === 400) {
+        const lockedUntil = await recordFailedLogin(profile.email, ipAddress, userAgent, 'mfa');
+        if (lockedUntil) throw Errors.accountLocked(lockedUntil);
       }
-
-      logger.info(`✅ Created new session for user ${email}`);
+      throw error;
     }
 
-    // ✅ Update last_login (non-blocking)
-    supabaseAdmin
-      .from('user_profiles')
-      .update({ last_login: new Date().toISOString() })
-      .eq('id', profile.id)
-      .then(({ error }) => {
-        if (error) {
-          logger.error('Failed to update last_login:', error);
-        }
-      });
-
-    logger.info(`User ${email} logged in successfully`);
+    const result = await createLoginSession(profile, permissions, true, ipAddress, userAgent, country);
 
-    return {
-      token,
-      refreshToken,
-      sessionId,
-      user: {
-        id: profile.id,
-        email: profile.email,
-        name: profile.full_name,
-        role: profile.role as UserRole,
-        systemType: profile.system_type as SystemType,
-        permissions
-      }
-    };
+    logger.info(`User ${profile.email} completed MFA login via ${mfaMethod}`);
+    return { ...result, mfaMethod, recoveryCodes };
   } catch (error) {
-    if (error instanceof Errors) {
-      throw error;
-    }
-    logger.error('Login failed:', error);
+    if (error instanceof ApiError) throw error;
+    logger.error('MFA login failed:', error);
     throw Errors.internal('Login failed');
   }
 }
@@ -323,15 +519,16 @@ export async function refreshAccessToken(
   userId: string,
   sessionId: string,
   role: UserRole,
-  systemType: SystemType
+  systemType: SystemType,
+  mfa: boolean = false
 ): Promise<string> {
   try {
     // ✅ OPTIMIZED: Single query to get user + permissions
     const query = role === 'core'
-      ? `id, email, full_name, role, system_type, core_staff!inner(permissions)`
+      ? `id, email, full_name, role, system_type, must_change_password, core_staff!inner(permissions)`
       : role === 'admin'
-      ? `id, email, full_name, role, system_type, admin_staff!inner(permissions)`
-      : `id, email, full_name, role, system_type`;
+      ? `id, email, full_name, role, system_type, must_change_password, admin_staff!inner(permissions)`
+      : `id, email, full_name, role, system_type, must_change_password`;
 
     const { data: user, error } = await supabase
       .from('user_profiles')
@@ -347,13 +544,8 @@ export async function refreshAccessToken(
     // Type assertion
     const profile = user as any;
 
-    // Extract permissions from JOIN
-    let permissions: Record<string, boolean> = {};
-    if (role === UserRole.CORE && profile.core_staff?.[0]?.permissions) {
-      permissions = profile.core_staff[0].permissions;
-    } else if (role === UserRole.ADMIN && profile.admin_staff?.[0]?.permissions) {
-      permissions = profile.admin_staff[0].permissions;
-    }
+    // Re-resolve so permission changes apply from the next refresh
+    const permissions = resolvePermissions(role, staffPermissionOverrides(profile, role));
 
     // Generate new access token
     const token = generateAccessToken({
@@ -363,7 +555,9 @@ export async function refreshAccessToken(
       role,
       systemType,
       sessionId,
-      permissions
+      permissions,
+      mustChangePassword: !!profile.must_change_password,
+      mfa
     });
 
     // ✅ Update session activity (non-blocking)
@@ -386,4 +580,516 @@ export async function refreshAccessToken(
     logger.error('Token refresh failed:', error);
     throw Errors.internal('Token refresh failed');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether a token rotated out of the session moments ago is being presented
+ */
+function isWithinRotationGrace(
+  session: { previous_refresh_token_hash?: string | null; refresh_rotated_at?: string | null },
+  tokenHash: string
+): boolean {
+  return !!session.previous_refresh_token_hash &&
+    session.previous_refresh_token_hash === tokenHash &&
+    !!session.refresh_rotated_at &&
+    Date.now() - new Date(session.refresh_rotated_at).getTime() <= REFRESH_GRACE_MS;
+}
+
+/**
+ * Rotate a refresh token: every refresh issues a new refresh token in the same family (session)
+ * The token just replaced is honoured for REFRESH_GRACE_MS with an access token
+ * only, so two tabs refreshing at once don't look like replay. Presenting a
+ * token rotated out any earlier revokes the whole family.
+ */
+export async function rotateRefreshToken(
+  presentedToken: string,
+  ipAddress: string,
+  userAgent: string
+): Promise<RotatedTokens> {
+  try {
+    const payload = verifyRefreshToken(presentedToken);
+    if (!payload) {
+      throw Errors.invalidToken();
+    }
+
+    const { data: session, error: sessionError } = await supabaseAdmin
+      .from('user_sessions')
+      .select('id, is_active, expires_at, refresh_token_hash, previous_refresh_token_hash, refresh_rotated_at')
+      .eq('id', payload.sessionId)
+      .eq('user_id', payload.userId)
+      .maybeSingle();
+
+    if (sessionError || !session || !session.is_active) {
+      logger.warn(`Refresh denied: Session ${payload.sessionId} is ${!session ? 'missing' : 'inactive'}`);
+      throw Errors.sessionTerminated();
+    }
+
+    if (new Date(session.expires_at) < new Date()) {
+      await supabaseAdmin
+        .from('user_sessions')
+        .update({ is_active: false })
+        .eq('id', payload.sessionId);
+
+      logger.warn(`Refresh denied: Session ${payload.sessionId} expired at ${session.expires_at}`);
+      throw Errors.sessionExpired();
+    }
+
+    const presentedHash = hashToken(presentedToken);
+    // Sessions created before rotation stored the first 50 chars of the raw token
+    const isLegacyMatch = session.refresh_token_hash === presentedToken.substring(0, 50);
+
+    const reissueAccessToken = async (): Promise<RotatedTokens> => ({
+      token: await refreshAccessToken(payload.userId, payload.sessionId, payload.role, payload.systemType, !!payload.mfa),
+      userId: payload.userId,
+      sessionId: payload.sessionId,
+      systemType: payload.systemType
+    });
+
+    if (session.refresh_token_hash !== presentedHash && !isLegacyMatch) {
+      if (isWithinRotationGrace(session, presentedHash)) {
+        logger.info(`Refresh within rotation grace for session ${payload.sessionId}`);
+        return await reissueAccessToken();
+      }
+
+      await revokeTokenFamily(payload.userId, payload.sessionId, ipAddress, userAgent, 'stale_token');
+      throw Errors.refreshTokenReused();
+    }
+
+    const newRefreshToken = generateRefreshToken({
+      userId: payload.userId,
+      email: payload.email,
+      name: payload.name,
+      role: payload.role,
+      systemType: payload.systemType,
+      sessionId: payload.sessionId,
+      mfa: payload.mfa
+    });
+
+    // ✅ Compare-and-swap: only one request can consume the current token
+    const { data: rotated, error: rotateError } = await supabaseAdmin
+      .from('user_sessions')
+      .update({
+        refresh_token_hash: hashToken(newRefreshToken),
+        previous_refresh_token_hash: session.refresh_token_hash,
+        refresh_rotated_at: new Date().toISOString(),
+        last_activity: new Date().toISOString()
+      })
+      .eq('id', payload.sessionId)
+      .eq('refresh_token_hash', session.refresh_token_hash)
+      .eq('is_active', true)
+      .select('id')
+      .maybeSingle();
+
+    if (rotateError) {
+      logger.error('Failed to rotate refresh token:', rotateError);
+      throw Errors.database('Failed to rotate refresh token');
+    }
+
+    if (!rotated) {
+      // Another request consumed the same token first: fine if it only just did
+      const { data: current } = await supabaseAdmin
+        .from('user_sessions')
+        .select('is_active, previous_refresh_token_hash, refresh_rotated_at')
+        .eq('id', payload.sessionId)
+        .maybeSingle();
+
+      if (current?.is_active && isWithinRotationGrace(current, session.refresh_token_hash)) {
+        logger.info(`Concurrent refresh within rotation grace for session ${payload.sessionId}`);
+        return await reissueAccessToken();
+      }
+
+      await revokeTokenFamily(payload.userId, payload.sessionId, ipAddress, userAgent, 'concurrent_use');
+      throw Errors.refreshTokenReused();
+    }
+
+    return { ...(await reissueAccessToken()), refreshToken: newRefreshToken };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Refresh token rotation failed:', error);
+    throw Errors.internal('Token refresh failed');
+  }
+}
+
+/**
+ * Mark the current session as MFA-verified (after step-up or enrollment)
+ * Rotates the refresh token so the claim survives refreshes
+ */
+export async function upgradeSessionToMfa(user: JWTPayload): Promise<{ token: string; refreshToken: string }> {
+  const refreshToken = generateRefreshToken({
+    userId: user.userId,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    systemType: user.systemType,
+    sessionId: user.sessionId,
+    mfa: true
+  });
+
+  const { error } = await supabaseAdmin
+    .from('user_sessions')
+    .update({
+      refresh_token_hash: hashToken(refreshToken),
+      previous_refresh_token_hash: null, // The pre-MFA token gets no grace
+      refresh_rotated_at: null,
+      last_activity: new Date().toISOString()
+    })
+    .eq('id', user.sessionId)
+    .eq('user_id', user.userId)
+    .eq('is_active', true);
+
+  if (error) {
+    logger.error(`Failed to upgrade session ${user.sessionId} to MFA:`, error);
+    throw Errors.database('Failed to update session');
+  }
+
+  const token = await refreshAccessToken(user.userId, user.sessionId, user.role, user.systemType, true);
+
+  return { token, refreshToken };
+}
+
+/**
+ * Kill a refresh token family after replay and raise a critical audit event
+ */
+async function revokeTokenFamily(
+  userId: string,
+  sessionId: string,
+  ipAddress: string,
+  userAgent: string,
+  trigger: 'stale_token' | 'concurrent_use'
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('user_sessions')
+    .update({ is_active: false, revoked_reason: 'refresh_token_reuse' })
+    .eq('id', sessionId)
+    .eq('user_id', userId);
+
+  if (error) {
+    logger.error(`Failed to revoke token family ${sessionId}:`, error);
+  }
+
+  logger.error(`🚨 Refresh token reuse detected for session ${sessionId} (user ${userId})`);
+
+  await createAuditLog({
+    userId,
+    action: 'refresh_token_reuse',
+    entityType: 'session',
+    entityId: sessionId,
+    ipAddress,
+    userAgent,
+    requestMethod: 'POST',
+    requestPath: '/api/v1/auth/refresh',
+    details: { trigger, familyRevoked: !error },
+    riskLevel: 'critical'
+  });
+}
+
+/**
+ * Request a password reset link
+ * Always resolves - callers must not reveal whether the email exists
+ */
+export async function requestPasswordReset(
+  email: string,
+  ipAddress: string,
+  userAgent: string
+): Promise<void> {
+  try {
+    const { data: user, error } = await supabase
+      .from('user_profiles')
+      .select('id, email, status')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error querying user_profiles for password reset:', error);
+      return;
+    }
+
+    if (!user || user.status !== 'active') {
+      logger.info(`Password reset requested for unknown or inactive account: ${email}`);
+      await logAuthEvent('password_reset_request', user?.id, ipAddress, userAgent, {
+        email,
+        issued: false
+      });
+      return;
+    }
+
+    // ✅ Only one live token per user - burn any outstanding ones
+    await supabaseAdmin
+      .from('password_reset_tokens')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('used_at', null);
+
+    // Raw token goes in the email, only its hash is stored
+    const resetToken = generateSecureToken();
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_EXPIRY_MS);
+
+    const { error: insertError } = await supabaseAdmin
+      .from('password_reset_tokens')
+      .insert({
+        user_id: user.id,
+        token: hashToken(resetToken),
+        expires_at: expiresAt.toISOString()
+      });
+
+    if (insertError) {
+      logger.error('Failed to store password reset token:', insertError);
+      return;
+    }
+
+    await sendPasswordResetEmail(user.email, resetToken, user.id);
+
+    await logAuthEvent('password_reset_request', user.id, ipAddress, userAgent, {
+      email,
+      issued: true,
+      expiresAt: expiresAt.toISOString()
+    });
+
+    logger.info(`Password reset token issued for user ${user.id}`);
+  } catch (error) {
+    logger.error('Password reset request failed:', error);
+  }
+}
+
+/**
+ * Complete a password reset with a single-use token
+ * Revokes every active session for the user on success
+ */
+export async function resetPassword(
+  token: string,
+  newPassword: string,
+  ipAddress: string,
+  userAgent: string
+): Promise<void> {
+  try {
+    const strength = validatePasswordStrength(newPassword);
+    if (!strength.valid) {
+      throw Errors.validationError('Password does not meet security requirements', strength.errors);
+    }
+
+    const { data: resetRecord, error: fetchError } = await supabaseAdmin
+      .from('password_reset_tokens')
+      .select('id, user_id, expires_at, used_at')
+      .eq('token', hashToken(token))
+      .maybeSingle();
+
+    if (fetchError) {
+      logger.error('Failed to look up password reset token:', fetchError);
+      throw Errors.database('Failed to verify reset token');
+    }
+
+    if (!resetRecord || resetRecord.used_at || new Date(resetRecord.expires_at) < new Date()) {
+      logger.warn('Invalid, used or expired password reset token presented');
+      throw Errors.badRequest('This reset link is invalid or has expired. Please request a new one.');
+    }
+
+    // ✅ Claim the token atomically - a concurrent request using the same token gets nothing back
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('password_reset_tokens')
+      .update({ used_at: new Date().toISOString() })
+      .eq('id', resetRecord.id)
+      .is('used_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError || !claimed) {
+      throw Errors.badRequest('This reset link is invalid or has expired. Please request a new one.');
+    }
+
+    const { error: updateError } = await supabase.auth.admin.updateUserById(resetRecord.user_id, {
+      password: newPassword
+    });
+
+    if (updateError) {
+      logger.error('Failed to update password in auth provider:', updateError);
+      throw Errors.internal('Failed to reset password');
+    }
+
+    const revokedSessions = await revokeAllUserSessions(resetRecord.user_id);
+
+    await logAuthEvent('password_changed', resetRecord.user_id, ipAddress, userAgent, {
+      method: 'reset_token',
+      revokedSessions
+    });
+
+    logger.info(`Password reset completed for user ${resetRecord.user_id}`);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Password reset failed:', error);
+    throw Errors.internal('Failed to reset password');
+  }
+}
+
+/**
+ * Change the password of a signed-in user
+ * Clears a pending forced change and signs out every other session
+ */
+export async function changePassword(
+  userId: string,
+  email: string,
+  sessionId: string,
+  currentPassword: string,
+  newPassword: string,
+  ipAddress: string,
+  userAgent: string
+): Promise<void> {
+  try {
+    if (currentPassword === newPassword) {
+      throw Errors.badRequest('New password must be different from the current password');
+    }
+
+    const strength = validatePasswordStrength(newPassword);
+    if (!strength.valid) {
+      throw Errors.validationError('Password does not meet security requirements', strength.errors);
+    }
+
+    // Verify the current password against the auth provider
+    const { error: verifyError } = await supabase.auth.signInWithPassword({
+      email,
+      password: currentPassword
+    });
+
+    if (verifyError) {
+      logger.warn(`Password change rejected for user ${userId}: current password incorrect`);
+      throw Errors.badRequest('Current password is incorrect');
+    }
+
+    const { error: updateError } = await supabase.auth.admin.updateUserById(userId, {
+      password: newPassword
+    });
+
+    if (updateError) {
+      logger.error('Failed to update password in auth provider:', updateError);
+      throw Errors.internal('Failed to change password');
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('user_profiles')
+      .update({ must_change_password: false, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select('must_change_password')
+      .single();
+
+    if (profileError || !profile) {
+      logger.error('Failed to clear must_change_password flag:', profileError);
+      throw Errors.database('Failed to update account');
+    }
+
+    // Keep the current session, sign out everywhere else
+    const revokedSessions = await revokeOtherSessions(userId, sessionId);
+
+    await logAuthEvent('password_changed', userId, ipAddress, userAgent, {
+      method: 'change_password',
+      revokedSessions
+    });
+
+    logger.info(`Password changed for user ${userId}`);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Password change failed:', error);
+    throw Errors.internal('Failed to change password');
+  }
+}
+
+/**
+ * Deactivate every active session for a user
+ * Returns the number of sessions revoked
+ */
+export async function revokeAllUserSessions(userId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('user_sessions')
+    .update({ is_active: false })
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .select('id');
+
+  if (error) {
+    logger.error(`Failed to revoke sessions for user ${userId}:`, error);
+    throw Errors.database('Failed to revoke sessions');
+  }
+
+  logger.info(`Revoked ${data?.length || 0} sessions for user ${userId}`);
+  return data?.length || 0;
+}
+
+/**
+ * Deactivate every active session for a user except the current one
+ * Returns the number of sessions revoked
+ */
+export async function revokeOtherSessions(userId: string, currentSessionId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('user_sessions')
+    .update({ is_active: false })
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .neq('id', currentSessionId)
+    .select('id');
+
+  if (error) {
+    logger.error(`Failed to revoke other sessions for user ${userId}:`, error);
+    throw Errors.database('Failed to revoke sessions');
+  }
+
+  logger.info(`Revoked ${data?.length || 0} other sessions for user ${userId}`);
+  return data?.length || 0;
+}
+
+/**
+ * List active, unexpired sessions for a user (most recent activity first)
+ */
+export async function listUserSessions(
+  userId: string,
+  currentSessionId: string
+): Promise<UserSessionSummary[]> {
+  const { data, error } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id, ip_address, user_agent, device_type, browser, os, country, last_activity, created_at, expires_at')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .gt('expires_at', new Date().toISOString())
+    .order('last_activity', { ascending: false });
+
+  if (error) {
+    logger.error(`Failed to list sessions for user ${userId}:`, error);
+    throw Errors.database('Failed to fetch sessions');
+  }
+
+  return (data || []).map((session) => ({
+    id: session.id,
+    ipAddress: session.ip_address,
+    userAgent: session.user_agent,
+    deviceType: session.device_type,
+    browser: session.browser,
+    os: session.os,
+    country: session.country,
+    lastActivity: session.last_activity,
+    createdAt: session.created_at,
+    expiresAt: session.expires_at,
+    isCurrent: session.id === currentSessionId
+  }));
+}
+
+/**
+ * Revoke one of the user's own sessions
+ */
+export async function revokeUserSession(userId: string, sessionId: string): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('user_sessions')
+    .update({ is_active: false })
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Failed to revoke session ${sessionId}:`, error);
+    throw Errors.database('Failed to revoke session');
+  }
+
+  if (!data) {
+    throw Errors.notFound('Session');
+  }
+
+  logger.info(`Session ${sessionId} revoked by user ${userId}`);
+}
@@ -0,0 +1,409 @@
+// src/services/availability.service.ts
+// Free/busy lookups across internal users' calendars and meeting-time suggestions
+
+import dayjs from 'dayjs';
+import supabase from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
+import logger from '../utils/logger';
+import { generateRecurringInstances } from '../utils/recurrenece';
+import { formatInZone, fromFloating, resolveTimeZone, toFloating } from '../utils/timezone';
+import {
+  DEFAULT_WORKING_HOURS,
+  TimeInterval,
+  clipIntervals,
+  findFreeSlots,
+  mergeIntervals,
+  toBusyInterval
+} from '../utils/availability';
+import { UserRole, UserStatus } from '../types/types';
+import {
+  CalendarEvent,
+  FreeBusyCalendar,
+  FreeBusyInput,
+  FreeBusyResult,
+  EventConflict,
+  PublicHoliday
+} from '../types/calendar.types';
+
+// Only what's needed to place an event in time - titles never leave this module
+const BUSY_COLUMNS = 'id, user_id, start_time, end_time, all_day, timezone, recurrence_type, recurrence_config, rrule, exdates, parent_event_id, original_start_time, is_recurring_parent';
+
+// Roles whose calendars colleagues can see free/busy for
+const INTERNAL_ROLES: string[] = [UserRole.CORE, UserRole.ADMIN];
+
+const MAX_SUGGESTIONS = 20;
+
+// Recurring events are checked for overlaps this far ahead
+const CONFLICT_HORIZON_DAYS = 90;
+const MAX_CONFLICTS = 10;
+
+interface BusyOwner {
+  userId: string;
+  email: string;
+}
+
+/**
+ * Original starts of the occurrences that override rows replace, keyed by series
+ * Matched on original_start_time rather than the override's own time, so an
+ * occurrence moved out of [from, to] still drops out of its series there
+ */
+export async function fetchOverriddenStarts(
+  seriesIds: string[],
+  from: Date,
+  to: Date
+): Promise<Map<string, string[]>> {
+  const overridden = new Map<string, string[]>();
+  if (!seriesIds.length) return overridden;
+
+  const { data: overrides, error } = await supabase
+    .from('calendar_events')
+    .select('parent_event_id, original_start_time')
+    .in('parent_event_id', seriesIds)
+    .eq('status', 'active')
+    .is('deleted_at', null)
+    .gte('original_start_time', from.toISOString())
+    .lte('original_start_time', to.toISOString());
+
+  if (error) {
+    logger.error('Failed to fetch recurring overrides:', error);
+    throw Errors.database('Failed to load recurring events');
+  }
+
+  for (const override of overrides || []) {
+    const starts = overridden.get(override.parent_event_id) || [];
+    starts.push(String(override.original_start_time));
+    overridden.set(override.parent_event_id, starts);
+  }
+
+  return overridden;
+}
+
+/**
+ * Occurrences of an event set overlapping [from, to)
+ * Series are expanded in their own zone; overriddenStarts (see
+ * fetchOverriddenStarts, from a day before `from`) are left out, since their
+ * override rows stand in for them wherever they were moved.
+ */
+function expandOccurrences(
+  events: CalendarEvent[],
+  from: Date,
+  to: Date,
+  overriddenStarts: Map<string, string[]> = new Map()
+): CalendarEvent[] {
+  const occurrences: CalendarEvent[] = [];
+
+  for (const event of events) {
+    if (event.is_recurring_parent) {
+      // Start a day early so occurrences already running at `from` are caught
+      occurrences.push(...generateRecurringInstances(
+        event,
+        dayjs(from).subtract(1, 'day').toDate(),
+        to,
+        overriddenStarts.get(event.id)
+      ));
+    } else {
+      occurrences.push(event);
+    }
+  }
+
+  return occurrences.filter(occurrence => {
+    const { start, end } = toInterval(occurrence);
+    return start < to && end > from;
+  });
+}
+
+/**
+ * Time an occurrence blocks
+ * All-day events take their whole days in the event's own zone; stored
+ * all-day events end on their last day, so the block runs to the next midnight.
+ */
+function toInterval(event: CalendarEvent): TimeInterval {
+  if (!event.all_day) return { start: new Date(event.start_time), end: new Date(event.end_time) };
+
+  const zone = resolveTimeZone(event.timezone);
+  const firstDay = toFloating(event.start_time, zone).startOf('day');
+  const lastDay = toFloating(event.end_time, zone).subtract(1, 'millisecond').startOf('day');
+  const endDay = lastDay.isAfter(firstDay) ? lastDay : firstDay;
+
+  return {
+    start: fromFloating(firstDay, zone).toDate(),
+    end: fromFloating(endDay.add(1, 'day'), zone).toDate()
+  };
+}
+
+/**
+ * Time ranges an event set occupies within [from, to)
+ */
+function eventsToBusy(
+  events: CalendarEvent[],
+  from: Date,
+  to: Date,
+  overriddenStarts: Map<string, string[]>
+): TimeInterval[] {
+  return mergeIntervals(clipIntervals(expandOccurrences(events, from, to, overriddenStarts).map(toInterval), from, to));
+}
+
+/**
+ * Overrides for the series in an event set, covering the expansion window
+ */
+function fetchSeriesOverrides(events: CalendarEvent[], from: Date, to: Date): Promise<Map<string, string[]>> {
+  return fetchOverriddenStarts(
+    events.filter(event => event.is_recurring_parent).map(event => event.id),
+    dayjs(from).subtract(1, 'day').toDate(),
+    to
+  );
+}
+
+/**
+ * Busy intervals per user: events they own plus events they've been invited
+ * to and haven't declined
+ */
+export async function getBusyIntervals(
+  owners: BusyOwner[],
+  from: Date,
+  to: Date,
+  options: { excludeEventId?: string } = {}
+): Promise<Map<string, TimeInterval[]>> {
+  const busy = new Map<string, TimeInterval[]>();
+  if (!owners.length) return busy;
+
+  const userIds = owners.map(owner => owner.userId);
+  const emails = owners.map(owner => owner.email.toLowerCase());
+
+  const { data: invitations, error: guestError } = await supabase
+    .from('event_guests')
+    .select('email, event_id')
+    .in('email', emails)
+    .neq('response_status', 'declined');
+
+  if (guestError) {
+    logger.error('Failed to fetch guest events for free/busy:', guestError);
+    throw Errors.database('Failed to check availability');
+  }
+
+  const invitedEventIds = [...new Set((invitations || []).map(invite => invite.event_id))];
+
+  // A day either side catches all-day events, which block more than their stored times
+  const eventsInRange = () => supabase
+    .from('calendar_events')
+    .select(BUSY_COLUMNS)
+    .eq('status', 'active')
+    .is('deleted_at', null)
+    .lte('start_time', dayjs(to).add(1, 'day').toISOString())
+    .or(`end_time.gte.${dayjs(from).subtract(1, 'day').toISOString()},is_recurring_parent.eq.true`);
+
+  const [owned, guestOf] = await Promise.all([
+    eventsInRange().in('user_id', userIds),
+    invitedEventIds.length
+      ? eventsInRange().or(`id.in.(${invitedEventIds.join(',')}),parent_event_id.in.(${invitedEventIds.join(',')})`)
+      : Promise.resolve({ data: [], error: null })
+  ]);
+
+  if (owned.error || guestOf.error) {
+    logger.error('Failed to fetch events for free/busy:', owned.error || guestOf.error);
+    throw Errors.database('Failed to check availability');
+  }
+
+  const byId = new Map<string, CalendarEvent>();
+  for (const event of [...(owned.data || []), ...(guestOf.data || [])] as CalendarEvent[]) {
+    byId.set(event.id, event);
+  }
+
+  const rows = [...byId.values()].filter(event =>
+    event.id !== options.excludeEventId && event.parent_event_id !== options.excludeEventId
+  );
+
+  const overriddenStarts = await fetchSeriesOverrides(rows, from, to);
+
+  for (const owner of owners) {
+    const email = owner.email.toLowerCase();
+    const invited = new Set(
+      (invitations || []).filter(invite => invite.email.toLowerCase() === email).map(invite => invite.event_id)
+    );
+
+    const ownerEvents = rows.filter(event =>
+      event.user_id === owner.userId ||
+      invited.has(event.id) ||
+      (!!event.parent_event_id && invited.has(event.parent_event_id))
+    );
+
+    busy.set(owner.userId, eventsToBusy(ownerEvents, from, to, overriddenStarts));
+  }
+
+  return busy;
+}
+
+/**
+ * Public holidays in range that apply to a country (global ones always do)
+ * null = global holidays only; undefined = every holiday
+ */
+export async function fetchBlockingHolidays(
+  from: Date,
+  to: Date,
+  timeZone: string,
+  country?: string | null
+): Promise<{ date: string; title: string }[]> {
+  const { data: holidays, error } = await supabase
+    .from('public_holidays')
+    .select('*')
+    .eq('is_active', true)
+    .gte('holiday_date', formatInZone(from, timeZone, 'YYYY-MM-DD'))
+    .lte('holiday_date', formatInZone(to, timeZone, 'YYYY-MM-DD'))
+    .order('holiday_date', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch holidays for free/busy:', error);
+    return [];
+  }
+
+  return (holidays as PublicHoliday[])
+    .filter(holiday =>
+      country === undefined ||
+      !holiday.countries || holiday.countries.length === 0 ||
+      (!!country && holiday.countries.includes(country))
+    )
+    .map(holiday => ({ date: dayjs(holiday.holiday_date).format('YYYY-MM-DD'), title: holiday.title }));
+}
+
+/**
+ * Busy times for the requester and the given addresses, plus slots where
+ * everyone is free inside working hours
+ * Only internal users' calendars are read; other addresses are returned as
+ * external so the caller knows their availability is unknown.
+ */
+export async function getFreeBusy(userId: string, input: FreeBusyInput): Promise<FreeBusyResult> {
+  try {
+    const from = new Date(input.start);
+    const to = new Date(input.end);
+    const timeZone = resolveTimeZone(input.timezone);
+    const workingHours = input.workingHours || DEFAULT_WORKING_HOURS;
+
+    const { data: requester, error: requesterError } = await supabase
+      .from('user_profiles')
+      .select('id, email, full_name')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (requesterError || !requester) {
+      logger.error('Failed to load requester for free/busy:', requesterError);
+      throw Errors.notFound('User');
+    }
+
+    const emails = [...new Set(input.emails.map(email => email.trim().toLowerCase()))]
+      .filter(email => email !== requester.email.toLowerCase());
+
+    const { data: profiles, error: profileError } = emails.length
+      ? await supabase
+        .from('user_profiles')
+        .select('id, email, full_name')
+        .in('email', emails)
+        .in('role', INTERNAL_ROLES)
+        .eq('status', UserStatus.ACTIVE)
+      : { data: [], error: null };
+
+    if (profileError) {
+      logger.error('Failed to look up users for free/busy:', profileError);
+      throw Errors.database('Failed to check availability');
+    }
+
+    const people = [requester, ...(profiles || [])];
+    const [busy, holidays] = await Promise.all([
+      getBusyIntervals(people.map(person => ({ userId: person.id, email: person.email })), from, to),
+      fetchBlockingHolidays(from, to, timeZone, input.holidayCountry)
+    ]);
+
+    const calendars: FreeBusyCalendar[] = [
+      ...people.map(person => ({
+        email: person.email,
+        name: person.full_name,
+        internal: true,
+        busy: (busy.get(person.id) || []).map(toBusyInterval)
+      })),
+      ...emails
+        .filter(email => !people.some(person => person.email.toLowerCase() === email))
+        .map(email => ({ email, internal: false, busy: [] }))
+    ];
+
+    const suggestions = input.durationMinutes
+      ? findFreeSlots({
+        from: from < new Date() ? new Date() : from,
+        to,
+        durationMinutes: input.durationMinutes,
+        timeZone,
+        workingHours,
+        busy: [...busy.values()].flat(),
+        blockedDates: holidays.map(holiday => holiday.date),
+        limit: MAX_SUGGESTIONS
+      }).map(toBusyInterval)
+      : [];
+
+    logger.info(`Free/busy for user ${userId}: ${people.length} internal, ${calendars.length - people.length} external, ${suggestions.length} suggestions`);
+
+    return { timezone: timeZone, workingHours, calendars, holidays, suggestions };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Free/busy error:', error);
+    throw Errors.internal('Failed to check availability');
+  }
+}
+
+/**
+ * The user's own events a proposed event would overlap
+ * The proposed event may be a series; its occurrences are checked from `from`
+ * for CONFLICT_HORIZON_DAYS. excludeEventId leaves out the event being edited
+ * (and a series' override rows).
+ */
+export async function findEventConflicts(
+  userId: string,
+  proposed: CalendarEvent,
+  from: Date,
+  excludeEventId?: string
+): Promise<EventConflict[]> {
+  if (proposed.all_day) return [];
+
+  const horizon = proposed.is_recurring_parent
+    ? dayjs(from).add(CONFLICT_HORIZON_DAYS, 'day').toDate()
+    : new Date(proposed.end_time);
+  const candidates = expandOccurrences([proposed], from, horizon).map(toInterval);
+
+  if (!candidates.length) return [];
+
+  const rangeStart = candidates[0].start;
+  const rangeEnd = candidates.reduce((latest, candidate) => candidate.end > latest ? candidate.end : latest, candidates[0].end);
+
+  const { data: events, error } = await supabase
+    .from('calendar_events')
+    .select(`${BUSY_COLUMNS}, title`)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .is('deleted_at', null)
+    .lte('start_time', rangeEnd.toISOString())
+    .or(`end_time.gte.${rangeStart.toISOString()},is_recurring_parent.eq.true`);
+
+  if (error) {
+    logger.error('Failed to fetch events for conflict check:', error);
+    throw Errors.database('Failed to check for conflicts');
+  }
+
+  // All-day events count as busy time, but aren't flagged as clashes
+  const existing = ((events || []) as CalendarEvent[]).filter(event =>
+    !event.all_day &&
+    (!excludeEventId || (event.id !== excludeEventId && event.parent_event_id !== excludeEventId))
+  );
+
+  const overriddenStarts = await fetchSeriesOverrides(existing, rangeStart, rangeEnd);
+
+  return expandOccurrences(existing, rangeStart, rangeEnd, overriddenStarts)
+    .filter(occurrence => candidates.some(candidate =>
+      candidate.start < new Date(occurrence.end_time) && candidate.end > new Date(occurrence.start_time)
+    ))
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+    .slice(0, MAX_CONFLICTS)
+    .map(occurrence => ({
+      eventId: occurrence.parent_event_id || occurrence.id,
+      title: occurrence.title,
+      start: new Date(occurrence.start_time).toISOString(),
+      end: new Date(occurrence.end_time).toISOString(),
+      recurring: !!occurrence.parent_event_id
+    }));
+}
@@ -0,0 +1,823 @@
+// src/services/booking.service.ts
+// =====================================================
+// PUBLIC BOOKING LINKS
+// Resolves /book/:companySlug/:typeSlug/:uniqueId for anonymous bookers
+// and turns a booked slot into an event on the owner's calendar, which the
+// booker can later reschedule or cancel through a signed manage link
+// =====================================================
+
+import dayjs from 'dayjs';
+import { supabaseAdmin } from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
+import logger from '../utils/logger';
+import { DailyHours, TimeInterval, findFreeSlots } from '../utils/availability';
+import { buildICalendar, calendarEventToICal } from '../utils/ical';
+import { generateSecureToken, signGuestToken, verifyGuestToken } from '../utils/jwt';
+import { formatEventWhen, formatInZone, resolveTimeZone } from '../utils/timezone';
+import { toBookingPath } from './consultation.service';
+import { fetchBlockingHolidays, getBusyIntervals } from './availability.service';
+import { invalidateCalendarFeed } from './calendarFeed.service';
+import { sendBookingChangedEmail, sendBookingConfirmationEmail } from './email.service';
+import { logConsultationBooked, logConsultationBookingChanged } from './audit.calendar.service';
+import { CalendarEvent, EventGuest, NotificationSettings } from '../types/calendar.types';
+import {
+  BookConsultationInput,
+  BookingAvailability,
+  BookingConfirmation,
+  BookingLinkRow,
+  BookingSlotsQuery,
+  BookingSlotsResult,
+  BookingVariant,
+  CancelBookingInput,
+  ConsultationTypeRow,
+  ManagedBooking,
+  PublicBookingConfig,
+  RescheduleBookingInput,
+  Weekday
+} from '../types/consultation.types';
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Nothing can be booked further ahead than this
+const BOOKING_HORIZON_DAYS = 90;
+const MAX_SLOTS = 1000;
+
+const ROOM_ID_BYTES = 6;
+const BOOKING_NOTIFICATION_SETTINGS: NotificationSettings = { type: 'Snooze', interval: null, timeUnit: null };
+const SLOT_TAKEN_MESSAGE = 'That time is no longer available. Please pick another.';
+
+function toAvailability(row: ConsultationTypeRow): BookingAvailability {
+  const availableDays = WEEKDAYS.filter(day => row.schedule[day]?.enabled);
+
+  return {
+    availableDays,
+    availableTimes: Object.fromEntries(availableDays.map(day => [
+      day,
+      { openTime: row.schedule[day].openTime, closeTime: row.schedule[day].closeTime }
+    ])),
+    bufferHours: row.buffer_hours,
+    timezone: row.timezone
+  };
+}
+
+function toVariant(row: ConsultationTypeRow): BookingVariant {
+  return {
+    id: row.id,
+    title: row.consultation_type,
+    duration: `${row.duration_minutes} minutes`,
+    durationMinutes: row.duration_minutes,
+    description: row.description || '',
+    isActive: row.is_active,
+    ...toAvailability(row)
+  };
+}
+
+/**
+ * A booking link and the consultation types it books (all system types for
+ * the system link), oldest first
+ */
+async function resolveBookingLink(linkId: string): Promise<{ link: BookingLinkRow; consultations: ConsultationTypeRow[] }> {
+  const { data: link, error } = await supabaseAdmin
+    .from('booking_links')
+    .select('*')
+    .eq('link_id', linkId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch booking link:', error);
+    throw Errors.database('Failed to fetch booking link');
+  }
+
+  if (!link) {
+    throw Errors.notFound('Booking link');
+  }
+
+  const bookingLink = link as BookingLinkRow;
+
+  let query = supabaseAdmin
+    .from('consultation_types')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  query = bookingLink.is_system_booking
+    ? query.eq('is_system_booking', true)
+    : query.eq('id', bookingLink.consultation_id);
+
+  const { data: rows, error: typesError } = await query;
+
+  if (typesError) {
+    logger.error('Failed to fetch consultation for booking link:', typesError);
+    throw Errors.database('Failed to fetch booking link');
+  }
+
+  const consultations = (rows || []) as ConsultationTypeRow[];
+
+  if (consultations.length === 0) {
+    throw Errors.notFound('Booking link');
+  }
+
+  return { link: bookingLink, consultations };
+}
+
+/**
+ * The consultation being booked; the system link needs the type picked
+ */
+function pickConsultation(consultations: ConsultationTypeRow[], consultationId?: string): ConsultationTypeRow {
+  if (!consultationId) {
+    if (consultations.length > 1) throw Errors.badRequest('Choose a consultation type');
+    return consultations[0];
+  }
+
+  const consultation = consultations.find(row => row.id === consultationId);
+  if (!consultation) throw Errors.notFound('Consultation');
+
+  return consultation;
+}
+
+async function fetchOwner(ownerId: string): Promise<{ id: string; email: string; full_name: string | null }> {
+  const { data: owner, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, email, full_name')
+    .eq('id', ownerId)
+    .maybeSingle();
+
+  if (error || !owner) {
+    logger.error('Failed to load consultation owner:', error);
+    throw Errors.database('Failed to check availability');
+  }
+
+  return owner;
+}
+
+/**
+ * Days (YYYY-MM-DD in the consultation's zone) already holding max_per_day bookings
+ */
+async function fetchFullDays(
+  consultation: ConsultationTypeRow,
+  from: Date,
+  to: Date,
+  excludeEventId?: string
+): Promise<string[]> {
+  if (!consultation.max_per_day) return [];
+
+  // A day either side so whole days at the range edges are counted
+  let query = supabaseAdmin
+    .from('calendar_events')
+    .select('start_time')
+    .eq('consultation_id', consultation.id)
+    .eq('status', 'active')
+    .is('deleted_at', null)
+    .gte('start_time', dayjs(from).subtract(1, 'day').toISOString())
+    .lte('start_time', dayjs(to).add(1, 'day').toISOString());
+
+  if (excludeEventId) query = query.neq('id', excludeEventId);
+
+  const { data: bookings, error } = await query;
+
+  if (error) {
+    logger.error('Failed to count bookings per day:', error);
+    throw Errors.database('Failed to check availability');
+  }
+
+  const perDay = new Map<string, number>();
+  for (const booking of bookings || []) {
+    const date = formatInZone(booking.start_time, consultation.timezone, 'YYYY-MM-DD');
+    perDay.set(date, (perDay.get(date) || 0) + 1);
+  }
+
+  return [...perDay.entries()]
+    .filter(([, count]) => count >= consultation.max_per_day!)
+    .map(([date]) => date);
+}
+
+/**
+ * Open slots for a consultation in [from, to)
+ * Slots follow the weekly schedule in the consultation's zone and skip the
+ * owner's busy time (padded either side), global public holidays, days at
+ * the per-day cap, and anything inside the minimum notice. excludeEventId
+ * leaves one booking out, so it doesn't block its own slot.
+ */
+export async function findBookableSlots(
+  consultation: ConsultationTypeRow,
+  from: Date,
+  to: Date,
+  options: { excludeEventId?: string } = {}
+): Promise<TimeInterval[]> {
+  if (!consultation.is_active) return [];
+
+  const earliest = dayjs().add(consultation.buffer_hours, 'hour').toDate();
+  const latest = dayjs().add(BOOKING_HORIZON_DAYS, 'day').toDate();
+  const rangeStart = from < earliest ? earliest : from;
+  const rangeEnd = to > latest ? latest : to;
+
+  if (rangeEnd <= rangeStart) return [];
+
+  const owner = await fetchOwner(consultation.owner_id);
+
+  // Busy time just outside the range still eats into the padding of edge slots
+  const busyFrom = dayjs(rangeStart).subtract(consultation.padding_minutes, 'minute').toDate();
+  const busyTo = dayjs(rangeEnd).add(consultation.padding_minutes, 'minute').toDate();
+
+  const [busy, holidays, fullDays] = await Promise.all([
+    getBusyIntervals([{ userId: owner.id, email: owner.email }], busyFrom, busyTo, options),
+    fetchBlockingHolidays(rangeStart, rangeEnd, consultation.timezone, null),
+    fetchFullDays(consultation, rangeStart, rangeEnd, options.excludeEventId)
+  ]);
+
+  // dayjs weekdays start on Sunday
+  const dailyHours: DailyHours = {};
+  WEEKDAYS.forEach((day, index) => {
+    const hours = consultation.schedule[day];
+    if (hours?.enabled) dailyHours[(index + 1) % 7] = { start: hours.openTime, end: hours.closeTime };
+  });
+
+  return findFreeSlots({
+    from: rangeStart,
+    to: rangeEnd,
+    durationMinutes: consultation.duration_minutes,
+    timeZone: consultation.timezone,
+    workingHours: dailyHours,
+    busy: busy.get(owner.id) || [],
+    blockedDates: [...holidays.map(holiday => holiday.date), ...fullDays],
+    paddingMinutes: consultation.padding_minutes,
+    limit: MAX_SLOTS
+  });
+}
+
+/**
+ * Slots as the booker sees them, dated in their timezone
+ */
+function toSlotsResult(slots: TimeInterval[], consultation: ConsultationTypeRow, timeZone: string): BookingSlotsResult {
+  return {
+    timezone: timeZone,
+    durationMinutes: consultation.duration_minutes,
+    slots: slots.map(slot => ({
+      start: slot.start.toISOString(),
+      end: slot.end.toISOString(),
+      date: formatInZone(slot.start, timeZone, 'YYYY-MM-DD'),
+      time: formatInZone(slot.start, timeZone, 'HH:mm')
+    }))
+  };
+}
+
+/**
+ * Resolve a booking link id to the consultation it books
+ * The system link lists every system booking type as a variant; the top
+ * level mirrors the first active one so a single-type page still works.
+ */
+export async function getPublicBookingConfig(linkId: string): Promise<PublicBookingConfig> {
+  try {
+    const { link: bookingLink, consultations } = await resolveBookingLink(linkId);
+
+    const primary = consultations.find(row => row.is_active) || consultations[0];
+
+    return {
+      bookingPath: toBookingPath(bookingLink),
+      consultationType: primary.consultation_type,
+      companyName: primary.company_name,
+      duration: String(primary.duration_minutes),
+      description: primary.description || '',
+      isActive: consultations.some(row => row.is_active),
+      isSystemBooking: bookingLink.is_system_booking,
+      ...toAvailability(primary),
+      ...(bookingLink.is_system_booking && { variants: consultations.map(toVariant) })
+    };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get public booking config error:', error);
+    throw Errors.internal('Failed to load booking page');
+  }
+}
+
+/**
+ * Bookable slots for a booking link, in the booker's timezone
+ */
+export async function getPublicBookingSlots(linkId: string, query: BookingSlotsQuery): Promise<BookingSlotsResult> {
+  try {
+    const { consultations } = await resolveBookingLink(linkId);
+    const consultation = pickConsultation(consultations, query.type);
+    const timeZone = resolveTimeZone(query.tz, consultation.timezone);
+
+    const slots = await findBookableSlots(consultation, new Date(query.from), new Date(query.to));
+
+    return toSlotsResult(slots, consultation, timeZone);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get booking slots error:', error);
+    throw Errors.internal('Failed to load available times');
+  }
+}
+
+/**
+ * Whether [start, end) is still one of the consultation's bookable slots
+ * The range is exactly the slot, so padding is only honoured because
+ * findBookableSlots looks for busy time beyond the range.
+ */
+async function isSlotOpen(
+  consultation: ConsultationTypeRow,
+  start: Date,
+  end: Date,
+  excludeEventId?: string
+): Promise<boolean> {
+  const slots = await findBookableSlots(consultation, start, end, { excludeEventId });
+  return slots.some(slot => slot.start.getTime() === start.getTime());
+}
+
+function frontendUrl(): string {
+  return process.env.FRONTEND_PROD_URL || 'https://cereforge.com';
+}
+
+function meetingUrl(): string {
+  const roomId = generateSecureToken(ROOM_ID_BYTES).match(/.{4}/g)!.join('-');
+  return `${frontendUrl()}/meet/${roomId}`;
+}
+
+function getManageUrl(guestId: string): string {
+  return `${frontendUrl()}/book/manage/${signGuestToken('booking', guestId)}`;
+}
+
+function bookingDescription(input: BookConsultationInput): string {
+  return [
+    `Booked by ${input.name} (${input.email})`,
+    ...(input.company ? [`Company: ${input.company}`] : []),
+    ...(input.projectDescription ? ['', input.projectDescription] : [])
+  ].join('\n');
+}
+
+/**
+ * Book a slot through a public booking link
+ * There is no transaction to hold the slot, so the event is written first
+ * and the slot re-checked with it left out: if another booking landed in
+ * the meantime ours is removed again and the booker gets a 409. The booker
+ * becomes an accepted guest; both sides get a confirmation with an .ics.
+ */
+export async function bookConsultation(
+  linkId: string,
+  input: BookConsultationInput,
+  ipAddress: string
+): Promise<BookingConfirmation> {
+  try {
+    const { consultations } = await resolveBookingLink(linkId);
+    const consultation = pickConsultation(consultations, input.type);
+
+    if (!consultation.is_active) {
+      throw Errors.badRequest('This consultation is not taking bookings');
+    }
+
+    const start = new Date(input.start);
+    const end = dayjs(start).add(consultation.duration_minutes, 'minute').toDate();
+
+    if (!(await isSlotOpen(consultation, start, end))) {
+      throw Errors.conflict(SLOT_TAKEN_MESSAGE);
+    }
+
+    const owner = await fetchOwner(consultation.owner_id);
+    const ownerName = owner.full_name || consultation.company_name;
+    const location = meetingUrl();
+
+    const { data: event, error } = await supabaseAdmin
+      .from('calendar_events')
+      .insert({
+        user_id: owner.id,
+        title: `${consultation.consultation_type} with ${input.name}`,
+        description: bookingDescription(input),
+        location,
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
+        all_day: false,
+        timezone: consultation.timezone,
+        recurrence_type: 'none',
+        recurrence_config: null,
+        rrule: null,
+        is_recurring_parent: false,
+        label: 'blue',
+        notification_settings: BOOKING_NOTIFICATION_SETTINGS,
+        status: 'active',
+        consultation_id: consultation.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Failed to create booking event:', error);
+      throw Errors.database('Failed to book consultation');
+    }
+
+    if (!(await isSlotOpen(consultation, start, end, event.id))) {
+      await supabaseAdmin.from('calendar_events').delete().eq('id', event.id);
+      throw Errors.conflict(SLOT_TAKEN_MESSAGE);
+    }
+
+    const { data: guest, error: guestError } = await supabaseAdmin
+      .from('event_guests')
+      .insert({
+        event_id: event.id,
+        email: input.email,
+        name: input.name,
+        invitation_sent: false,
+        invitation_sent_at: null,
+        response_status: 'accepted'
+      })
+      .select()
+      .single();
+
+    if (guestError) {
+      logger.error('Failed to add booker as guest:', guestError);
+      await supabaseAdmin.from('calendar_events').delete().eq('id', event.id);
+      throw Errors.database('Failed to book consultation');
+    }
+
+    invalidateCalendarFeed(owner.id);
+
+    const bookerZone = resolveTimeZone(input.timezone, consultation.timezone);
+    const icalEvent = calendarEventToICal(event as CalendarEvent, {
+      organizer: { email: owner.email, name: ownerName },
+      attendees: [{ email: input.email, name: input.name, status: 'accepted' }]
+    });
+    const booking = {
+      title: consultation.consultation_type,
+      meetingUrl: location,
+      ownerName,
+      bookerName: input.name,
+      bookerEmail: input.email,
+      company: input.company,
+      notes: input.projectDescription
+    };
+    const manageUrl = getManageUrl(guest.id);
+
+    // The booking stands even if an email bounces; failures are logged by the email service
+    const sentToBooker = await sendBookingConfirmationEmail(
+      input.email,
+      input.name,
+      { ...booking, recipient: 'booker', startsAt: formatEventWhen(start, bookerZone, false), manageUrl },
+      buildICalendar([icalEvent], { method: 'REQUEST' }),
+      guest.id
+    );
+
+    if (sentToBooker) {
+      await supabaseAdmin
+        .from('event_guests')
+        .update({ invitation_sent: true, invitation_sent_at: new Date().toISOString() })
+        .eq('id', guest.id);
+    }
+
+    await sendBookingConfirmationEmail(
+      owner.email,
+      ownerName,
+      { ...booking, recipient: 'owner', startsAt: formatEventWhen(start, consultation.timezone, false) },
+      buildICalendar([icalEvent], { method: 'PUBLISH' }),
+      event.id
+    );
+
+    await logConsultationBooked(event.id, ipAddress, {
+      consultationId: consultation.id,
+      consultationType: consultation.consultation_type,
+      bookerEmail: input.email,
+      startTime: start.toISOString()
+    });
+
+    logger.info(`Consultation booked: event ${event.id} for owner ${owner.id}`);
+
+    return {
+      eventId: event.id,
+      title: consultation.consultation_type,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      timezone: bookerZone,
+      meetingUrl: location,
+      ownerName
+    };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Book consultation error:', error);
+    throw Errors.internal('Failed to book consultation');
+  }
+}
+
+// =====================================================
+// BOOKER SELF-SERVICE
+// =====================================================
+
+interface BookingRecord {
+  guest: EventGuest;
+  event: CalendarEvent;
+  consultation: ConsultationTypeRow;
+}
+
+/**
+ * The booking behind a manage token
+ * Only events booked through a booking link qualify; the token names the
+ * booker's guest row, so it can't reach anyone else's booking.
+ */
+async function findBookingByToken(token: string): Promise<BookingRecord> {
+  const guestId = verifyGuestToken('booking', token);
+
+  if (!guestId) {
+    throw Errors.notFound('Booking');
+  }
+
+  const { data: guest, error } = await supabaseAdmin
+    .from('event_guests')
+    .select('*, calendar_events(*)')
+    .eq('id', guestId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to load booking:', error);
+    throw Errors.database('Failed to load booking');
+  }
+
+  const event: CalendarEvent | null = guest?.calendar_events || null;
+
+  if (!guest || !event || !event.consultation_id || event.deleted_at) {
+    throw Errors.notFound('Booking');
+  }
+
+  const { data: consultation, error: typeError } = await supabaseAdmin
+    .from('consultation_types')
+    .select('*')
+    .eq('id', event.consultation_id)
+    .maybeSingle();
+
+  if (typeError) {
+    logger.error('Failed to load consultation for booking:', typeError);
+    throw Errors.database('Failed to load booking');
+  }
+
+  if (!consultation) {
+    throw Errors.notFound('Booking');
+  }
+
+  return { guest, event, consultation };
+}
+
+// Minimum notice applies to changes too: nothing moves or drops inside it
+function changeableUntil(event: CalendarEvent, consultation: ConsultationTypeRow): Date {
+  return dayjs(event.start_time).subtract(consultation.buffer_hours, 'hour').toDate();
+}
+
+function assertChangeable({ event, consultation }: BookingRecord): void {
+  if (event.status !== 'active') {
+    throw Errors.badRequest('This booking has been cancelled');
+  }
+
+  if (new Date() >= changeableUntil(event, consultation)) {
+    throw Errors.badRequest(
+      consultation.buffer_hours
+        ? `Bookings can't be changed online within ${consultation.buffer_hours} hours of the start. Please contact ${consultation.company_name}.`
+        : 'This booking has already started'
+    );
+  }
+}
+
+async function toManagedBooking({ guest, event, consultation }: BookingRecord): Promise<ManagedBooking> {
+  const owner = await fetchOwner(consultation.owner_id);
+  const deadline = changeableUntil(event, consultation);
+
+  return {
+    title: consultation.consultation_type,
+    companyName: consultation.company_name,
+    ownerName: owner.full_name || consultation.company_name,
+    bookerName: guest.name,
+    bookerEmail: guest.email,
+    start: new Date(event.start_time).toISOString(),
+    end: new Date(event.end_time).toISOString(),
+    durationMinutes: consultation.duration_minutes,
+    timezone: consultation.timezone,
+    meetingUrl: event.location || null,
+    status: event.status,
+    bufferHours: consultation.buffer_hours,
+    changeableUntil: deadline.toISOString(),
+    canChange: event.status === 'active' && new Date() < deadline
+  };
+}
+
+/**
+ * Tell the owner and the booker about a reschedule or cancellation
+ * Sent with the event's bumped SEQUENCE so calendar apps replace their copy
+ */
+async function sendBookingChangeEmails(
+  record: BookingRecord,
+  kind: 'rescheduled' | 'cancelled',
+  options: { previousStart?: string; reason?: string; bookerZone?: string } = {}
+): Promise<void> {
+  const { guest, event, consultation } = record;
+  const owner = await fetchOwner(consultation.owner_id);
+  const ownerName = owner.full_name || consultation.company_name;
+  const bookerZone = resolveTimeZone(options.bookerZone, consultation.timezone);
+
+  const ics = (method: 'REQUEST' | 'PUBLISH' | 'CANCEL') => buildICalendar([
+    calendarEventToICal(event, {
+      organizer: { email: owner.email, name: ownerName },
+      attendees: [{ email: guest.email, name: guest.name, status: 'accepted' }]
+    })
+  ], { method });
+
+  const change = {
+    kind,
+    title: consultation.consultation_type,
+    meetingUrl: event.location || '',
+    bookerName: guest.name,
+    bookerEmail: guest.email,
+    reason: options.reason
+  };
+
+  await sendBookingChangedEmail(
+    guest.email,
+    guest.name,
+    {
+      ...change,
+      recipient: 'booker',
+      startsAt: formatEventWhen(event.start_time, bookerZone, false),
+      ...(options.previousStart && { previousStartsAt: formatEventWhen(options.previousStart, bookerZone, false) }),
+      manageUrl: getManageUrl(guest.id)
+    },
+    ics(kind === 'cancelled' ? 'CANCEL' : 'REQUEST'),
+    guest.id
+  );
+
+  await sendBookingChangedEmail(
+    owner.email,
+    ownerName,
+    {
+      ...change,
+      recipient: 'owner',
+      startsAt: formatEventWhen(event.start_time, consultation.timezone, false),
+      ...(options.previousStart && { previousStartsAt: formatEventWhen(options.previousStart, consultation.timezone, false) })
+    },
+    ics(kind === 'cancelled' ? 'CANCEL' : 'PUBLISH'),
+    event.id
+  );
+}
+
+/**
+ * Booking details for the manage page
+ */
+export async function getManagedBooking(token: string): Promise<ManagedBooking> {
+  try {
+    return await toManagedBooking(await findBookingByToken(token));
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get managed booking error:', error);
+    throw Errors.internal('Failed to load booking');
+  }
+}
+
+/**
+ * Times the booking could move to; its own slot counts as free
+ */
+export async function getRescheduleSlots(token: string, query: BookingSlotsQuery): Promise<BookingSlotsResult> {
+  try {
+    const { event, consultation } = await findBookingByToken(token);
+    const timeZone = resolveTimeZone(query.tz, consultation.timezone);
+
+    const slots = await findBookableSlots(consultation, new Date(query.from), new Date(query.to), {
+      excludeEventId: event.id
+    });
+
+    return toSlotsResult(slots, consultation, timeZone);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get reschedule slots error:', error);
+    throw Errors.internal('Failed to load available times');
+  }
+}
+
+/**
+ * Move a booking to another open slot
+ * Same write-then-recheck as booking: if the new slot was taken meanwhile
+ * the event goes back to its old time and the booker gets a 409.
+ */
+export async function rescheduleBooking(
+  token: string,
+  input: RescheduleBookingInput,
+  ipAddress: string
+): Promise<ManagedBooking> {
+  try {
+    const record = await findBookingByToken(token);
+    const { guest, event, consultation } = record;
+
+    assertChangeable(record);
+
+    if (!consultation.is_active) {
+      throw Errors.badRequest(`This consultation is not taking bookings. Please contact ${consultation.company_name}.`);
+    }
+
+    const start = new Date(input.start);
+    const end = dayjs(start).add(consultation.duration_minutes, 'minute').toDate();
+    const previous = {
+      start_time: new Date(event.start_time).toISOString(),
+      end_time: new Date(event.end_time).toISOString(),
+      sequence: event.sequence || 0
+    };
+
+    if (start.toISOString() === previous.start_time) {
+      throw Errors.badRequest('Pick a different time');
+    }
+
+    if (!(await isSlotOpen(consultation, start, end, event.id))) {
+      throw Errors.conflict(SLOT_TAKEN_MESSAGE);
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('calendar_events')
+      .update({
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
+        sequence: previous.sequence + 1
+      })
+      .eq('id', event.id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Failed to reschedule booking:', error);
+      throw Errors.database('Failed to reschedule booking');
+    }
+
+    if (!(await isSlotOpen(consultation, start, end, event.id))) {
+      await supabaseAdmin.from('calendar_events').update(previous).eq('id', event.id);
+      throw Errors.conflict(SLOT_TAKEN_MESSAGE);
+    }
+
+    const rescheduled: BookingRecord = { ...record, event: updated as CalendarEvent };
+
+    invalidateCalendarFeed(event.user_id);
+
+    await sendBookingChangeEmails(rescheduled, 'rescheduled', {
+      previousStart: previous.start_time,
+      bookerZone: input.timezone
+    });
+
+    await logConsultationBookingChanged(event.id, ipAddress, {
+      change: 'rescheduled',
+      bookerEmail: guest.email,
+      previousStartTime: previous.start_time,
+      startTime: start.toISOString()
+    });
+
+    logger.info(`Consultation booking rescheduled: event ${event.id}`);
+
+    return await toManagedBooking(rescheduled);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Reschedule booking error:', error);
+    throw Errors.internal('Failed to reschedule booking');
+  }
+}
+
+/**
+ * Cancel a booking; the event stays on the owner's calendar as cancelled
+ * with the booker's reason added to its description
+ */
+export async function cancelBooking(
+  token: string,
+  input: CancelBookingInput,
+  ipAddress: string
+): Promise<ManagedBooking> {
+  try {
+    const record = await findBookingByToken(token);
+    const { guest, event } = record;
+
+    assertChangeable(record);
+
+    const note = `Cancelled by ${guest.name}${input.reason ? `: ${input.reason}` : ''}`;
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('calendar_events')
+      .update({
+        status: 'cancelled',
+        description: event.description ? `${event.description}\n\n${note}` : note,
+        sequence: (event.sequence || 0) + 1
+      })
+      .eq('id', event.id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Failed to cancel booking:', error);
+      throw Errors.database('Failed to cancel booking');
+    }
+
+    const cancelled: BookingRecord = { ...record, event: updated as CalendarEvent };
+
+    invalidateCalendarFeed(event.user_id);
+
+    await sendBookingChangeEmails(cancelled, 'cancelled', { reason: input.reason });
+
+    await logConsultationBookingChanged(event.id, ipAddress, {
+      change: 'cancelled',
+      bookerEmail: guest.email,
+      previousStartTime: new Date(event.start_time).toISOString(),
+      ...(input.reason && { reason: input.reason })
+    });
+
+    logger.info(`Consultation booking cancelled: event ${event.id}`);
+
+    return await toManagedBooking(cancelled);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Cancel booking error:', error);
+    throw Errors.internal('Failed to cancel booking');
+  }
+}
@@ -0,0 +1,333 @@
+// src/services/calendarFeed.service.ts
+// Private iCal subscription feeds: one secret URL per user, polled by calendar apps
+
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import { createHash } from 'crypto';
+import { supabaseAdmin } from '../config/database';
+import supabase from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
+import logger from '../utils/logger';
+import { buildICalendar, calendarEventToICal, ICalEvent } from '../utils/ical';
+import { generateSecureToken, hashToken } from '../utils/jwt';
+import {
+  logCalendarFeedRegenerated,
+  logCalendarFeedRevoked
+} from './audit.calendar.service';
+import {
+  CalendarFeed,
+  CalendarFeedOptions,
+  EventGuest,
+  PublicHoliday
+} from '../types/calendar.types';
+
+dayjs.extend(utc);
+
+// Feeds are rebuilt at most this often unless the user's calendar changes
+const FEED_CACHE_TTL = 15 * 60 * 1000; // 15 minutes
+
+// Past events older than this are left out of feeds; series are always included
+const FEED_HISTORY_DAYS = 90;
+const HOLIDAY_YEARS_AHEAD = 1;
+
+interface CachedFeed {
+  ics: string;
+  etag: string;
+  generatedAt: Date;
+  expiresAt: number;
+}
+
+// Keyed by user id so calendar writes can drop the entry without a feed lookup
+const feedCache = new Map<string, CachedFeed>();
+
+/**
+ * Drop a user's cached feed (called whenever their events change)
+ */
+export function invalidateCalendarFeed(userId: string): void {
+  feedCache.delete(userId);
+}
+
+/**
+ * The user's events as VEVENTs, with guests as attendees
+ * Series are included whole (RRULE + EXDATE) with their override rows; the
+ * range only limits which rows are included.
+ */
+export async function fetchCalendarICalEvents(
+  userId: string,
+  range: { start?: string; end?: string } = {}
+): Promise<ICalEvent[]> {
+  let query = supabase
+    .from('calendar_events')
+    .select('*, event_guests(*)')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .order('start_time', { ascending: true });
+
+  if (range.end) query = query.lte('start_time', range.end);
+  if (range.start) query = query.or(`end_time.gte.${range.start},is_recurring_parent.eq.true`);
+
+  const { data: events, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch events for iCalendar:', error);
+    throw Errors.database('Failed to load calendar');
+  }
+
+  return (events || []).map(event => calendarEventToICal(event, {
+    attendees: (event.event_guests || []).map((guest: EventGuest) => ({
+      email: guest.email,
+      name: guest.name,
+      status: guest.response_status
+    }))
+  }));
+}
+
+/**
+ * Public holidays for a country (plus global ones) as all-day VEVENTs
+ */
+async function fetchHolidayICalEvents(country: string | null): Promise<ICalEvent[]> {
+  let query = supabase
+    .from('public_holidays')
+    .select('*')
+    .eq('is_active', true)
+    .gte('holiday_date', dayjs().subtract(FEED_HISTORY_DAYS, 'day').format('YYYY-MM-DD'))
+    .lte('holiday_date', dayjs().add(HOLIDAY_YEARS_AHEAD, 'year').endOf('year').format('YYYY-MM-DD'));
+
+  if (country) {
+    query = query.or(`countries.is.null,countries.eq.{},countries.cs.{${country}}`);
+  }
+
+  const { data: holidays, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch holidays for feed:', error);
+    return [];
+  }
+
+  return (holidays as PublicHoliday[]).map(holiday => ({
+    uid: `holiday-${holiday.id}@cereforge.com`,
+    start: dayjs.utc(holiday.holiday_date).toISOString(),
+    end: dayjs.utc(holiday.holiday_date).toISOString(),
+    allDay: true,
+    timeZone: 'UTC',
+    summary: holiday.title,
+    description: holiday.description,
+    status: 'CONFIRMED' as const,
+    lastModified: holiday.updated_at
+  }));
+}
+
+function toCalendarFeed(row: any): CalendarFeed {
+  return {
+    includeHolidays: row.include_holidays,
+    holidayCountry: row.holiday_country,
+    createdAt: row.created_at,
+    lastAccessedAt: row.last_accessed_at
+  };
+}
+
+// =====================================================
+// FEED SETTINGS
+// =====================================================
+
+/**
+ * Current feed settings, or null when the user has no feed
+ * The URL itself is only returned when the token is (re)generated.
+ */
+export async function getCalendarFeed(userId: string): Promise<CalendarFeed | null> {
+  try {
+    const { data: feed, error } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to fetch calendar feed:', error);
+      throw Errors.database('Failed to fetch calendar feed');
+    }
+
+    return feed ? toCalendarFeed(feed) : null;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get calendar feed error:', error);
+    throw Errors.internal('Failed to fetch calendar feed');
+  }
+}
+
+/**
+ * Create the feed, or replace its token so the old URL stops working
+ * Returns the new token; only its hash is stored.
+ */
+export async function regenerateCalendarFeed(
+  userId: string,
+  options: CalendarFeedOptions,
+  ipAddress: string
+): Promise<{ feed: CalendarFeed; token: string }> {
+  try {
+    const token = generateSecureToken(32);
+
+    const { data: feed, error } = await supabaseAdmin
+      .from('calendar_feeds')
+      .upsert({
+        user_id: userId,
+        token_hash: hashToken(token),
+        include_holidays: options.includeHolidays,
+        holiday_country: options.includeHolidays ? options.holidayCountry || null : null,
+        created_at: new Date().toISOString(),
+        last_accessed_at: null
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error || !feed) {
+      logger.error('Failed to save calendar feed:', error);
+      throw Errors.database('Failed to create calendar feed');
+    }
+
+    invalidateCalendarFeed(userId);
+
+    await logCalendarFeedRegenerated(userId, ipAddress, options);
+
+    logger.info(`Calendar feed token regenerated for user ${userId}`);
+
+    return { feed: toCalendarFeed(feed), token };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Regenerate calendar feed error:', error);
+    throw Errors.internal('Failed to create calendar feed');
+  }
+}
+
+/**
+ * Change what the feed includes, keeping its URL
+ */
+export async function updateCalendarFeedOptions(
+  userId: string,
+  options: CalendarFeedOptions
+): Promise<CalendarFeed> {
+  try {
+    const { data: feed, error } = await supabaseAdmin
+      .from('calendar_feeds')
+      .update({
+        include_holidays: options.includeHolidays,
+        holiday_country: options.includeHolidays ? options.holidayCountry || null : null
+      })
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to update calendar feed:', error);
+      throw Errors.database('Failed to update calendar feed');
+    }
+
+    if (!feed) {
+      throw Errors.notFound('Calendar feed');
+    }
+
+    invalidateCalendarFeed(userId);
+
+    return toCalendarFeed(feed);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Update calendar feed error:', error);
+    throw Errors.internal('Failed to update calendar feed');
+  }
+}
+
+/**
+ * Revoke the feed; subscribed apps get 404 from then on
+ */
+export async function revokeCalendarFeed(userId: string, ipAddress: string): Promise<void> {
+  try {
+    const { data: deleted, error } = await supabaseAdmin
+      .from('calendar_feeds')
+      .delete()
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to revoke calendar feed:', error);
+      throw Errors.database('Failed to revoke calendar feed');
+    }
+
+    if (!deleted?.length) {
+      throw Errors.notFound('Calendar feed');
+    }
+
+    invalidateCalendarFeed(userId);
+
+    await logCalendarFeedRevoked(userId, ipAddress);
+
+    logger.info(`Calendar feed revoked for user ${userId}`);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Revoke calendar feed error:', error);
+    throw Errors.internal('Failed to revoke calendar feed');
+  }
+}
+
+// =====================================================
+// FEED DELIVERY
+// =====================================================
+
+/**
+ * Render the feed for a token
+ * Built documents are cached per user until they expire or the calendar
+ * changes, so frequent polls only cost the token lookup.
+ */
+export async function renderCalendarFeed(token: string): Promise<CachedFeed> {
+  try {
+    const { data: feed, error } = await supabaseAdmin
+      .from('calendar_feeds')
+      .select('*')
+      .eq('token_hash', hashToken(token))
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up calendar feed:', error);
+      throw Errors.database('Failed to load calendar feed');
+    }
+
+    if (!feed) {
+      throw Errors.notFound('Calendar feed');
+    }
+
+    const cached = feedCache.get(feed.user_id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const [events, holidays] = await Promise.all([
+      fetchCalendarICalEvents(feed.user_id, {
+        start: dayjs().subtract(FEED_HISTORY_DAYS, 'day').toISOString()
+      }),
+      feed.include_holidays ? fetchHolidayICalEvents(feed.holiday_country) : Promise.resolve([])
+    ]);
+
+    const ics = buildICalendar([...events, ...holidays], { method: 'PUBLISH', name: 'Cereforge' });
+    const rendered: CachedFeed = {
+      ics,
+      etag: `"${createHash('sha256').update(ics.replace(/^DTSTAMP:.*$/gm, '')).digest('hex').slice(0, 32)}"`,
+      generatedAt: new Date(),
+      expiresAt: Date.now() + FEED_CACHE_TTL
+    };
+
+    feedCache.set(feed.user_id, rendered);
+
+    // Recorded on rebuilds only, which is as often as it's useful to know
+    await supabaseAdmin
+      .from('calendar_feeds')
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq('id', feed.id);
+
+    logger.info(`Calendar feed rebuilt for user ${feed.user_id}: ${events.length} events, ${holidays.length} holidays`);
+
+    return rendered;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Render calendar feed error:', error);
+    throw Errors.internal('Failed to load calendar feed');
+  }
+}
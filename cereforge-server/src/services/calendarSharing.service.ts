@@ -0,0 +1,616 @@
+// src/services/calendarSharing.service.ts
+// Calendars as shared objects: a personal calendar per user plus team and
+// partner-project calendars, each shared with members at a permission level
+
+import { supabaseAdmin } from '../config/database';
+import supabase from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
+import logger from '../utils/logger';
+import { UserRole, UserStatus } from '../types/types';
+import {
+  logCalendarCreated,
+  logCalendarDeleted,
+  logCalendarSharingChanged
+} from './audit.calendar.service';
+import {
+  AccessibleCalendar,
+  AddCalendarMemberInput,
+  Calendar,
+  CalendarAccess,
+  CalendarEvent,
+  CalendarMember,
+  CalendarPermission,
+  CreateCalendarInput,
+  UpdateCalendarInput
+} from '../types/calendar.types';
+
+// What each access level may do with a calendar's events
+const CAN_READ: CalendarAccess[] = ['owner', 'edit', 'read'];
+const CAN_EDIT: CalendarAccess[] = ['owner', 'edit'];
+
+const MAX_CALENDAR_MEMBERS = 100;
+
+// Partner-project calendars are run by staff; partners only ever join them
+const PROJECT_CALENDAR_ROLES: string[] = [UserRole.ADMIN, UserRole.CORE];
+
+// =====================================================
+// ACCESS
+// =====================================================
+
+/**
+ * The user's personal calendar, created on first use
+ * Events with no calendar_id live here, so existing events need no backfill.
+ */
+export async function ensurePersonalCalendar(userId: string): Promise<Calendar> {
+  const { data: existing, error } = await supabase
+    .from('calendars')
+    .select('*')
+    .eq('owner_id', userId)
+    .eq('type', 'personal')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to load personal calendar:', error);
+    throw Errors.database('Failed to load calendars');
+  }
+
+  if (existing) return existing as Calendar;
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const { data: calendar, error: insertError } = await supabaseAdmin
+    .from('calendars')
+    .insert({
+      owner_id: userId,
+      type: 'personal',
+      name: profile?.full_name || 'My calendar',
+      color: 'blue'
+    })
+    .select()
+    .single();
+
+  if (insertError || !calendar) {
+    logger.error('Failed to create personal calendar:', insertError);
+    throw Errors.database('Failed to load calendars');
+  }
+
+  return calendar as Calendar;
+}
+
+/**
+ * Every calendar the user owns or has been shared, with their access level
+ */
+export async function getAccessibleCalendars(userId: string): Promise<AccessibleCalendar[]> {
+  await ensurePersonalCalendar(userId);
+
+  const [owned, memberships] = await Promise.all([
+    supabase
+      .from('calendars')
+      .select('*, calendar_members(count)')
+      .eq('owner_id', userId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('calendar_members')
+      .select('permission, calendars(*)')
+      .eq('user_id', userId)
+  ]);
+
+  if (owned.error || memberships.error) {
+    logger.error('Failed to load calendars:', owned.error || memberships.error);
+    throw Errors.database('Failed to load calendars');
+  }
+
+  const ownCalendars: AccessibleCalendar[] = (owned.data || []).map(({ calendar_members, ...calendar }: any) => ({
+    ...calendar,
+    access: 'owner',
+    member_count: calendar_members?.[0]?.count ?? 0
+  }));
+
+  const sharedCalendars: AccessibleCalendar[] = (memberships.data || [])
+    .filter((membership: any) => membership.calendars)
+    .map((membership: any) => ({
+      ...(membership.calendars as Calendar),
+      access: membership.permission as CalendarPermission
+    }));
+
+  // Personal calendar first, then the rest by name
+  return [
+    ...ownCalendars.filter(calendar => calendar.type === 'personal'),
+    ...[...ownCalendars.filter(calendar => calendar.type !== 'personal'), ...sharedCalendars]
+      .sort((a, b) => a.name.localeCompare(b.name))
+  ];
+}
+
+/**
+ * A calendar and the user's access to it; null when they have none
+ */
+export async function getCalendarAccess(
+  calendarId: string,
+  userId: string
+): Promise<{ calendar: Calendar; access: CalendarAccess } | null> {
+  const { data: calendar, error } = await supabase
+    .from('calendars')
+    .select('*')
+    .eq('id', calendarId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to load calendar:', error);
+    throw Errors.database('Failed to load calendar');
+  }
+
+  if (!calendar) return null;
+  if (calendar.owner_id === userId) return { calendar, access: 'owner' };
+
+  const { data: membership } = await supabase
+    .from('calendar_members')
+    .select('permission')
+    .eq('calendar_id', calendarId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return membership ? { calendar, access: membership.permission as CalendarPermission } : null;
+}
+
+/**
+ * The calendar an event sits in, from a set of calendars the viewer can see
+ */
+export function findEventCalendar(
+  event: Pick<CalendarEvent, 'user_id' | 'calendar_id'>,
+  calendars: AccessibleCalendar[]
+): AccessibleCalendar | undefined {
+  return event.calendar_id
+    ? calendars.find(calendar => calendar.id === event.calendar_id)
+    : calendars.find(calendar => calendar.type === 'personal' && calendar.owner_id === event.user_id);
+}
+
+/**
+ * PostgREST .or() filter matching the events of the given calendars
+ */
+export function calendarEventsFilter(calendars: AccessibleCalendar[]): string {
+  const personalOwners = calendars
+    .filter(calendar => calendar.type === 'personal')
+    .map(calendar => `and(user_id.eq.${calendar.owner_id},calendar_id.is.null)`);
+  const sharedIds = calendars
+    .filter(calendar => calendar.type !== 'personal')
+    .map(calendar => calendar.id);
+
+  return [
+    ...personalOwners,
+    ...(sharedIds.length ? [`calendar_id.in.(${sharedIds.join(',')})`] : [])
+  ].join(',');
+}
+
+export function canReadEvents(access: CalendarAccess): boolean {
+  return CAN_READ.includes(access);
+}
+
+/**
+ * The user's access to an event's calendar; null when they can't see it
+ */
+export async function getEventAccess(
+  event: Pick<CalendarEvent, 'user_id' | 'calendar_id'>,
+  userId: string
+): Promise<CalendarAccess | null> {
+  if (!event.calendar_id && event.user_id === userId) return 'owner';
+
+  if (event.calendar_id) {
+    return (await getCalendarAccess(event.calendar_id, userId))?.access ?? null;
+  }
+
+  const personal = await ensurePersonalCalendar(event.user_id);
+  return (await getCalendarAccess(personal.id, userId))?.access ?? null;
+}
+
+/**
+ * Where a new or moved event is stored for a calendarId from a request
+ * Events in a personal calendar are owned by its owner and have no
+ * calendar_id, so a colleague with edit access adds to it on their behalf.
+ */
+export async function resolveWritableCalendar(
+  calendarId: string | undefined,
+  userId: string
+): Promise<{ calendarId: string | null; ownerId: string }> {
+  if (!calendarId) return { calendarId: null, ownerId: userId };
+
+  const result = await getCalendarAccess(calendarId, userId);
+
+  if (!result) {
+    throw Errors.notFound('Calendar');
+  }
+
+  if (!CAN_EDIT.includes(result.access)) {
+    throw Errors.forbidden('You can only view events in this calendar');
+  }
+
+  return result.calendar.type === 'personal'
+    ? { calendarId: null, ownerId: result.calendar.owner_id }
+    : { calendarId: result.calendar.id, ownerId: userId };
+}
+
+export function assertCanEditEvents(access: CalendarAccess | null): void {
+  if (!access) {
+    throw Errors.notFound('Event');
+  }
+
+  if (!CAN_EDIT.includes(access)) {
+    throw Errors.forbidden('You can only view events in this calendar');
+  }
+}
+
+/**
+ * Load a calendar the user owns (settings and sharing are owner-only)
+ */
+async function fetchOwnedCalendar(calendarId: string, userId: string): Promise<Calendar> {
+  const result = await getCalendarAccess(calendarId, userId);
+
+  if (!result) {
+    throw Errors.notFound('Calendar');
+  }
+
+  if (result.access !== 'owner') {
+    throw Errors.forbidden('Only the calendar owner can do this');
+  }
+
+  return result.calendar;
+}
+
+// =====================================================
+// CALENDARS
+// =====================================================
+
+export async function listCalendars(userId: string): Promise<AccessibleCalendar[]> {
+  try {
+    return await getAccessibleCalendars(userId);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('List calendars error:', error);
+    throw Errors.internal('Failed to load calendars');
+  }
+}
+
+/**
+ * Create a team or partner-project calendar
+ * Only admin and core staff create project calendars; the partner's account
+ * is shared the project calendar (read) straight away.
+ */
+export async function createCalendar(
+  userId: string,
+  role: UserRole,
+  data: CreateCalendarInput,
+  ipAddress: string
+): Promise<AccessibleCalendar> {
+  try {
+    let partnerUserId: string | null = null;
+
+    if (data.type === 'partner_project') {
+      if (!PROJECT_CALENDAR_ROLES.includes(role)) {
+        throw Errors.forbidden('Only admin and core staff can create partner project calendars');
+      }
+
+      const { data: partner, error: partnerError } = await supabase
+        .from('partners')
+        .select('id, user_id')
+        .eq('id', data.partnerId!)
+        .maybeSingle();
+
+      if (partnerError || !partner) {
+        throw Errors.notFound('Partner');
+      }
+
+      partnerUserId = partner.user_id;
+    }
+
+    const { data: calendar, error } = await supabaseAdmin
+      .from('calendars')
+      .insert({
+        owner_id: userId,
+        type: data.type,
+        name: data.name,
+        description: data.description || null,
+        color: data.color,
+        partner_id: data.type === 'partner_project' ? data.partnerId : null
+      })
+      .select()
+      .single();
+
+    if (error || !calendar) {
+      logger.error('Failed to create calendar:', error);
+      throw Errors.database('Failed to create calendar');
+    }
+
+    if (partnerUserId && partnerUserId !== userId) {
+      const { error: memberError } = await supabaseAdmin
+        .from('calendar_members')
+        .insert({ calendar_id: calendar.id, user_id: partnerUserId, permission: 'read', added_by: userId });
+
+      if (memberError) {
+        logger.error('Failed to share project calendar with partner:', memberError);
+      }
+    }
+
+    await logCalendarCreated(userId, calendar.id, ipAddress, {
+      name: data.name,
+      type: data.type,
+      partnerId: data.partnerId
+    });
+
+    logger.info(`Calendar created: ${calendar.id} (${data.type}) by user ${userId}`);
+
+    return { ...(calendar as Calendar), access: 'owner', member_count: partnerUserId && partnerUserId !== userId ? 1 : 0 };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Create calendar error:', error);
+    throw Errors.internal('Failed to create calendar');
+  }
+}
+
+export async function updateCalendar(
+  calendarId: string,
+  userId: string,
+  data: UpdateCalendarInput
+): Promise<Calendar> {
+  try {
+    await fetchOwnedCalendar(calendarId, userId);
+
+    const updateData: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.color !== undefined) updateData.color = data.color;
+
+    const { data: calendar, error } = await supabaseAdmin
+      .from('calendars')
+      .update(updateData)
+      .eq('id', calendarId)
+      .select()
+      .single();
+
+    if (error || !calendar) {
+      logger.error('Failed to update calendar:', error);
+      throw Errors.database('Failed to update calendar');
+    }
+
+    return calendar as Calendar;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Update calendar error:', error);
+    throw Errors.internal('Failed to update calendar');
+  }
+}
+
+/**
+ * Delete a shared calendar together with its events
+ * Personal calendars can't be deleted.
+ */
+export async function deleteCalendar(
+  calendarId: string,
+  userId: string,
+  ipAddress: string
+): Promise<void> {
+  try {
+    const calendar = await fetchOwnedCalendar(calendarId, userId);
+
+    if (calendar.type === 'personal') {
+      throw Errors.badRequest('Your personal calendar cannot be deleted');
+    }
+
+    const { error: eventsError } = await supabaseAdmin
+      .from('calendar_events')
+      .update({ deleted_at: new Date().toISOString(), status: 'cancelled' })
+      .eq('calendar_id', calendarId)
+      .is('deleted_at', null);
+
+    if (eventsError) {
+      logger.error('Failed to remove calendar events:', eventsError);
+      throw Errors.database('Failed to delete calendar');
+    }
+
+    const { error } = await supabaseAdmin
+      .from('calendars')
+      .delete()
+      .eq('id', calendarId);
+
+    if (error) {
+      logger.error('Failed to delete calendar:', error);
+      throw Errors.database('Failed to delete calendar');
+    }
+
+    await logCalendarDeleted(userId, calendarId, ipAddress, { name: calendar.name, type: calendar.type });
+
+    logger.info(`Calendar deleted: ${calendarId} by user ${userId}`);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Delete calendar error:', error);
+    throw Errors.internal('Failed to delete calendar');
+  }
+}
+
+// =====================================================
+// MEMBERS
+// =====================================================
+
+export async function getCalendarMembers(calendarId: string, userId: string): Promise<CalendarMember[]> {
+  try {
+    await fetchOwnedCalendar(calendarId, userId);
+
+    const { data: members, error } = await supabase
+      .from('calendar_members')
+      .select('user_id, permission, added_by, created_at')
+      .eq('calendar_id', calendarId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      logger.error('Failed to load calendar members:', error);
+      throw Errors.database('Failed to load members');
+    }
+
+    if (!members?.length) return [];
+
+    const { data: profiles } = await supabase
+      .from('user_profiles')
+      .select('id, email, full_name')
+      .in('id', members.map(member => member.user_id));
+
+    return members.map(member => {
+      const profile = profiles?.find(candidate => candidate.id === member.user_id);
+      return { ...member, email: profile?.email, full_name: profile?.full_name } as CalendarMember;
+    });
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get calendar members error:', error);
+    throw Errors.internal('Failed to load members');
+  }
+}
+
+/**
+ * Share a calendar with an active Cereforge user
+ * Partners can only be added to partner-project calendars.
+ */
+export async function addCalendarMember(
+  calendarId: string,
+  userId: string,
+  data: AddCalendarMemberInput,
+  ipAddress: string
+): Promise<CalendarMember> {
+  try {
+    const calendar = await fetchOwnedCalendar(calendarId, userId);
+
+    const { data: profile, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('id, email, full_name, role')
+      .eq('email', data.email)
+      .eq('status', UserStatus.ACTIVE)
+      .maybeSingle();
+
+    if (profileError) {
+      logger.error('Failed to look up calendar member:', profileError);
+      throw Errors.database('Failed to share calendar');
+    }
+
+    if (!profile) {
+      throw Errors.notFound('User');
+    }
+
+    if (profile.id === userId) {
+      throw Errors.badRequest('You already own this calendar');
+    }
+
+    if (profile.role === UserRole.PARTNER && calendar.type !== 'partner_project') {
+      throw Errors.badRequest('Partners can only be added to partner-project calendars');
+    }
+
+    const { data: existing } = await supabase
+      .from('calendar_members')
+      .select('user_id')
+      .eq('calendar_id', calendarId);
+
+    if (existing?.some(member => member.user_id === profile.id)) {
+      throw Errors.conflict(`${profile.email} already has access to this calendar`);
+    }
+
+    if ((existing?.length || 0) >= MAX_CALENDAR_MEMBERS) {
+      throw Errors.badRequest(`A calendar can be shared with at most ${MAX_CALENDAR_MEMBERS} people`);
+    }
+
+    const { data: member, error } = await supabaseAdmin
+      .from('calendar_members')
+      .insert({ calendar_id: calendarId, user_id: profile.id, permission: data.permission, added_by: userId })
+      .select('user_id, permission, added_by, created_at')
+      .single();
+
+    if (error || !member) {
+      logger.error('Failed to add calendar member:', error);
+      throw Errors.database('Failed to share calendar');
+    }
+
+    await logCalendarSharingChanged(userId, calendarId, ipAddress, {
+      memberId: profile.id,
+      change: 'added',
+      permission: data.permission
+    });
+
+    logger.info(`Calendar ${calendarId} shared with ${profile.id} (${data.permission})`);
+
+    return { ...member, email: profile.email, full_name: profile.full_name } as CalendarMember;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Add calendar member error:', error);
+    throw Errors.internal('Failed to share calendar');
+  }
+}
+
+export async function updateCalendarMember(
+  calendarId: string,
+  memberId: string,
+  userId: string,
+  permission: CalendarPermission,
+  ipAddress: string
+): Promise<void> {
+  try {
+    await fetchOwnedCalendar(calendarId, userId);
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('calendar_members')
+      .update({ permission })
+      .eq('calendar_id', calendarId)
+      .eq('user_id', memberId)
+      .select('user_id');
+
+    if (error) {
+      logger.error('Failed to update calendar member:', error);
+      throw Errors.database('Failed to update member');
+    }
+
+    if (!updated?.length) {
+      throw Errors.notFound('Member');
+    }
+
+    await logCalendarSharingChanged(userId, calendarId, ipAddress, { memberId, change: 'updated', permission });
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Update calendar member error:', error);
+    throw Errors.internal('Failed to update member');
+  }
+}
+
+/**
+ * Remove someone's access; members may also remove themselves
+ */
+export async function removeCalendarMember(
+  calendarId: string,
+  memberId: string,
+  userId: string,
+  ipAddress: string
+): Promise<void> {
+  try {
+    if (memberId !== userId) {
+      await fetchOwnedCalendar(calendarId, userId);
+    }
+
+    const { data: removed, error } = await supabaseAdmin
+      .from('calendar_members')
+      .delete()
+      .eq('calendar_id', calendarId)
+      .eq('user_id', memberId)
+      .select('user_id');
+
+    if (error) {
+      logger.error('Failed to remove calendar member:', error);
+      throw Errors.database('Failed to remove member');
+    }
+
+    if (!removed?.length) {
+      throw Errors.notFound('Member');
+    }
+
+    await logCalendarSharingChanged(userId, calendarId, ipAddress, { memberId, change: 'removed' });
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Remove calendar member error:', error);
+    throw Errors.internal('Failed to remove member');
+  }
+}
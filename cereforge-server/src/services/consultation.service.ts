@@ -0,0 +1,537 @@
+// src/services/consultation.service.ts
+// Consultation booking types: each user's own bookable consultations (up to
+// two) plus the Cereforge system bookings shared by admin and core staff
+
+import { supabaseAdmin } from '../config/database';
+import supabase from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
+import logger from '../utils/logger';
+import { UserRole } from '../types/types';
+import { generateSecureToken } from '../utils/jwt';
+import { logBookingLinkChanged, logConsultationTypeChanged } from './audit.calendar.service';
+import {
+  BookingLinkRow,
+  ConsultationType,
+  ConsultationTypeRow,
+  CreateConsultationTypeInput,
+  UpdateConsultationTypeInput
+} from '../types/consultation.types';
+
+const MAX_INDIVIDUAL_CONSULTATIONS = 2;
+
+// Public link ids are random so links can't be guessed from the slugs
+const LINK_ID_BYTES = 12;
+const SYSTEM_BOOKING_COMPANY = 'Cereforge';
+const SYSTEM_BOOKING_TITLE = 'Consultation';
+
+const SYSTEM_BOOKING_ROLES: string[] = [UserRole.ADMIN, UserRole.CORE];
+
+export function canManageSystemBookings(role: UserRole): boolean {
+  return SYSTEM_BOOKING_ROLES.includes(role);
+}
+
+export function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+
+  return slug || 'booking';
+}
+
+export function toBookingPath(link: BookingLinkRow): string {
+  return `/book/${link.company_slug}/${link.type_slug}/${link.link_id}`;
+}
+
+function toConsultationType(row: ConsultationTypeRow, link: BookingLinkRow | null): ConsultationType {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    consultationType: row.consultation_type,
+    companyName: row.company_name,
+    description: row.description || '',
+    durationMinutes: row.duration_minutes,
+    bufferHours: row.buffer_hours,
+    paddingMinutes: row.padding_minutes,
+    maxPerDay: row.max_per_day,
+    timezone: row.timezone,
+    schedule: row.schedule,
+    isActive: row.is_active,
+    isSystemBooking: row.is_system_booking,
+    bookingPath: link ? toBookingPath(link) : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * A consultation type the user may manage: their own individual types, or
+ * any system booking type for admin/core
+ */
+async function fetchManageableConsultation(
+  consultationId: string,
+  userId: string,
+  role: UserRole
+): Promise<ConsultationTypeRow> {
+  const { data: row, error } = await supabase
+    .from('consultation_types')
+    .select('*')
+    .eq('id', consultationId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch consultation type:', error);
+    throw Errors.database('Failed to fetch consultation');
+  }
+
+  const allowed = row && (row.is_system_booking ? canManageSystemBookings(role) : row.owner_id === userId);
+
+  if (!allowed) {
+    throw Errors.notFound('Consultation');
+  }
+
+  return row as ConsultationTypeRow;
+}
+
+// =====================================================
+// BOOKING LINKS
+// =====================================================
+
+/**
+ * The link for a consultation type, or the shared system booking link
+ */
+async function fetchBookingLink(consultationId: string | null): Promise<BookingLinkRow | null> {
+  let query = supabase.from('booking_links').select('*');
+
+  query = consultationId
+    ? query.eq('consultation_id', consultationId)
+    : query.eq('is_system_booking', true);
+
+  const { data: link, error } = await query.maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch booking link:', error);
+    throw Errors.database('Failed to fetch booking link');
+  }
+
+  return link as BookingLinkRow | null;
+}
+
+/**
+ * Slugs for a link's URL; the type slug is numbered when another link
+ * already uses the same company and type slugs
+ */
+async function uniqueSlugs(
+  companyName: string,
+  typeName: string,
+  ownLinkId?: string
+): Promise<{ companySlug: string; typeSlug: string }> {
+  const companySlug = slugify(companyName);
+  const baseSlug = slugify(typeName);
+
+  const { data: links, error } = await supabase
+    .from('booking_links')
+    .select('id, type_slug')
+    .eq('company_slug', companySlug)
+    .like('type_slug', `${baseSlug}%`);
+
+  if (error) {
+    logger.error('Failed to check booking link slugs:', error);
+    throw Errors.database('Failed to create booking link');
+  }
+
+  const taken = new Set((links || []).filter(link => link.id !== ownLinkId).map(link => link.type_slug));
+
+  let typeSlug = baseSlug;
+  for (let n = 2; taken.has(typeSlug); n++) {
+    typeSlug = `${baseSlug}-${n}`;
+  }
+
+  return { companySlug, typeSlug };
+}
+
+/**
+ * Create a link, or give an existing one a new id so the old URL stops working
+ * Pass keepLinkId to only refresh the slugs (after a rename); old URLs keep resolving.
+ */
+async function saveBookingLink(
+  consultation: ConsultationTypeRow | null,
+  userId: string,
+  existing: BookingLinkRow | null,
+  keepLinkId = false
+): Promise<BookingLinkRow> {
+  const { companySlug, typeSlug } = consultation
+    ? await uniqueSlugs(consultation.company_name, consultation.consultation_type, existing?.id)
+    : await uniqueSlugs(SYSTEM_BOOKING_COMPANY, SYSTEM_BOOKING_TITLE, existing?.id);
+
+  const fields = {
+    link_id: keepLinkId && existing ? existing.link_id : generateSecureToken(LINK_ID_BYTES),
+    company_slug: companySlug,
+    type_slug: typeSlug
+  };
+
+  const { data: link, error } = existing
+    ? await supabaseAdmin
+      .from('booking_links')
+      .update(fields)
+      .eq('id', existing.id)
+      .select()
+      .single()
+    : await supabaseAdmin
+      .from('booking_links')
+      .insert({
+        ...fields,
+        consultation_id: consultation?.id ?? null,
+        is_system_booking: !consultation,
+        created_by: userId
+      })
+      .select()
+      .single();
+
+  if (error || !link) {
+    logger.error('Failed to save booking link:', error);
+    throw Errors.database('Failed to save booking link');
+  }
+
+  return link as BookingLinkRow;
+}
+
+/**
+ * New URL for a consultation's booking link (or the system booking link when
+ * consultationId is null); creates the link if it was revoked
+ */
+export async function regenerateBookingLink(
+  consultationId: string | null,
+  userId: string,
+  role: UserRole,
+  ipAddress: string
+): Promise<string> {
+  try {
+    if (!consultationId && !canManageSystemBookings(role)) {
+      throw Errors.forbidden('Only admin and core staff can manage system bookings');
+    }
+
+    const consultation = consultationId
+      ? await fetchManageableConsultation(consultationId, userId, role)
+      : null;
+
+    if (consultation?.is_system_booking) {
+      throw Errors.badRequest('System booking types share the system booking link');
+    }
+
+    const existing = await fetchBookingLink(consultationId);
+    const link = await saveBookingLink(consultation, userId, existing);
+
+    await logBookingLinkChanged(userId, link.id, ipAddress, {
+      change: existing ? 'regenerated' : 'created',
+      consultationId,
+      isSystemBooking: !consultation
+    });
+
+    return toBookingPath(link);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Regenerate booking link error:', error);
+    throw Errors.internal('Failed to regenerate booking link');
+  }
+}
+
+/**
+ * Disable a booking link until it's regenerated
+ */
+export async function revokeBookingLink(
+  consultationId: string | null,
+  userId: string,
+  role: UserRole,
+  ipAddress: string
+): Promise<void> {
+  try {
+    if (!consultationId && !canManageSystemBookings(role)) {
+      throw Errors.forbidden('Only admin and core staff can manage system bookings');
+    }
+
+    if (consultationId) {
+      await fetchManageableConsultation(consultationId, userId, role);
+    }
+
+    const existing = await fetchBookingLink(consultationId);
+    if (!existing) return;
+
+    const { error } = await supabaseAdmin
+      .from('booking_links')
+      .delete()
+      .eq('id', existing.id);
+
+    if (error) {
+      logger.error('Failed to revoke booking link:', error);
+      throw Errors.database('Failed to revoke booking link');
+    }
+
+    await logBookingLinkChanged(userId, existing.id, ipAddress, {
+      change: 'revoked',
+      consultationId,
+      isSystemBooking: existing.is_system_booking
+    });
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Revoke booking link error:', error);
+    throw Errors.internal('Failed to revoke booking link');
+  }
+}
+
+// =====================================================
+// CONSULTATION TYPES
+// =====================================================
+
+/**
+ * System bookings (admin/core only) first, then the user's individual types
+ */
+export async function listConsultationTypes(userId: string, role: UserRole): Promise<ConsultationType[]> {
+  try {
+    let query = supabase
+      .from('consultation_types')
+      .select('*')
+      .order('is_system_booking', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    query = canManageSystemBookings(role)
+      ? query.or(`owner_id.eq.${userId},is_system_booking.eq.true`)
+      : query.eq('owner_id', userId).eq('is_system_booking', false);
+
+    const { data: rows, error } = await query;
+
+    if (error) {
+      logger.error('Failed to fetch consultation types:', error);
+      throw Errors.database('Failed to fetch consultations');
+    }
+
+    const consultations = rows as ConsultationTypeRow[];
+    const individualIds = consultations.filter(row => !row.is_system_booking).map(row => row.id);
+    const linkFilters = [];
+    if (individualIds.length > 0) linkFilters.push(`consultation_id.in.(${individualIds.join(',')})`);
+    if (consultations.some(row => row.is_system_booking)) linkFilters.push('is_system_booking.eq.true');
+
+    const { data: links, error: linksError } = linkFilters.length > 0
+      ? await supabase.from('booking_links').select('*').or(linkFilters.join(','))
+      : { data: [], error: null };
+
+    if (linksError) {
+      logger.error('Failed to fetch booking links:', linksError);
+      throw Errors.database('Failed to fetch consultations');
+    }
+
+    // System booking types all share the one system link
+    const systemLink = (links as BookingLinkRow[]).find(link => link.is_system_booking) || null;
+
+    return consultations.map(row => toConsultationType(
+      row,
+      row.is_system_booking
+        ? systemLink
+        : (links as BookingLinkRow[]).find(link => link.consultation_id === row.id) || null
+    ));
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('List consultation types error:', error);
+    throw Errors.internal('Failed to fetch consultations');
+  }
+}
+
+export async function getConsultationType(
+  consultationId: string,
+  userId: string,
+  role: UserRole
+): Promise<ConsultationType> {
+  try {
+    const row = await fetchManageableConsultation(consultationId, userId, role);
+    return toConsultationType(row, await fetchBookingLink(row.is_system_booking ? null : row.id));
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get consultation type error:', error);
+    throw Errors.internal('Failed to fetch consultation');
+  }
+}
+
+/**
+ * Create a consultation type
+ * System bookings are admin/core only; individual users get up to two types.
+ */
+export async function createConsultationType(
+  userId: string,
+  role: UserRole,
+  data: CreateConsultationTypeInput,
+  ipAddress: string
+): Promise<ConsultationType> {
+  try {
+    if (data.isSystemBooking && !canManageSystemBookings(role)) {
+      throw Errors.forbidden('Only admin and core staff can manage system bookings');
+    }
+
+    let countQuery = supabase
+      .from('consultation_types')
+      .select('id', { count: 'exact', head: true })
+      .eq('is_system_booking', data.isSystemBooking);
+
+    if (!data.isSystemBooking) {
+      countQuery = countQuery.eq('owner_id', userId);
+    }
+
+    const { count, error: countError } = await countQuery;
+
+    if (countError) {
+      logger.error('Failed to count consultation types:', countError);
+      throw Errors.database('Failed to create consultation');
+    }
+
+    if (!data.isSystemBooking && (count || 0) >= MAX_INDIVIDUAL_CONSULTATIONS) {
+      throw Errors.badRequest(`You can have up to ${MAX_INDIVIDUAL_CONSULTATIONS} consultation types`);
+    }
+
+    const { data: row, error } = await supabaseAdmin
+      .from('consultation_types')
+      .insert({
+        owner_id: userId,
+        consultation_type: data.consultationType,
+        company_name: data.companyName,
+        description: data.description || null,
+        duration_minutes: data.durationMinutes,
+        buffer_hours: data.bufferHours,
+        padding_minutes: data.paddingMinutes,
+        max_per_day: data.maxPerDay,
+        timezone: data.timezone,
+        schedule: data.schedule,
+        is_active: data.isActive,
+        is_system_booking: data.isSystemBooking
+      })
+      .select()
+      .single();
+
+    if (error || !row) {
+      logger.error('Failed to create consultation type:', error);
+      throw Errors.database('Failed to create consultation');
+    }
+
+    // Individual types get their own link; system types share one, made with the
+    // first (a revoked system link stays revoked until it's regenerated)
+    const isFirstSystemType = data.isSystemBooking && !count;
+    const link = !data.isSystemBooking
+      ? await saveBookingLink(row as ConsultationTypeRow, userId, null)
+      : isFirstSystemType
+        ? await fetchBookingLink(null) ?? await saveBookingLink(null, userId, null)
+        : await fetchBookingLink(null);
+
+    await logConsultationTypeChanged(userId, row.id, ipAddress, {
+      change: 'created',
+      consultationType: data.consultationType,
+      isSystemBooking: data.isSystemBooking
+    });
+
+    logger.info(`Consultation type ${row.id} created by user ${userId}`);
+
+    return toConsultationType(row as ConsultationTypeRow, link);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Create consultation type error:', error);
+    throw Errors.internal('Failed to create consultation');
+  }
+}
+
+/**
+ * Update a consultation type; changes apply to its booking link immediately
+ */
+export async function updateConsultationType(
+  consultationId: string,
+  userId: string,
+  role: UserRole,
+  data: UpdateConsultationTypeInput,
+  ipAddress: string
+): Promise<ConsultationType> {
+  try {
+    const existing = await fetchManageableConsultation(consultationId, userId, role);
+
+    const updateData: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (data.consultationType !== undefined) updateData.consultation_type = data.consultationType;
+    if (data.companyName !== undefined) updateData.company_name = data.companyName;
+    if (data.description !== undefined) updateData.description = data.description || null;
+    if (data.durationMinutes !== undefined) updateData.duration_minutes = data.durationMinutes;
+    if (data.bufferHours !== undefined) updateData.buffer_hours = data.bufferHours;
+    if (data.paddingMinutes !== undefined) updateData.padding_minutes = data.paddingMinutes;
+    if (data.maxPerDay !== undefined) updateData.max_per_day = data.maxPerDay;
+    if (data.timezone !== undefined) updateData.timezone = data.timezone;
+    if (data.schedule !== undefined) updateData.schedule = data.schedule;
+    if (data.isActive !== undefined) updateData.is_active = data.isActive;
+
+    const { data: row, error } = await supabaseAdmin
+      .from('consultation_types')
+      .update(updateData)
+      .eq('id', consultationId)
+      .select()
+      .single();
+
+    if (error || !row) {
+      logger.error('Failed to update consultation type:', error);
+      throw Errors.database('Failed to update consultation');
+    }
+
+    let link = await fetchBookingLink(existing.is_system_booking ? null : consultationId);
+
+    // Renames move the link to new slugs; the old URL still resolves by its id
+    const renamed = row.consultation_type !== existing.consultation_type || row.company_name !== existing.company_name;
+    if (link && renamed && !existing.is_system_booking) {
+      link = await saveBookingLink(row as ConsultationTypeRow, userId, link, true);
+    }
+
+    await logConsultationTypeChanged(userId, consultationId, ipAddress, {
+      change: 'updated',
+      consultationType: row.consultation_type,
+      isSystemBooking: existing.is_system_booking,
+      fieldsUpdated: Object.keys(data)
+    });
+
+    return toConsultationType(row as ConsultationTypeRow, link);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Update consultation type error:', error);
+    throw Errors.internal('Failed to update consultation');
+  }
+}
+
+/**
+ * Delete a consultation type; its booking link goes with it
+ * Events already booked through it stay on the calendar.
+ */
+export async function deleteConsultationType(
+  consultationId: string,
+  userId: string,
+  role: UserRole,
+  ipAddress: string
+): Promise<void> {
+  try {
+    const existing = await fetchManageableConsultation(consultationId, userId, role);
+
+    const { error } = await supabaseAdmin
+      .from('consultation_types')
+      .delete()
+      .eq('id', consultationId);
+
+    if (error) {
+      logger.error('Failed to delete consultation type:', error);
+      throw Errors.database('Failed to delete consultation');
+    }
+
+    await logConsultationTypeChanged(userId, consultationId, ipAddress, {
+      change: 'deleted',
+      consultationType: existing.consultation_type,
+      isSystemBooking: existing.is_system_booking
+    });
+
+    logger.info(`Consultation type ${consultationId} deleted by user ${userId}`);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Delete consultation type error:', error);
+    throw Errors.internal('Failed to delete consultation');
+  }
+}
@@ -125,6 +125,16 @@ async function sendWithRetry(
   };
 }
 
+// Text typed by the public (booking forms) before it goes into HTML
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // =====================================================
 // AUDIT LOGGING HELPERS
 // =====================================================
@@ -526,6 +536,175 @@ export async function sendPasswordResetEmail(
   return result.success;
 }
 
+/**
+ * Send "new sign-in" alert (login from an unrecognised device or country)
+ */
+export async function sendNewSignInEmail(
+  email: string,
+  name: string,
+  signIn: {
+    browser: string;
+    os: string;
+    ipAddress: string;
+    country: string | null;
+    time: string;
+    reasons: string[];
+  },
+  userId?: string
+): Promise<boolean> {
+  const frontendUrl = process.env.FRONTEND_PROD_URL || 'https://cereforge.com';
+  const reasonText = signIn.reasons
+    .map((reason) => (reason === 'new_country' ? 'a new country' : 'a new device'))
+    .join(' and ');
+
+  const result = await sendWithRetry(async () => {
+    return await resend.emails.send({
+      from: `Cereforge <${FROM_EMAIL}>`,
+      to: email,
+      subject: 'New sign-in to your Cereforge account',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #1e3a8a; color: white; padding: 20px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+            .details { background: white; padding: 15px; border-radius: 6px; margin: 20px 0; border-left: 4px solid #f97316; }
+            .button { display: inline-block; background: #f97316; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+            .warning { background: #fef3c7; padding: 15px; border-radius: 6px; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>New Sign-in Detected</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${name},</p>
+              <p>Your Cereforge account was just signed in to from ${reasonText}.</p>
+
+              <div class="details">
+                <p><strong>Device:</strong> ${signIn.browser} on ${signIn.os}</p>
+                <p><strong>IP address:</strong> ${signIn.ipAddress}</p>
+                ${signIn.country ? `<p><strong>Country:</strong> ${signIn.country}</p>` : ''}
+                <p><strong>Time:</strong> ${new Date(signIn.time).toUTCString()}</p>
+              </div>
+
+              <p>If this was you, there's nothing else to do.</p>
+
+              <div class="warning">
+                <strong>⚠️ Wasn't you?</strong> Reset your password right away and sign out the unknown device from the Security tab of your dashboard.
+              </div>
+
+              <div style="text-align: center;">
+                <a href="${frontendUrl}/forgot-password" class="button">Reset Password</a>
+              </div>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  });
+
+  if (result.success) {
+    logger.info(`New sign-in email sent to ${email}`);
+    await logEmailSuccess('new_sign_in', email, result.messageId!, result.attempts, userId);
+  } else {
+    logger.error(`Failed to send new sign-in email: ${result.error}`);
+    await logEmailFailure('new_sign_in', email, result.error!, result.errorType!, result.attempts, userId);
+  }
+
+  return result.success;
+}
+
+/**
+ * Send staff invitation (admin / core account created by a core team member)
+ */
+export async function sendStaffInviteEmail(
+  email: string,
+  name: string,
+  role: 'admin' | 'core',
+  temporaryPassword: string,
+  invitedBy: string,
+  userId?: string
+): Promise<boolean> {
+  const roleLabel = role === 'core' ? 'Core Team' : 'Admin';
+
+  const result = await sendWithRetry(async () => {
+    return await resend.emails.send({
+      from: `Cereforge <${FROM_EMAIL}>`,
+      to: email,
+      subject: `You've been invited to Cereforge (${roleLabel})`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #1e3a8a 0%, #3b82f6 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+            .credentials { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #f97316; }
+            .button { display: inline-block; background: #f97316; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+            .warning { background: #fef3c7; padding: 15px; border-radius: 6px; margin: 20px 0; border-left: 4px solid #f59e0b; }
+            .footer { text-align: center; color: #6b7280; font-size: 12px; margin-top: 30px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Welcome to Cereforge</h1>
+              <p>${roleLabel} Account</p>
+            </div>
+            <div class="content">
+              <p>Hello <strong>${name}</strong>,</p>
+
+              <p>${invitedBy} has created a Cereforge ${roleLabel.toLowerCase()} account for you.</p>
+
+              <div class="credentials">
+                <h3>Your Login Credentials:</h3>
+                <p><strong>Email:</strong> ${email}</p>
+                <p><strong>Temporary Password:</strong> <code style="background: #f3f4f6; padding: 5px 10px; border-radius: 4px;">${temporaryPassword}</code></p>
+              </div>
+
+              <div class="warning">
+                <strong>⚠️ Security Notice:</strong> This is a temporary password. You'll be required to change it on your first login.
+              </div>
+
+              <div style="text-align: center;">
+                <a href="${process.env.FRONTEND_PROD_URL || 'https://cereforge.com'}/login" class="button">
+                  Sign In
+                </a>
+              </div>
+
+              <p>If you weren't expecting this invitation, please let us know by replying to this email.</p>
+
+              <p>Best regards,<br><strong>The Cereforge Team</strong></p>
+            </div>
+            <div class="footer">
+              <p>This email was sent to ${email}</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  });
+
+  if (result.success) {
+    logger.info(`Staff invite email sent to ${email} (${result.attempts} attempts)`);
+    await logEmailSuccess('staff_invite', email, result.messageId!, result.attempts, userId);
+  } else {
+    logger.error(`Failed to send staff invite email to ${email}: ${result.error}`);
+    await logEmailFailure('staff_invite', email, result.error!, result.errorType!, result.attempts, userId);
+  }
+
+  return result.success;
+}
+
 /**
  * Send application rejection email
  */
@@ -586,4 +765,371 @@ export async function sendApplicationRejectionEmail(
   }
 
   return result.success;
-}
\ No newline at end of file
+}
+/**
+ * Send event reminder (dispatched by the reminder worker)
+ * startsAt is pre-formatted in the event's timezone
+ */
+export async function sendEventReminderEmail(
+  email: string,
+  name: string,
+  event: {
+    title: string;
+    startsAt: string;
+    location?: string | null;
+    description?: string | null;
+  },
+  reminderId?: string
+): Promise<boolean> {
+  const frontendUrl = process.env.FRONTEND_PROD_URL || 'https://cereforge.com';
+
+  const result = await sendWithRetry(async () => {
+    return await resend.emails.send({
+      from: `Cereforge <${FROM_EMAIL}>`,
+      to: email,
+      subject: `Reminder: ${event.title} at ${event.startsAt}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #1e3a8a; color: white; padding: 20px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+            .details { background: white; padding: 15px; border-radius: 6px; margin: 20px 0; border-left: 4px solid #3b82f6; }
+            .button { display: inline-block; background: #f97316; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Upcoming Event</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${name},</p>
+              <p>This is a reminder for your upcoming event.</p>
+
+              <div class="details">
+                <p><strong>${event.title}</strong></p>
+                <p><strong>When:</strong> ${event.startsAt}</p>
+                ${event.location ? `<p><strong>Where:</strong> ${event.location}</p>` : ''}
+                ${event.description ? `<p>${event.description}</p>` : ''}
+              </div>
+
+              <div style="text-align: center;">
+                <a href="${frontendUrl}/calendar" class="button">Open Calendar</a>
+              </div>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  });
+
+  if (result.success) {
+    logger.info(`Event reminder sent to ${email}`);
+    await logEmailSuccess('event_reminder', email, result.messageId!, result.attempts, reminderId);
+  } else {
+    logger.error(`Failed to send event reminder to ${email}: ${result.error}`);
+    await logEmailFailure('event_reminder', email, result.error!, result.errorType!, result.attempts, reminderId);
+  }
+
+  return result.success;
+}
+
+/**
+ * Send event invitation, update or cancellation to a guest
+ * The .ics attachment (METHOD:REQUEST or CANCEL) lets mail clients add or remove
+ * the event; rsvpUrl is the guest's tokenized RSVP page
+ */
+export async function sendEventInvitationEmail(
+  email: string,
+  name: string,
+  invite: {
+    kind: 'invitation' | 'update' | 'cancellation';
+    title: string;
+    startsAt: string;
+    organizerName: string;
+    location?: string | null;
+    description?: string | null;
+    rsvpUrl?: string;
+  },
+  ics: string,
+  guestId?: string
+): Promise<boolean> {
+  const method = invite.kind === 'cancellation' ? 'CANCEL' : 'REQUEST';
+  const subjects = {
+    invitation: `Invitation: ${invite.title} @ ${invite.startsAt}`,
+    update: `Updated invitation: ${invite.title} @ ${invite.startsAt}`,
+    cancellation: `Cancelled: ${invite.title} @ ${invite.startsAt}`
+  };
+  const intros = {
+    invitation: `${invite.organizerName} has invited you to an event.`,
+    update: `${invite.organizerName} has updated an event you're invited to.`,
+    cancellation: `${invite.organizerName} has cancelled this event.`
+  };
+
+  const rsvpButtons = invite.rsvpUrl
+    ? `
+              <p style="text-align: center;"><strong>Going?</strong></p>
+              <div style="text-align: center;">
+                <a href="${invite.rsvpUrl}?response=accepted" class="button" style="background: #16a34a;">Yes</a>
+                <a href="${invite.rsvpUrl}?response=maybe" class="button" style="background: #6b7280;">Maybe</a>
+                <a href="${invite.rsvpUrl}?response=declined" class="button" style="background: #dc2626;">No</a>
+              </div>`
+    : '';
+
+  const result = await sendWithRetry(async () => {
+    return await resend.emails.send({
+      from: `Cereforge <${FROM_EMAIL}>`,
+      to: email,
+      subject: subjects[invite.kind],
+      attachments: [{
+        filename: invite.kind === 'cancellation' ? 'cancel.ics' : 'invite.ics',
+        content: Buffer.from(ics, 'utf8'),
+        content_type: `text/calendar; charset=utf-8; method=${method}`
+      }],
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #1e3a8a; color: white; padding: 20px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+            .details { background: white; padding: 15px; border-radius: 6px; margin: 20px 0; border-left: 4px solid ${invite.kind === 'cancellation' ? '#dc2626' : '#3b82f6'}; }
+            .button { display: inline-block; color: white; padding: 10px 24px; text-decoration: none; border-radius: 6px; margin: 8px 4px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${invite.kind === 'cancellation' ? 'Event Cancelled' : 'Event Invitation'}</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${name},</p>
+              <p>${intros[invite.kind]}</p>
+
+              <div class="details">
+                <p><strong>${invite.kind === 'cancellation' ? `<s>${invite.title}</s>` : invite.title}</strong></p>
+                <p><strong>When:</strong> ${invite.startsAt}</p>
+                ${invite.location ? `<p><strong>Where:</strong> ${invite.location}</p>` : ''}
+                ${invite.description ? `<p>${invite.description}</p>` : ''}
+              </div>
+              ${rsvpButtons}
+
+              <p style="color: #6b7280; font-size: 12px;">The attached calendar file ${invite.kind === 'cancellation' ? 'removes the event from' : 'adds the event to'} your calendar app.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  });
+
+  if (result.success) {
+    logger.info(`Event ${invite.kind} email sent to ${email}`);
+    await logEmailSuccess(`event_${invite.kind}`, email, result.messageId!, result.attempts, guestId);
+  } else {
+    logger.error(`Failed to send event ${invite.kind} email to ${email}: ${result.error}`);
+    await logEmailFailure(`event_${invite.kind}`, email, result.error!, result.errorType!, result.attempts, guestId);
+  }
+
+  return result.success;
+}
+
+/**
+ * Send a consultation booking confirmation
+ * The booker's copy is a calendar invitation (METHOD:REQUEST); the owner's
+ * adds the meeting to their calendar app (METHOD:PUBLISH). Booker-entered
+ * text is escaped.
+ */
+export async function sendBookingConfirmationEmail(
+  email: string,
+  name: string,
+  booking: {
+    recipient: 'booker' | 'owner';
+    title: string;
+    startsAt: string;
+    meetingUrl: string;
+    ownerName: string;
+    bookerName: string;
+    bookerEmail: string;
+    company?: string | null;
+    notes?: string | null;
+    manageUrl?: string; // Booker's reschedule / cancel page
+  },
+  ics: string,
+  eventId?: string
+): Promise<boolean> {
+  const isBooker = booking.recipient === 'booker';
+  const notes = booking.notes ? escapeHtml(booking.notes).replace(/\n/g, '<br>') : '';
+
+  const result = await sendWithRetry(async () => {
+    return await resend.emails.send({
+      from: `Cereforge <${FROM_EMAIL}>`,
+      to: email,
+      subject: isBooker
+        ? `Confirmed: ${booking.title} @ ${booking.startsAt}`
+        : `New booking: ${booking.title} with ${booking.bookerName} @ ${booking.startsAt}`,
+      attachments: [{
+        filename: 'invite.ics',
+        content: Buffer.from(ics, 'utf8'),
+        content_type: `text/calendar; charset=utf-8; method=${isBooker ? 'REQUEST' : 'PUBLISH'}`
+      }],
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #1e3a8a; color: white; padding: 20px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+            .details { background: white; padding: 15px; border-radius: 6px; margin: 20px 0; border-left: 4px solid #3b82f6; }
+            .button { display: inline-block; background: #1e3a8a; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; margin: 10px 0; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${isBooker ? 'Booking Confirmed' : 'New Booking'}</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${escapeHtml(name)},</p>
+              <p>${isBooker
+                ? `Your ${escapeHtml(booking.title)} with ${escapeHtml(booking.ownerName)} is booked.`
+                : `${escapeHtml(booking.bookerName)} booked a ${escapeHtml(booking.title)} through your booking link.`}</p>
+
+              <div class="details">
+                <p><strong>${escapeHtml(booking.title)}</strong></p>
+                <p><strong>When:</strong> ${booking.startsAt}</p>
+                <p><strong>Where:</strong> <a href="${booking.meetingUrl}">${booking.meetingUrl}</a></p>
+                ${isBooker ? '' : `<p><strong>Booked by:</strong> ${escapeHtml(booking.bookerName)} (${escapeHtml(booking.bookerEmail)})</p>`}
+                ${!isBooker && booking.company ? `<p><strong>Company:</strong> ${escapeHtml(booking.company)}</p>` : ''}
+                ${notes ? `<p>${notes}</p>` : ''}
+              </div>
+
+              <div style="text-align: center;">
+                <a href="${booking.meetingUrl}" class="button">Join Meeting</a>
+              </div>
+
+              ${booking.manageUrl ? `<p>Need a different time? <a href="${booking.manageUrl}">Reschedule or cancel</a></p>` : ''}
+
+              <p style="color: #6b7280; font-size: 12px;">The attached calendar file adds the meeting to your calendar app.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  });
+
+  if (result.success) {
+    logger.info(`Booking confirmation email sent to ${email}`);
+    await logEmailSuccess(`booking_confirmation_${booking.recipient}`, email, result.messageId!, result.attempts, eventId);
+  } else {
+    logger.error(`Failed to send booking confirmation email to ${email}: ${result.error}`);
+    await logEmailFailure(`booking_confirmation_${booking.recipient}`, email, result.error!, result.errorType!, result.attempts, eventId);
+  }
+
+  return result.success;
+}
+
+/**
+ * Send notice that a booked consultation was rescheduled or cancelled
+ * The attachment updates (REQUEST / PUBLISH) or removes (CANCEL) the copy
+ * already in the recipient's calendar app.
+ */
+export async function sendBookingChangedEmail(
+  email: string,
+  name: string,
+  change: {
+    recipient: 'booker' | 'owner';
+    kind: 'rescheduled' | 'cancelled';
+    title: string;
+    startsAt: string;
+    previousStartsAt?: string;
+    meetingUrl: string;
+    bookerName: string;
+    bookerEmail: string;
+    reason?: string | null;
+    manageUrl?: string;
+  },
+  ics: string,
+  eventId?: string
+): Promise<boolean> {
+  const isBooker = change.recipient === 'booker';
+  const isCancelled = change.kind === 'cancelled';
+  const method = isCancelled ? 'CANCEL' : isBooker ? 'REQUEST' : 'PUBLISH';
+  const reason = change.reason ? escapeHtml(change.reason).replace(/\n/g, '<br>') : '';
+
+  const result = await sendWithRetry(async () => {
+    return await resend.emails.send({
+      from: `Cereforge <${FROM_EMAIL}>`,
+      to: email,
+      subject: isCancelled
+        ? `Cancelled: ${change.title}${isBooker ? '' : ` with ${change.bookerName}`} @ ${change.startsAt}`
+        : `Rescheduled: ${change.title}${isBooker ? '' : ` with ${change.bookerName}`} @ ${change.startsAt}`,
+      attachments: [{
+        filename: 'invite.ics',
+        content: Buffer.from(ics, 'utf8'),
+        content_type: `text/calendar; charset=utf-8; method=${method}`
+      }],
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: ${isCancelled ? '#dc2626' : '#1e3a8a'}; color: white; padding: 20px; text-align: center; border-radius: 10px 10px 0 0; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 10px 10px; }
+            .details { background: white; padding: 15px; border-radius: 6px; margin: 20px 0; border-left: 4px solid ${isCancelled ? '#dc2626' : '#3b82f6'}; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${isCancelled ? 'Booking Cancelled' : 'Booking Rescheduled'}</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${escapeHtml(name)},</p>
+              <p>${isBooker
+                ? `Your ${escapeHtml(change.title)} has been ${change.kind}.`
+                : `${escapeHtml(change.bookerName)} (${escapeHtml(change.bookerEmail)}) ${change.kind} their ${escapeHtml(change.title)}.`}</p>
+
+              <div class="details">
+                <p><strong>${escapeHtml(change.title)}</strong></p>
+                ${isCancelled
+                  ? `<p><strong>Was:</strong> ${change.startsAt}</p>`
+                  : `<p><strong>When:</strong> ${change.startsAt}</p>
+                ${change.previousStartsAt ? `<p><strong>Was:</strong> ${change.previousStartsAt}</p>` : ''}
+                <p><strong>Where:</strong> <a href="${change.meetingUrl}">${change.meetingUrl}</a></p>`}
+                ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ''}
+              </div>
+
+              ${change.manageUrl && !isCancelled ? `<p>Need a different time? <a href="${change.manageUrl}">Reschedule or cancel</a></p>` : ''}
+
+              <p style="color: #6b7280; font-size: 12px;">The attached calendar file ${isCancelled ? 'removes the meeting from' : 'updates the meeting in'} your calendar app.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `
+    });
+  });
+
+  if (result.success) {
+    logger.info(`Booking ${change.kind} email sent to ${email}`);
+    await logEmailSuccess(`booking_${change.kind}_${change.recipient}`, email, result.messageId!, result.attempts, eventId);
+  } else {
+    logger.error(`Failed to send booking ${change.kind} email to ${email}: ${result.error}`);
+    await logEmailFailure(`booking_${change.kind}_${change.recipient}`, email, result.error!, result.errorType!, result.attempts, eventId);
+  }
+
+  return result.success;
+}
@@ -0,0 +1,281 @@
+// src/services/invitation.service.ts
+// Guest invitations: iCalendar emails (REQUEST / CANCEL) and public RSVP by token
+
+import { supabaseAdmin } from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
+import logger from '../utils/logger';
+import { buildICalendar, calendarEventToICal, ICalEvent } from '../utils/ical';
+import { signGuestToken, verifyGuestToken } from '../utils/jwt';
+import { formatEventWhen, resolveTimeZone } from '../utils/timezone';
+import { sendEventInvitationEmail } from './email.service';
+import {
+  logEventInvitationSent,
+  logEventInvitationFailed,
+  logEventRsvp
+} from './audit.calendar.service';
+import {
+  CalendarEvent,
+  EventGuest,
+  GuestResponseStatus,
+  RsvpInvitation
+} from '../types/calendar.types';
+
+type InvitationKind = 'invitation' | 'update' | 'cancellation';
+
+function getRsvpUrl(guestId: string): string {
+  const frontendUrl = process.env.FRONTEND_PROD_URL || 'https://cereforge.com';
+  return `${frontendUrl}/rsvp/${signGuestToken('rsvp', guestId)}`;
+}
+
+async function getOrganizer(userId: string): Promise<{ email: string; name: string }> {
+  const { data: organizer } = await supabaseAdmin
+    .from('user_profiles')
+    .select('email, full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return {
+    email: organizer?.email || process.env.RESEND_FROM_EMAIL || 'no-reply@update.cereforge.com',
+    name: organizer?.full_name || 'Cereforge'
+  };
+}
+
+/**
+ * The VEVENT guests receive
+ * A cancelled single occurrence goes out as that occurrence only (RECURRENCE-ID)
+ */
+function buildGuestEvent(
+  event: CalendarEvent,
+  guests: EventGuest[],
+  organizer: { email: string; name: string },
+  kind: InvitationKind,
+  occurrenceStart?: string
+): ICalEvent {
+  const base = calendarEventToICal(event, {
+    organizer,
+    attendees: guests.map(guest => ({ email: guest.email, name: guest.name, status: guest.response_status }))
+  });
+
+  if (kind !== 'cancellation') return base;
+
+  if (!occurrenceStart) return { ...base, status: 'CANCELLED' };
+
+  const duration = new Date(event.end_time).getTime() - new Date(event.start_time).getTime();
+
+  return {
+    ...base,
+    status: 'CANCELLED',
+    start: occurrenceStart,
+    end: new Date(new Date(occurrenceStart).getTime() + duration).toISOString(),
+    recurrenceId: occurrenceStart,
+    rrule: null,
+    exdates: null
+  };
+}
+
+/**
+ * Email guests an invitation, update or cancellation with a .ics attachment
+ * Updates and cancellations go to guests who were already invited, and bump
+ * the event's SEQUENCE so calendar apps replace what they have.
+ * Never throws: guest email must not fail the calendar change that triggered it.
+ */
+export async function sendGuestEmails(
+  eventId: string,
+  kind: InvitationKind,
+  options: { guestIds?: string[]; occurrenceStart?: string } = {}
+): Promise<number> {
+  try {
+    const { data: event } = await supabaseAdmin
+      .from('calendar_events')
+      .select('*, event_guests(*)')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (!event) return 0;
+
+    const allGuests: EventGuest[] = event.event_guests || [];
+    const recipients = options.guestIds
+      ? allGuests.filter(guest => options.guestIds!.includes(guest.id))
+      : allGuests.filter(guest => guest.invitation_sent);
+
+    if (!recipients.length) return 0;
+
+    if (kind !== 'invitation') {
+      event.sequence = (event.sequence || 0) + 1;
+      await supabaseAdmin
+        .from('calendar_events')
+        .update({ sequence: event.sequence })
+        .eq('id', eventId);
+    }
+
+    const organizer = await getOrganizer(event.user_id);
+    const ics = buildICalendar(
+      [buildGuestEvent(event, allGuests, organizer, kind, options.occurrenceStart)],
+      { method: kind === 'cancellation' ? 'CANCEL' : 'REQUEST' }
+    );
+    const startsAt = formatEventWhen(
+      options.occurrenceStart || event.start_time,
+      resolveTimeZone(event.timezone),
+      event.all_day
+    );
+
+    let sentCount = 0;
+
+    for (const guest of recipients) {
+      const sent = await sendEventInvitationEmail(
+        guest.email,
+        guest.name,
+        {
+          kind,
+          title: event.title,
+          startsAt,
+          organizerName: organizer.name,
+          location: event.location,
+          description: event.description,
+          rsvpUrl: kind === 'cancellation' ? undefined : getRsvpUrl(guest.id)
+        },
+        ics,
+        guest.id
+      );
+
+      if (!sent) {
+        await logEventInvitationFailed(eventId, guest.id, guest.email, `${kind} email failed`);
+        continue;
+      }
+
+      sentCount++;
+
+      if (kind === 'invitation') {
+        await supabaseAdmin
+          .from('event_guests')
+          .update({ invitation_sent: true, invitation_sent_at: new Date().toISOString() })
+          .eq('id', guest.id);
+
+        await logEventInvitationSent(event.user_id, eventId, guest.email, {
+          eventTitle: event.title,
+          guestName: guest.name
+        });
+      }
+    }
+
+    logger.info(`Sent ${sentCount}/${recipients.length} ${kind} emails for event ${eventId}`);
+    return sentCount;
+  } catch (error) {
+    logger.error(`Failed to send ${kind} emails for event ${eventId}:`, error);
+    return 0;
+  }
+}
+
+// =====================================================
+// PUBLIC RSVP
+// =====================================================
+
+async function findGuestByToken(token: string): Promise<EventGuest & { calendar_events: CalendarEvent }> {
+  const guestId = verifyGuestToken('rsvp', token);
+
+  if (!guestId) {
+    throw Errors.notFound('Invitation');
+  }
+
+  const { data: guest, error } = await supabaseAdmin
+    .from('event_guests')
+    .select('*, calendar_events(*)')
+    .eq('id', guestId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to load invitation:', error);
+    throw Errors.database('Failed to load invitation');
+  }
+
+  if (!guest || !guest.calendar_events) {
+    throw Errors.notFound('Invitation');
+  }
+
+  return guest;
+}
+
+async function toRsvpInvitation(guest: EventGuest, event: CalendarEvent): Promise<RsvpInvitation> {
+  const organizer = await getOrganizer(event.user_id);
+
+  return {
+    guest: {
+      name: guest.name,
+      email: guest.email,
+      response_status: guest.response_status,
+      responded_at: guest.responded_at
+    },
+    event: {
+      title: event.title,
+      description: event.description,
+      location: event.location,
+      start_time: event.start_time,
+      end_time: event.end_time,
+      all_day: event.all_day,
+      timezone: event.timezone,
+      cancelled: !!event.deleted_at || event.status === 'cancelled',
+      organizer_name: organizer.name
+    }
+  };
+}
+
+/**
+ * Invitation details for the RSVP page
+ */
+export async function getInvitationByToken(token: string): Promise<RsvpInvitation> {
+  try {
+    const guest = await findGuestByToken(token);
+    return await toRsvpInvitation(guest, guest.calendar_events);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get invitation error:', error);
+    throw Errors.internal('Failed to load invitation');
+  }
+}
+
+/**
+ * Record a guest's response from their RSVP link
+ */
+export async function respondToInvitation(
+  token: string,
+  response: Exclude<GuestResponseStatus, 'pending'>,
+  ipAddress: string
+): Promise<RsvpInvitation> {
+  try {
+    const guest = await findGuestByToken(token);
+    const event = guest.calendar_events;
+
+    if (event.deleted_at || event.status === 'cancelled') {
+      throw Errors.badRequest('This event has been cancelled');
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('event_guests')
+      .update({
+        response_status: response,
+        responded_at: new Date().toISOString()
+      })
+      .eq('id', guest.id)
+      .select()
+      .single();
+
+    if (error || !updated) {
+      logger.error('Failed to record RSVP:', error);
+      throw Errors.database('Failed to record response');
+    }
+
+    await logEventRsvp(event.id, guest.id, ipAddress, {
+      guestEmail: guest.email,
+      response,
+      previousResponse: guest.response_status
+    });
+
+    logger.info(`Guest ${guest.id} responded ${response} to event ${event.id}`);
+
+    return await toRsvpInvitation(updated, event);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Respond to invitation error:', error);
+    throw Errors.internal('Failed to record response');
+  }
+}
@@ -0,0 +1,296 @@
+import QRCode from 'qrcode';
+import { supabaseAdmin } from '../config/database';
+import { hashToken } from '../utils/jwt';
+import {
+  buildOtpAuthUrl,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  verifyTotpCode
+} from '../utils/totp';
+import { ApiError, Errors } from '../utils/errors';
+import logger from '../utils/logger';
+import { UserRole } from '../types/types';
+
+/**
+ * Roles that must use 2FA regardless of personal preference
+ * Comma-separated, e.g. MFA_REQUIRED_ROLES=admin,core
+ */
+const MFA_REQUIRED_ROLES = (process.env.MFA_REQUIRED_ROLES ?? 'admin,core')
+  .split(',')
+  .map((role) => role.trim())
+  .filter(Boolean);
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export type MfaMethod = 'totp' | 'recovery_code';
+
+const normalizeRecoveryCode = (code: string) =>
+  code.trim().toLowerCase().replace(/^([a-f0-9]{5})-?([a-f0-9]{5})$/, '$1-$2');
+
+export function isMfaRequiredForRole(role: UserRole | string): boolean {
+  return MFA_REQUIRED_ROLES.includes(role);
+}
+
+async function getMfaRecord(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('user_mfa')
+    .select('user_id, enabled, enabled_at, totp_secret, pending_secret, recovery_code_hashes, last_used_step')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Failed to load MFA settings for user ${userId}:`, error);
+    throw Errors.database('Failed to load two-factor settings');
+  }
+
+  return data;
+}
+
+/**
+ * Whether the user has finished TOTP enrollment
+ */
+export async function isMfaEnabled(userId: string): Promise<boolean> {
+  const record = await getMfaRecord(userId);
+  return !!record?.enabled;
+}
+
+export async function getMfaStatus(userId: string, role: UserRole): Promise<MfaStatus> {
+  const record = await getMfaRecord(userId);
+
+  return {
+    enabled: !!record?.enabled,
+    required: isMfaRequiredForRole(role),
+    enabledAt: record?.enabled_at || null,
+    recoveryCodesRemaining: record?.recovery_code_hashes?.length || 0
+  };
+}
+
+/**
+ * Start (or restart) enrollment - the secret stays pending until a code is confirmed
+ */
+export async function startTotpEnrollment(userId: string, email: string): Promise<TotpEnrollment> {
+  try {
+    const record = await getMfaRecord(userId);
+
+    if (record?.enabled) {
+      throw Errors.conflict('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpAuthUrl(secret, email);
+
+    const { error } = await supabaseAdmin
+      .from('user_mfa')
+      .upsert({
+        user_id: userId,
+        enabled: false,
+        pending_secret: encryptSecret(secret),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      logger.error(`Failed to store pending TOTP secret for user ${userId}:`, error);
+      throw Errors.database('Failed to start two-factor enrollment');
+    }
+
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+
+    logger.info(`TOTP enrollment started for user ${userId}`);
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Failed to start TOTP enrollment:', error);
+    throw Errors.internal('Failed to start two-factor enrollment');
+  }
+}
+
+/**
+ * Confirm enrollment with a code from the app
+ * Returns the plain recovery codes - shown once, only hashes are stored
+ */
+export async function confirmTotpEnrollment(userId: string, code: string): Promise<string[]> {
+  try {
+    const record = await getMfaRecord(userId);
+
+    if (record?.enabled) {
+      throw Errors.conflict('Two-factor authentication is already enabled');
+    }
+
+    if (!record?.pending_secret) {
+      throw Errors.badRequest('Start two-factor enrollment before confirming a code');
+    }
+
+    const secret = decryptSecret(record.pending_secret);
+    const step = verifyTotpCode(secret, code);
+
+    if (step === null) {
+      throw Errors.badRequest('Invalid authentication code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    const { error } = await supabaseAdmin
+      .from('user_mfa')
+      .update({
+        enabled: true,
+        enabled_at: new Date().toISOString(),
+        totp_secret: record.pending_secret,
+        pending_secret: null,
+        recovery_code_hashes: recoveryCodes.map((c) => hashToken(normalizeRecoveryCode(c))),
+        last_used_step: step,
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error(`Failed to enable MFA for user ${userId}:`, error);
+      throw Errors.database('Failed to enable two-factor authentication');
+    }
+
+    logger.info(`TOTP enabled for user ${userId}`);
+    return recoveryCodes;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Failed to confirm TOTP enrollment:', error);
+    throw Errors.internal('Failed to enable two-factor authentication');
+  }
+}
+
+/**
+ * Check a TOTP code or a one-time recovery code
+ * TOTP steps can't be replayed; recovery codes are burned on use
+ */
+export async function verifyMfaCode(userId: string, code: string): Promise<MfaMethod> {
+  try {
+    const record = await getMfaRecord(userId);
+
+    if (!record?.enabled || !record.totp_secret) {
+      throw Errors.badRequest('Two-factor authentication is not enabled');
+    }
+
+    const trimmed = code.trim();
+
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = verifyTotpCode(decryptSecret(record.totp_secret), trimmed);
+
+      if (step === null || (record.last_used_step !== null && step <= record.last_used_step)) {
+        throw Errors.badRequest('Invalid authentication code');
+      }
+
+      // ✅ Only advance the step if nobody else used it first
+      let query = supabaseAdmin
+        .from('user_mfa')
+        .update({ last_used_step: step, updated_at: new Date().toISOString() })
+        .eq('user_id', userId);
+
+      query = record.last_used_step === null
+        ? query.is('last_used_step', null)
+        : query.eq('last_used_step', record.last_used_step);
+
+      const { data: claimed } = await query.select('user_id').maybeSingle();
+
+      if (!claimed) {
+        throw Errors.badRequest('Invalid authentication code');
+      }
+
+      return 'totp';
+    }
+
+    const codeHash = hashToken(normalizeRecoveryCode(trimmed));
+    const hashes: string[] = record.recovery_code_hashes || [];
+
+    if (!hashes.includes(codeHash)) {
+      throw Errors.badRequest('Invalid authentication code');
+    }
+
+    // ✅ Only burn the code if the stored set is still the one we read,
+    // so two sign-ins can't both spend it (or undo each other's burn)
+    const { data: burned, error } = await supabaseAdmin
+      .from('user_mfa')
+      .update({
+        recovery_code_hashes: hashes.filter((h) => h !== codeHash),
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId)
+      .contains('recovery_code_hashes', hashes)
+      .containedBy('recovery_code_hashes', hashes)
+      .select('user_id')
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Failed to burn recovery code for user ${userId}:`, error);
+      throw Errors.database('Failed to verify recovery code');
+    }
+
+    if (!burned) {
+      throw Errors.badRequest('Invalid authentication code');
+    }
+
+    logger.warn(`Recovery code used by user ${userId} (${hashes.length - 1} remaining)`);
+    return 'recovery_code';
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('MFA verification failed:', error);
+    throw Errors.internal('Failed to verify authentication code');
+  }
+}
+
+/**
+ * Turn 2FA off (not allowed when the role requires it)
+ */
+export async function disableMfa(userId: string, role: UserRole, code: string): Promise<void> {
+  if (isMfaRequiredForRole(role)) {
+    throw Errors.forbidden('Two-factor authentication is required for your role');
+  }
+
+  await verifyMfaCode(userId, code);
+
+  const { error } = await supabaseAdmin
+    .from('user_mfa')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    logger.error(`Failed to disable MFA for user ${userId}:`, error);
+    throw Errors.database('Failed to disable two-factor authentication');
+  }
+
+  logger.info(`TOTP disabled for user ${userId}`);
+}
+
+/**
+ * Replace all recovery codes (requires a valid code)
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  await verifyMfaCode(userId, code);
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  const { error } = await supabaseAdmin
+    .from('user_mfa')
+    .update({
+      recovery_code_hashes: recoveryCodes.map((c) => hashToken(normalizeRecoveryCode(c))),
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId);
+
+  if (error) {
+    logger.error(`Failed to regenerate recovery codes for user ${userId}:`, error);
+    throw Errors.database('Failed to regenerate recovery codes');
+  }
+
+  return recoveryCodes;
+}
@@ -0,0 +1,262 @@
+// src/services/partnerPortal.service.ts
+
+import supabase, { getFreshSupabase } from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
+import { logPartnerEvent } from './audit.service';
+import { getSignedUrl, toStoragePath, validateFileUrls } from './storage.service';
+import logger from '../utils/logger';
+
+type PartnerDocumentKey = 'project_brief_url' | 'reference_images_url' | 'profile_photo_url';
+
+interface PartnerDocument {
+  key: PartnerDocumentKey;
+  label: string;
+  path: string;
+  fileName: string;
+  url: string | null;
+}
+
+interface PartnerContact {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+interface UpdateMyPartnerData {
+  company_website?: string;
+  linkedin_profile?: string;
+  profile_photo_url?: string | null;
+  project_brief_url?: string | null;
+}
+
+// Documents a partner can replace themselves
+const REPLACEABLE_DOCUMENTS: PartnerDocumentKey[] = ['profile_photo_url', 'project_brief_url'];
+
+const DOCUMENT_LABELS: Record<PartnerDocumentKey, string> = {
+  project_brief_url: 'Project brief',
+  reference_images_url: 'Reference images',
+  profile_photo_url: 'Profile photo',
+};
+
+/**
+ * Columns a partner may see on their own record
+ * metadata holds reviewer notes and stays admin-only
+ */
+const PARTNER_SELF_COLUMNS = `
+  id,
+  partner_id,
+  partner_name,
+  company_website,
+  linkedin_profile,
+  industry,
+  company_size,
+  project_title,
+  project_description,
+  project_stage,
+  solution_type,
+  ideal_start_date,
+  budget_range,
+  currency,
+  has_internal_team,
+  onboarding_status,
+  approved_by,
+  approved_at,
+  project_brief_url,
+  reference_images_url,
+  profile_photo_url,
+  created_at,
+  updated_at
+`;
+
+/**
+ * Sign every stored document so the portal can link to it
+ */
+async function buildDocuments(partner: Record<string, any>): Promise<PartnerDocument[]> {
+  const keys = Object.keys(DOCUMENT_LABELS) as PartnerDocumentKey[];
+
+  const documents = await Promise.all(
+    keys.map(async (key): Promise<PartnerDocument | null> => {
+      const stored = partner[key];
+      if (!stored) return null;
+
+      const path = toStoragePath(stored);
+      if (!path) {
+        logger.warn(`Unrecognized file reference on partner ${partner.id}: ${key}`);
+        return null;
+      }
+
+      return {
+        key,
+        label: DOCUMENT_LABELS[key],
+        path,
+        fileName: path.split('/').pop() || path,
+        url: await getSignedUrl(path),
+      };
+    })
+  );
+
+  return documents.filter((doc): doc is PartnerDocument => doc !== null);
+}
+
+/**
+ * Cereforge staff assigned to the partner
+ * The approving staff member is the partner's point of contact
+ */
+async function getAssignedContacts(approvedBy: string | null): Promise<PartnerContact[]> {
+  if (!approvedBy) return [];
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('id, full_name, email')
+    .eq('id', approvedBy)
+    .single();
+
+  if (error || !data) {
+    logger.warn(`Assigned contact ${approvedBy} not found`);
+    return [];
+  }
+
+  return [{
+    id: data.id,
+    name: data.full_name,
+    email: data.email,
+    role: 'Account manager',
+  }];
+}
+
+/**
+ * Resolve the partner row owned by a user
+ */
+async function findPartnerByUserId(userId: string): Promise<any> {
+  const { data, error } = await supabase
+    .from('partners')
+    .select(PARTNER_SELF_COLUMNS)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) {
+    throw Errors.notFound('Partner profile not found');
+  }
+
+  return data;
+}
+
+/**
+ * Storage folder a partner's own uploads must live under
+ */
+function partnerUploadFolder(partnerId: string): string {
+  return `partners/${partnerId}`;
+}
+
+/**
+ * Whether a new document path sits inside the partner's upload folder
+ */
+function isPartnerUpload(value: string, partnerId: string): boolean {
+  const path = toStoragePath(value);
+  if (!path) return false;
+
+  return path.startsWith(`${partnerUploadFolder(partnerId)}/`) && !path.split('/').includes('..');
+}
+
+/**
+ * Get the logged-in partner's own record with contacts and signed documents
+ * uploadFolder is where the portal must put replacement documents.
+ */
+export async function getMyPartner(userId: string): Promise<any> {
+  try {
+    const partner = await findPartnerByUserId(userId);
+
+    const [contacts, documents] = await Promise.all([
+      getAssignedContacts(partner.approved_by),
+      buildDocuments(partner),
+    ]);
+
+    const { approved_by: _approvedBy, ...profile } = partner;
+
+    return {
+      partner: profile,
+      contacts,
+      documents,
+      uploadFolder: partnerUploadFolder(partner.id),
+    };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get my partner error:', error);
+    throw Errors.internal('Failed to fetch partner profile');
+  }
+}
+
+/**
+ * Update the fields a partner may change on their own record
+ */
+export async function updateMyPartner(
+  userId: string,
+  updateData: UpdateMyPartnerData,
+  ipAddress: string
+): Promise<any> {
+  const adminClient = getFreshSupabase();
+
+  try {
+    const partner = await findPartnerByUserId(userId);
+
+    const allowedUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (updateData.company_website !== undefined) allowedUpdates.company_website = updateData.company_website || null;
+    if (updateData.linkedin_profile !== undefined) allowedUpdates.linkedin_profile = updateData.linkedin_profile || null;
+    if (updateData.profile_photo_url !== undefined) allowedUpdates.profile_photo_url = updateData.profile_photo_url || null;
+    if (updateData.project_brief_url !== undefined) allowedUpdates.project_brief_url = updateData.project_brief_url || null;
+
+    // New uploads must come from this partner's folder, not another applicant's
+    const foreignUpload = REPLACEABLE_DOCUMENTS.some(key =>
+      allowedUpdates[key] && allowedUpdates[key] !== partner[key] && !isPartnerUpload(allowedUpdates[key], partner.id)
+    );
+
+    if (foreignUpload) {
+      throw Errors.badRequest('Uploaded files must be stored in your partner folder');
+    }
+
+    // New uploads must already exist in storage
+    const filesValid = await validateFileUrls([
+      allowedUpdates.profile_photo_url,
+      allowedUpdates.project_brief_url,
+    ]);
+
+    if (!filesValid) {
+      throw Errors.badRequest('Some uploaded files could not be verified. Please try again.');
+    }
+
+    const { error } = await adminClient
+      .from('partners')
+      .update(allowedUpdates)
+      .eq('id', partner.id);
+
+    if (error) {
+      logger.error('Failed to update partner profile:', error);
+      throw Errors.database('Failed to update partner profile');
+    }
+
+    await logPartnerEvent(
+      'partner_updated',
+      userId,
+      partner.id,
+      ipAddress,
+      {
+        partner_name: partner.partner_name,
+        partner_id: partner.partner_id,
+        updated_fields: Object.keys(updateData),
+        self_service: true,
+      }
+    );
+
+    logger.info(`Partner ${partner.id} updated own profile`);
+
+    return getMyPartner(userId);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Update my partner error:', error);
+    throw Errors.internal('Failed to update partner profile');
+  }
+}
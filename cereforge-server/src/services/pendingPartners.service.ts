@@ -3,7 +3,7 @@
 import { getFreshSupabase } from '../config/database';
 import supabase from '../config/database';
 import { Errors } from '../utils/errors';
-import { hashPassword, generateTemporaryPassword } from '../utils/password';
+import { generateTemporaryPassword } from '../utils/password';
 import { sendPartnerWelcomeEmail, sendApplicationRejectionEmail } from '../services/email.service';
 import { logPartnerEvent } from './audit.service';
 import logger from '../utils/logger';
@@ -171,14 +171,13 @@ export async function approvePendingPartner(
       throw Errors.conflict('A user with this email already exists');
     }
 
-    // 4. Generate temporary password
+    // 4. Generate temporary password (Supabase Auth hashes it - the partner must replace it on first login)
     const temporaryPassword = generateTemporaryPassword();
-    const hashedPassword = await hashPassword(temporaryPassword);
 
     // 5. Create Supabase Auth user
     const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
       email: application.email,
-      password: hashedPassword,
+      password: temporaryPassword,
       email_confirm: true,
       user_metadata: {
         full_name: application.full_name,
@@ -200,6 +199,7 @@ export async function approvePendingPartner(
         role: 'partner',
         status: 'active',
         system_type: 'SYSTEM_USERS',
+        must_change_password: true,
       }),
       supabase.from('partners').select('id', { count: 'exact', head: true })
     ]);
@@ -0,0 +1,469 @@
+// src/services/reminder.service.ts
+// Event reminders: queueing, per-occurrence planning for recurring events and
+// delivery. The scheduler runs in-process (see worker.ts for the standalone entrypoint).
+
+import os from 'os';
+import dayjs from 'dayjs';
+import { supabaseAdmin } from '../config/database';
+import logger from '../utils/logger';
+import { generateRecurringInstances } from '../utils/recurrenece';
+import { formatEventWhen, resolveTimeZone } from '../utils/timezone';
+import { sendEventReminderEmail } from './email.service';
+import { logEventReminderSent } from './audit.calendar.service';
+import {
+  CalendarEvent,
+  EventReminder,
+  NotificationSettings,
+  ReminderType
+} from '../types/calendar.types';
+
+const MAX_RETRIES = 3;
+const RETRY_BACKOFF_MS = 2 * 60 * 1000; // Wait before the first retry, doubling after each failure
+const CLAIM_LEASE_MS = 5 * 60 * 1000; // A claim older than this belongs to a worker that died mid-send
+const PLANNING_HORIZON_MS = 48 * 60 * 60 * 1000; // Recurring occurrences get reminder rows this far ahead
+
+// =====================================================
+// REMINDER SETTINGS
+// =====================================================
+
+/**
+ * How long before the event a reminder goes out
+ * null when reminders are off: 'Snooze' is the "no reminder" setting, not a
+ * snooze of a delivered one, and an Email/SMS setting needs an interval
+ */
+export function getReminderOffsetMs(settings?: NotificationSettings | null): number | null {
+  if (!settings || settings.type === 'Snooze' || !settings.interval) return null;
+
+  switch (settings.timeUnit) {
+    case 'Minute':
+      return settings.interval * 60 * 1000;
+    case 'Hour':
+      return settings.interval * 60 * 60 * 1000;
+    case 'Day':
+      return settings.interval * 24 * 60 * 60 * 1000;
+    default:
+      return 15 * 60 * 1000;
+  }
+}
+
+function getReminderType(settings: NotificationSettings): ReminderType {
+  return settings.type === 'Number' ? 'sms' : 'email';
+}
+
+/**
+ * Queue the reminder for one occurrence of an event
+ * Idempotent per (event, occurrence, type), so re-queueing after an edit is safe
+ */
+export async function queueEventReminder(
+  eventId: string,
+  userId: string,
+  settings: NotificationSettings | null | undefined,
+  occurrenceStart: Date | string
+): Promise<void> {
+  try {
+    const offset = getReminderOffsetMs(settings);
+    if (offset === null) return;
+
+    const start = dayjs(occurrenceStart);
+
+    const { error } = await supabaseAdmin
+      .from('event_reminders')
+      .upsert({
+        event_id: eventId,
+        user_id: userId,
+        occurrence_start: start.toISOString(),
+        remind_at: start.subtract(offset, 'millisecond').toISOString(),
+        sent: false,
+        delivery_status: 'pending',
+        reminder_type: getReminderType(settings!)
+      }, { onConflict: 'event_id,occurrence_start,reminder_type', ignoreDuplicates: true });
+
+    if (error) {
+      logger.error('Failed to queue event reminder:', error);
+    }
+  } catch (error) {
+    logger.error('Queue event reminder error:', error);
+  }
+}
+
+/**
+ * Drop reminders that haven't gone out yet, after an event's time or settings change
+ * Recurring series are re-planned by the worker on its next planning pass
+ */
+export async function clearPendingReminders(eventId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('event_reminders')
+    .delete()
+    .eq('event_id', eventId)
+    .eq('sent', false)
+    .eq('delivery_status', 'pending');
+
+  if (error) {
+    logger.error('Failed to clear pending reminders:', error);
+  }
+}
+
+/**
+ * Create reminder rows for recurring occurrences inside the planning horizon
+ * Overridden occurrences are skipped: override rows queue their own reminders
+ */
+export async function planRecurringReminders(now: Date = new Date()): Promise<number> {
+  const horizonEnd = new Date(now.getTime() + PLANNING_HORIZON_MS);
+
+  const { data: parents, error } = await supabaseAdmin
+    .from('calendar_events')
+    .select('*')
+    .eq('is_recurring_parent', true)
+    .eq('status', 'active')
+    .is('deleted_at', null)
+    .lte('start_time', horizonEnd.toISOString());
+
+  if (error) {
+    logger.error('Failed to load recurring events for reminder planning:', error);
+    return 0;
+  }
+
+  const series = (parents || []).filter(
+    (parent: CalendarEvent) => getReminderOffsetMs(parent.notification_settings) !== null
+  ) as CalendarEvent[];
+
+  if (!series.length) return 0;
+
+  const { data: overrides } = await supabaseAdmin
+    .from('calendar_events')
+    .select('parent_event_id, original_start_time')
+    .in('parent_event_id', series.map(parent => parent.id))
+    .not('original_start_time', 'is', null)
+    .is('deleted_at', null);
+
+  const rows = series.flatMap(parent => {
+    const settings = parent.notification_settings;
+    const offset = getReminderOffsetMs(settings)!;
+    const overridden = (overrides || [])
+      .filter(override => override.parent_event_id === parent.id)
+      .map(override => override.original_start_time);
+
+    // Occurrences whose reminder falls inside the horizon
+    const windowEnd = new Date(horizonEnd.getTime() + offset);
+
+    return generateRecurringInstances(parent, now, windowEnd, overridden).map(instance => ({
+      event_id: parent.id,
+      user_id: parent.user_id,
+      occurrence_start: instance.start_time,
+      remind_at: new Date(new Date(instance.start_time).getTime() - offset).toISOString(),
+      sent: false,
+      delivery_status: 'pending',
+      reminder_type: getReminderType(settings)
+    }));
+  });
+
+  if (!rows.length) return 0;
+
+  const { error: upsertError } = await supabaseAdmin
+    .from('event_reminders')
+    .upsert(rows, { onConflict: 'event_id,occurrence_start,reminder_type', ignoreDuplicates: true });
+
+  if (upsertError) {
+    logger.error('Failed to plan recurring reminders:', upsertError);
+    return 0;
+  }
+
+  logger.debug(`Planned reminders for ${rows.length} recurring occurrences`);
+  return rows.length;
+}
+
+// =====================================================
+// QUEUE
+// =====================================================
+
+/**
+ * Storage for due reminders
+ * claimDue must hand each reminder to exactly one worker
+ */
+export interface ReminderQueue {
+  claimDue(workerId: string, now: Date, limit: number): Promise<EventReminder[]>;
+  markSent(reminder: EventReminder, sentAt: Date): Promise<void>;
+  markFailed(reminder: EventReminder): Promise<void>;
+  markSkipped(reminder: EventReminder, reason: string): Promise<void>;
+}
+
+/**
+ * Claimable: pending and past any retry backoff, or processing under a lease that has expired
+ */
+function claimableFilter(now: Date): string {
+  const leaseExpiry = new Date(now.getTime() - CLAIM_LEASE_MS).toISOString();
+  const pending = `and(delivery_status.eq.pending,or(next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}))`;
+  return `delivery_status.is.null,${pending},and(delivery_status.eq.processing,claimed_at.lt.${leaseExpiry})`;
+}
+
+/**
+ * Delay before retrying a reminder that has failed retryCount times
+ */
+function retryBackoffMs(retryCount: number): number {
+  return RETRY_BACKOFF_MS * 2 ** (retryCount - 1);
+}
+
+/**
+ * event_reminders table as the queue
+ * The claim is a single conditional UPDATE, so concurrent workers never get the same row
+ */
+export const supabaseReminderQueue: ReminderQueue = {
+  async claimDue(workerId, now, limit) {
+    const { data: candidates, error } = await supabaseAdmin
+      .from('event_reminders')
+      .select('id')
+      .eq('sent', false)
+      .lte('remind_at', now.toISOString())
+      .or(claimableFilter(now))
+      .order('remind_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Failed to load due reminders:', error);
+      return [];
+    }
+
+    if (!candidates?.length) return [];
+
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('event_reminders')
+      .update({
+        delivery_status: 'processing',
+        claimed_at: now.toISOString(),
+        claimed_by: workerId
+      })
+      .in('id', candidates.map(candidate => candidate.id))
+      .eq('sent', false)
+      .or(claimableFilter(now))
+      .select();
+
+    if (claimError) {
+      logger.error('Failed to claim reminders:', claimError);
+      return [];
+    }
+
+    return (claimed || []) as EventReminder[];
+  },
+
+  async markSent(reminder, sentAt) {
+    await supabaseAdmin
+      .from('event_reminders')
+      .update({
+        sent: true,
+        sent_at: sentAt.toISOString(),
+        delivery_status: 'sent',
+        claimed_at: null
+      })
+      .eq('id', reminder.id);
+  },
+
+  async markFailed(reminder) {
+    const retryCount = (reminder.retry_count || 0) + 1;
+    const now = new Date();
+
+    // Back off before the row can be claimed again, so a failing send isn't retried every tick
+    await supabaseAdmin
+      .from('event_reminders')
+      .update({
+        retry_count: retryCount,
+        last_retry_at: now.toISOString(),
+        next_attempt_at: retryCount < MAX_RETRIES ? new Date(now.getTime() + retryBackoffMs(retryCount)).toISOString() : null,
+        delivery_status: retryCount < MAX_RETRIES ? 'pending' : 'failed',
+        claimed_at: null
+      })
+      .eq('id', reminder.id);
+  },
+
+  async markSkipped(reminder, reason) {
+    logger.info(`Skipping reminder ${reminder.id}: ${reason}`);
+
+    await supabaseAdmin
+      .from('event_reminders')
+      .update({ delivery_status: 'skipped', claimed_at: null })
+      .eq('id', reminder.id);
+  }
+};
+
+// =====================================================
+// DELIVERY
+// =====================================================
+
+/**
+ * Why a reminder should no longer go out, or null if it still applies
+ * Reminders are checked against the event as it is now, so edits made after
+ * queueing (moved, deleted occurrence, reminders turned off) are respected
+ */
+async function getSkipReason(reminder: EventReminder, event: CalendarEvent | null, now: Date): Promise<string | null> {
+  if (!event || event.deleted_at || event.status !== 'active') return 'event removed';
+  if (getReminderOffsetMs(event.notification_settings) === null) return 'reminders turned off';
+
+  const occurrenceStart = new Date(reminder.occurrence_start || event.start_time);
+  const duration = new Date(event.end_time).getTime() - new Date(event.start_time).getTime();
+
+  if (now.getTime() >= occurrenceStart.getTime() + duration) return 'event already over';
+
+  if (!event.is_recurring_parent) {
+    return occurrenceStart.getTime() === new Date(event.start_time).getTime() ? null : 'event moved';
+  }
+
+  const { data: override } = await supabaseAdmin
+    .from('calendar_events')
+    .select('id')
+    .eq('parent_event_id', event.id)
+    .eq('original_start_time', occurrenceStart.toISOString())
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (override) return 'occurrence overridden';
+
+  const [occurrence] = generateRecurringInstances(
+    event,
+    occurrenceStart,
+    new Date(occurrenceStart.getTime() + 1)
+  );
+
+  return occurrence ? null : 'occurrence removed';
+}
+
+/**
+ * Send one claimed reminder and record the outcome
+ * Email is the only delivery channel; 'sms' reminders go to the user's email
+ */
+export async function deliverReminder(queue: ReminderQueue, reminder: EventReminder, now: Date = new Date()): Promise<void> {
+  try {
+    const { data: event } = await supabaseAdmin
+      .from('calendar_events')
+      .select('*')
+      .eq('id', reminder.event_id)
+      .maybeSingle();
+
+    const skipReason = await getSkipReason(reminder, event as CalendarEvent | null, now);
+    if (skipReason) {
+      await queue.markSkipped(reminder, skipReason);
+      return;
+    }
+
+    const { data: user } = await supabaseAdmin
+      .from('user_profiles')
+      .select('email, full_name')
+      .eq('id', reminder.user_id)
+      .maybeSingle();
+
+    const recipient = event.notification_settings?.email || user?.email;
+    if (!recipient) {
+      await queue.markSkipped(reminder, 'no recipient email');
+      return;
+    }
+
+    const sent = await sendEventReminderEmail(
+      recipient,
+      user?.full_name || 'there',
+      {
+        title: event.title,
+        startsAt: formatEventWhen(reminder.occurrence_start || event.start_time, resolveTimeZone(event.timezone), event.all_day),
+        location: event.location,
+        description: event.description
+      },
+      reminder.id
+    );
+
+    if (!sent) {
+      await queue.markFailed(reminder);
+      return;
+    }
+
+    await queue.markSent(reminder, new Date());
+    await logEventReminderSent(reminder.user_id, event.id, reminder.id, {
+      eventTitle: event.title,
+      reminderType: reminder.reminder_type
+    });
+  } catch (error) {
+    logger.error(`Reminder ${reminder.id} delivery error:`, error);
+    await queue.markFailed(reminder);
+  }
+}
+
+// =====================================================
+// SCHEDULER
+// =====================================================
+
+export interface ReminderSchedulerOptions {
+  queue?: ReminderQueue;
+  pollIntervalMs?: number;
+  planIntervalMs?: number;
+  batchSize?: number;
+  workerId?: string;
+}
+
+export interface ReminderScheduler {
+  runOnce: () => Promise<number>;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Poll for due reminders and plan recurring ones on an interval
+ * Ticks never overlap; stop() waits for the tick in flight
+ */
+export function startReminderScheduler(options: ReminderSchedulerOptions = {}): ReminderScheduler {
+  const {
+    queue = supabaseReminderQueue,
+    pollIntervalMs = 60 * 1000,
+    planIntervalMs = 15 * 60 * 1000,
+    batchSize = 25,
+    workerId = `${os.hostname()}:${process.pid}`
+  } = options;
+
+  let lastPlannedAt = 0;
+  let inFlight: Promise<number> | null = null;
+  let stopped = false;
+
+  const tick = async (): Promise<number> => {
+    const now = new Date();
+
+    if (now.getTime() - lastPlannedAt >= planIntervalMs) {
+      await planRecurringReminders(now);
+      lastPlannedAt = now.getTime();
+    }
+
+    let delivered = 0;
+    let batch: EventReminder[];
+
+    do {
+      batch = await queue.claimDue(workerId, new Date(), batchSize);
+
+      for (const reminder of batch) {
+        await deliverReminder(queue, reminder);
+        delivered++;
+      }
+    } while (batch.length === batchSize && !stopped);
+
+    return delivered;
+  };
+
+  const runOnce = (): Promise<number> => {
+    if (!inFlight) {
+      inFlight = tick()
+        .catch(error => {
+          logger.error('Reminder scheduler tick failed:', error);
+          return 0;
+        })
+        .finally(() => { inFlight = null; });
+    }
+    return inFlight;
+  };
+
+  const timer = setInterval(() => { void runOnce(); }, pollIntervalMs);
+  void runOnce();
+
+  logger.info(`⏰ Reminder scheduler started (worker ${workerId}, every ${pollIntervalMs / 1000}s)`);
+
+  return {
+    runOnce,
+    stop: async () => {
+      stopped = true;
+      clearInterval(timer);
+      if (inFlight) await inFlight;
+      logger.info('⏰ Reminder scheduler stopped');
+    }
+  };
+}
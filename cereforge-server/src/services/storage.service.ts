@@ -12,9 +12,10 @@ export async function validateFileExists(filePath: string): Promise<boolean> {
   }
 
   try {
+    // List the file's folder (applicationId, or a nested partner folder)
     const { data, error } = await supabase.storage
       .from(BUCKET_NAME)
-      .list(filePath.split('/')[0]); // Get folder name (applicationId)
+      .list(filePath.split('/').slice(0, -1).join('/'));
 
     if (error) {
       logger.error('Error validating file existence:', error);
@@ -33,8 +34,18 @@ export async function validateFileExists(filePath: string): Promise<boolean> {
 }
 
 /**
- * Validate multiple file URLs
+ * Normalize a stored file reference to a bucket path
+ * Older rows hold full Supabase URLs, newer ones hold "folder/file.ext"
  */
+export function toStoragePath(url: string): string | null {
+  if (!url.startsWith('http')) {
+    return url;
+  }
+
+  const match = url.match(/pending-partner-documents\/(.+)$/);
+  return match ? match[1] : null;
+}
+
 /**
  * Validate multiple file URLs/paths
  */
@@ -47,19 +58,9 @@ export async function validateFileUrls(urls: (string | undefined | null)[]): Pro
   }
 
   // Extract file paths from URLs or use paths directly
-  const filePaths = validUrls.map(url => {
-    // ✅ url is guaranteed to be string here (not null/undefined)
-    
-    // Check if it's already a path (not a full URL)
-    if (!url.startsWith('http')) {
-      // ✅ It's already a path like "6d38a58e-.../project-brief.pdf"
-      return url;
-    }
-    
-    // Extract path from full Supabase URL
-    const match = url.match(/pending-partner-documents\/(.+)$/);
-    return match ? match[1] : null;
-  }).filter((path): path is string => path !== null);
+  const filePaths = validUrls
+    .map(url => toStoragePath(url))
+    .filter((path): path is string => path !== null);
 
   if (filePaths.length !== validUrls.length) {
     logger.warn('Some file URLs have invalid format');
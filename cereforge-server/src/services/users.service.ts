@@ -0,0 +1,657 @@
+// src/services/users.service.ts
+
+import supabase, { getFreshSupabase } from '../config/database';
+import { ApiError, Errors } from '../utils/errors';
+import { generateTemporaryPassword } from '../utils/password';
+import { UserRole, UserStatus } from '../types/types';
+import {
+  PermissionOverrides,
+  resolvePermissions,
+  sanitizePermissionOverrides,
+} from '../utils/permissions';
+import { logUserEvent } from './audit.service';
+import { revokeAllUserSessions } from './auth.service';
+import { sendStaffInviteEmail } from './email.service';
+import logger from '../utils/logger';
+
+type StaffRole = UserRole.ADMIN | UserRole.CORE;
+
+interface GetUsersParams {
+  role?: UserRole;
+  status?: UserStatus;
+  search?: string;
+  page?: number;
+  limit?: number;
+  sortBy?: 'created_at' | 'full_name' | 'email' | 'last_login';
+  sortOrder?: 'asc' | 'desc';
+}
+
+interface PaginatedResponse<T> {
+  items: T[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface StaffDetails {
+  category?: string;   // admin only
+  department?: string; // core only
+  position?: string;   // core only
+}
+
+export interface CreateStaffUserInput extends StaffDetails {
+  email: string;
+  full_name: string;
+  phone?: string;
+  role: StaffRole;
+}
+
+export interface UpdateUserInput extends StaffDetails {
+  full_name?: string;
+  phone?: string;
+}
+
+const USER_COLUMNS = `
+  id,
+  email,
+  full_name,
+  phone,
+  role,
+  status,
+  must_change_password,
+  locked_until,
+  failed_login_attempts,
+  last_login,
+  created_at,
+  updated_at,
+  admin_staff(admin_id, category, permissions),
+  core_staff(employee_id, department, position, permissions),
+  partners(id, partner_id, partner_name)
+`;
+
+/**
+ * Actors may not change their own role or status - it's too easy to lock yourself out
+ */
+function assertNotSelf(actorId: string, targetUserId: string, action: string): void {
+  if (actorId === targetUserId) {
+    throw Errors.forbidden(`You cannot ${action} your own account`);
+  }
+}
+
+/**
+ * Core accounts are managed by core staff only, whatever permission
+ * overrides an admin has been given
+ */
+function assertCanManageCore(actorRole: UserRole, action: string): void {
+  if (actorRole !== UserRole.CORE) {
+    throw Errors.forbidden(`Only core staff can ${action}`);
+  }
+}
+
+async function findUser(userId: string): Promise<any> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('id, email, full_name, role, status')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Failed to load user ${userId}:`, error);
+    throw Errors.database('Failed to fetch user');
+  }
+
+  if (!data) {
+    throw Errors.notFound('User');
+  }
+
+  return data;
+}
+
+/**
+ * Overrides stored on the joined admin_staff / core_staff row
+ */
+function staffOverrides(profile: any): PermissionOverrides {
+  const staff = profile.role === UserRole.CORE ? profile.core_staff : profile.admin_staff;
+  const record = Array.isArray(staff) ? staff[0] : staff;
+  return sanitizePermissionOverrides(record?.permissions);
+}
+
+/**
+ * Keep at least one active core account - otherwise nobody can manage users
+ */
+async function assertNotLastActiveCore(user: { id: string; role: string; status: string }): Promise<void> {
+  if (user.role !== UserRole.CORE || user.status !== UserStatus.ACTIVE) return;
+
+  const { count, error } = await supabase
+    .from('user_profiles')
+    .select('id', { count: 'exact', head: true })
+    .eq('role', UserRole.CORE)
+    .eq('status', UserStatus.ACTIVE);
+
+  if (error) {
+    logger.error('Failed to count active core users:', error);
+    throw Errors.database('Failed to verify core accounts');
+  }
+
+  if ((count || 0) <= 1) {
+    throw Errors.conflict('This is the last active core account');
+  }
+}
+
+/**
+ * Next sequential staff identifier, e.g. ADMIN-004 / CORE-012
+ */
+async function generateStaffId(role: StaffRole): Promise<string> {
+  const table = role === UserRole.CORE ? 'core_staff' : 'admin_staff';
+  const prefix = role === UserRole.CORE ? 'CORE' : 'ADMIN';
+
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true });
+
+  if (error) {
+    logger.error(`Failed to count ${table}:`, error);
+    throw Errors.database('Failed to generate staff ID');
+  }
+
+  return `${prefix}-${String((count || 0) + 1).padStart(3, '0')}`;
+}
+
+/**
+ * Insert the admin_staff / core_staff row for a staff account
+ */
+async function createStaffRecord(userId: string, role: StaffRole, details: StaffDetails): Promise<void> {
+  const adminClient = getFreshSupabase();
+  const staffId = await generateStaffId(role);
+
+  const { error } = role === UserRole.CORE
+    ? await adminClient.from('core_staff').insert({
+      user_id: userId,
+      employee_id: staffId,
+      department: details.department || null,
+      position: details.position || null,
+    })
+    : await adminClient.from('admin_staff').insert({
+      user_id: userId,
+      admin_id: staffId,
+      category: details.category || 'General',
+    });
+
+  if (error) {
+    logger.error(`Failed to create ${role} staff record for ${userId}:`, error);
+    throw Errors.database('Failed to create staff record');
+  }
+}
+
+/**
+ * Get all system users with pagination and filtering
+ */
+export async function getUsers(params: GetUsersParams): Promise<PaginatedResponse<any>> {
+  try {
+    const {
+      role,
+      status,
+      search,
+      page = 1,
+      limit = 20,
+      sortBy = 'created_at',
+      sortOrder = 'desc',
+    } = params;
+
+    let query = supabase
+      .from('user_profiles')
+      .select(USER_COLUMNS, { count: 'exact' });
+
+    if (role) {
+      query = query.eq('role', role);
+    }
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    // Search by name or email (strip PostgREST filter syntax)
+    if (search) {
+      const term = search.replace(/[,()]/g, ' ').trim();
+      if (term) {
+        query = query.or(`full_name.ilike.%${term}%,email.ilike.%${term}%`);
+      }
+    }
+
+    query = query.order(sortBy, { ascending: sortOrder === 'asc', nullsFirst: false });
+
+    const from = (page - 1) * limit;
+    query = query.range(from, from + limit - 1);
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      logger.error('Failed to fetch users:', error);
+      throw Errors.database('Failed to fetch users');
+    }
+
+    return {
+      items: data || [],
+      pagination: {
+        total: count || 0,
+        page,
+        limit,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get users error:', error);
+    throw Errors.internal('Failed to fetch users');
+  }
+}
+
+/**
+ * Get single user with staff / partner record and active session count
+ */
+export async function getUserById(userId: string): Promise<any> {
+  try {
+    const [profileResult, sessionsResult] = await Promise.all([
+      supabase
+        .from('user_profiles')
+        .select(USER_COLUMNS)
+        .eq('id', userId)
+        .maybeSingle(),
+      supabase
+        .from('user_sessions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('is_active', true)
+    ]);
+
+    if (profileResult.error) {
+      logger.error(`Failed to fetch user ${userId}:`, profileResult.error);
+      throw Errors.database('Failed to fetch user');
+    }
+
+    if (!profileResult.data) {
+      throw Errors.notFound('User');
+    }
+
+    const profile = profileResult.data as any;
+    const overrides = staffOverrides(profile);
+
+    return {
+      ...profile,
+      active_sessions: sessionsResult.count || 0,
+      permission_overrides: overrides,
+      permissions: resolvePermissions(profile.role, overrides),
+    };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Get user by ID error:', error);
+    throw Errors.internal('Failed to fetch user');
+  }
+}
+
+/**
+ * Create an admin or core account and email the invite
+ * Partners are still created through application approval
+ */
+export async function createStaffUser(
+  input: CreateStaffUserInput,
+  actor: { userId: string; name: string; role: UserRole },
+  ipAddress: string
+): Promise<{ user: any; inviteSent: boolean }> {
+  const adminClient = getFreshSupabase();
+  const email = input.email.toLowerCase();
+
+  try {
+    if (input.role === UserRole.CORE) {
+      assertCanManageCore(actor.role, 'create core accounts');
+    }
+
+    const { data: existingUser } = await supabase
+      .from('user_profiles')
+      .select('id')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (existingUser) {
+      throw Errors.conflict('A user with this email already exists');
+    }
+
+    const temporaryPassword = generateTemporaryPassword();
+
+    const { data: authUser, error: authError } = await supabase.auth.admin.createUser({
+      email,
+      password: temporaryPassword,
+      email_confirm: true,
+      user_metadata: {
+        full_name: input.full_name,
+      },
+    });
+
+    if (authError || !authUser.user) {
+      logger.error('Failed to create auth user:', authError);
+      throw Errors.internal('Failed to create user account');
+    }
+
+    const userId = authUser.user.id;
+
+    const { error: profileError } = await adminClient.from('user_profiles').insert({
+      id: userId,
+      full_name: input.full_name,
+      email,
+      phone: input.phone || null,
+      role: input.role,
+      status: UserStatus.ACTIVE,
+      system_type: 'SYSTEM_USERS',
+      must_change_password: true,
+    });
+
+    if (profileError) {
+      logger.error('Failed to create user profile:', profileError);
+      await supabase.auth.admin.deleteUser(userId);
+      throw Errors.database('Failed to create user profile');
+    }
+
+    try {
+      await createStaffRecord(userId, input.role, input);
+    } catch (staffError) {
+      // Rollback: Delete user profile and auth user
+      await adminClient.from('user_profiles').delete().eq('id', userId);
+      await supabase.auth.admin.deleteUser(userId);
+      throw staffError;
+    }
+
+    const [inviteSent] = await Promise.all([
+      sendStaffInviteEmail(email, input.full_name, input.role, temporaryPassword, actor.name, userId),
+      logUserEvent('user_invited', actor.userId, userId, ipAddress, {
+        email,
+        role: input.role,
+      })
+    ]);
+
+    logger.info(`Staff user created: ${email} (${input.role}) by ${actor.userId}`);
+
+    const user = await getUserById(userId);
+    return { user, inviteSent };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Create staff user error:', error);
+    throw Errors.internal('Failed to create user');
+  }
+}
+
+/**
+ * Update profile fields and the matching staff record
+ */
+export async function updateUser(
+  userId: string,
+  input: UpdateUserInput,
+  actorId: string,
+  ipAddress: string
+): Promise<any> {
+  const adminClient = getFreshSupabase();
+
+  try {
+    const user = await findUser(userId);
+
+    const profileUpdates: Record<string, any> = {};
+    if (input.full_name !== undefined) profileUpdates.full_name = input.full_name;
+    if (input.phone !== undefined) profileUpdates.phone = input.phone || null;
+
+    if (Object.keys(profileUpdates).length > 0) {
+      const { error } = await adminClient
+        .from('user_profiles')
+        .update({ ...profileUpdates, updated_at: new Date().toISOString() })
+        .eq('id', userId);
+
+      if (error) {
+        logger.error(`Failed to update user ${userId}:`, error);
+        throw Errors.database('Failed to update user');
+      }
+    }
+
+    const staffUpdates: Record<string, any> = {};
+    if (user.role === UserRole.ADMIN && input.category !== undefined) {
+      staffUpdates.category = input.category;
+    }
+    if (user.role === UserRole.CORE) {
+      if (input.department !== undefined) staffUpdates.department = input.department || null;
+      if (input.position !== undefined) staffUpdates.position = input.position || null;
+    }
+
+    if (Object.keys(staffUpdates).length > 0) {
+      const { error } = await adminClient
+        .from(user.role === UserRole.CORE ? 'core_staff' : 'admin_staff')
+        .update({ ...staffUpdates, updated_at: new Date().toISOString() })
+        .eq('user_id', userId);
+
+      if (error) {
+        logger.error(`Failed to update staff record for ${userId}:`, error);
+        throw Errors.database('Failed to update staff record');
+      }
+    }
+
+    await logUserEvent('user_updated', actorId, userId, ipAddress, {
+      updated_fields: [...Object.keys(profileUpdates), ...Object.keys(staffUpdates)],
+    });
+
+    return await getUserById(userId);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Update user error:', error);
+    throw Errors.internal('Failed to update user');
+  }
+}
+
+/**
+ * Move a staff account between admin and core
+ * Existing sessions carry the old role in their JWT, so all of them are revoked
+ */
+export async function changeUserRole(
+  userId: string,
+  newRole: StaffRole,
+  details: StaffDetails,
+  actorId: string,
+  actorRole: UserRole,
+  ipAddress: string
+): Promise<{ user: any; revokedSessions: number }> {
+  const adminClient = getFreshSupabase();
+
+  try {
+    assertNotSelf(actorId, userId, 'change the role of');
+
+    const user = await findUser(userId);
+
+    if (newRole === UserRole.CORE || user.role === UserRole.CORE) {
+      assertCanManageCore(actorRole, 'assign or remove the core role');
+    }
+
+    if (user.role === UserRole.PARTNER) {
+      throw Errors.badRequest('Partner accounts cannot be converted to staff accounts');
+    }
+
+    if (user.role === newRole) {
+      throw Errors.conflict(`User is already ${newRole}`);
+    }
+
+    await assertNotLastActiveCore(user);
+
+    // New staff record first so a failure leaves the user on their old role
+    await createStaffRecord(userId, newRole, details);
+
+    const { error: roleError } = await adminClient
+      .from('user_profiles')
+      .update({ role: newRole, updated_at: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (roleError) {
+      logger.error(`Failed to change role for ${userId}:`, roleError);
+      await adminClient
+        .from(newRole === UserRole.CORE ? 'core_staff' : 'admin_staff')
+        .delete()
+        .eq('user_id', userId);
+      throw Errors.database('Failed to change user role');
+    }
+
+    const { error: cleanupError } = await adminClient
+      .from(user.role === UserRole.CORE ? 'core_staff' : 'admin_staff')
+      .delete()
+      .eq('user_id', userId);
+
+    if (cleanupError) {
+      logger.error(`Failed to remove old ${user.role} staff record for ${userId}:`, cleanupError);
+    }
+
+    const revokedSessions = await revokeAllUserSessions(userId);
+
+    await logUserEvent('user_role_changed', actorId, userId, ipAddress, {
+      email: user.email,
+      old_role: user.role,
+      new_role: newRole,
+      revoked_sessions: revokedSessions,
+    });
+
+    logger.info(`User ${userId} role changed: ${user.role} → ${newRole}`);
+
+    return { user: await getUserById(userId), revokedSessions };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Change user role error:', error);
+    throw Errors.internal('Failed to change user role');
+  }
+}
+
+/**
+ * Activate, suspend or deactivate an account
+ * Anything other than active signs the user out everywhere
+ */
+export async function updateUserStatus(
+  userId: string,
+  newStatus: UserStatus.ACTIVE | UserStatus.SUSPENDED | UserStatus.DEACTIVATED,
+  actorId: string,
+  actorRole: UserRole,
+  ipAddress: string,
+  reason?: string
+): Promise<{ user: any; revokedSessions: number }> {
+  const adminClient = getFreshSupabase();
+
+  try {
+    assertNotSelf(actorId, userId, 'change the status of');
+
+    const user = await findUser(userId);
+
+    if (user.role === UserRole.CORE) {
+      assertCanManageCore(actorRole, 'change the status of core accounts');
+    }
+
+    if (user.status === newStatus) {
+      throw Errors.conflict(`User is already ${newStatus}`);
+    }
+
+    if (newStatus !== UserStatus.ACTIVE) {
+      await assertNotLastActiveCore(user);
+    }
+
+    const { error } = await adminClient
+      .from('user_profiles')
+      .update({ status: newStatus, updated_at: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (error) {
+      logger.error(`Failed to update status for ${userId}:`, error);
+      throw Errors.database('Failed to update user status');
+    }
+
+    const revokedSessions = newStatus === UserStatus.ACTIVE
+      ? 0
+      : await revokeAllUserSessions(userId);
+
+    await logUserEvent('user_status_changed', actorId, userId, ipAddress, {
+      email: user.email,
+      old_status: user.status,
+      new_status: newStatus,
+      reason,
+      revoked_sessions: revokedSessions,
+    });
+
+    logger.info(`User ${userId} status changed: ${user.status} → ${newStatus}`);
+
+    return { user: await getUserById(userId), revokedSessions };
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Update user status error:', error);
+    throw Errors.internal('Failed to update user status');
+  }
+}
+
+/**
+ * Replace a staff user's permission overrides
+ * The JWT carries resolved permissions, so the change applies from the user's next token refresh
+ */
+export async function updateUserPermissions(
+  userId: string,
+  overrides: Record<string, boolean>,
+  actorId: string,
+  actorRole: UserRole,
+  ipAddress: string
+): Promise<any> {
+  const adminClient = getFreshSupabase();
+
+  try {
+    assertNotSelf(actorId, userId, 'change the permissions of');
+
+    const user = await findUser(userId);
+
+    if (user.role === UserRole.CORE) {
+      assertCanManageCore(actorRole, 'change the permissions of core staff');
+    }
+
+    if (user.role === UserRole.PARTNER) {
+      throw Errors.badRequest('Partner accounts have no staff permissions');
+    }
+
+    const table = user.role === UserRole.CORE ? 'core_staff' : 'admin_staff';
+    const clean = sanitizePermissionOverrides(overrides);
+
+    const { data: staff, error: fetchError } = await supabase
+      .from(table)
+      .select('permissions')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      logger.error(`Failed to load ${table} record for ${userId}:`, fetchError);
+      throw Errors.database('Failed to fetch staff record');
+    }
+
+    if (!staff) {
+      throw Errors.notFound('Staff record');
+    }
+
+    const { error } = await adminClient
+      .from(table)
+      .update({ permissions: clean, updated_at: new Date().toISOString() })
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error(`Failed to update permissions for ${userId}:`, error);
+      throw Errors.database('Failed to update permissions');
+    }
+
+    await logUserEvent('user_permissions_changed', actorId, userId, ipAddress, {
+      email: user.email,
+      old_overrides: sanitizePermissionOverrides(staff.permissions),
+      new_overrides: clean,
+    });
+
+    logger.info(`Permission overrides updated for user ${userId}`);
+
+    return await getUserById(userId);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    logger.error('Update user permissions error:', error);
+    throw Errors.internal('Failed to update permissions');
+  }
+}
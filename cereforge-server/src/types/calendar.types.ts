@@ -29,6 +29,30 @@ export type GuestResponseStatus = 'pending' | 'accepted' | 'declined' | 'maybe';
  */
 export type ReminderType = 'email' | 'push' | 'sms';
 
+/**
+ * Weekday with optional ordinal (RRULE BYDAY)
+ * day: 0 = Sunday ... 6 = Saturday; ordinal: 2 = "2nd", -1 = "last"
+ */
+export interface RecurrenceWeekday {
+  day: number;
+  ordinal?: number;
+}
+
+/**
+ * Parsed RFC 5545 RRULE
+ */
+export interface RRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst: number;
+}
+
 /**
  * Recurrence Configuration
  */
@@ -37,10 +61,16 @@ export interface RecurrenceConfig {
   interval?: number;
   repeatUnit?: 'day' | 'week' | 'month' | 'year'; // ✅ NEW
   daysOfWeek?: number[];
+  byWeekday?: RecurrenceWeekday[]; // Ordinal weekdays ("2nd Tuesday") or monthly/yearly weekdays
+  byMonthDay?: number[]; // 1..31, negative counts from month end
+  byMonth?: number[]; // 1..12
+  bySetPos?: number[];
+  weekStart?: number; // 0 = Sunday, defaults to Monday
   endType?: 'never' | 'on' | 'after';
-  endDate?: string | Date;
-  occurrences?: number;
+  endDate?: string | Date | null;
+  occurrences?: number | null;
   config?: any;
+  rrule?: string; // Raw RRULE input, normalized into the fields above
   
   // ✅ For legacy custom recurrence modal
   repeatEvery?: number;
@@ -85,6 +115,7 @@ export interface EventGuest {
 export interface CalendarEvent {
   id: string;
   user_id: string;
+  calendar_id?: string | null; // Team or partner-project calendar; null = the owner's personal calendar
   title: string;
   description?: string;
   location?: string;
@@ -94,16 +125,210 @@ export interface CalendarEvent {
   timezone: string; // User's timezone
   recurrence_type: RecurrenceType;
   recurrence_config?: RecurrenceConfig;
-  parent_event_id?: string | null;
+  rrule?: string | null; // RFC 5545 RRULE derived from recurrence_config
+  exdates?: (Date | string)[] | null; // EXDATE: original starts removed from the series
+  parent_event_id?: string | null; // Set on override rows
+  original_start_time?: Date | string | null; // RECURRENCE-ID of the occurrence an override replaces
   is_recurring_parent: boolean;
   label: EventLabel;
   notification_settings: NotificationSettings;
   status: EventStatus;
+  sequence?: number; // iCalendar SEQUENCE, bumped whenever guests are sent an update
+  ical_uid?: string | null; // UID of an imported event, kept so re-imports are recognised
+  consultation_id?: string | null; // Consultation type it was booked through (public booking link)
   created_at: Date | string;
   updated_at: Date | string;
   deleted_at?: Date | string;
   // Joined data
   guests?: EventGuest[];
+  access?: CalendarAccess; // What the viewer may do, set on read
+}
+
+/**
+ * ICS Import Input
+ */
+export interface ImportCalendarInput {
+  ics: string; // Raw .ics file contents
+  dryRun: boolean; // Preview only, nothing is written
+  timezone?: string; // Zone for floating times, defaults to UTC
+  label?: EventLabel;
+}
+
+export type CalendarImportAction = 'create' | 'duplicate' | 'skip';
+
+/**
+ * One VEVENT of an import and what happens to it
+ */
+export interface CalendarImportItem {
+  uid: string;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  recurring: boolean;
+  recurrenceId?: string; // Set when the VEVENT overrides one occurrence of a series
+  guestCount: number;
+  action: CalendarImportAction;
+  reason?: string;
+}
+
+export interface CalendarImportResult {
+  dryRun: boolean;
+  summary: Record<CalendarImportAction, number>;
+  items: CalendarImportItem[];
+}
+
+/**
+ * What a private iCal feed includes
+ */
+export interface CalendarFeedOptions {
+  includeHolidays: boolean;
+  holidayCountry?: string | null; // ISO 3166 alpha-2; null = global holidays only
+}
+
+/**
+ * Private iCal feed settings (the token is never stored or returned again)
+ */
+export interface CalendarFeed extends CalendarFeedOptions {
+  createdAt: Date | string;
+  lastAccessedAt?: Date | string | null;
+}
+
+/**
+ * Calendar kinds: every user has one personal calendar; team and
+ * partner-project calendars are shared
+ */
+export type CalendarType = 'personal' | 'team' | 'partner_project';
+
+/**
+ * Sharing levels, lowest first
+ * freebusy = times only, read = full details, edit = create/change/delete events
+ */
+export type CalendarPermission = 'freebusy' | 'read' | 'edit';
+
+export type CalendarAccess = CalendarPermission | 'owner';
+
+/**
+ * Calendar (Database Model)
+ */
+export interface Calendar {
+  id: string;
+  owner_id: string;
+  type: CalendarType;
+  name: string;
+  description?: string | null;
+  color: EventLabel;
+  partner_id?: string | null;
+  created_at: Date | string;
+  updated_at: Date | string;
+}
+
+/**
+ * A calendar as one user sees it
+ */
+export interface AccessibleCalendar extends Calendar {
+  access: CalendarAccess;
+  member_count?: number; // Owner only
+}
+
+/**
+ * Calendar Member (joined with the member's profile)
+ */
+export interface CalendarMember {
+  user_id: string;
+  email: string;
+  full_name?: string;
+  permission: CalendarPermission;
+  added_by?: string | null;
+  created_at: Date | string;
+}
+
+export interface CreateCalendarInput {
+  name: string;
+  description?: string;
+  type: Exclude<CalendarType, 'personal'>;
+  color: EventLabel;
+  partnerId?: string;
+}
+
+export interface UpdateCalendarInput {
+  name?: string;
+  description?: string | null;
+  color?: EventLabel;
+}
+
+export interface AddCalendarMemberInput {
+  email: string;
+  permission: CalendarPermission;
+}
+
+/**
+ * Days and wall-clock hours a meeting may be scheduled in
+ */
+export interface WorkingHours {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+/**
+ * Free/busy lookup input
+ */
+export interface FreeBusyInput {
+  emails: string[]; // The requesting user is always included
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+  timezone?: string; // Zone working hours are read in, defaults to UTC
+  durationMinutes?: number; // Set to get suggested slots
+  workingHours?: WorkingHours;
+  holidayCountry?: string | null; // Public holidays block whole days; null = global only
+}
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+/**
+ * One person's availability (times only, never event details)
+ * External addresses come back with internal: false and no busy data.
+ */
+export interface FreeBusyCalendar {
+  email: string;
+  name?: string;
+  internal: boolean;
+  busy: BusyInterval[];
+}
+
+export interface FreeBusyResult {
+  timezone: string;
+  workingHours: WorkingHours;
+  calendars: FreeBusyCalendar[];
+  holidays: { date: string; title: string }[];
+  suggestions: BusyInterval[];
+}
+
+/**
+ * An existing event (or occurrence) a save would overlap
+ * Returned in the details of a 409 CONFLICT until the client retries with force
+ */
+export interface EventConflict {
+  eventId: string; // Series id for recurring occurrences
+  title: string;
+  start: string;
+  end: string;
+  recurring: boolean;
+}
+
+/**
+ * Guest-facing view of an invitation (public RSVP page)
+ */
+export interface RsvpInvitation {
+  guest: Pick<EventGuest, 'name' | 'email' | 'response_status' | 'responded_at'>;
+  event: Pick<CalendarEvent, 'title' | 'description' | 'location' | 'start_time' | 'end_time' | 'all_day' | 'timezone'> & {
+    cancelled: boolean;
+    organizer_name: string;
+  };
 }
 
 /**
@@ -122,6 +347,12 @@ export interface PublicHoliday {
   updated_at: Date | string;
 }
 
+/**
+ * Reminder delivery lifecycle
+ * processing = claimed by a worker; skipped = event removed, moved or reminders turned off
+ */
+export type ReminderDeliveryStatus = 'pending' | 'processing' | 'sent' | 'failed' | 'skipped';
+
 /**
  * Event Reminder
  */
@@ -129,10 +360,17 @@ export interface EventReminder {
   id: string;
   event_id: string;
   user_id: string;
+  occurrence_start?: Date | string | null; // Start of the occurrence this reminder is for
   remind_at: Date | string;
   sent: boolean;
-  sent_at?: Date | string;
+  sent_at?: Date | string | null;
+  delivery_status?: ReminderDeliveryStatus | null;
   reminder_type: ReminderType;
+  retry_count?: number | null;
+  last_retry_at?: Date | string | null;
+  next_attempt_at?: Date | string | null; // Failed reminders aren't claimed again before this
+  claimed_at?: Date | string | null;
+  claimed_by?: string | null;
   created_at: Date | string;
 }
 
@@ -152,6 +390,8 @@ export interface CreateEventInput {
   notificationSettings: NotificationSettings;
   guests?: { email: string; name: string }[];
   sendInvitations?: boolean;
+  calendarId?: string; // Defaults to the user's personal calendar
+  force?: boolean; // Save even if the event overlaps others
 }
 
 /**
@@ -169,12 +409,21 @@ export interface UpdateEventInput {
   label?: EventLabel;
   notificationSettings?: NotificationSettings;
   status?: EventStatus;
+  scope?: RecurrenceEditScope; // Recurring events only, defaults to 'all'
+  instanceStart?: string; // Original start of the occurrence being edited (ISO 8601)
+  calendarId?: string; // Moves the event (the whole series) to another calendar
+  force?: boolean; // Save even if the new times overlap other events
 }
 
+/**
+ * Which occurrences of a recurring event an edit or delete applies to
+ */
+export type RecurrenceEditScope = 'single' | 'thisAndFuture' | 'all';
+
 /**
  * Delete Event Options
  */
-export type DeleteEventType = 'single' | 'thisAndFuture' | 'all';
+export type DeleteEventType = RecurrenceEditScope;
 
 /**
  * Get Events Query Params
@@ -183,13 +432,29 @@ export interface GetEventsParams {
   startDate: string; // ISO 8601
   endDate: string; // ISO 8601
   includeRecurring?: boolean;
+  timezone?: string; // Viewer's IANA zone for local_* fields, defaults to UTC
+}
+
+/**
+ * Wall-clock times for display
+ * Timed events use the viewer's zone; all-day events keep their own dates
+ */
+export interface LocalizedEventTimes {
+  local_start_date: string; // YYYY-MM-DD
+  local_start_time: string; // HH:mm
+  local_end_date: string; // YYYY-MM-DD
+  local_end_time: string; // HH:mm
+  display_timezone: string;
 }
 
+export type LocalizedCalendarEvent = CalendarEvent & LocalizedEventTimes;
+
 /**
  * Calendar Events Response
  */
 export interface CalendarEventsResponse {
-  userEvents: CalendarEvent[];
+  userEvents: LocalizedCalendarEvent[];
+  viewerTimezone: string;
   publicHolidays: PublicHoliday[];
 }
 
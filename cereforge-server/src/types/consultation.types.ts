@@ -0,0 +1,198 @@
+// src/types/consultation.types.ts
+// =====================================================
+// CONSULTATION BOOKING TYPES
+// =====================================================
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface DaySchedule {
+  enabled: boolean;
+  openTime: string; // HH:mm in the consultation's timezone
+  closeTime: string;
+}
+
+export type WeeklySchedule = Record<Weekday, DaySchedule>;
+
+/**
+ * consultation_types row
+ */
+export interface ConsultationTypeRow {
+  id: string;
+  owner_id: string;
+  consultation_type: string;
+  company_name: string;
+  description: string | null;
+  duration_minutes: number;
+  buffer_hours: number;
+  padding_minutes: number;
+  max_per_day: number | null;
+  timezone: string;
+  schedule: WeeklySchedule;
+  is_active: boolean;
+  is_system_booking: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Consultation type as returned by the API
+ */
+export interface ConsultationType {
+  id: string;
+  ownerId: string;
+  consultationType: string;
+  companyName: string;
+  description: string;
+  durationMinutes: number;
+  bufferHours: number; // Minimum notice
+  paddingMinutes: number; // Kept free either side of other meetings
+  maxPerDay: number | null; // Bookings per day; null = no cap
+  timezone: string;
+  schedule: WeeklySchedule;
+  isActive: boolean;
+  isSystemBooking: boolean;
+  bookingPath: string | null; // /book/:companySlug/:typeSlug/:uniqueId; null when revoked
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateConsultationTypeInput {
+  consultationType: string;
+  companyName: string;
+  description: string;
+  durationMinutes: number;
+  bufferHours: number;
+  paddingMinutes: number;
+  maxPerDay: number | null;
+  timezone: string;
+  schedule: WeeklySchedule;
+  isActive: boolean;
+  isSystemBooking: boolean;
+}
+
+export type UpdateConsultationTypeInput = Partial<Omit<CreateConsultationTypeInput, 'isSystemBooking'>>;
+
+// =====================================================
+// BOOKING LINKS
+// =====================================================
+
+/**
+ * booking_links row: one per individual consultation type, plus one shared
+ * link for all system booking types (consultation_id null)
+ */
+export interface BookingLinkRow {
+  id: string;
+  link_id: string; // uniqueId in the public URL; replaced on regenerate
+  consultation_id: string | null;
+  is_system_booking: boolean;
+  company_slug: string;
+  type_slug: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface BookingAvailability {
+  availableDays: Weekday[];
+  availableTimes: Partial<Record<Weekday, { openTime: string; closeTime: string }>>;
+  bufferHours: number;
+  timezone: string;
+}
+
+export interface BookingVariant extends BookingAvailability {
+  id: string;
+  title: string;
+  duration: string; // e.g. "30 minutes"
+  durationMinutes: number;
+  description: string;
+  isActive: boolean;
+}
+
+/**
+ * What a public booking link resolves to
+ */
+export interface PublicBookingConfig extends BookingAvailability {
+  bookingPath: string;
+  consultationType: string;
+  companyName: string;
+  duration: string; // Minutes, as the booking page expects
+  description: string;
+  isActive: boolean;
+  isSystemBooking: boolean;
+  variants?: BookingVariant[];
+}
+
+export interface BookingSlotsQuery {
+  from: string;
+  to: string;
+  tz?: string; // Booker's timezone; defaults to the consultation's
+  type?: string; // Consultation id, for the shared system booking link
+}
+
+/**
+ * A bookable time; date and time are in the booker's timezone
+ */
+export interface BookableSlot {
+  start: string; // ISO (UTC)
+  end: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+}
+
+export interface BookingSlotsResult {
+  timezone: string;
+  durationMinutes: number;
+  slots: BookableSlot[];
+}
+
+export interface BookConsultationInput {
+  start: string; // ISO; one of the bookable slots
+  type?: string; // Consultation id, for the shared system booking link
+  name: string;
+  email: string;
+  company?: string;
+  projectDescription?: string;
+  timezone?: string; // Booker's timezone, for the confirmation
+}
+
+export interface BookingConfirmation {
+  eventId: string;
+  title: string;
+  start: string;
+  end: string;
+  timezone: string;
+  meetingUrl: string;
+  ownerName: string;
+}
+
+// =====================================================
+// BOOKER SELF-SERVICE (manage link in the confirmation email)
+// =====================================================
+
+/**
+ * A booking as the booker sees it on the manage page
+ */
+export interface ManagedBooking {
+  title: string;
+  companyName: string;
+  ownerName: string;
+  bookerName: string;
+  bookerEmail: string;
+  start: string;
+  end: string;
+  durationMinutes: number;
+  timezone: string; // Consultation's
+  meetingUrl: string | null;
+  status: 'active' | 'cancelled' | 'completed';
+  bufferHours: number;
+  changeableUntil: string; // Minimum notice: no online changes after this
+  canChange: boolean;
+}
+
+export interface RescheduleBookingInput {
+  start: string; // ISO; one of the bookable slots
+  timezone?: string; // Booker's timezone, for the emails
+}
+
+export interface CancelBookingInput {
+  reason?: string;
+}
@@ -46,6 +46,7 @@ export interface UserProfile {
   created_at: string;
   updated_at: string;
   last_login?: string;
+  must_change_password?: boolean;
   metadata?: Record<string, any>;
 }
 
@@ -61,6 +62,8 @@ export interface JWTPayload {
   systemType: SystemType; // ✅ NEW
   sessionId: string;
   permissions?: Record<string, boolean>;
+  mustChangePassword?: boolean; // Restricted session until the temporary password is replaced
+  mfa?: boolean; // Session completed a TOTP / recovery code challenge
 }
 
 /**
@@ -99,6 +102,7 @@ export interface LoginResponse {
     role: UserRole;
     systemType: SystemType; // ✅ NEW
     permissions?: Record<string, boolean>;
+    mustChangePassword?: boolean;
   };
   // Tokens are in httpOnly cookies, not returned in body
 }
@@ -0,0 +1,144 @@
+// src/utils/availability.ts - FREE/BUSY INTERVAL MATH
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+
+dayjs.extend(utc);
+
+import { BusyInterval, WorkingHours } from '../types/calendar.types';
+import { fromFloating, toFloating } from './timezone';
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  days: [1, 2, 3, 4, 5],
+  start: '09:00',
+  end: '17:00'
+};
+
+// Candidate starts are aligned to this grid inside working hours
+const DEFAULT_SLOT_STEP = 30; // minutes
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+// Hours per weekday (0 = Sunday); days left out aren't bookable
+export type DailyHours = Partial<Record<number, { start: string; end: string }>>;
+
+export interface FindSlotsOptions {
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  timeZone: string;
+  workingHours: WorkingHours | DailyHours;
+  busy: TimeInterval[];
+  blockedDates?: string[]; // YYYY-MM-DD in timeZone, e.g. public holidays
+  paddingMinutes?: number; // Free time required either side of a busy interval
+  stepMinutes?: number;
+  limit?: number;
+}
+
+/**
+ * Sort and merge overlapping or touching intervals
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: TimeInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Whether [start, end) overlaps any of the (merged, sorted) intervals
+ */
+export function overlapsAny(start: Date, end: Date, intervals: TimeInterval[]): boolean {
+  return intervals.some(interval => interval.start < end && interval.end > start);
+}
+
+/**
+ * Clip intervals to a range and drop the ones outside it
+ */
+export function clipIntervals(intervals: TimeInterval[], from: Date, to: Date): TimeInterval[] {
+  return intervals
+    .filter(interval => interval.start < to && interval.end > from)
+    .map(interval => ({
+      start: interval.start < from ? from : interval.start,
+      end: interval.end > to ? to : interval.end
+    }));
+}
+
+export function toBusyInterval(interval: TimeInterval): BusyInterval {
+  return { start: interval.start.toISOString(), end: interval.end.toISOString() };
+}
+
+function hoursOn(workingHours: WorkingHours | DailyHours, weekday: number): { start: string; end: string } | undefined {
+  if (!('days' in workingHours)) return (workingHours as DailyHours)[weekday];
+  const hours = workingHours as WorkingHours;
+  return hours.days.includes(weekday) ? { start: hours.start, end: hours.end } : undefined;
+}
+
+/**
+ * Free slots of a fixed length inside working hours
+ * Working hours are wall-clock times in timeZone, so a 09:00 start stays
+ * 09:00 across DST changes. Blocked dates are skipped entirely.
+ */
+export function findFreeSlots(options: FindSlotsOptions): TimeInterval[] {
+  const {
+    from,
+    to,
+    durationMinutes,
+    timeZone,
+    workingHours,
+    blockedDates = [],
+    paddingMinutes = 0,
+    stepMinutes = DEFAULT_SLOT_STEP,
+    limit = Infinity
+  } = options;
+
+  const busy = mergeIntervals(options.busy);
+  const blocked = new Set(blockedDates);
+  const padding = paddingMinutes * 60 * 1000;
+
+  const slots: TimeInterval[] = [];
+  const lastDay = toFloating(to, timeZone).startOf('day');
+
+  for (
+    let day = toFloating(from, timeZone).startOf('day');
+    !day.isAfter(lastDay) && slots.length < limit;
+    day = day.add(1, 'day')
+  ) {
+    const hours = hoursOn(workingHours, day.day());
+    if (!hours || blocked.has(day.format('YYYY-MM-DD'))) continue;
+
+    const [startHour, startMinute] = hours.start.split(':').map(Number);
+    const [endHour, endMinute] = hours.end.split(':').map(Number);
+    const dayEnd = day.hour(endHour).minute(endMinute);
+
+    for (
+      let slotStart = day.hour(startHour).minute(startMinute);
+      !slotStart.add(durationMinutes, 'minute').isAfter(dayEnd) && slots.length < limit;
+      slotStart = slotStart.add(stepMinutes, 'minute')
+    ) {
+      const start = fromFloating(slotStart, timeZone).toDate();
+      const end = fromFloating(slotStart.add(durationMinutes, 'minute'), timeZone).toDate();
+
+      if (start < from || end > to) continue;
+      if (overlapsAny(new Date(start.getTime() - padding), new Date(end.getTime() + padding), busy)) continue;
+
+      slots.push({ start, end });
+    }
+  }
+
+  return slots;
+}
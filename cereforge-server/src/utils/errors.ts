@@ -12,10 +12,14 @@ export enum ErrorCode {
   INVALID_TOKEN = 'INVALID_TOKEN',
   SESSION_EXPIRED = 'SESSION_EXPIRED',
   EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
+  PASSWORD_CHANGE_REQUIRED = 'PASSWORD_CHANGE_REQUIRED',
+  SESSION_TERMINATED = 'SESSION_TERMINATED',
+  REFRESH_TOKEN_REUSED = 'REFRESH_TOKEN_REUSED',
   
   // Authorization
   FORBIDDEN = 'FORBIDDEN',
   INSUFFICIENT_PERMISSIONS = 'INSUFFICIENT_PERMISSIONS',
+  MFA_REQUIRED = 'MFA_REQUIRED',
   
   // Validation
   VALIDATION_ERROR = 'VALIDATION_ERROR',
@@ -39,6 +43,7 @@ export enum ErrorCode {
   // Business Logic
   ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED',
   ACCOUNT_PENDING = 'ACCOUNT_PENDING',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
   PARTNER_ALREADY_APPROVED = 'PARTNER_ALREADY_APPROVED',
   PARTNER_ALREADY_REJECTED = 'PARTNER_ALREADY_REJECTED',
   INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION',
@@ -105,6 +110,18 @@ export class Errors {
     return new ApiError(401, ErrorCode.INVALID_TOKEN, 'Invalid or malformed token');
   }
 
+  static sessionTerminated(): ApiError {
+    return new ApiError(401, ErrorCode.SESSION_TERMINATED, 'Session has been terminated. Please login again.');
+  }
+
+  static sessionExpired(): ApiError {
+    return new ApiError(401, ErrorCode.SESSION_EXPIRED, 'Session has expired. Please login again.');
+  }
+
+  static refreshTokenReused(): ApiError {
+    return new ApiError(401, ErrorCode.REFRESH_TOKEN_REUSED, 'This session was signed out for your security. Please login again.');
+  }
+
   // 403 Forbidden
   static forbidden(message: string = 'Access denied'): ApiError {
     return new ApiError(403, ErrorCode.FORBIDDEN, message);
@@ -114,14 +131,18 @@ export class Errors {
     return new ApiError(403, ErrorCode.INSUFFICIENT_PERMISSIONS, 'You do not have permission to perform this action');
   }
 
+  static mfaRequired(): ApiError {
+    return new ApiError(403, ErrorCode.MFA_REQUIRED, 'This action requires two-factor authentication. Verify with your authenticator code to continue.');
+  }
+
   // 404 Not Found
   static notFound(resource: string = 'Resource'): ApiError {
     return new ApiError(404, ErrorCode.NOT_FOUND, `${resource} not found`);
   }
 
   // 409 Conflict
-  static conflict(message: string): ApiError {
-    return new ApiError(409, ErrorCode.CONFLICT, message);
+  static conflict(message: string, details?: any): ApiError {
+    return new ApiError(409, ErrorCode.CONFLICT, message, details);
   }
 
   static alreadyExists(resource: string): ApiError {
@@ -151,9 +172,17 @@ export class Errors {
     return new ApiError(403, ErrorCode.ACCOUNT_SUSPENDED, 'Your account has been suspended. Please contact support.');
   }
 
+  static accountLocked(lockedUntil: string): ApiError {
+    return new ApiError(423, ErrorCode.ACCOUNT_LOCKED, 'Too many failed sign-in attempts. Your account is temporarily locked.', { lockedUntil });
+  }
+
   static accountPending(): ApiError {
     return new ApiError(403, ErrorCode.ACCOUNT_PENDING, 'Your account is pending approval');
   }
+
+  static passwordChangeRequired(): ApiError {
+    return new ApiError(403, ErrorCode.PASSWORD_CHANGE_REQUIRED, 'You must change your temporary password before continuing');
+  }
 }
 
 /**
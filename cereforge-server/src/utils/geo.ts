@@ -0,0 +1,24 @@
+import { Request } from 'express';
+
+/**
+ * Country lookup from the edge proxy's geo header
+ * We don't ship a GeoIP database - Cloudflare/Vercel already resolve the country for us
+ * Override the header with GEO_COUNTRY_HEADER if the deployment uses something else
+ */
+const COUNTRY_HEADERS = process.env.GEO_COUNTRY_HEADER
+  ? [process.env.GEO_COUNTRY_HEADER.toLowerCase()]
+  : ['cf-ipcountry', 'x-vercel-ip-country', 'x-country-code'];
+
+// Placeholder values proxies send when the country is unknown (XX) or Tor (T1)
+const UNKNOWN_COUNTRIES = ['XX', 'T1'];
+
+export function getRequestCountry(req: Request): string | null {
+  for (const header of COUNTRY_HEADERS) {
+    const value = req.get(header)?.trim().toUpperCase();
+    if (value && /^[A-Z0-9]{2}$/.test(value) && !UNKNOWN_COUNTRIES.includes(value)) {
+      return value;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,497 @@
+// src/utils/ical.ts
+// RFC 5545 iCalendar output for invitations, exports and feeds, and parsing for imports
+import dayjs, { Dayjs } from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { formatInZone, isValidTimeZone, resolveTimeZone } from './timezone';
+import { CalendarEvent, GuestResponseStatus } from '../types/calendar.types';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const PRODUCT_ID = '-//Cereforge//Calendar//EN';
+const UID_DOMAIN = 'cereforge.com';
+
+export type ICalMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface ICalAttendee {
+  email: string;
+  name?: string;
+  status?: GuestResponseStatus;
+}
+
+export interface ICalEvent {
+  uid: string;
+  sequence?: number;
+  start: Date | string;
+  end: Date | string;
+  allDay?: boolean;
+  timeZone?: string; // Zone all-day dates are read in
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  rrule?: string | null;
+  exdates?: (Date | string)[] | null;
+  recurrenceId?: Date | string | null; // Set when this VEVENT replaces one occurrence
+  organizer?: { email: string; name?: string };
+  attendees?: ICalAttendee[];
+  lastModified?: Date | string;
+}
+
+const PARTSTAT: Record<GuestResponseStatus, string> = {
+  pending: 'NEEDS-ACTION',
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+  maybe: 'TENTATIVE'
+};
+
+const RESPONSE_BY_PARTSTAT: Record<string, GuestResponseStatus> = {
+  'NEEDS-ACTION': 'pending',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  TENTATIVE: 'maybe'
+};
+
+/**
+ * A VEVENT read from an imported file, resolved to real instants
+ */
+export interface ParsedICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timeZone: string; // TZID of DTSTART, or the import's default zone
+  rrule?: string;
+  exdates: Date[];
+  recurrenceId?: Date;
+  cancelled: boolean;
+  attendees: ICalAttendee[];
+  alarmMinutesBefore?: number; // First VALARM with a start-relative TRIGGER
+}
+
+export class ICalParseError extends Error {}
+
+// =====================================================
+// FORMATTING
+// =====================================================
+
+/**
+ * TEXT value escaping (RFC 5545 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 3.1)
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  const limit = () => (parts.length === 0 ? 75 : 74); // Continuation lines start with a space
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    if (currentBytes + charBytes > limit()) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtc(value: Date | string): string {
+  return dayjs(value).utc().format('YYYYMMDD[T]HHmmss[Z]');
+}
+
+function formatDate(value: Date | string, timeZone: string): string {
+  return formatInZone(value, timeZone, 'YYYYMMDD');
+}
+
+/**
+ * A DATE-TIME (UTC) or DATE property, depending on whether the event is all-day
+ */
+function dateProperty(name: string, value: Date | string, event: ICalEvent): string {
+  return event.allDay
+    ? `${name};VALUE=DATE:${formatDate(value, resolveTimeZone(event.timeZone))}`
+    : `${name}:${formatUtc(value)}`;
+}
+
+function mailto(person: { email: string; name?: string }, params: string[] = []): string {
+  const cn = person.name ? [`CN=${person.name.replace(/[";:,]/g, '')}`] : [];
+  return [...cn, ...params].map(param => `;${param}`).join('') + `:mailto:${person.email}`;
+}
+
+// =====================================================
+// BUILDERS
+// =====================================================
+
+/**
+ * Stable UID for an event row
+ */
+export function eventUid(eventId: string): string {
+  return `${eventId}@${UID_DOMAIN}`;
+}
+
+function buildEventLines(event: ICalEvent, now: string): string[] {
+  const zone = resolveTimeZone(event.timeZone);
+
+  // All-day DTEND is exclusive: the day after the last day
+  const end = event.allDay
+    ? `DTEND;VALUE=DATE:${dayjs.utc(formatDate(event.end, zone)).add(1, 'day').format('YYYYMMDD')}`
+    : `DTEND:${formatUtc(event.end)}`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${now}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    dateProperty('DTSTART', event.start, event),
+    end,
+    `SUMMARY:${escapeText(event.summary)}`
+  ];
+
+  if (event.recurrenceId) lines.push(dateProperty('RECURRENCE-ID', event.recurrenceId, event));
+  if (event.rrule && !event.recurrenceId) lines.push(`RRULE:${event.rrule}`);
+  if (event.exdates?.length && !event.recurrenceId) {
+    lines.push(...event.exdates.map(exdate => dateProperty('EXDATE', exdate, event)));
+  }
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  if (event.organizer) lines.push(`ORGANIZER${mailto(event.organizer)}`);
+
+  for (const attendee of event.attendees || []) {
+    lines.push(`ATTENDEE${mailto(attendee, [
+      'ROLE=REQ-PARTICIPANT',
+      `PARTSTAT=${PARTSTAT[attendee.status || 'pending']}`,
+      'RSVP=TRUE'
+    ])}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize events into a VCALENDAR document
+ */
+export function buildICalendar(
+  events: ICalEvent[],
+  options: { method?: ICalMethod; name?: string } = {}
+): string {
+  const now = formatUtc(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...(options.method ? [`METHOD:${options.method}`] : []),
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    ...events.flatMap(event => buildEventLines(event, now)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Map a stored event row onto a VEVENT
+ * Override rows keep their series' UID and carry a RECURRENCE-ID
+ */
+export function calendarEventToICal(
+  event: CalendarEvent,
+  extras: Partial<ICalEvent> = {}
+): ICalEvent {
+  const isOverride = !!(event.parent_event_id && event.original_start_time);
+
+  return {
+    uid: event.ical_uid || eventUid(isOverride ? event.parent_event_id! : event.id),
+    sequence: event.sequence ?? 0,
+    start: event.start_time,
+    end: event.end_time,
+    allDay: event.all_day,
+    timeZone: event.timezone,
+    summary: event.title,
+    description: event.description,
+    location: event.location,
+    status: event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    rrule: event.is_recurring_parent ? event.rrule : null,
+    exdates: event.is_recurring_parent ? event.exdates : null,
+    recurrenceId: isOverride ? event.original_start_time : null,
+    lastModified: event.updated_at,
+    ...extras
+  };
+}
+
+// =====================================================
+// PARSING
+// =====================================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  type: string;
+  properties: ContentLine[];
+  components: Component[];
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+/**
+ * Split a content line into name, parameters and value
+ * Parameter values may be quoted and contain ':' or ';'
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let index = 0;
+  let inQuotes = false;
+  const segments: string[] = [];
+  let current = '';
+
+  for (; index < line.length; index++) {
+    const char = line[index];
+
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (char === ';' || char === ':')) {
+      segments.push(current);
+      current = '';
+      if (char === ':') break;
+      continue;
+    }
+    current += char;
+  }
+
+  if (index >= line.length) return null;
+
+  const [name, ...rawParams] = segments;
+  const params: Record<string, string> = {};
+
+  for (const param of rawParams) {
+    const separator = param.indexOf('=');
+    if (separator < 1) continue;
+    params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+/**
+ * Unfold lines and nest BEGIN/END blocks
+ */
+function parseComponents(text: string): Component[] {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const root: Component = { type: 'ROOT', properties: [], components: [] };
+  const stack: Component[] = [root];
+
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    const current = stack[stack.length - 1];
+
+    if (line.name === 'BEGIN') {
+      const component: Component = { type: line.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (line.name === 'END') {
+      if (stack.length === 1 || current.type !== line.value.trim().toUpperCase()) {
+        throw new ICalParseError(`Unexpected END:${line.value.trim()}`);
+      }
+      stack.pop();
+    } else {
+      current.properties.push(line);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new ICalParseError(`Missing END:${stack[stack.length - 1].type}`);
+  }
+
+  return root.components;
+}
+
+function getProperty(component: Component, name: string): ContentLine | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+function getText(component: Component, name: string): string | undefined {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : undefined;
+}
+
+/**
+ * DATE or DATE-TIME value: UTC ("Z"), zoned (TZID) or floating (the default zone)
+ */
+function parseDateValue(line: ContentLine, defaultZone: string): { date: Dayjs; allDay: boolean; zone: string } | null {
+  const value = line.value.trim();
+  const zone = isValidTimeZone(line.params.TZID) ? line.params.TZID : defaultZone;
+
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || line.params.VALUE === 'DATE') {
+    if (!dateOnly) return null;
+    const date = dayjs.tz(`${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}`, zone);
+    return date.isValid() ? { date, allDay: true, zone } : null;
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, isUtc] = match;
+  const local = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+  const date = isUtc ? dayjs.utc(`${local}Z`) : dayjs.tz(local, zone);
+
+  return date.isValid() ? { date, allDay: false, zone } : null;
+}
+
+/**
+ * DURATION value ("PT1H30M", "-P1D", "P2W") in minutes
+ */
+function parseDurationMinutes(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = Number(weeks || 0) * 10080 +
+    Number(days || 0) * 1440 +
+    Number(hours || 0) * 60 +
+    Number(minutes || 0) +
+    Number(seconds || 0) / 60;
+
+  return sign === '-' ? -total : total;
+}
+
+function parseAttendee(line: ContentLine): ICalAttendee | null {
+  const email = line.value.replace(/^mailto:/i, '').trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return null;
+
+  return {
+    email,
+    name: line.params.CN || undefined,
+    status: RESPONSE_BY_PARTSTAT[(line.params.PARTSTAT || '').toUpperCase()] || 'pending'
+  };
+}
+
+/**
+ * Minutes before start of the first VALARM triggered relative to the start
+ */
+function parseAlarm(component: Component): number | undefined {
+  for (const alarm of component.components.filter(child => child.type === 'VALARM')) {
+    const trigger = getProperty(alarm, 'TRIGGER');
+    if (!trigger || trigger.params.VALUE === 'DATE-TIME' || trigger.params.RELATED === 'END') continue;
+
+    const minutes = parseDurationMinutes(trigger.value);
+    if (minutes !== null && minutes <= 0) return Math.round(-minutes);
+  }
+
+  return undefined;
+}
+
+function parseEvent(component: Component, defaultZone: string): ParsedICalEvent {
+  const uid = getProperty(component, 'UID')?.value.trim();
+  const dtstart = getProperty(component, 'DTSTART');
+
+  if (!uid) throw new ICalParseError('VEVENT is missing UID');
+  if (!dtstart) throw new ICalParseError(`VEVENT ${uid} is missing DTSTART`);
+
+  const start = parseDateValue(dtstart, defaultZone);
+  if (!start) throw new ICalParseError(`VEVENT ${uid} has an invalid DTSTART`);
+
+  const dtend = getProperty(component, 'DTEND');
+  const duration = getProperty(component, 'DURATION');
+  let end: Dayjs;
+
+  if (dtend) {
+    const parsedEnd = parseDateValue(dtend, start.zone);
+    if (!parsedEnd) throw new ICalParseError(`VEVENT ${uid} has an invalid DTEND`);
+    end = parsedEnd.date;
+  } else if (duration && parseDurationMinutes(duration.value) !== null) {
+    end = start.date.add(parseDurationMinutes(duration.value)!, 'minute');
+  } else {
+    // RFC 5545: a DATE start lasts one day, a DATE-TIME start is instantaneous
+    end = start.allDay ? start.date.add(1, 'day') : start.date;
+  }
+
+  // All-day DTEND is exclusive; stored all-day events end on their last day
+  const endTime = start.allDay
+    ? dayjs.tz(end.format('YYYY-MM-DD'), start.zone).subtract(1, 'day').endOf('day')
+    : end;
+
+  const exdates = component.properties
+    .filter(property => property.name === 'EXDATE')
+    .flatMap(property => property.value.split(',').map(value => parseDateValue({ ...property, value }, start.zone)))
+    .filter((exdate): exdate is NonNullable<typeof exdate> => !!exdate)
+    .map(exdate => exdate.date.toDate());
+
+  const recurrenceLine = getProperty(component, 'RECURRENCE-ID');
+  const recurrenceId = recurrenceLine ? parseDateValue(recurrenceLine, start.zone) : null;
+
+  return {
+    uid,
+    summary: getText(component, 'SUMMARY')?.trim() || '(No title)',
+    description: getText(component, 'DESCRIPTION'),
+    location: getText(component, 'LOCATION'),
+    start: start.date.toDate(),
+    end: dayjs(endTime).isBefore(start.date) ? start.date.toDate() : endTime.toDate(),
+    allDay: start.allDay,
+    timeZone: start.zone,
+    rrule: getProperty(component, 'RRULE')?.value.trim(),
+    exdates,
+    recurrenceId: recurrenceId?.date.toDate(),
+    cancelled: getProperty(component, 'STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    attendees: component.properties
+      .filter(property => property.name === 'ATTENDEE')
+      .map(parseAttendee)
+      .filter((attendee): attendee is ICalAttendee => !!attendee),
+    alarmMinutesBefore: parseAlarm(component)
+  };
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document
+ * Floating times are read in X-WR-TIMEZONE when present, otherwise defaultZone.
+ * Throws ICalParseError when the document or an event is malformed.
+ */
+export function parseICalendar(text: string, defaultZone: string = 'UTC'): ParsedICalEvent[] {
+  const calendars = parseComponents(text).filter(component => component.type === 'VCALENDAR');
+
+  if (!calendars.length) {
+    throw new ICalParseError('No VCALENDAR found');
+  }
+
+  return calendars.flatMap(calendar => {
+    const zone = resolveTimeZone(getProperty(calendar, 'X-WR-TIMEZONE')?.value.trim(), defaultZone);
+
+    return calendar.components
+      .filter(component => component.type === 'VEVENT')
+      .map(component => parseEvent(component, zone));
+  });
+}
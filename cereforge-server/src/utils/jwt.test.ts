@@ -0,0 +1,63 @@
+import jwt from 'jsonwebtoken';
+import { generateRefreshToken, verifyRefreshToken } from './jwt';
+import { SystemType, UserRole } from '../types/types';
+
+jest.mock('./logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
+
+const PAYLOAD = {
+  userId: 'user-1',
+  email: 'partner@example.com',
+  name: 'Partner',
+  role: UserRole.PARTNER,
+  systemType: SystemType.SYSTEM_USERS,
+  sessionId: 'session-1',
+  mfa: false
+};
+
+// Signs with the real refresh secret so only the claim under test is wrong
+function signRefresh(payload: object, options: jwt.SignOptions = {}): string {
+  return jwt.sign(payload, process.env.JWT_REFRESH_SECRET!, {
+    issuer: 'cereforge',
+    audience: 'cereforge-api',
+    ...options
+  });
+}
+
+describe('generateRefreshToken', () => {
+  it('gives every issued token its own jti', () => {
+    const first = generateRefreshToken(PAYLOAD);
+    const second = generateRefreshToken(PAYLOAD);
+
+    const firstJti = (jwt.decode(first) as jwt.JwtPayload).jti;
+    const secondJti = (jwt.decode(second) as jwt.JwtPayload).jti;
+
+    expect(firstJti).toEqual(expect.any(String));
+    expect(firstJti).not.toBe(secondJti);
+    expect(first).not.toBe(second);
+  });
+});
+
+describe('verifyRefreshToken', () => {
+  it('returns the payload of a token it issued', () => {
+    expect(verifyRefreshToken(generateRefreshToken(PAYLOAD))).toMatchObject(PAYLOAD);
+  });
+
+  it('rejects a token minted for another audience', () => {
+    expect(verifyRefreshToken(signRefresh(PAYLOAD, { audience: 'another-api' }))).toBeNull();
+  });
+
+  it('rejects an expired token', () => {
+    const expired = signRefresh({ ...PAYLOAD, exp: Math.floor(Date.now() / 1000) - 60 });
+
+    expect(verifyRefreshToken(expired)).toBeNull();
+  });
+
+  it('rejects a token without a systemType', () => {
+    const { systemType: _systemType, ...legacy } = PAYLOAD;
+
+    expect(verifyRefreshToken(signRefresh(legacy))).toBeNull();
+  });
+});
@@ -24,6 +24,8 @@ export interface JWTPayload {
   systemType: SystemType; // ✅ NEW
   sessionId: string;
   permissions?: Record<string, boolean>;
+  mustChangePassword?: boolean; // Restricted session until the temporary password is replaced
+  mfa?: boolean; // Session completed a TOTP / recovery code challenge
 }
 
 /**
@@ -39,7 +41,9 @@ export function generateAccessToken(payload: JWTPayload): string {
         role: payload.role,
         systemType: payload.systemType, // ✅ NEW
         sessionId: payload.sessionId,
-        permissions: payload.permissions
+        permissions: payload.permissions,
+        mustChangePassword: payload.mustChangePassword,
+        mfa: payload.mfa
       },
       JWT_SECRET,
       {
@@ -57,8 +61,9 @@ export function generateAccessToken(payload: JWTPayload): string {
 
 /**
  * ✅ UPDATED: Generate refresh token (long-lived) with systemType
+ * The sessionId doubles as the token family - every rotation stays in the same family
  */
-export function generateRefreshToken(payload: Omit<JWTPayload, 'permissions'>): string {
+export function generateRefreshToken(payload: Omit<JWTPayload, 'permissions' | 'mustChangePassword'>): string {
   try {
     const token = jwt.sign(
       {
@@ -67,13 +72,15 @@ export function generateRefreshToken(payload: Omit<JWTPayload, 'permissions'>):
         name: payload.name,
         role: payload.role,
         systemType: payload.systemType, // ✅ NEW
-        sessionId: payload.sessionId
+        sessionId: payload.sessionId,
+        mfa: payload.mfa
       },
       JWT_REFRESH_SECRET,
       {
         expiresIn: JWT_REFRESH_EXPIRY,
         issuer: 'cereforge',
-        audience: 'cereforge-api'
+        audience: 'cereforge-api',
+        jwtid: crypto.randomUUID() // ✅ Unique per issue so every rotated token hashes differently
       } as SignOptions
     );
     return token;
@@ -142,6 +149,47 @@ export function verifyRefreshToken(token: string): Omit<JWTPayload, 'permissions
   }
 }
 
+/**
+ * Short-lived token proving the password step passed, exchanged for a session once the TOTP step succeeds
+ */
+export interface MfaChallengePayload {
+  userId: string;
+  role: UserRole;
+  purpose: 'mfa_challenge';
+}
+
+const MFA_CHALLENGE_EXPIRY = '5m';
+
+export function generateMfaChallengeToken(userId: string, role: UserRole): string {
+  return jwt.sign(
+    { userId, role, purpose: 'mfa_challenge' },
+    JWT_SECRET,
+    {
+      expiresIn: MFA_CHALLENGE_EXPIRY,
+      issuer: 'cereforge',
+      audience: 'cereforge-mfa'
+    } as SignOptions
+  );
+}
+
+export function verifyMfaChallengeToken(token: string): MfaChallengePayload | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET, {
+      issuer: 'cereforge',
+      audience: 'cereforge-mfa'
+    }) as MfaChallengePayload;
+
+    if (decoded.purpose !== 'mfa_challenge') {
+      return null;
+    }
+
+    return decoded;
+  } catch (error) {
+    logger.debug('Invalid or expired MFA challenge token');
+    return null;
+  }
+}
+
 /**
  * Generate secure random token (for password reset, etc.)
  * No changes needed
@@ -161,6 +209,40 @@ export function hashToken(token: string): string {
     .digest('hex');
 }
 
+/**
+ * What a guest token grants: answering an event invitation, or managing a booked consultation
+ * The purpose is part of the signed input, so a token for one can't stand in for the other
+ */
+export type GuestTokenPurpose = 'rsvp' | 'booking';
+
+/**
+ * Guest token: guest id plus an HMAC of purpose and id
+ * Stable for a given guest, so links in earlier emails keep working
+ */
+export function signGuestToken(purpose: GuestTokenPurpose, guestId: string): string {
+  const signature = crypto
+    .createHmac('sha256', JWT_SECRET)
+    .update(`${purpose}:${guestId}`)
+    .digest('base64url');
+
+  return `${guestId}.${signature}`;
+}
+
+/**
+ * Guest id from a guest token, or null if the signature doesn't match the purpose
+ */
+export function verifyGuestToken(purpose: GuestTokenPurpose, token: string): string | null {
+  const [guestId, signature] = token.split('.');
+  if (!guestId || !signature) return null;
+
+  const expected = Buffer.from(signGuestToken(purpose, guestId));
+  const presented = Buffer.from(token);
+
+  return expected.length === presented.length && crypto.timingSafeEqual(expected, presented)
+    ? guestId
+    : null;
+}
+
 /**
  * Generate session ID
  * No changes needed
@@ -0,0 +1,77 @@
+import { UserRole } from '../types/types';
+
+/**
+ * Permission catalog
+ * Every key checked by requirePermission() must be listed here
+ */
+export const PERMISSIONS = {
+  'partners.view': 'View partner applications and partners',
+  'partners.approve': 'Approve or reject partner applications',
+  'partners.edit': 'Edit partner details',
+  'partners.status': 'Suspend, pause or reactivate partners',
+  'holidays.manage': 'Create, edit and delete public holidays',
+  'audit.read': 'View the audit log',
+  'audit.export': 'Export the audit log',
+  'users.manage': 'Invite staff and manage roles, status and permissions',
+  'users.unlock': 'Clear sign-in lockouts',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export type PermissionSet = Record<Permission, boolean>;
+
+export type PermissionOverrides = Partial<PermissionSet>;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+/**
+ * What each role gets before per-user overrides
+ */
+export const ROLE_DEFAULT_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.CORE]: PERMISSION_KEYS,
+  [UserRole.ADMIN]: [
+    'partners.view',
+    'partners.approve',
+    'partners.edit',
+    'holidays.manage',
+    'audit.read',
+    'users.unlock',
+  ],
+  [UserRole.PARTNER]: [],
+};
+
+export function isPermission(key: string): key is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, key);
+}
+
+/**
+ * Keep only catalog keys with boolean values
+ * Staff rows may still hold keys from before the catalog existed
+ */
+export function sanitizePermissionOverrides(overrides: Record<string, unknown> | null | undefined): PermissionOverrides {
+  const clean: PermissionOverrides = {};
+
+  for (const [key, value] of Object.entries(overrides || {})) {
+    if (isPermission(key) && typeof value === 'boolean') {
+      clean[key] = value;
+    }
+  }
+
+  return clean;
+}
+
+/**
+ * Role defaults with the user's overrides applied on top
+ */
+export function resolvePermissions(
+  role: UserRole,
+  overrides?: Record<string, unknown> | null
+): PermissionSet {
+  const defaults = ROLE_DEFAULT_PERMISSIONS[role] || [];
+  const clean = sanitizePermissionOverrides(overrides);
+
+  return PERMISSION_KEYS.reduce((set, key) => {
+    set[key] = clean[key] ?? defaults.includes(key);
+    return set;
+  }, {} as PermissionSet);
+}
@@ -0,0 +1,263 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import {
+  expandRRule,
+  formatRRule,
+  generateRecurringInstances,
+  parseRRule,
+  recurrenceConfigToRRule,
+  rruleToRecurrenceConfig
+} from './recurrenece';
+import { CalendarEvent, RecurrenceConfig } from '../types/calendar.types';
+
+dayjs.extend(utc);
+
+// Occurrence dates of a rule expanded on floating (UTC-mode) wall-clock time
+function dates(rrule: string, dtstart: string, limit: string = '2030-01-01'): string[] {
+  const rule = parseRRule(rrule);
+  if (!rule) throw new Error(`Rule did not parse: ${rrule}`);
+
+  return expandRRule(rule, dayjs.utc(dtstart), dayjs.utc(limit)).map(day => day.format('YYYY-MM-DD'));
+}
+
+function seriesEvent(overrides: Partial<CalendarEvent>): CalendarEvent {
+  return {
+    id: 'series',
+    user_id: 'user',
+    title: 'Stand-up',
+    start_time: '2025-03-06T14:00:00.000Z',
+    end_time: '2025-03-06T14:30:00.000Z',
+    all_day: false,
+    timezone: 'America/New_York',
+    recurrence_type: 'daily',
+    rrule: 'FREQ=DAILY',
+    is_recurring_parent: true,
+    label: 'blue',
+    notification_settings: { type: 'Snooze', interval: null, timeUnit: null },
+    status: 'active',
+    created_at: '2025-03-01T00:00:00.000Z',
+    updated_at: '2025-03-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('expandRRule', () => {
+  describe('BYDAY ordinals', () => {
+    it('expands the second Monday of each month', () => {
+      expect(dates('FREQ=MONTHLY;BYDAY=2MO;COUNT=4', '2025-01-13T10:00:00')).toEqual([
+        '2025-01-13', '2025-02-10', '2025-03-10', '2025-04-14'
+      ]);
+    });
+
+    it('counts negative ordinals from the end of the month', () => {
+      expect(dates('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3', '2025-01-31T10:00:00')).toEqual([
+        '2025-01-31', '2025-02-28', '2025-03-28'
+      ]);
+    });
+
+    it('rejects ordinals on weekly rules', () => {
+      expect(parseRRule('FREQ=WEEKLY;BYDAY=2MO')).toBeNull();
+    });
+  });
+
+  describe('BYMONTHDAY', () => {
+    it('counts negative month days from the end of each month', () => {
+      expect(dates('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=4', '2024-01-31T10:00:00')).toEqual([
+        '2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30'
+      ]);
+    });
+
+    it('skips months without a 31st', () => {
+      expect(dates('FREQ=MONTHLY;BYMONTHDAY=31;COUNT=4', '2025-01-31T10:00:00')).toEqual([
+        '2025-01-31', '2025-03-31', '2025-05-31', '2025-07-31'
+      ]);
+    });
+
+    it('skips them when the day comes from DTSTART alone', () => {
+      expect(dates('FREQ=MONTHLY;COUNT=3', '2025-01-31T10:00:00')).toEqual([
+        '2025-01-31', '2025-03-31', '2025-05-31'
+      ]);
+    });
+  });
+
+  describe('BYSETPOS', () => {
+    it('picks the last weekday of each month', () => {
+      expect(dates('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3', '2025-01-31T10:00:00')).toEqual([
+        '2025-01-31', '2025-02-28', '2025-03-31'
+      ]);
+    });
+
+    it('picks the first and last of the set', () => {
+      expect(dates('FREQ=MONTHLY;BYDAY=SA,SU;BYSETPOS=1,-1;COUNT=4', '2025-02-01T10:00:00')).toEqual([
+        '2025-02-01', '2025-02-23', '2025-03-01', '2025-03-30'
+      ]);
+    });
+  });
+
+  describe('COUNT and UNTIL', () => {
+    it('stops after COUNT occurrences, DTSTART included', () => {
+      expect(dates('FREQ=DAILY;COUNT=3', '2025-03-01T09:00:00')).toEqual([
+        '2025-03-01', '2025-03-02', '2025-03-03'
+      ]);
+    });
+
+    it('includes an occurrence exactly at UNTIL', () => {
+      expect(dates('FREQ=DAILY;UNTIL=20250303T090000Z', '2025-03-01T09:00:00')).toEqual([
+        '2025-03-01', '2025-03-02', '2025-03-03'
+      ]);
+    });
+
+    it('treats a date-only UNTIL as the whole day', () => {
+      expect(dates('FREQ=DAILY;UNTIL=20250303', '2025-03-01T23:00:00')).toEqual([
+        '2025-03-01', '2025-03-02', '2025-03-03'
+      ]);
+    });
+
+    it('rejects COUNT and UNTIL together', () => {
+      expect(parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20250303T090000Z')).toBeNull();
+    });
+
+    it('stops at the expansion limit when open-ended', () => {
+      expect(dates('FREQ=DAILY', '2025-03-01T09:00:00', '2025-03-04T00:00:00')).toHaveLength(3);
+    });
+  });
+
+  describe('INTERVAL', () => {
+    it('skips periods on weekly rules', () => {
+      expect(dates('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=4', '2025-01-07T10:00:00')).toEqual([
+        '2025-01-07', '2025-01-09', '2025-01-21', '2025-01-23'
+      ]);
+    });
+
+    it('steps daily rules', () => {
+      expect(dates('FREQ=DAILY;INTERVAL=10;COUNT=3', '2025-01-25T10:00:00')).toEqual([
+        '2025-01-25', '2025-02-04', '2025-02-14'
+      ]);
+    });
+  });
+
+  describe('WKST', () => {
+    // RFC 5545 3.8.5.3: the same biweekly rule lands on different days per week start
+    it('groups biweekly days into Monday-start weeks', () => {
+      expect(dates('FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=MO', '1997-08-05T09:00:00')).toEqual([
+        '1997-08-05', '1997-08-10', '1997-08-19', '1997-08-24'
+      ]);
+    });
+
+    it('groups biweekly days into Sunday-start weeks', () => {
+      expect(dates('FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU', '1997-08-05T09:00:00')).toEqual([
+        '1997-08-05', '1997-08-17', '1997-08-19', '1997-08-31'
+      ]);
+    });
+  });
+});
+
+describe('generateRecurringInstances', () => {
+  const range = (from: string, to: string) => [new Date(from), new Date(to)] as const;
+
+  it('keeps the local time across a DST change in the event zone', () => {
+    const [from, to] = range('2025-03-06T00:00:00Z', '2025-03-11T00:00:00Z');
+    const instances = generateRecurringInstances(seriesEvent({}), from, to);
+
+    // 09:00 New York: EST (UTC-5) until 9 March, then EDT (UTC-4)
+    expect(instances.map(instance => instance.start_time)).toEqual([
+      '2025-03-06T14:00:00.000Z',
+      '2025-03-07T14:00:00.000Z',
+      '2025-03-08T14:00:00.000Z',
+      '2025-03-09T13:00:00.000Z',
+      '2025-03-10T13:00:00.000Z'
+    ]);
+    expect(instances[3].end_time).toBe('2025-03-09T13:30:00.000Z');
+  });
+
+  it('leaves out EXDATEs and overridden occurrences', () => {
+    const [from, to] = range('2025-03-06T00:00:00Z', '2025-03-11T00:00:00Z');
+    const event = seriesEvent({ exdates: ['2025-03-07T14:00:00.000Z'] });
+    const instances = generateRecurringInstances(event, from, to, ['2025-03-09T13:00:00.000Z']);
+
+    expect(instances.map(instance => instance.start_time)).toEqual([
+      '2025-03-06T14:00:00.000Z',
+      '2025-03-08T14:00:00.000Z',
+      '2025-03-10T13:00:00.000Z'
+    ]);
+    // Indexes stay tied to the series, not to what's left
+    expect(instances.map(instance => instance.instanceIndex)).toEqual([0, 2, 4]);
+  });
+
+  it('returns nothing for events that are not series parents', () => {
+    const [from, to] = range('2025-03-06T00:00:00Z', '2025-03-11T00:00:00Z');
+    expect(generateRecurringInstances(seriesEvent({ is_recurring_parent: false }), from, to)).toEqual([]);
+  });
+});
+
+describe('recurrenceConfigToRRule / rruleToRecurrenceConfig', () => {
+  const roundTrip = (config: RecurrenceConfig) => rruleToRecurrenceConfig(recurrenceConfigToRRule(config)!);
+
+  it('round-trips a biweekly custom rule with a count', () => {
+    const config: RecurrenceConfig = {
+      type: 'custom',
+      interval: 2,
+      repeatUnit: 'week',
+      daysOfWeek: [1, 3],
+      endType: 'after',
+      endDate: null,
+      occurrences: 10
+    };
+
+    expect(formatRRule(recurrenceConfigToRRule(config)!)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10');
+    expect(roundTrip(config)).toEqual(config);
+  });
+
+  it('round-trips ordinal weekdays, set positions and week start', () => {
+    const config: RecurrenceConfig = {
+      type: 'custom',
+      interval: 1,
+      repeatUnit: 'month',
+      daysOfWeek: [],
+      byWeekday: [{ day: 1 }, { day: 2 }, { day: 3 }, { day: 4 }, { day: 5 }],
+      bySetPos: [-1],
+      weekStart: 0,
+      endType: 'never',
+      endDate: null,
+      occurrences: null
+    };
+
+    expect(roundTrip(config)).toEqual(config);
+  });
+
+  it('round-trips an end date through UNTIL', () => {
+    const config: RecurrenceConfig = {
+      type: 'custom',
+      interval: 1,
+      repeatUnit: 'month',
+      daysOfWeek: [],
+      byWeekday: [{ day: 5, ordinal: -1 }],
+      endType: 'on',
+      endDate: '2025-12-31T23:59:59.999Z',
+      occurrences: null
+    };
+
+    expect(roundTrip(config)).toEqual(config);
+  });
+
+  it('comes back as the matching preset', () => {
+    expect(roundTrip({ type: 'weekdays' })).toMatchObject({ type: 'weekdays', endType: 'never' });
+    expect(roundTrip({ type: 'monthly' })).toMatchObject({ type: 'monthly', repeatUnit: 'month' });
+  });
+
+  it('reads a date-only end date in the event zone', () => {
+    const rule = recurrenceConfigToRRule(
+      { type: 'daily', endType: 'on', endDate: '2025-06-30' },
+      undefined,
+      'Africa/Lagos'
+    );
+
+    // End of 30 June in Lagos (UTC+1)
+    expect(rule?.until?.toISOString()).toBe('2025-06-30T22:59:59.999Z');
+  });
+
+  it('parses what it formats', () => {
+    const value = 'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=5';
+    expect(formatRRule(parseRRule(`RRULE:${value}`)!)).toBe(value);
+  });
+});
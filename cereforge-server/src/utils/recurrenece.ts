@@ -1,4 +1,4 @@
-// src/utils/recurrence.ts - FIXED OCCURRENCE LIMITS
+// src/utils/recurrence.ts - RFC 5545 RRULE ENGINE
 import dayjs, { Dayjs } from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import timezone from 'dayjs/plugin/timezone';
@@ -8,192 +8,669 @@ dayjs.extend(isSameOrAfter);
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
-import { CalendarEvent, RecurrenceConfig, RecurringEventInstance } from '../types/calendar.types';
+import {
+  CalendarEvent,
+  RecurrenceConfig,
+  RecurrenceType,
+  RecurrenceWeekday,
+  RecurringEventInstance,
+  RRule
+} from '../types/calendar.types';
+import { fromFloating, resolveTimeZone, toFloating } from './timezone';
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RRule['freq'][] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DEFAULT_WEEK_START = 1; // RFC 5545 default: Monday
+
+// Upper bound on periods walked for open-ended series
+const MAX_PERIODS = 10000;
+
+const FREQ_BY_UNIT: Record<NonNullable<RecurrenceConfig['repeatUnit']>, RRule['freq']> = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY'
+};
+
+const UNIT_BY_FREQ: Record<RRule['freq'], NonNullable<RecurrenceConfig['repeatUnit']>> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year'
+};
+
+const PRESET_BY_FREQ: Record<RRule['freq'], RecurrenceType> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'annually'
+};
+
+// =====================================================
+// RRULE PARSING / FORMATTING
+// =====================================================
+
+function parseIntList(value: string, max: number, allowNegative: boolean): number[] | null {
+  const values = value.split(',').map(Number);
+  const valid = values.every(n =>
+    Number.isInteger(n) && n !== 0 && Math.abs(n) <= max && (allowNegative || n > 0)
+  );
+  return valid ? values : null;
+}
+
+function parseByDay(value: string): RecurrenceWeekday[] | null {
+  const weekdays: RecurrenceWeekday[] = [];
+
+  for (const token of value.split(',')) {
+    const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) return null;
+
+    const day = WEEKDAY_CODES.indexOf(match[2]);
+    if (match[1] === undefined) {
+      weekdays.push({ day });
+      continue;
+    }
+
+    const ordinal = Number(match[1]);
+    if (ordinal === 0 || Math.abs(ordinal) > 53) return null;
+    weekdays.push({ day, ordinal });
+  }
+
+  return weekdays;
+}
+
+function parseUntil(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+
+  // Date-only UNTIL includes the whole day
+  const until = hour === undefined
+    ? dayjs.utc(`${year}-${month}-${day}`).endOf('day')
+    : dayjs.utc(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+
+  return until.isValid() ? until.toDate() : null;
+}
+
+function formatWeekday(weekday: RecurrenceWeekday): string {
+  return `${weekday.ordinal ?? ''}${WEEKDAY_CODES[weekday.day]}`;
+}
 
 /**
- * ✅ FIXED: Generate recurring event instances within a date range
- * Now properly respects occurrence limits and end dates
+ * Parse an RRULE string ("RRULE:" prefix optional)
+ * Returns null for malformed rules and for parts we don't expand (BYHOUR, BYWEEKNO, ...)
  */
-// REPLACE the generateRecurringInstances function in recurrenece.ts with this:
+export function parseRRule(value: string): RRule | null {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  if (!body) return null;
+
+  const rule: Partial<RRule> = { interval: 1, wkst: DEFAULT_WEEK_START };
+
+  for (const part of body.split(';')) {
+    if (!part) continue;
+
+    const [rawKey, rawValue, extra] = part.split('=');
+    if (!rawKey || !rawValue || extra !== undefined) return null;
+
+    const key = rawKey.toUpperCase();
+    const value = rawValue.toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value as RRule['freq'])) return null;
+        rule.freq = value as RRule['freq'];
+        break;
+
+      case 'INTERVAL':
+      case 'COUNT': {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 1) return null;
+        if (key === 'INTERVAL') rule.interval = n;
+        else rule.count = n;
+        break;
+      }
 
-export function generateRecurringInstances(
-  parentEvent: CalendarEvent,
-  rangeStart: Date,
-  rangeEnd: Date
-): RecurringEventInstance[] {
-  if (!parentEvent.is_recurring_parent || parentEvent.recurrence_type === 'none') {
-    return [];
-  }
+      case 'UNTIL': {
+        const until = parseUntil(value);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+
+      case 'BYDAY': {
+        const byDay = parseByDay(value);
+        if (!byDay) return null;
+        rule.byDay = byDay;
+        break;
+      }
 
-  console.log('🔄 Generating recurring instances for event:', parentEvent.id);
-  console.log('🔄 Recurrence config from DB:', JSON.stringify(parentEvent.recurrence_config, null, 2));
+      case 'BYMONTHDAY': {
+        const byMonthDay = parseIntList(value, 31, true);
+        if (!byMonthDay) return null;
+        rule.byMonthDay = byMonthDay;
+        break;
+      }
 
-  const instances: RecurringEventInstance[] = [];
-  const config = parentEvent.recurrence_config;
+      case 'BYMONTH': {
+        const byMonth = parseIntList(value, 12, false);
+        if (!byMonth) return null;
+        rule.byMonth = byMonth;
+        break;
+      }
 
-  // ✅ SAFETY CHECK: If config is null or invalid, return empty array
-  if (!config || typeof config !== 'object') {
-    console.warn('⚠️ Invalid recurrence_config, skipping instance generation');
-    return [];
+      case 'BYSETPOS': {
+        const bySetPos = parseIntList(value, 366, true);
+        if (!bySetPos) return null;
+        rule.bySetPos = bySetPos;
+        break;
+      }
+
+      case 'WKST': {
+        const wkst = WEEKDAY_CODES.indexOf(value);
+        if (wkst < 0) return null;
+        rule.wkst = wkst;
+        break;
+      }
+
+      default:
+        return null;
+    }
   }
 
-  // ✅ Extract values with fallbacks
-  const configType = config.type || parentEvent.recurrence_type || 'daily';
-  const maxOccurrences = config.occurrences || 500;
-  const maxIterations = 1000;
-  const interval = config.interval || 1;
-  const endType = config.endType || 'never';
-  const repeatUnit = config.repeatUnit || 'day';
-  const daysOfWeek = config.daysOfWeek || [];
-
-  console.log('✅ Parsed config:', {
-    type: configType,
-    interval,
-    repeatUnit,
-    maxOccurrences,
-    endType,
-    daysOfWeek
-  });
+  if (!rule.freq) return null;
 
-  let currentDate = dayjs(parentEvent.start_time).utc();
-  const endLimit = dayjs(rangeEnd).utc();
-  const startLimit = dayjs(rangeStart).utc();
+  // COUNT and UNTIL are mutually exclusive
+  if (rule.count !== undefined && rule.until) return null;
 
-  // ✅ Check end date limit
-  let endDateLimit: Dayjs | null = null;
-  if (endType === 'on' && config.endDate) {
-    endDateLimit = dayjs(config.endDate).utc();
-  }
+  // Ordinal weekdays only mean something inside a month or year
+  if (rule.byDay?.some(d => d.ordinal) && rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') return null;
 
-  const eventDuration = dayjs(parentEvent.end_time).diff(parentEvent.start_time, 'millisecond');
+  if (rule.byMonthDay && rule.freq === 'WEEKLY') return null;
+
+  return rule as RRule;
+}
 
-  let count = 0;
-  let iterationCount = 0;
+/**
+ * Serialize a rule without the "RRULE:" prefix
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(formatWeekday).join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.wkst !== DEFAULT_WEEK_START) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${dayjs(rule.until).utc().format('YYYYMMDD[T]HHmmss[Z]')}`);
+
+  return parts.join(';');
+}
 
-  while (iterationCount < maxIterations) {
-    iterationCount++;
+// =====================================================
+// RECURRENCE CONFIG <-> RRULE
+// =====================================================
+
+function parseEndDate(endDate: string | Date, timeZone: string): Date {
+  // Date-only end dates ("2025-06-30") include the whole day in the event's zone
+  if (typeof endDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    return fromFloating(dayjs.utc(endDate).endOf('day'), timeZone).toDate();
+  }
+  return dayjs(endDate).toDate();
+}
+
+/**
+ * Build the rule a config describes
+ * fallbackType covers legacy rows that only stored recurrence_type
+ * timeZone anchors date-only end dates
+ */
+export function recurrenceConfigToRRule(
+  config: RecurrenceConfig | null | undefined,
+  fallbackType?: RecurrenceType,
+  timeZone: string = 'UTC'
+): RRule | null {
+  const type = config?.type || fallbackType || 'none';
+  if (type === 'none') return null;
+
+  const rule: RRule = {
+    freq: 'DAILY',
+    interval: Math.max(1, config?.interval || 1),
+    wkst: config?.weekStart ?? DEFAULT_WEEK_START
+  };
 
-    // ✅ Stop if we've hit occurrence limit
-    if (endType === 'after' && count >= maxOccurrences) {
-      console.log(`✅ Stopped at occurrence limit: ${maxOccurrences}`);
+  switch (type) {
+    case 'daily':
+    case 'weekly':
+    case 'monthly':
+      rule.freq = type === 'daily' ? 'DAILY' : type === 'weekly' ? 'WEEKLY' : 'MONTHLY';
       break;
-    }
 
-    // ✅ Stop if we've hit end date limit
-    if (endDateLimit && currentDate.isAfter(endDateLimit)) {
-      console.log(`✅ Stopped at end date: ${endDateLimit.format('YYYY-MM-DD')}`);
+    case 'annually':
+      rule.freq = 'YEARLY';
+      rule.interval = 1;
       break;
-    }
 
-    // ✅ Stop if we've passed the range end
-    if (currentDate.isAfter(endLimit)) {
+    case 'weekdays':
+      rule.freq = 'WEEKLY';
+      rule.interval = 1;
+      rule.byDay = [1, 2, 3, 4, 5].map(day => ({ day }));
+      break;
+
+    case 'custom': {
+      rule.freq = FREQ_BY_UNIT[config?.repeatUnit || 'day'];
+
+      const byDay = [
+        ...(rule.freq === 'WEEKLY' ? (config?.daysOfWeek || []).map(day => ({ day })) : []),
+        ...(config?.byWeekday || [])
+      ];
+
+      if (byDay.length) rule.byDay = byDay;
+      if (config?.byMonthDay?.length) rule.byMonthDay = config.byMonthDay;
+      if (config?.byMonth?.length) rule.byMonth = config.byMonth;
+      if (config?.bySetPos?.length) rule.bySetPos = config.bySetPos;
       break;
     }
+  }
+
+  if (config?.endType === 'after' && config.occurrences) {
+    rule.count = config.occurrences;
+  } else if (config?.endType === 'on' && config.endDate) {
+    rule.until = parseEndDate(config.endDate, timeZone);
+  }
 
-    // ✅ Add instance if within range
-    if (currentDate.isSameOrAfter(startLimit) && currentDate.isBefore(endLimit)) {
-      instances.push({
-        ...parentEvent,
-        id: `${parentEvent.id}_instance_${count}`,
-        parent_event_id: parentEvent.id,
-        start_time: currentDate.toISOString(),
-        end_time: currentDate.add(eventDuration, 'millisecond').toISOString(),
-        is_recurring_parent: false,
-        isInstance: true,
-        instanceDate: currentDate.toISOString(),
-        instanceIndex: count
-      });
+  return rule;
+}
+
+/**
+ * Map a rule back onto RecurrenceConfig
+ * Rules that match a preset exactly come back as that preset
+ */
+export function rruleToRecurrenceConfig(rule: RRule): RecurrenceConfig {
+  const end: Pick<RecurrenceConfig, 'endType' | 'endDate' | 'occurrences'> = rule.count
+    ? { endType: 'after', endDate: null, occurrences: rule.count }
+    : rule.until
+      ? { endType: 'on', endDate: rule.until.toISOString(), occurrences: null }
+      : { endType: 'never', endDate: null, occurrences: null };
+
+  const plainDays = rule.byDay?.every(d => !d.ordinal) ? rule.byDay.map(d => d.day) : null;
+  const isPlain = !rule.byMonthDay && !rule.byMonth && !rule.bySetPos && rule.wkst === DEFAULT_WEEK_START;
+
+  if (isPlain && end.endType === 'never' && rule.interval === 1) {
+    const isWeekdays = rule.freq === 'WEEKLY' &&
+      plainDays?.length === 5 &&
+      [1, 2, 3, 4, 5].every(day => plainDays.includes(day));
+
+    const preset = !rule.byDay ? PRESET_BY_FREQ[rule.freq] : isWeekdays ? 'weekdays' : null;
+
+    if (preset) {
+      return {
+        type: preset,
+        interval: 1,
+        repeatUnit: preset === 'weekdays' ? 'day' : UNIT_BY_FREQ[rule.freq],
+        daysOfWeek: [],
+        ...end
+      };
     }
+  }
+
+  const weeklyDays = rule.freq === 'WEEKLY' && plainDays ? plainDays : null;
+
+  return {
+    type: 'custom',
+    interval: rule.interval,
+    repeatUnit: UNIT_BY_FREQ[rule.freq],
+    daysOfWeek: weeklyDays || [],
+    ...(rule.byDay && !weeklyDays && { byWeekday: rule.byDay }),
+    ...(rule.byMonthDay && { byMonthDay: rule.byMonthDay }),
+    ...(rule.byMonth && { byMonth: rule.byMonth }),
+    ...(rule.bySetPos && { bySetPos: rule.bySetPos }),
+    ...(rule.wkst !== DEFAULT_WEEK_START && { weekStart: rule.wkst }),
+    ...end
+  };
+}
 
-    count++;
-
-    // ✅ Calculate next occurrence - pass the full config object
-    currentDate = getNextOccurrence(currentDate, {
-      type: configType,
-      interval,
-      repeatUnit,
-      daysOfWeek,
-      endType,
-      endDate: config.endDate,
-      occurrences: config.occurrences
-    } as any);
+/**
+ * Normalize request recurrence input into the stored config
+ * Accepts presets, { type: 'custom', config } and { type: 'custom', rrule }
+ * Returns null for "none" and for an RRULE that doesn't parse
+ */
+export function normalizeRecurrenceConfig(recurrence: RecurrenceConfig): RecurrenceConfig | null {
+  if (recurrence.rrule) {
+    const rule = parseRRule(recurrence.rrule);
+    return rule ? rruleToRecurrenceConfig(rule) : null;
   }
 
-  console.log(`✅ Generated ${instances.length} instances (total count: ${count}, iterations: ${iterationCount})`);
-  return instances;
+  if (recurrence.type === 'none') return null;
+
+  if (recurrence.type === 'custom') {
+    const custom: Partial<RecurrenceConfig> = recurrence.config || {};
+
+    return {
+      type: 'custom',
+      interval: custom.interval || 1,
+      repeatUnit: custom.repeatUnit || 'day',
+      daysOfWeek: custom.daysOfWeek || [],
+      ...(custom.byWeekday?.length && { byWeekday: custom.byWeekday }),
+      ...(custom.byMonthDay?.length && { byMonthDay: custom.byMonthDay }),
+      ...(custom.byMonth?.length && { byMonth: custom.byMonth }),
+      ...(custom.bySetPos?.length && { bySetPos: custom.bySetPos }),
+      ...(custom.weekStart !== undefined && { weekStart: custom.weekStart }),
+      endType: custom.endType || 'never',
+      endDate: custom.endDate || null,
+      occurrences: custom.occurrences || null
+    };
+  }
+
+  return {
+    type: recurrence.type,
+    interval: 1,
+    repeatUnit: recurrence.type === 'weekly' ? 'week' :
+      recurrence.type === 'monthly' ? 'month' :
+        recurrence.type === 'annually' ? 'year' : 'day',
+    daysOfWeek: [],
+    endType: 'never',
+    endDate: null,
+    occurrences: null
+  };
 }
 
 /**
- * ✅ Calculate next occurrence based on recurrence type
+ * Rule for a stored event
+ * The rrule column wins; rows from before it existed fall back to recurrence_config
  */
-function getNextOccurrence(current: Dayjs, config: any): Dayjs {
-  const interval = config.interval || 1;
-  const type = config.type || 'daily';
+export function resolveEventRule(
+  event: Pick<CalendarEvent, 'rrule' | 'recurrence_config' | 'recurrence_type' | 'timezone'>
+): RRule | null {
+  return (event.rrule && parseRRule(event.rrule)) ||
+    recurrenceConfigToRRule(event.recurrence_config, event.recurrence_type, resolveTimeZone(event.timezone));
+}
 
-  switch (type) {
-    case 'daily':
-      return current.add(interval, 'day');
+// =====================================================
+// EXPANSION
+// =====================================================
 
-    case 'weekly':
-      return current.add(interval, 'week');
+function startOfWeek(date: Dayjs, weekStart: number): Dayjs {
+  return date.startOf('day').subtract((date.day() - weekStart + 7) % 7, 'day');
+}
 
-    case 'monthly':
-      return current.add(interval, 'month');
+function monthDayMatches(day: Dayjs, monthDay: number): boolean {
+  return monthDay > 0
+    ? day.date() === monthDay
+    : day.date() === day.daysInMonth() + monthDay + 1;
+}
 
-    case 'annually':
-      return current.add(1, 'year');
+/**
+ * Weekday match, counting ordinals within the scope (month or year)
+ */
+function weekdayMatches(day: Dayjs, weekday: RecurrenceWeekday, scopeStart: Dayjs, scopeLength: number): boolean {
+  if (day.day() !== weekday.day) return false;
+  if (!weekday.ordinal) return true;
 
-    case 'weekdays': {
-      let next = current.add(1, 'day');
-      while (next.day() === 0 || next.day() === 6) {
-        next = next.add(1, 'day');
-      }
-      return next;
+  const offset = day.diff(scopeStart, 'day');
+  const nth = weekday.ordinal > 0
+    ? Math.floor(offset / 7) + 1
+    : -(Math.floor((scopeLength - 1 - offset) / 7) + 1);
+
+  return nth === weekday.ordinal;
+}
+
+function daysFrom(start: Dayjs, length: number): Dayjs[] {
+  return Array.from({ length }, (_, i) => start.add(i, 'day'));
+}
+
+function getMonthCandidates(rule: RRule, monthStart: Dayjs, dtstart: Dayjs): Dayjs[] {
+  const length = monthStart.daysInMonth();
+  const days = daysFrom(monthStart, length);
+
+  if (!rule.byDay && !rule.byMonthDay) {
+    return days.filter(day => day.date() === dtstart.date());
+  }
+
+  return days.filter(day =>
+    (!rule.byMonthDay || rule.byMonthDay.some(md => monthDayMatches(day, md))) &&
+    (!rule.byDay || rule.byDay.some(wd => weekdayMatches(day, wd, monthStart, length)))
+  );
+}
+
+function getYearCandidates(rule: RRule, yearStart: Dayjs, dtstart: Dayjs): Dayjs[] {
+  // BYMONTH narrows the year to months; BYDAY ordinals then count within each month
+  if (rule.byMonth) {
+    return [...rule.byMonth]
+      .sort((a, b) => a - b)
+      .flatMap(month => getMonthCandidates(rule, yearStart.month(month - 1), dtstart));
+  }
+
+  const length = yearStart.add(1, 'year').diff(yearStart, 'day');
+  const days = daysFrom(yearStart, length);
+
+  if (!rule.byDay && !rule.byMonthDay) {
+    return days.filter(day => day.month() === dtstart.month() && day.date() === dtstart.date());
+  }
+
+  return days.filter(day =>
+    (!rule.byMonthDay || rule.byMonthDay.some(md => monthDayMatches(day, md))) &&
+    (!rule.byDay || rule.byDay.some(wd => weekdayMatches(day, wd, yearStart, length)))
+  );
+}
+
+/**
+ * BYMONTH / BYMONTHDAY / BYDAY acting as filters rather than expanders
+ */
+function passesLimits(rule: RRule, day: Dayjs): boolean {
+  if (rule.byMonth && !rule.byMonth.includes(day.month() + 1)) return false;
+
+  if (rule.freq === 'DAILY') {
+    if (rule.byMonthDay && !rule.byMonthDay.some(md => monthDayMatches(day, md))) return false;
+    if (rule.byDay && !rule.byDay.some(wd => wd.day === day.day())) return false;
+  }
+
+  return true;
+}
+
+function applySetPos(bySetPos: number[] | undefined, days: Dayjs[]): Dayjs[] {
+  if (!bySetPos) return days;
+
+  const picked = bySetPos
+    .map(pos => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+    .filter((day): day is Dayjs => day !== undefined);
+
+  return [...new Map(picked.map(day => [day.valueOf(), day])).values()]
+    .sort((a, b) => a.valueOf() - b.valueOf());
+}
+
+function getPeriodStart(rule: RRule, dtstart: Dayjs, period: number): Dayjs {
+  const steps = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return dtstart.startOf('day').add(steps, 'day');
+    case 'WEEKLY':
+      return startOfWeek(dtstart, rule.wkst).add(steps, 'week');
+    case 'MONTHLY':
+      return dtstart.startOf('month').add(steps, 'month');
+    case 'YEARLY':
+      return dtstart.startOf('year').add(steps, 'year');
+  }
+}
+
+/**
+ * Candidate days (midnight) inside one FREQ period, sorted
+ */
+function getPeriodCandidates(rule: RRule, periodStart: Dayjs, dtstart: Dayjs): Dayjs[] {
+  let days: Dayjs[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      days = [periodStart];
+      break;
+
+    case 'WEEKLY': {
+      const weekdays = rule.byDay ? rule.byDay.map(wd => wd.day) : [dtstart.day()];
+      days = daysFrom(periodStart, 7).filter(day => weekdays.includes(day.day()));
+      break;
     }
 
-    case 'custom': {
-      const repeatUnit = config.repeatUnit || 'day';
-      const daysOfWeek = config.daysOfWeek || [];
-      
-      // If it's weekly custom with specific days
-      if (repeatUnit === 'week' && daysOfWeek.length > 0) {
-        let next = current.add(1, 'day');
-        let maxDays = 7;
-
-        while (!daysOfWeek.includes(next.day()) && maxDays > 0) {
-          next = next.add(1, 'day');
-          maxDays--;
-        }
-
-        return next;
-      }
-      
-      // ✅ For day/month/year custom intervals
-      switch (repeatUnit) {
-        case 'day':
-          return current.add(interval, 'day');
-        case 'week':
-          return current.add(interval, 'week');
-        case 'month':
-          return current.add(interval, 'month');
-        case 'year':
-          return current.add(interval, 'year');
-        default:
-          return current.add(interval, 'day');
-      }
+    case 'MONTHLY':
+      days = getMonthCandidates(rule, periodStart, dtstart);
+      break;
+
+    case 'YEARLY':
+      days = getYearCandidates(rule, periodStart, dtstart);
+      break;
+  }
+
+  return applySetPos(rule.bySetPos, days.filter(day => passesLimits(rule, day)));
+}
+
+/**
+ * All occurrence starts from DTSTART up to `limit`, honouring COUNT and UNTIL
+ * DTSTART always counts as the first occurrence (RFC 5545 3.8.5.3)
+ */
+export function expandRRule(rule: RRule, dtstart: Dayjs, limit: Dayjs): Dayjs[] {
+  const occurrences: Dayjs[] = [dtstart];
+  const until = rule.until ? dayjs(rule.until).utc() : null;
+  const timeOfDay = dtstart.diff(dtstart.startOf('day'), 'millisecond');
+
+  const isPastEnd = (date: Dayjs) => date.isAfter(limit) || (until !== null && date.isAfter(until));
+  const isComplete = () => rule.count !== undefined && occurrences.length >= rule.count;
+
+  for (let period = 0; period < MAX_PERIODS && !isComplete(); period++) {
+    const periodStart = getPeriodStart(rule, dtstart, period);
+    if (isPastEnd(periodStart)) break;
+
+    for (const day of getPeriodCandidates(rule, periodStart, dtstart)) {
+      const occurrence = day.add(timeOfDay, 'millisecond');
+      if (!occurrence.isAfter(dtstart)) continue;
+      if (isPastEnd(occurrence)) return occurrences;
+
+      occurrences.push(occurrence);
+      if (isComplete()) break;
     }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Real start instants of a stored series, from DTSTART up to `limit`
+ * Expansion runs on wall-clock time in the event's own zone, so a 09:00 meeting
+ * stays at 09:00 local across DST changes; each start is converted back to UTC.
+ * All-day events stay on their dates for the same reason.
+ */
+function expandEventStarts(event: CalendarEvent, rule: RRule, limit: Dayjs): { start: Dayjs; floating: Dayjs }[] {
+  const zone = resolveTimeZone(event.timezone);
+
+  // A day of slack covers the zone offset; callers filter on real instants
+  const floatingRule: RRule = {
+    ...rule,
+    until: rule.until ? toFloating(rule.until, zone).toDate() : undefined
+  };
+  const floatingLimit = toFloating(limit, zone).add(1, 'day');
+
+  return expandRRule(floatingRule, toFloating(event.start_time, zone), floatingLimit)
+    .map(floating => ({ start: fromFloating(floating, zone), floating }));
+}
+
+/**
+ * Generate recurring event instances within a date range
+ * instanceIndex is the occurrence number within the whole series.
+ * EXDATEs on the parent and the original starts of override rows (`overridden`)
+ * are left out; override rows are returned by the query as ordinary events.
+ */
+export function generateRecurringInstances(
+  parentEvent: CalendarEvent,
+  rangeStart: Date,
+  rangeEnd: Date,
+  overridden: (Date | string)[] = []
+): RecurringEventInstance[] {
+  if (!parentEvent.is_recurring_parent || parentEvent.recurrence_type === 'none') {
+    return [];
+  }
+
+  const rule = resolveEventRule(parentEvent);
 
-    default:
-      return current.add(1, 'day');
+  if (!rule) {
+    console.warn(`⚠️ No usable recurrence rule for event ${parentEvent.id}, skipping instance generation`);
+    return [];
   }
+
+  const zone = resolveTimeZone(parentEvent.timezone);
+  const startLimit = dayjs(rangeStart).utc();
+  const endLimit = dayjs(rangeEnd).utc();
+  const exceptions = [...(parentEvent.exdates || []), ...overridden];
+
+  const dtstart = toFloating(parentEvent.start_time, zone);
+  const duration = toFloating(parentEvent.end_time, zone).diff(dtstart, 'millisecond');
+
+  const instances: RecurringEventInstance[] = [];
+
+  expandEventStarts(parentEvent, rule, endLimit).forEach(({ start, floating }, index) => {
+    if (!start.isSameOrAfter(startLimit) || !start.isBefore(endLimit)) return;
+    if (isRecurrenceException(start.toDate(), exceptions)) return;
+
+    instances.push({
+      ...parentEvent,
+      id: `${parentEvent.id}_instance_${index}`,
+      parent_event_id: parentEvent.id,
+      start_time: start.toISOString(),
+      end_time: fromFloating(floating.add(duration, 'millisecond'), zone).toISOString(),
+      is_recurring_parent: false,
+      isInstance: true,
+      instanceDate: start.toISOString(),
+      instanceIndex: index
+    });
+  });
+
+  return instances;
 }
 
+/**
+ * Whether an occurrence start is excluded (EXDATE or overridden)
+ * Exceptions are keyed by the occurrence's original start instant
+ */
 export function isRecurrenceException(
   date: Date,
-  exceptions: Date[]
+  exceptions: (Date | string)[]
 ): boolean {
-  const targetDate = dayjs(date).format('YYYY-MM-DD');
-  return exceptions.some(ex => dayjs(ex).format('YYYY-MM-DD') === targetDate);
+  const target = dayjs(date).valueOf();
+  return exceptions.some(ex => dayjs(ex).valueOf() === target);
+}
+
+/**
+ * Split a series at one of its occurrences ("this and following")
+ * head ends just before splitAt; tail continues from it with the remaining
+ * COUNT or the original end. Both come back as stored recurrence configs.
+ */
+export function splitRecurrenceAt(
+  event: CalendarEvent,
+  splitAt: Date | string
+): { head: RecurrenceConfig; tail: RecurrenceConfig } | null {
+  const rule = resolveEventRule(event);
+  if (!rule) return null;
+
+  const splitInstant = dayjs(splitAt).utc();
+  const before = expandEventStarts(event, rule, splitInstant)
+    .filter(({ start }) => start.isBefore(splitInstant)).length;
+
+  if (before === 0 || (rule.count !== undefined && before >= rule.count)) {
+    return null;
+  }
+
+  const base = event.recurrence_config || rruleToRecurrenceConfig(rule);
+
+  return {
+    head: {
+      ...base,
+      endType: 'on',
+      endDate: splitInstant.subtract(1, 'second').toISOString(),
+      occurrences: null
+    },
+    tail: rule.count !== undefined
+      ? { ...base, endType: 'after', endDate: null, occurrences: rule.count - before }
+      : base
+  };
 }
 
 export function validateRecurrenceConfig(config: RecurrenceConfig): boolean {
@@ -212,13 +689,58 @@ export function validateRecurrenceConfig(config: RecurrenceConfig): boolean {
   }
 
   if (config.type === 'custom' && config.daysOfWeek) {
-    if (config.daysOfWeek.length === 0) return false;
+    if (config.repeatUnit === 'week' && config.daysOfWeek.length === 0) return false;
     if (config.daysOfWeek.some(day => day < 0 || day > 6)) return false;
   }
 
+  if (config.byWeekday?.some(wd => wd.day < 0 || wd.day > 6 || wd.ordinal === 0 || Math.abs(wd.ordinal ?? 0) > 53)) {
+    return false;
+  }
+
+  if (config.byMonthDay?.some(md => md === 0 || Math.abs(md) > 31)) return false;
+  if (config.byMonth?.some(month => month < 1 || month > 12)) return false;
+
   return true;
 }
 
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FULL_DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function ordinalLabel(n: number): string {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinalLabel(-n)} to last`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+function describeCustom(config: RecurrenceConfig): string {
+  const interval = config.interval || 1;
+  const unit = config.repeatUnit || 'day';
+  let desc = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (config.daysOfWeek && config.daysOfWeek.length > 0) {
+    desc += ` on ${config.daysOfWeek.map(d => DAY_NAMES[d]).join(', ')}`;
+  }
+
+  if (config.byWeekday && config.byWeekday.length > 0) {
+    const days = config.byWeekday.map(wd =>
+      wd.ordinal ? `the ${ordinalLabel(wd.ordinal)} ${FULL_DAY_NAMES[wd.day]}` : FULL_DAY_NAMES[wd.day]
+    );
+    desc += ` on ${days.join(', ')}`;
+  }
+
+  if (config.byMonthDay && config.byMonthDay.length > 0) {
+    const days = config.byMonthDay.map(md => (md === -1 ? 'the last day' : `day ${md}`));
+    desc += ` on ${days.join(', ')}`;
+  }
+
+  if (config.bySetPos && config.bySetPos.length > 0) {
+    desc += ` (${config.bySetPos.map(ordinalLabel).join(', ')} match)`;
+  }
+
+  return desc;
+}
+
 export function getRecurrenceDescription(config: RecurrenceConfig): string {
   if (config.type === 'none') return 'Does not repeat';
 
@@ -242,13 +764,7 @@ export function getRecurrenceDescription(config: RecurrenceConfig): string {
       desc = 'Every weekday (Monday to Friday)';
       break;
     case 'custom':
-      if (config.daysOfWeek && config.daysOfWeek.length > 0) {
-        const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-        const days = config.daysOfWeek.map(d => dayNames[d]).join(', ');
-        desc = `Weekly on ${days}`;
-      } else {
-        desc = 'Custom';
-      }
+      desc = describeCustom(config);
       break;
   }
 
@@ -259,4 +775,4 @@ export function getRecurrenceDescription(config: RecurrenceConfig): string {
   }
 
   return desc;
-}
\ No newline at end of file
+}
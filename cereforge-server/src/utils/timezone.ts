@@ -0,0 +1,61 @@
+// src/utils/timezone.ts
+import dayjs, { Dayjs } from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const FLOATING_FORMAT = 'YYYY-MM-DD[T]HH:mm:ss.SSS';
+
+/**
+ * Check an IANA zone name ("Africa/Lagos", "Europe/London")
+ */
+export function isValidTimeZone(zone: string | null | undefined): zone is string {
+  if (!zone) return false;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Use the zone if it's valid, otherwise the fallback
+ */
+export function resolveTimeZone(zone: string | null | undefined, fallback: string = 'UTC'): string {
+  return isValidTimeZone(zone) ? zone : fallback;
+}
+
+/**
+ * Wall-clock time of an instant in a zone, held in UTC mode ("floating")
+ * Calendar arithmetic on floating values never crosses a DST transition
+ */
+export function toFloating(instant: Dayjs | Date | string, zone: string): Dayjs {
+  return dayjs.utc(dayjs(instant).tz(zone).format(FLOATING_FORMAT));
+}
+
+/**
+ * Resolve a floating wall-clock time back to a real instant in the zone
+ */
+export function fromFloating(floating: Dayjs, zone: string): Dayjs {
+  return dayjs.tz(floating.format(FLOATING_FORMAT), zone).utc();
+}
+
+/**
+ * Format an instant as wall-clock time in a zone
+ */
+export function formatInZone(instant: Dayjs | Date | string, zone: string, format: string): string {
+  return dayjs(instant).tz(zone).format(format);
+}
+
+/**
+ * Human-readable start time for emails, in the event's own zone
+ */
+export function formatEventWhen(start: Dayjs | Date | string, zone: string, allDay: boolean): string {
+  return allDay
+    ? `${formatInZone(start, zone, 'ddd, D MMM YYYY')} (all day)`
+    : `${formatInZone(start, zone, 'ddd, D MMM YYYY HH:mm')} (${zone})`;
+}
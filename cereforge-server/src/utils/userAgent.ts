@@ -0,0 +1,44 @@
+/**
+ * Lightweight user-agent parsing for session/device listings
+ * Good enough to tell devices apart - not a full UA database
+ */
+export interface DeviceInfo {
+  deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+  browser: string;
+  os: string;
+}
+
+export function parseUserAgent(userAgent: string | undefined): DeviceInfo {
+  const ua = userAgent || '';
+
+  if (!ua || ua === 'unknown') {
+    return { deviceType: 'unknown', browser: 'Unknown', os: 'Unknown' };
+  }
+
+  // Order matters: Edge and Opera also contain "Chrome", Chrome contains "Safari"
+  let browser = 'Unknown';
+  if (/Edg\//.test(ua)) browser = 'Edge';
+  else if (/OPR\/|Opera/.test(ua)) browser = 'Opera';
+  else if (/Firefox\//.test(ua)) browser = 'Firefox';
+  else if (/Chrome\//.test(ua) || /CriOS\//.test(ua)) browser = 'Chrome';
+  else if (/Safari\//.test(ua)) browser = 'Safari';
+  else if (/PostmanRuntime/.test(ua)) browser = 'Postman';
+  else if (/curl\//.test(ua)) browser = 'curl';
+
+  let os = 'Unknown';
+  if (/Windows NT/.test(ua)) os = 'Windows';
+  else if (/iPhone|iPad|iPod/.test(ua)) os = 'iOS';
+  else if (/Android/.test(ua)) os = 'Android';
+  else if (/Mac OS X|Macintosh/.test(ua)) os = 'macOS';
+  else if (/CrOS/.test(ua)) os = 'ChromeOS';
+  else if (/Linux/.test(ua)) os = 'Linux';
+
+  let deviceType: DeviceInfo['deviceType'] = 'desktop';
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod|Android/.test(ua)) {
+    deviceType = 'mobile';
+  }
+
+  return { deviceType, browser, os };
+}
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { isPermission } from './permissions';
+import { parseRRule } from './recurrenece';
+import { isValidTimeZone } from './timezone';
 
 /**
  * Email verification schema
@@ -11,7 +14,7 @@ export const verifyEmailSchema = z.object({
  * Login schema
  */
 export const loginSchema = z.object({
-  email: z.string().email('Invalid email address'),
+  email: z.string().trim().email('Invalid email address').toLowerCase(),
   password: z.string().min(1, 'Password is required'),
   role: z.enum(['core', 'admin', 'partner']).optional()
 });
@@ -33,7 +36,7 @@ export const changePasswordSchema = z.object({
  * Forgot password schema
  */
 export const forgotPasswordSchema = z.object({
-  email: z.string().email('Invalid email address')
+  email: z.string().trim().email('Invalid email address').toLowerCase()
 });
 
 /**
@@ -49,6 +52,29 @@ export const resetPasswordSchema = z.object({
     .regex(/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/, 'Password must contain at least one special character')
 });
 
+/**
+ * MFA code (6-digit TOTP or xxxxx-xxxxx recovery code)
+ */
+const mfaCodeField = z.string()
+  .trim()
+  .regex(/^(\d{6}|[a-fA-F0-9]{5}-?[a-fA-F0-9]{5})$/, 'Enter a 6-digit code or a recovery code');
+
+export const mfaCodeSchema = z.object({
+  code: mfaCodeField
+});
+
+/**
+ * Login step 3 schemas
+ */
+export const mfaLoginSchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+  code: mfaCodeField
+});
+
+export const mfaLoginSetupSchema = z.object({
+  mfaToken: z.string().min(1, 'MFA token is required')
+});
+
 /**
  * Get Started form schema
  */
@@ -161,6 +187,85 @@ export const getPartnersQuerySchema = z.object({
   search: z.string().optional(),
 });
 
+/**
+ * Audit logs query schema (Admin/Core)
+ * action / riskLevel accept comma-separated lists
+ */
+const auditLogFilters = z.object({
+  userId: z.string().uuid().optional(),
+  action: z.string().max(500).optional(),
+  entityType: z.string().max(50).optional(),
+  entityId: z.string().uuid().optional(),
+  riskLevel: z.string()
+    .regex(/^(low|medium|high|critical)(,(low|medium|high|critical))*$/, 'Invalid risk level')
+    .optional(),
+  from: z.string().datetime('Invalid date format').optional(),
+  to: z.string().datetime('Invalid date format').optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+});
+
+export const getAuditLogsQuerySchema = auditLogFilters.extend({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().min(1).max(200).optional().default(50),
+}).refine((data) => !data.from || !data.to || new Date(data.to) >= new Date(data.from), {
+  message: 'End date must be after or equal to start date',
+  path: ['to']
+});
+
+export const exportAuditLogsQuerySchema = auditLogFilters.extend({
+  format: z.enum(['csv', 'json']).optional().default('csv'),
+}).refine((data) => !data.from || !data.to || new Date(data.to) >= new Date(data.from), {
+  message: 'End date must be after or equal to start date',
+  path: ['to']
+});
+
+/**
+ * User management schemas (Core only)
+ */
+export const getUsersQuerySchema = z.object({
+  role: z.enum(['core', 'admin', 'partner']).optional(),
+  status: z.enum(['active', 'suspended', 'pending', 'deactivated']).optional(),
+  search: z.string().max(100).optional(),
+  page: z.coerce.number().min(1).optional().default(1),
+  limit: z.coerce.number().min(1).max(100).optional().default(20),
+  sortBy: z.enum(['created_at', 'full_name', 'email', 'last_login']).optional().default('created_at'),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+});
+
+const staffDetailsSchema = z.object({
+  category: z.string().min(2).max(100).optional(),
+  department: z.string().max(100).optional(),
+  position: z.string().max(100).optional(),
+});
+
+export const createUserSchema = staffDetailsSchema.extend({
+  email: z.string().email('Invalid email format'),
+  full_name: z.string().min(2, 'Name must be at least 2 characters').max(255),
+  phone: z.string().max(50).optional(),
+  role: z.enum(['core', 'admin']),
+});
+
+export const updateUserSchema = staffDetailsSchema.extend({
+  full_name: z.string().min(2, 'Name must be at least 2 characters').max(255).optional(),
+  phone: z.string().max(50).optional(),
+});
+
+export const updateUserRoleSchema = staffDetailsSchema.extend({
+  role: z.enum(['core', 'admin']),
+});
+
+export const updateUserStatusSchema = z.object({
+  status: z.enum(['active', 'suspended', 'deactivated']),
+  reason: z.string().max(500).optional(),
+});
+
+export const updateUserPermissionsSchema = z.object({
+  overrides: z.record(z.boolean()).refine(
+    (overrides) => Object.keys(overrides).every(isPermission),
+    { message: 'Unknown permission' }
+  ),
+});
+
 /**
  * Update partner schema
  */
@@ -188,6 +293,35 @@ export const updatePartnerSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+/**
+ * Partner self-service update schema
+ * File fields take the storage path returned by the client upload
+ */
+const storagePathSchema = z
+  .string()
+  .max(500)
+  .regex(/^[\w-]+\/[\w.-]+$/, 'Invalid file path')
+  .nullable()
+  .optional()
+  .or(z.literal(''));
+
+export const updateMyPartnerSchema = z.object({
+  company_website: z.string().url().optional().or(z.literal('')),
+  linkedin_profile: z.string().url().optional().or(z.literal('')),
+  profile_photo_url: storagePathSchema,
+  project_brief_url: storagePathSchema,
+});
+
+/**
+ * RRULE BYDAY entry: weekday (0 = Sunday) with optional ordinal (2 = 2nd, -1 = last)
+ */
+const recurrenceWeekdaySchema = z.object({
+  day: z.number().int().min(0).max(6),
+  ordinal: z.number().int().min(-53).max(53).refine((n) => n !== 0).optional()
+});
+
+const nonZeroInt = (max: number) => z.number().int().min(-max).max(max).refine((n) => n !== 0);
+
 /**
  * Custom Recurrence Config Schema (nested)
  */
@@ -196,6 +330,11 @@ const customRecurrenceInnerSchema = z.object({
   interval: z.number().min(1).max(365),
   repeatUnit: z.enum(['day', 'week', 'month', 'year']),
   daysOfWeek: z.array(z.number().min(0).max(6)),
+  byWeekday: z.array(recurrenceWeekdaySchema).max(53).optional(),
+  byMonthDay: z.array(nonZeroInt(31)).max(31).optional(),
+  byMonth: z.array(z.number().int().min(1).max(12)).max(12).optional(),
+  bySetPos: z.array(nonZeroInt(366)).max(366).optional(),
+  weekStart: z.number().int().min(0).max(6).optional(),
   endType: z.enum(['never', 'on', 'after']),
   endDate: z.string().nullable(),
   occurrences: z.number().min(1).max(1000).nullable()
@@ -213,6 +352,13 @@ const recurrenceConfigSchema = z.union([
   z.object({
     type: z.literal('custom'),
     config: customRecurrenceInnerSchema
+  }),
+  // Custom recurrence as an RFC 5545 RRULE string
+  z.object({
+    type: z.literal('custom'),
+    rrule: z.string().min(6).max(500).refine((value) => parseRRule(value) !== null, {
+      message: 'Invalid or unsupported RRULE'
+    })
   })
 ]).refine((data) => {
   // Validation only applies to custom type
@@ -228,6 +374,7 @@ const recurrenceConfigSchema = z.union([
 
 /**
  * Notification Settings Schema
+ * 'Snooze' means no reminder at all; its interval is cleared so it can't read as one
  */
 const notificationSettingsSchema = z.object({
   type: z.enum(['Email', 'Number', 'Snooze']),
@@ -236,7 +383,9 @@ const notificationSettingsSchema = z.object({
   email: z.string().email().optional(),
   phone: z.string().optional(),
   country: z.string().optional()
-});
+}).transform(settings =>
+  settings.type === 'Snooze' ? { ...settings, interval: null, timeUnit: null } : settings
+);
 
 /**
  * Event Guest Schema
@@ -256,7 +405,7 @@ export const createCalendarEventSchema = z.object({
   startTime: z.string().datetime('Invalid start time format'),
   endTime: z.string().datetime('Invalid end time format'),
   allDay: z.boolean().default(false),
-  timezone: z.string().min(1, 'Timezone is required'),
+  timezone: z.string().min(1, 'Timezone is required').refine(isValidTimeZone, 'Invalid timezone'),
   recurrence: recurrenceConfigSchema.default({ type: 'none' }),
   label: z.enum(['indigo', 'grey', 'green', 'blue', 'red', 'purple']).default('blue'),
   notificationSettings: notificationSettingsSchema.default({
@@ -265,7 +414,9 @@ export const createCalendarEventSchema = z.object({
     timeUnit: null
   }),
   guests: z.array(eventGuestSchema).optional().default([]),
-  sendInvitations: z.boolean().default(false)
+  sendInvitations: z.boolean().default(false),
+  calendarId: z.string().uuid('Invalid calendar').optional(), // Defaults to the user's personal calendar
+  force: z.boolean().optional() // Save despite overlapping events
 }).refine((data) => {
   // Validate end time is after start time
   const start = new Date(data.startTime);
@@ -276,8 +427,14 @@ export const createCalendarEventSchema = z.object({
   path: ['endTime']
 });
 
+/**
+ * Recurring edit/delete scope
+ */
+const recurrenceScopeSchema = z.enum(['single', 'thisAndFuture', 'all']);
+
 /**
  * Update Calendar Event Schema
+ * scope + instanceStart target one occurrence of a recurring event
  */
 export const updateCalendarEventSchema = z.object({
   title: z.string().min(1).max(255).optional(),
@@ -286,11 +443,15 @@ export const updateCalendarEventSchema = z.object({
   startTime: z.string().datetime().optional(),
   endTime: z.string().datetime().optional(),
   allDay: z.boolean().optional(),
-  timezone: z.string().optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').optional(),
   recurrence: recurrenceConfigSchema.optional(),
   label: z.enum(['indigo', 'grey', 'green', 'blue', 'red', 'purple']).optional(),
   notificationSettings: notificationSettingsSchema.optional(),
-  status: z.enum(['active', 'cancelled', 'completed']).optional()
+  status: z.enum(['active', 'cancelled', 'completed']).optional(),
+  scope: recurrenceScopeSchema.optional(),
+  instanceStart: z.string().datetime().optional(),
+  calendarId: z.string().uuid('Invalid calendar').optional(), // Moves the whole series
+  force: z.boolean().optional() // Save despite overlapping events
 }).refine((data) => {
   // If both startTime and endTime are provided, validate
   if (data.startTime && data.endTime) {
@@ -309,7 +470,8 @@ export const updateCalendarEventSchema = z.object({
 export const getEventsQuerySchema = z.object({
   startDate: z.string().datetime('Invalid start date format'),
   endDate: z.string().datetime('Invalid end date format'),
-  includeRecurring: z.string().optional() // ✅ Add this - don't transform, just allow it
+  includeRecurring: z.string().optional(), // ✅ Add this - don't transform, just allow it
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Invalid timezone').optional()
 }).refine((data) => {
   const start = new Date(data.startDate);
   const end = new Date(data.endDate);
@@ -322,7 +484,140 @@ export const getEventsQuerySchema = z.object({
  * Delete Event Query Schema
  */
 export const deleteEventQuerySchema = z.object({
-  deleteType: z.enum(['single', 'thisAndFuture', 'all']).default('single')
+  deleteType: recurrenceScopeSchema.default('single'),
+  instanceStart: z.string().datetime().optional()
+});
+
+/**
+ * Export Calendar Query Schema (both bounds optional)
+ */
+export const exportCalendarQuerySchema = z.object({
+  start: z.string().datetime('Invalid start date format').optional(),
+  end: z.string().datetime('Invalid end date format').optional()
+}).refine((data) => {
+  if (!data.start || !data.end) return true;
+  return new Date(data.end) >= new Date(data.start);
+}, {
+  message: 'End date must be after or equal to start date',
+  path: ['end']
+});
+
+/**
+ * Import Calendar Schema (.ics contents sent as text)
+ */
+export const importCalendarSchema = z.object({
+  ics: z.string().min(1, 'File is empty').max(5 * 1024 * 1024, 'File is too large (max 5MB)'),
+  dryRun: z.boolean().default(false),
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Invalid timezone').optional(),
+  label: z.enum(['indigo', 'grey', 'green', 'blue', 'red', 'purple']).optional()
+});
+
+const MAX_FREEBUSY_DAYS = 62;
+const wallClockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:mm');
+
+/**
+ * Free/Busy Lookup Schema
+ */
+export const freeBusySchema = z.object({
+  emails: z.array(z.string().email('Invalid email address')).max(20, 'Maximum 20 attendees').default([]),
+  start: z.string().datetime('Invalid start date format'),
+  end: z.string().datetime('Invalid end date format'),
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Invalid timezone').optional(),
+  durationMinutes: z.number().int().min(5).max(24 * 60).optional(),
+  workingHours: z.object({
+    days: z.array(z.number().int().min(0).max(6)).min(1, 'Pick at least one day'),
+    start: wallClockTimeSchema,
+    end: wallClockTimeSchema
+  }).refine((hours) => hours.end > hours.start, {
+    message: 'Working hours must end after they start',
+    path: ['end']
+  }).optional(),
+  holidayCountry: z.string().length(2, 'Use a 2-letter country code').toUpperCase().nullable().optional()
+}).refine((data) => new Date(data.end) > new Date(data.start), {
+  message: 'End date must be after start date',
+  path: ['end']
+}).refine((data) => new Date(data.end).getTime() - new Date(data.start).getTime() <= MAX_FREEBUSY_DAYS * 86400000, {
+  message: `Range cannot exceed ${MAX_FREEBUSY_DAYS} days`,
+  path: ['end']
+});
+
+/**
+ * Calendar Feed Options Schema
+ */
+export const calendarFeedOptionsSchema = z.object({
+  includeHolidays: z.boolean().default(false),
+  holidayCountry: z.string().length(2, 'Use a 2-letter country code').toUpperCase().nullable().optional()
+});
+
+/**
+ * Calendar Feed Params Schema (secret token from the feed URL)
+ */
+export const calendarFeedParamsSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid feed token')
+});
+
+/**
+ * Create Calendar Schema (personal calendars are created automatically)
+ */
+export const createCalendarSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(500).optional(),
+  type: z.enum(['team', 'partner_project']),
+  color: z.enum(['indigo', 'grey', 'green', 'blue', 'red', 'purple']).default('blue'),
+  partnerId: z.string().uuid('Invalid partner').optional()
+}).refine((data) => data.type !== 'partner_project' || !!data.partnerId, {
+  message: 'Pick the partner this project calendar is for',
+  path: ['partnerId']
+});
+
+/**
+ * Update Calendar Schema
+ */
+export const updateCalendarSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  color: z.enum(['indigo', 'grey', 'green', 'blue', 'red', 'purple']).optional()
+}).refine((data) => Object.keys(data).length > 0, {
+  message: 'Nothing to update'
+});
+
+const calendarPermissionSchema = z.enum(['freebusy', 'read', 'edit']);
+
+/**
+ * Share Calendar Schema
+ */
+export const addCalendarMemberSchema = z.object({
+  email: z.string().email('Invalid email address').toLowerCase(),
+  permission: calendarPermissionSchema.default('read')
+});
+
+/**
+ * Change Calendar Member Permission Schema
+ */
+export const updateCalendarMemberSchema = z.object({
+  permission: calendarPermissionSchema
+});
+
+/**
+ * Calendar Params Schema
+ */
+export const calendarParamsSchema = z.object({
+  id: z.string().uuid('Invalid calendar'),
+  userId: z.string().uuid('Invalid member').optional()
+});
+
+/**
+ * RSVP Token Params Schema
+ */
+export const rsvpTokenParamsSchema = z.object({
+  token: z.string().min(1).max(256)
+});
+
+/**
+ * RSVP Response Schema (public invitation links)
+ */
+export const rsvpResponseSchema = z.object({
+  response: z.enum(['accepted', 'declined', 'maybe'])
 });
 
 /**
@@ -345,3 +640,120 @@ export const getPublicHolidaysQuerySchema = z.object({
 });
 
 
+
+const MAX_BOOKING_SLOT_DAYS = 62;
+
+const dayScheduleSchema = z.object({
+  enabled: z.boolean(),
+  openTime: wallClockTimeSchema,
+  closeTime: wallClockTimeSchema
+}).refine((day) => !day.enabled || day.closeTime > day.openTime, {
+  message: 'Closing time must be after opening time',
+  path: ['closeTime']
+});
+
+const weeklyScheduleSchema = z.object({
+  monday: dayScheduleSchema,
+  tuesday: dayScheduleSchema,
+  wednesday: dayScheduleSchema,
+  thursday: dayScheduleSchema,
+  friday: dayScheduleSchema,
+  saturday: dayScheduleSchema,
+  sunday: dayScheduleSchema
+}).refine((schedule) => Object.values(schedule).some(day => day.enabled), {
+  message: 'Select at least one available day'
+});
+
+const consultationTypeFields = z.object({
+  consultationType: z.string().trim().min(1, 'Consultation type is required').max(100),
+  companyName: z.string().trim().min(1, 'Company name is required').max(100),
+  description: z.string().max(1000).default(''),
+  durationMinutes: z.number().int().min(15).max(240),
+  bufferHours: z.number().int().min(0).max(24 * 30),
+  paddingMinutes: z.number().int().min(0).max(120).default(0),
+  maxPerDay: z.number().int().min(1).max(24).nullable().default(null),
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Invalid timezone'),
+  schedule: weeklyScheduleSchema,
+  isActive: z.boolean().default(true)
+});
+
+/**
+ * Create Consultation Type Schema
+ */
+export const createConsultationTypeSchema = consultationTypeFields.extend({
+  isSystemBooking: z.boolean().default(false)
+});
+
+/**
+ * Update Consultation Type Schema (a type can't switch between individual and system)
+ */
+export const updateConsultationTypeSchema = consultationTypeFields.partial().refine((data) => Object.keys(data).length > 0, {
+  message: 'Nothing to update'
+});
+
+/**
+ * Consultation Type Params Schema
+ */
+export const consultationParamsSchema = z.object({
+  id: z.string().uuid('Invalid consultation')
+});
+
+/**
+ * Public booking link (uniqueId segment of /book/:companySlug/:typeSlug/:uniqueId)
+ */
+export const bookingLinkParamsSchema = z.object({
+  id: z.string().regex(/^[a-f0-9]{24}$/, 'Invalid booking link')
+});
+
+/**
+ * Bookable Slots Query Schema
+ * type picks the consultation on the shared system booking link
+ */
+export const bookingSlotsQuerySchema = z.object({
+  from: z.string().datetime('Invalid from date format'),
+  to: z.string().datetime('Invalid to date format'),
+  tz: z.string().max(64).refine(isValidTimeZone, 'Invalid timezone').optional(),
+  type: z.string().uuid('Invalid consultation').optional()
+}).refine((data) => new Date(data.to) > new Date(data.from), {
+  message: 'To date must be after from date',
+  path: ['to']
+}).refine((data) => new Date(data.to).getTime() - new Date(data.from).getTime() <= MAX_BOOKING_SLOT_DAYS * 86400000, {
+  message: `Range cannot exceed ${MAX_BOOKING_SLOT_DAYS} days`,
+  path: ['to']
+});
+
+/**
+ * Book Consultation Schema (public booking form)
+ * start is one of the slots returned by the slots endpoint
+ */
+export const bookConsultationSchema = z.object({
+  start: z.string().datetime('Invalid start time'),
+  type: z.string().uuid('Invalid consultation').optional(),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  email: z.string().trim().email('Invalid email address').max(255).toLowerCase(),
+  company: z.string().trim().max(100).optional(),
+  projectDescription: z.string().trim().max(2000).optional(),
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Invalid timezone').optional()
+});
+
+/**
+ * Booking Manage Token Params Schema (booker's reschedule / cancel link)
+ */
+export const bookingManageParamsSchema = z.object({
+  token: z.string().min(1).max(256)
+});
+
+/**
+ * Reschedule Booking Schema
+ */
+export const rescheduleBookingSchema = z.object({
+  start: z.string().datetime('Invalid start time'),
+  timezone: z.string().max(64).refine(isValidTimeZone, 'Invalid timezone').optional()
+});
+
+/**
+ * Cancel Booking Schema
+ */
+export const cancelBookingSchema = z.object({
+  reason: z.string().trim().max(500).optional()
+});
@@ -0,0 +1,64 @@
+import dotenv from 'dotenv';
+import logger from './utils/logger';
+import { testDatabaseConnection } from './config/database';
+import { startReminderScheduler } from './services/reminder.service';
+
+// Load environment variables
+dotenv.config();
+
+const NODE_ENV = process.env.NODE_ENV || 'development';
+
+/**
+ * Start the background worker (event reminders)
+ * Runs separately from the API so reminders keep going while web instances scale
+ */
+async function startWorker() {
+  try {
+    logger.info('🚀 Cereforge Worker starting...');
+    logger.info(`🔧 Environment: ${NODE_ENV}`);
+
+    logger.info('🔗 Connecting to database...');
+    const dbConnected = await testDatabaseConnection();
+
+    if (!dbConnected) {
+      logger.error('❌ Database connection failed');
+      process.exit(1);
+    }
+
+    const scheduler = startReminderScheduler({
+      pollIntervalMs: Number(process.env.REMINDER_POLL_INTERVAL_MS) || undefined,
+      batchSize: Number(process.env.REMINDER_BATCH_SIZE) || undefined
+    });
+
+    // ==========================================
+    // ✅ GRACEFUL SHUTDOWN
+    // ==========================================
+    const gracefulShutdown = async (signal: string) => {
+      logger.info(`\n${signal} received. Stopping worker...`);
+
+      // Force shutdown after 15 seconds
+      setTimeout(() => {
+        logger.error('⚠️ Forced shutdown after timeout');
+        process.exit(1);
+      }, 15000).unref();
+
+      await scheduler.stop();
+      logger.info('👋 Worker shut down complete');
+      process.exit(0);
+    };
+
+    process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+    process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+
+    process.on('unhandledRejection', (reason, promise) => {
+      logger.error('💥 Unhandled Rejection at:', promise, 'reason:', reason);
+    });
+
+  } catch (error) {
+    logger.error('❌ Failed to start worker:', error);
+    process.exit(1);
+  }
+}
+
+// Start the worker
+startWorker();
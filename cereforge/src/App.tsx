@@ -10,7 +10,9 @@ import CereforgeDatabaseDocs from './components/common/Doc';
 // import { AuthDebugHelper } from './components/common/AuthDebugHelper';
 import LandingPage from './components/pages/LandingPage';
 import ForgotPassword from './components/pages/ForgotPassword';
+import ResetPassword from './components/pages/ResetPassword';
 import MeetPage from './components/pages/MeetPage';
+import RsvpPage from './components/pages/RsvpPage';
 import { useAppSelector } from './store/hook';
 import { selectUser } from './store/slices/authSlice';
 import { useGetMeQuery } from './store/api/authApi';
@@ -20,7 +22,10 @@ const LoginPage = lazy(() => import('./components/pages/LoginPage'));
 const GetStarted = lazy(() => import('./components/pages/GetStarted'));
 const CalendarPage = lazy(() => import('./components/pages/CalendarPage'));
 const ConsultationBooking = lazy(() => import('./components/calendar/ConsultationBooking'));
+const BookingPage = lazy(() => import('./components/pages/BookingPage'));
+const ManageBookingPage = lazy(() => import('./components/pages/ManageBookingPage'));
 const CereforgeEditor = lazy(() => import('./components/textEditor/RichtextEditor'));
+const ChangePassword = lazy(() => import('./components/pages/ChangePassword'));
 
 // ✅ Lazy load dashboard components (heavy components)
 const PartnerDashboard = lazy(() => import('./components/pages/dashboards/PartnerDashboard'));
@@ -69,8 +74,10 @@ const App = () => {
 
           <Route path="/" element={<LandingPage />} />
           <Route path='/forgot-password' element={<ForgotPassword />} />
+          <Route path='/reset-password' element={<ResetPassword />} />
           <Route path="/login" element={<LoginPage />} />
           <Route path="/get-started" element={<GetStarted />} />
+          <Route path="/rsvp/:token" element={<RsvpPage />} />
           <Route path="/calendar" element={<CalendarPage />} />
           <Route path="/editor" element={<CereforgeEditor />} />
           {import.meta.env.DEV && <Route path='/database-doc' element= {< CereforgeDatabaseDocs /> } />}
@@ -105,24 +112,26 @@ const App = () => {
             }
           />
 
-          {/* ✅ NEW: Public Booking Route with Dynamic Config */}
-          <Route
-            path="/book/:companySlug/:typeSlug/:uniqueId"
-            element={
-              <ConsultationBooking
-                isOpen={true}
-                onClose={() => navigate('/')}
-                mode="standalone"
-                // TODO: Fetch config from backend using uniqueId and pass here
-                // config={fetchedConfig}
-              />
-            }
-          />
+          {/* Public booking links (config resolved from uniqueId) */}
+          <Route path="/book/:companySlug/:typeSlug/:uniqueId" element={<BookingPage />} />
+
+          {/* Booker's reschedule / cancel link from the confirmation email */}
+          <Route path="/book/manage/:token" element={<ManageBookingPage />} />
 
           {/* ============================================ */}
           {/* PROTECTED ROUTES (Lazy Loaded + Auth Check) */}
           {/* ============================================ */}
 
+          {/* Forced / voluntary password change (any signed-in role) */}
+          <Route
+            path="/change-password"
+            element={
+              <ProtectedRoute>
+                <ChangePassword />
+              </ProtectedRoute>
+            }
+          />
+
           {/* Partner Routes */}
           <Route
             path="/partner/dashboard"
@@ -10,6 +10,9 @@ interface ProtectedRouteProps {
   requiredPermission?: string;
 }
 
+// Restricted sessions (temporary password) may only reach this screen
+const CHANGE_PASSWORD_PATH = '/change-password';
+
 /**
  * ✅ OPTIMIZED: Minimal loading UI with professional inline spinner
  */
@@ -71,6 +74,11 @@ export function ProtectedRoute({
     // user is present on the fast path; create a local non-null reference for TS
     const cachedUser = user as NonNullable<typeof user>;
 
+    // Forced password change comes before any dashboard
+    if (cachedUser.mustChangePassword && location.pathname !== CHANGE_PASSWORD_PATH) {
+      return <Navigate to={CHANGE_PASSWORD_PATH} state={{ from: location }} replace />;
+    }
+
     // Role check
     if (allowedRoles && !allowedRoles.includes(cachedUser.role)) {
       return <Navigate to="/unauthorized" replace />;
@@ -107,6 +115,12 @@ export function ProtectedRoute({
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  // ✅ Forced password change
+  if (user.mustChangePassword && location.pathname !== CHANGE_PASSWORD_PATH) {
+    console.log('🔑 Password change required, redirecting');
+    return <Navigate to={CHANGE_PASSWORD_PATH} state={{ from: location }} replace />;
+  }
+
   // ✅ Role check
   if (allowedRoles && !allowedRoles.includes(user.role)) {
     console.log('❌ Insufficient role');
@@ -0,0 +1,334 @@
+// src/components/audit/AuditLogPanel.tsx
+
+import { useState, FormEvent } from 'react';
+import dayjs from 'dayjs';
+import { ScrollText, Download, Filter, Loader2, AlertCircle, X, RotateCcw } from 'lucide-react';
+import { useGetAuditLogsQuery, useExportAuditLogsMutation } from '@/store/api/auditApi';
+import type { AuditLog, AuditLogFilters } from '@/types/audit.types';
+import { useAppDispatch } from '@/store/hook';
+import { addToast } from '@/store/slices/uiSlice';
+import { usePermission } from '@/hooks/usePermission';
+import AuditTimeline, { RISK_STYLES, formatAuditAction, describeActor } from './AuditTimeline';
+
+const ENTITY_TYPES = ['auth', 'session', 'user', 'partner', 'calendar_event', 'public_holiday', 'event_reminder', 'email'];
+
+const RISK_OPTIONS = [
+  { value: '', label: 'All risk levels' },
+  { value: 'high,critical', label: 'High & critical' },
+  { value: 'critical', label: 'Critical' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' }
+];
+
+interface FilterForm {
+  action: string;
+  riskLevel: string;
+  entityType: string;
+  entityId: string;
+  userId: string;
+  from: string; // yyyy-mm-dd
+  to: string;
+}
+
+const EMPTY_FORM: FilterForm = { action: '', riskLevel: '', entityType: '', entityId: '', userId: '', from: '', to: '' };
+
+// Drop empty values and turn the date inputs into a full-day ISO range
+const toFilters = (form: FilterForm): AuditLogFilters => ({
+  ...(form.action.trim() && { action: form.action.trim() }),
+  ...(form.riskLevel && { riskLevel: form.riskLevel }),
+  ...(form.entityType && { entityType: form.entityType }),
+  ...(form.entityId.trim() && { entityId: form.entityId.trim() }),
+  ...(form.userId.trim() && { userId: form.userId.trim() }),
+  ...(form.from && { from: dayjs(form.from).startOf('day').toISOString() }),
+  ...(form.to && { to: dayjs(form.to).endOf('day').toISOString() })
+});
+
+const AuditLogPanel = () => {
+  const dispatch = useAppDispatch();
+
+  const [form, setForm] = useState<FilterForm>(EMPTY_FORM);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [cursor, setCursor] = useState<string | undefined>();
+  const [selected, setSelected] = useState<AuditLog | null>(null);
+
+  const { data, isLoading, isFetching, error } = useGetAuditLogsQuery({ ...filters, limit: 50, cursor });
+  const [exportLogs, { isLoading: isExporting, originalArgs: exportArgs }] = useExportAuditLogsMutation();
+  const canExport = usePermission('audit.export');
+
+  const logs = data?.data.items || [];
+  const pagination = data?.data.pagination;
+
+  const updateForm = (field: keyof FilterForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const applyFilters = (next: FilterForm) => {
+    setCursor(undefined);
+    setSelected(null);
+    setFilters(toFilters(next));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    applyFilters(form);
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FORM);
+    applyFilters(EMPTY_FORM);
+  };
+
+  // Jump from a row to everything else that touched the same entity
+  const showEntity = (log: AuditLog) => {
+    if (!log.entity_type || !log.entity_id) return;
+    const next = { ...EMPTY_FORM, entityType: log.entity_type, entityId: log.entity_id };
+    setForm(next);
+    applyFilters(next);
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const blob = await exportLogs({ ...filters, format }).unwrap();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-logs-${dayjs().format('YYYY-MM-DD')}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      dispatch(addToast({
+        message: err?.data?.error?.message || 'Failed to export audit logs',
+        type: 'error'
+      }));
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="space-y-1">
+          <h2 className="text-2xl font-bold text-gray-900 tracking-tight flex items-center gap-2">
+            Audit Log <ScrollText className="w-5 h-5 text-blue-600" />
+          </h2>
+          <p className="text-sm text-gray-500">
+            Sign-ins, security events, partner changes and calendar activity across the platform.
+          </p>
+        </div>
+        {canExport && (
+        <div className="flex gap-2">
+          {(['csv', 'json'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={isExporting}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 shadow-sm disabled:opacity-50"
+            >
+              {isExporting && exportArgs?.format === format
+                ? <Loader2 className="w-4 h-4 animate-spin" />
+                : <Download className="w-4 h-4" />}
+              Export {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        )}
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl border border-gray-200 shadow-sm p-4 grid grid-cols-1 md:grid-cols-4 gap-3">
+        <input
+          value={form.action}
+          onChange={(e) => updateForm('action', e.target.value)}
+          placeholder="Action (e.g. login_failed,account_locked)"
+          className="px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={form.riskLevel}
+          onChange={(e) => updateForm('riskLevel', e.target.value)}
+          className="px-3 py-2 rounded-lg border border-gray-200 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {RISK_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={form.entityType}
+          onChange={(e) => updateForm('entityType', e.target.value)}
+          className="px-3 py-2 rounded-lg border border-gray-200 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All entity types</option>
+          {ENTITY_TYPES.map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <input
+          value={form.entityId}
+          onChange={(e) => updateForm('entityId', e.target.value)}
+          placeholder="Entity ID"
+          className="px-3 py-2 rounded-lg border border-gray-200 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          value={form.userId}
+          onChange={(e) => updateForm('userId', e.target.value)}
+          placeholder="User ID"
+          className="px-3 py-2 rounded-lg border border-gray-200 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          value={form.from}
+          onChange={(e) => updateForm('from', e.target.value)}
+          className="px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          value={form.to}
+          onChange={(e) => updateForm('to', e.target.value)}
+          className="px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700"
+          >
+            <Filter className="w-4 h-4" />
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            title="Clear filters"
+            className="px-3 py-2 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+        </div>
+      </form>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Log table */}
+        <div className={`bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden ${selected ? 'lg:col-span-2' : 'lg:col-span-3'}`}>
+          {isLoading && (
+            <div className="flex flex-col items-center justify-center py-12 text-gray-400">
+              <Loader2 className="w-8 h-8 animate-spin mb-2" />
+              <p className="text-sm">Loading audit log...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 px-5 py-6 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              Failed to load audit log
+            </div>
+          )}
+
+          {!isLoading && !error && logs.length === 0 && (
+            <p className="px-5 py-12 text-center text-sm text-gray-500">No entries match these filters.</p>
+          )}
+
+          {logs.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-xs uppercase tracking-wide text-gray-500">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-semibold">Time</th>
+                    <th className="px-4 py-3 text-left font-semibold">Action</th>
+                    <th className="px-4 py-3 text-left font-semibold">Actor</th>
+                    <th className="px-4 py-3 text-left font-semibold">Entity</th>
+                    <th className="px-4 py-3 text-left font-semibold">Risk</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {logs.map((log) => (
+                    <tr
+                      key={log.id}
+                      onClick={() => setSelected(log)}
+                      className={`cursor-pointer hover:bg-blue-50/50 ${selected?.id === log.id ? 'bg-blue-50' : ''}`}
+                    >
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-500">{dayjs(log.created_at).format('MMM D, HH:mm:ss')}</td>
+                      <td className="px-4 py-3 font-medium text-gray-900">{formatAuditAction(log.action)}</td>
+                      <td className="px-4 py-3 text-gray-600 truncate max-w-[200px]">{describeActor(log)}</td>
+                      <td className="px-4 py-3 text-gray-500">
+                        {log.entity_type || '—'}
+                        {log.entity_id && <span className="ml-1 font-mono text-xs text-gray-400">{log.entity_id.slice(0, 8)}</span>}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${RISK_STYLES[log.risk_level]}`}>
+                          {log.risk_level}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pagination?.hasMore && (
+            <div className="border-t border-gray-100 p-3">
+              <button
+                onClick={() => setCursor(pagination.nextCursor || undefined)}
+                disabled={isFetching}
+                className="w-full py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50"
+              >
+                {isFetching ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Entry detail + entity timeline */}
+        {selected && (
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{formatAuditAction(selected.action)}</h3>
+                  <p className="text-xs text-gray-500">{dayjs(selected.created_at).format('MMM D, YYYY h:mm:ss A')}</p>
+                </div>
+                <button onClick={() => setSelected(null)} className="p-1 rounded hover:bg-gray-100 text-gray-400">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <dl className="text-sm grid grid-cols-3 gap-y-1">
+                <dt className="text-gray-500">Actor</dt>
+                <dd className="col-span-2 text-gray-900 break-all">{describeActor(selected)}</dd>
+                <dt className="text-gray-500">IP</dt>
+                <dd className="col-span-2 text-gray-900">{selected.ip_address || '—'}</dd>
+                <dt className="text-gray-500">Entity</dt>
+                <dd className="col-span-2 text-gray-900 break-all">
+                  {selected.entity_type || '—'} {selected.entity_id && <span className="font-mono text-xs">{selected.entity_id}</span>}
+                </dd>
+              </dl>
+              {selected.details && Object.keys(selected.details).length > 0 && (
+                <pre className="text-xs bg-gray-50 border border-gray-100 rounded-lg p-3 overflow-x-auto">
+                  {JSON.stringify(selected.details, null, 2)}
+                </pre>
+              )}
+              {selected.entity_type && selected.entity_id && (
+                <button
+                  onClick={() => showEntity(selected)}
+                  className="text-sm font-medium text-blue-600 hover:underline"
+                >
+                  Filter log to this {selected.entity_type}
+                </button>
+              )}
+            </div>
+
+            {selected.entity_type && selected.entity_id ? (
+              <AuditTimeline
+                key={selected.entity_id}
+                entityType={selected.entity_type}
+                entityId={selected.entity_id}
+                title={`${selected.entity_type} timeline`}
+              />
+            ) : selected.user_id && (
+              <AuditTimeline key={selected.user_id} userId={selected.user_id} title="User activity" />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogPanel;
@@ -0,0 +1,116 @@
+// src/components/audit/AuditTimeline.tsx
+
+import { useState } from 'react';
+import dayjs from 'dayjs';
+import { History, Loader2, AlertCircle } from 'lucide-react';
+import { useGetAuditLogsQuery } from '@/store/api/auditApi';
+import type { AuditLog, AuditRiskLevel } from '@/types/audit.types';
+
+export const RISK_STYLES: Record<AuditRiskLevel, string> = {
+  low: 'bg-gray-50 text-gray-600 border-gray-200',
+  medium: 'bg-amber-50 text-amber-700 border-amber-200',
+  high: 'bg-orange-50 text-orange-700 border-orange-200',
+  critical: 'bg-rose-50 text-rose-700 border-rose-200'
+};
+
+const RISK_DOTS: Record<AuditRiskLevel, string> = {
+  low: 'bg-gray-300',
+  medium: 'bg-amber-400',
+  high: 'bg-orange-500',
+  critical: 'bg-rose-600'
+};
+
+// "partner_status_changed" -> "Partner status changed"
+export const formatAuditAction = (action: string) => {
+  const text = action.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+export const describeActor = (log: AuditLog) =>
+  log.user ? `${log.user.full_name || log.user.email} (${log.user.role})` : 'System';
+
+interface AuditTimelineProps {
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  title?: string;
+}
+
+/**
+ * Everything that happened to one entity (or by one user), newest first
+ */
+const AuditTimeline = ({ entityType, entityId, userId, title = 'History' }: AuditTimelineProps) => {
+  const [cursor, setCursor] = useState<string | undefined>();
+
+  const { data, isLoading, isFetching, error } = useGetAuditLogsQuery({
+    entityType,
+    entityId,
+    userId,
+    limit: 25,
+    cursor
+  });
+
+  const logs = data?.data.items || [];
+  const pagination = data?.data.pagination;
+
+  return (
+    <div className="bg-white border border-gray-100 rounded-xl p-6">
+      <h3 className="text-sm font-bold text-gray-900 mb-4 flex items-center gap-2">
+        <History className="w-4 h-4 text-gray-500" />
+        {title}
+      </h3>
+
+      {isLoading && (
+        <div className="flex justify-center py-6 text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin" />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          Failed to load history
+        </div>
+      )}
+
+      {!isLoading && !error && logs.length === 0 && (
+        <p className="text-sm text-gray-500">No recorded activity yet.</p>
+      )}
+
+      {logs.length > 0 && (
+        <ol className="relative border-l border-gray-200 ml-1.5 space-y-4">
+          {logs.map((log) => (
+            <li key={log.id} className="ml-4">
+              <span className={`absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full ring-2 ring-white ${RISK_DOTS[log.risk_level]}`} />
+              <p className="text-sm font-medium text-gray-900">{formatAuditAction(log.action)}</p>
+              <p className="text-xs text-gray-500">
+                {describeActor(log)} · {dayjs(log.created_at).format('MMM D, YYYY h:mm A')}
+              </p>
+              {log.details && Object.keys(log.details).length > 0 && (
+                <p className="text-xs text-gray-400 mt-0.5 truncate" title={JSON.stringify(log.details)}>
+                  {Object.entries(log.details)
+                    .filter(([, value]) => value !== null && typeof value !== 'object')
+                    .slice(0, 3)
+                    .map(([key, value]) => `${key}: ${value}`)
+                    .join(' · ')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {pagination?.hasMore && (
+        <button
+          onClick={() => setCursor(pagination.nextCursor || undefined)}
+          disabled={isFetching}
+          className="mt-4 w-full py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50"
+        >
+          {isFetching ? 'Loading...' : 'Show older'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AuditTimeline;
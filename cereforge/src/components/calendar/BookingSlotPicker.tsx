@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ChevronRight, ChevronLeft, Globe, Loader2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import dayjs, { Dayjs } from 'dayjs';
+import { filterTimezones, getTimezoneDisplay } from '@/utils/TimezoneUtils';
+
+interface BookingSlotPickerProps {
+  availableDates: Set<string>; // YYYY-MM-DD
+  timeSlots: string[]; // HH:mm on the selected date
+  isLoading?: boolean;
+  selectedDate: Dayjs | null;
+  onSelectDate: (date: Dayjs) => void;
+  selectedTime: string;
+  onSelectTime: (time: string) => void;
+  timezone: string;
+  onTimezoneChange: (timezone: string) => void;
+  month: number; // Month index in the current year; may run past 11
+  onMonthChange: (month: number) => void;
+}
+
+const getMonthDays = (monthIndex: number): Dayjs[][] => {
+  const year = dayjs().year();
+  const firstDayOfMonth = dayjs(new Date(year, monthIndex, 1)).day();
+  let currentMonthCount = 0 - firstDayOfMonth;
+  return new Array(6).fill([]).map(() => new Array(7).fill(null).map(() => {
+    currentMonthCount++;
+    return dayjs(new Date(year, monthIndex, currentMonthCount));
+  }));
+};
+
+// Timezone, month calendar and the day's times; shared by booking and rescheduling
+const BookingSlotPicker: React.FC<BookingSlotPickerProps> = ({
+  availableDates,
+  timeSlots,
+  isLoading = false,
+  selectedDate,
+  onSelectDate,
+  selectedTime,
+  onSelectTime,
+  timezone,
+  onTimezoneChange,
+  month,
+  onMonthChange
+}) => {
+  const [showTimezoneDropdown, setShowTimezoneDropdown] = useState(false);
+  const [timezoneSearch, setTimezoneSearch] = useState('');
+
+  const filteredTimezones = filterTimezones(timezoneSearch);
+  const visibleMonth = dayjs(new Date(dayjs().year(), month, 1)).month();
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6 h-full justify-center">
+      <div className="flex-1 max-w-[340px] flex flex-col mx-auto lg:mx-0">
+        <button onClick={() => setShowTimezoneDropdown(!showTimezoneDropdown)} className="w-full mb-4 px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-left transition-colors flex items-center justify-between text-xs font-medium text-gray-600 border border-transparent hover:border-gray-200">
+          <span className="flex items-center truncate"><Globe className="w-3 h-3 mr-2 text-gray-400" />{getTimezoneDisplay(timezone)}</span>
+          <ChevronRight className={`w-3 h-3 transition-transform ${showTimezoneDropdown ? 'rotate-90' : ''}`} />
+        </button>
+
+        <AnimatePresence>
+          {showTimezoneDropdown && (
+            <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="mb-4 overflow-hidden border border-gray-100 rounded-lg shadow-sm">
+              <div className="p-2 bg-gray-50">
+                <input type="text" value={timezoneSearch} onChange={(e) => setTimezoneSearch(e.target.value)} placeholder="Search..." className="w-full px-2 py-1.5 text-xs bg-white border border-gray-200 rounded focus:outline-none focus:border-blue-500" />
+              </div>
+              <div className="max-h-32 overflow-y-auto">
+                {filteredTimezones.map(tz => (
+                  <button key={tz.value} onClick={() => { onTimezoneChange(tz.value); setShowTimezoneDropdown(false); }} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-50 text-gray-700 truncate">{tz.label}</button>
+                ))}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        <div className="bg-white border border-gray-100 rounded-xl p-4 shadow-sm">
+          <div className="flex items-center justify-between mb-4 px-1">
+            <button onClick={() => onMonthChange(month - 1)} className="p-1 hover:bg-gray-50 rounded-full text-gray-400 hover:text-gray-600 transition-colors"><ChevronLeft className="w-4 h-4" /></button>
+            <span className="text-sm font-bold text-gray-800 flex items-center gap-2">
+              {dayjs(new Date(dayjs().year(), month)).format('MMMM YYYY')}
+              {isLoading && <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-600" />}
+            </span>
+            <button onClick={() => onMonthChange(month + 1)} className="p-1 hover:bg-gray-50 rounded-full text-gray-400 hover:text-gray-600 transition-colors"><ChevronRight className="w-4 h-4" /></button>
+          </div>
+          <div className="grid grid-cols-7 gap-1 mb-2">
+            {['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'].map(d => <div key={d} className="text-center text-[10px] font-bold text-gray-400">{d}</div>)}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {getMonthDays(month).flat().map((day, idx) => {
+              const isCurrentMonth = day.month() === visibleMonth;
+              const isAvailable = availableDates.has(day.format('YYYY-MM-DD')) && isCurrentMonth;
+              const isSelected = selectedDate?.format('YYYY-MM-DD') === day.format('YYYY-MM-DD');
+              return (
+                <button key={idx} onClick={() => isAvailable && onSelectDate(day)} disabled={!isAvailable} className={`aspect-square rounded-lg flex items-center justify-center text-xs font-medium transition-all duration-200 relative ${!isCurrentMonth ? 'invisible' : ''} ${isSelected ? 'bg-blue-600 text-white shadow-md scale-100 z-10' : ''} ${!isSelected && isAvailable ? 'text-gray-700 hover:bg-blue-50 hover:text-blue-600' : ''} ${!isSelected && !isAvailable ? 'text-gray-300 cursor-not-allowed' : ''}`}>
+                  {day.date()}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {selectedDate && (
+        <motion.div initial={{ opacity: 0, x: 10 }} animate={{ opacity: 1, x: 0 }} className="w-full lg:w-40 flex flex-col border-t lg:border-t-0 lg:border-l border-gray-100 pt-4 lg:pt-0 lg:pl-6">
+          <h4 className="text-xs font-bold text-gray-900 mb-3 sticky top-0 bg-white z-10 py-1">{selectedDate.format('ddd, MMM D')}</h4>
+          <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-2 max-h-[350px]">
+            {timeSlots.length === 0 && (
+              <p className="text-xs text-gray-400">No times left on this day.</p>
+            )}
+            {timeSlots.map((time) => (
+              <button key={time} onClick={() => onSelectTime(time)} className={`w-full px-3 py-2 rounded-lg text-xs font-semibold border transition-all ${selectedTime === time ? 'bg-blue-600 text-white border-blue-600 shadow-sm' : 'bg-white border-gray-200 text-gray-600 hover:border-blue-400 hover:text-blue-600'}`}>{time}</button>
+            ))}
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default BookingSlotPicker;
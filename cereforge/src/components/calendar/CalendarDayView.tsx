@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
 import { Clock, MapPin, Users } from 'lucide-react';
 import { CalendarEvent } from '@/types/calendar.types';
+import { calendarStripeStyle } from '@/utils/calendar.utils';
 
 interface CalendarDayViewProps {
   daySelected: Dayjs;
@@ -95,6 +96,7 @@ const CalendarDayView: React.FC<CalendarDayViewProps> = ({
                     ${labelColors[evt.label]} text-white px-4 py-3 rounded-xl
                     cursor-pointer shadow-md hover:shadow-lg transition-all
                   `}
+                  style={calendarStripeStyle(evt)}
                 >
                   <div className="flex items-center justify-between">
                     <span className="font-semibold">{evt.event}</span>
@@ -168,7 +170,7 @@ const CalendarDayView: React.FC<CalendarDayViewProps> = ({
                         text-white rounded-lg p-3 shadow-lg cursor-pointer
                         pointer-events-auto overflow-hidden
                       `}
-                      style={style}
+                      style={{ ...style, ...calendarStripeStyle(evt) }}
                     >
                       <div className="flex items-start justify-between mb-1">
                         <p className="font-bold text-sm leading-tight">{evt.event}</p>
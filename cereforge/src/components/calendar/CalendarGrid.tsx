@@ -3,6 +3,7 @@ import { Plus } from 'lucide-react';
 import { motion } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
 import { CalendarEvent } from '@/types/calendar.types';
+import { calendarStripeStyle } from '@/utils/calendar.utils';
 import DayEventsModal from './modals/DayEventsModals'; //
 
 // ✅ Generate exactly 5 rows to ensure stable height distribution
@@ -133,6 +134,7 @@ const CalendarDay: React.FC<CalendarDayProps> = ({
                   : 'bg-transparent hover:bg-gray-100 text-gray-900'
                 }
               `}
+              style={calendarStripeStyle(evt)}
               title={evt.title || evt.event}
             >
               {isBlockEvent ? (
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ArrowDownUp, Download, Upload, Loader2, Rss } from 'lucide-react';
+import { useLazyExportCalendarQuery } from '@/store/api/calendarApi';
+import { useAppDispatch } from '@/store/hook';
+import { addToast } from '@/store/slices/uiSlice';
+import ImportCalendarModal from './modals/ImportCalendarModal';
+import CalendarFeedModal from './modals/CalendarFeedModal';
+
+const CalendarImportExport: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const [exportCalendar, { isFetching: isExporting }] = useLazyExportCalendarQuery();
+  const [showImport, setShowImport] = useState(false);
+  const [showFeed, setShowFeed] = useState(false);
+
+  const handleExport = async () => {
+    try {
+      const ics = await exportCalendar({}).unwrap();
+      const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'cereforge-calendar.ics';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      dispatch(addToast({ message: 'Failed to export calendar. Please try again.', type: 'error' }));
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-4 border border-gray-200 mt-4">
+      <h3 className="text-sm font-bold text-gray-900 mb-3 flex items-center gap-2">
+        <ArrowDownUp className="w-4 h-4 text-gray-500" />
+        Import & Export
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => setShowImport(true)}
+          className="flex items-center justify-center gap-2 px-3 py-2 bg-white border border-gray-300 hover:border-blue-500 text-gray-700 hover:text-blue-600 rounded-lg text-sm font-medium transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          Import
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="flex items-center justify-center gap-2 px-3 py-2 bg-white border border-gray-300 hover:border-blue-500 text-gray-700 hover:text-blue-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export
+        </button>
+      </div>
+
+      <button
+        onClick={() => setShowFeed(true)}
+        className="w-full mt-2 flex items-center justify-center gap-2 px-3 py-2 bg-white border border-gray-300 hover:border-blue-500 text-gray-700 hover:text-blue-600 rounded-lg text-sm font-medium transition-colors"
+      >
+        <Rss className="w-4 h-4" />
+        Subscribe on phone
+      </button>
+
+      <ImportCalendarModal isOpen={showImport} onClose={() => setShowImport(false)} />
+      <CalendarFeedModal isOpen={showFeed} onClose={() => setShowFeed(false)} />
+    </div>
+  );
+};
+
+export default CalendarImportExport;
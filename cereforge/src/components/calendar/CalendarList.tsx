@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Plus, Check, Settings2, Users, Briefcase, LogOut } from 'lucide-react';
+import { useRemoveCalendarMemberMutation } from '@/store/api/calendarApi';
+import { useAppDispatch, useAppSelector } from '@/store/hook';
+import { selectUser } from '@/store/slices/authSlice';
+import { addToast } from '@/store/slices/uiSlice';
+import { LABEL_COLORS } from '@/types/calendar.types';
+import type { Calendar, CalendarAccess } from '@/types/calendar.types';
+import { ConfirmationModal } from './modals/ModalsUtils';
+import CalendarSettingsModal from './modals/CalendarSettingsModal';
+
+interface CalendarListProps {
+  calendars: Calendar[];
+  hiddenCalendarIds: string[];
+  toggleCalendar: (calendarId: string) => void;
+}
+
+const ACCESS_LABELS: Record<CalendarAccess, string> = {
+  owner: 'Owner',
+  edit: 'Can edit',
+  read: 'View only',
+  freebusy: 'Free/busy'
+};
+
+const CalendarList: React.FC<CalendarListProps> = ({ calendars, hiddenCalendarIds, toggleCalendar }) => {
+  const dispatch = useAppDispatch();
+  const user = useAppSelector(selectUser);
+  const [removeMember] = useRemoveCalendarMemberMutation();
+
+  // undefined = closed, null = creating a new calendar
+  const [settingsFor, setSettingsFor] = useState<Calendar | null | undefined>(undefined);
+  const [leaving, setLeaving] = useState<Calendar | null>(null);
+
+  const handleLeave = async () => {
+    if (!leaving || !user) return;
+
+    try {
+      await removeMember({ calendarId: leaving.id, userId: user.id }).unwrap();
+      dispatch(addToast({ message: `You left ${leaving.name}`, type: 'success' }));
+    } catch {
+      dispatch(addToast({ message: 'Failed to leave calendar. Please try again.', type: 'error' }));
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-gray-900">My Calendars</h3>
+        <button
+          onClick={() => setSettingsFor(null)}
+          className="p-1 text-gray-500 hover:text-blue-600 hover:bg-gray-200 rounded transition-colors"
+          title="New calendar"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        {calendars.map(calendar => {
+          const visible = !hiddenCalendarIds.includes(calendar.id);
+          const isOwner = calendar.access === 'owner';
+
+          return (
+            <div key={calendar.id} className="group flex items-center gap-3 p-2 rounded-lg hover:bg-gray-100 transition-all">
+              <label className="flex-1 min-w-0 flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={visible}
+                  onChange={() => toggleCalendar(calendar.id)}
+                  className="sr-only"
+                />
+                <div
+                  className={`w-5 h-5 shrink-0 rounded-md border-2 flex items-center justify-center transition-all ${visible ? 'border-transparent' : 'border-gray-300'}`}
+                  style={{ backgroundColor: visible ? LABEL_COLORS[calendar.color] : 'transparent' }}
+                >
+                  {visible && <Check className="w-3.5 h-3.5 text-white" />}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-700 truncate select-none flex items-center gap-1.5">
+                    {calendar.type === 'team' && <Users className="w-3.5 h-3.5 text-gray-400 shrink-0" />}
+                    {calendar.type === 'partner_project' && <Briefcase className="w-3.5 h-3.5 text-gray-400 shrink-0" />}
+                    <span className="truncate">{calendar.name}</span>
+                  </p>
+                  {!isOwner && (
+                    <p className="text-[11px] text-gray-400">{ACCESS_LABELS[calendar.access]}</p>
+                  )}
+                </div>
+              </label>
+
+              {isOwner ? (
+                <button
+                  onClick={() => setSettingsFor(calendar)}
+                  className="p-1 text-gray-400 hover:text-gray-700 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                  title={calendar.type === 'personal' ? 'Share calendar' : 'Calendar settings'}
+                >
+                  <Settings2 className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => setLeaving(calendar)}
+                  className="p-1 text-gray-400 hover:text-red-600 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Leave calendar"
+                >
+                  <LogOut className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {settingsFor !== undefined && (
+        <CalendarSettingsModal
+          isOpen
+          calendar={settingsFor}
+          onClose={() => setSettingsFor(undefined)}
+        />
+      )}
+
+      <ConfirmationModal
+        isOpen={leaving !== null}
+        onClose={() => setLeaving(null)}
+        onConfirm={handleLeave}
+        title="Leave calendar?"
+        message={`${leaving?.name || 'This calendar'} will disappear from your calendar until its owner shares it again.`}
+        icon={<LogOut className="w-8 h-8 text-red-600" />}
+        iconBgColor="bg-red-100"
+        confirmText="Leave"
+        confirmColor="bg-red-600 hover:bg-red-700"
+      />
+    </div>
+  );
+};
+
+export default CalendarList;
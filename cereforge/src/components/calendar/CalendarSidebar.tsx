@@ -4,6 +4,8 @@ import { motion } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
 import { CalendarSidebarProps } from '@/types/calendar.types';
 import PublicHolidayFilter from './PublicHolidayFilter'; // ✅ Import
+import CalendarImportExport from './CalendarImportExport';
+import CalendarList from './CalendarList';
 
 const getMonth = (month: number = dayjs().month()): Dayjs[][] => {
   const year = dayjs().year();
@@ -34,7 +36,10 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({
   showHolidays,
   setShowHolidays,
   selectedCountry,
-  setSelectedCountry
+  setSelectedCountry,
+  calendars,
+  hiddenCalendarIds,
+  toggleCalendar
 }) => {
   const [currentMonthIdx, setCurrentMonthIdx] = useState(dayjs().month());
   const [currentMonth, setCurrentMonth] = useState(getMonth());
@@ -122,6 +127,13 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({
             </div>
           </div>
 
+          {/* Calendars */}
+          <CalendarList
+            calendars={calendars}
+            hiddenCalendarIds={hiddenCalendarIds}
+            toggleCalendar={toggleCalendar}
+          />
+
           {/* Labels */}
           <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
             <h3 className="text-sm font-bold text-gray-900 mb-4">Event Labels</h3>
@@ -156,6 +168,8 @@ const CalendarSidebar: React.FC<CalendarSidebarProps> = ({
             selectedCountry={selectedCountry}
             onSelectCountry={setSelectedCountry}
           />
+
+          <CalendarImportExport />
         </div>
       </div>
     </aside>
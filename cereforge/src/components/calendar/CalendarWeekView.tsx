@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
 import { Clock, MapPin } from 'lucide-react';
 import { CalendarEvent } from '@/types/calendar.types';
+import { calendarStripeStyle } from '@/utils/calendar.utils';
 
 interface CalendarWeekViewProps {
   weekStart: Dayjs;
@@ -178,6 +179,7 @@ const CalendarWeekView: React.FC<CalendarWeekViewProps> = ({
                             ${labelColors[evt.label]} text-white text-xs px-2 py-1 rounded
                             truncate cursor-pointer shadow-sm hover:shadow-md transition-all
                           `}
+                          style={calendarStripeStyle(evt)}
                         >
                           {evt.event}
                         </motion.div>
@@ -211,7 +213,7 @@ const CalendarWeekView: React.FC<CalendarWeekViewProps> = ({
                             text-white rounded-lg p-2 shadow-md cursor-pointer
                             pointer-events-auto overflow-hidden text-xs
                           `}
-                          style={style}
+                          style={{ ...style, ...calendarStripeStyle(evt) }}
                         >
                           <p className="font-bold leading-tight truncate">{evt.event}</p>
                           <p className="opacity-90 text-[10px] flex items-center mt-0.5">
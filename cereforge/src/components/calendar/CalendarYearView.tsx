@@ -1,7 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
-import { CalendarEvent } from '@/types/calendar.types';
+import { CalendarEvent, LABEL_COLORS } from '@/types/calendar.types';
 
 interface CalendarYearViewProps {
   year: number;
@@ -33,11 +33,11 @@ const CalendarYearView: React.FC<CalendarYearViewProps> = ({
     return daysMatrix;
   };
 
-  // Count events for a specific day
-  const getEventCountForDay = (day: Dayjs): number => {
+  // Events on a specific day
+  const getEventsForDay = (day: Dayjs): CalendarEvent[] => {
     return filteredEvents.filter(
       evt => dayjs(evt.day).format('YYYY-MM-DD') === day.format('YYYY-MM-DD')
-    ).length;
+    );
   };
 
   // Count events for a specific month
@@ -116,8 +116,8 @@ const CalendarYearView: React.FC<CalendarYearViewProps> = ({
                         {week.map((day, dayIdx) => {
                           const isToday = day.format('YYYY-MM-DD') === today.format('YYYY-MM-DD');
                           const isCurrentMonthDay = day.month() === monthIndex;
-                          const eventCount = getEventCountForDay(day);
-                          const hasEvents = eventCount > 0;
+                          const dayEvents = getEventsForDay(day);
+                          const hasEvents = dayEvents.length > 0;
                           // Only show today indicator if the day belongs to this month
                           const showTodayIndicator = isToday && isCurrentMonthDay;
 
@@ -144,17 +144,18 @@ const CalendarYearView: React.FC<CalendarYearViewProps> = ({
                               {day.format('D')}
                               {hasEvents && isCurrentMonthDay && !isToday && (
                                 <div className="absolute bottom-0.5 left-1/2 transform -translate-x-1/2 flex space-x-0.5">
-                                  {Array.from({ length: Math.min(eventCount, 3) }).map((_, i) => (
+                                  {dayEvents.slice(0, 3).map((evt, i) => (
                                     <div
                                       key={i}
                                       className="w-1 h-1 rounded-full bg-blue-500"
+                                      style={evt.calendarColor ? { backgroundColor: LABEL_COLORS[evt.calendarColor] } : undefined}
                                     />
                                   ))}
                                 </div>
                               )}
                               {hasEvents && isCurrentMonthDay && isToday && (
                                 <div className="absolute bottom-0.5 left-1/2 transform -translate-x-1/2 flex space-x-0.5">
-                                  {Array.from({ length: Math.min(eventCount, 3) }).map((_, i) => (
+                                  {dayEvents.slice(0, 3).map((_, i) => (
                                     <div
                                       key={i}
                                       className="w-1 h-1 rounded-full bg-white"
@@ -1,48 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import { X, Video, CheckCircle, ChevronRight, ChevronLeft, Globe, Clock, Zap, AlertCircle } from 'lucide-react';
+import { X, Video, CheckCircle, ChevronRight, ChevronLeft, Clock, Zap, AlertCircle, Loader2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
 import { SYSTEM_BOOKING_CONSULTATIONS } from '@/utils/ConsultationConstants';
-import { filterTimezones, getTimezoneDisplay, getUserTimezone } from '@/utils/TimezoneUtils';
-
-interface VariantConfig {
-  id: string;
-  title: string;
-  duration: string;
-  description: string;
-  isActive: boolean;
-  icon?: string;
-  color?: string;
-}
-
-interface DynamicConfig {
-  consultationType: string;
-  companyName: string;
-  duration: string;
-  description: string;
-  availableDays: string[];
-  availableTimes: { [key: string]: { openTime: string; closeTime: string } };
-  bufferHours: number;
-  isActive: boolean;
-  isSystemBooking?: boolean;
-  variants?: VariantConfig[];
-}
+import { getTimezoneDisplay, getUserTimezone } from '@/utils/TimezoneUtils';
+import { getBookingSlotsRange } from '@/utils/ConsultationUtils';
+import { useBookConsultationMutation, useGetBookingSlotsQuery } from '@/store/api/bookingApi';
+import BookingSlotPicker from './BookingSlotPicker';
+import type { BookingAvailability, PublicBookingConfig, Weekday } from '@/types/consultation.types';
 
 interface ConsultationBookingProps {
   isOpen: boolean;
   onClose: () => void;
   mode?: 'popup' | 'standalone';
-  config?: DynamicConfig;
+  config?: PublicBookingConfig;
+  linkId?: string; // Public booking link; open times then come from the server
 }
 
 const ConsultationBooking: React.FC<ConsultationBookingProps> = ({ 
   isOpen, 
   onClose, 
   mode = 'popup',
-  config 
+  config,
+  linkId
 }) => {
   const [step, setStep] = useState(1);
-  const [consultationType, setConsultationType] = useState<'discovery' | 'technical' | 'follow-up' | null>(null);
+  const [consultationType, setConsultationType] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Dayjs | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>('');
   const [formData, setFormData] = useState({
@@ -52,8 +35,8 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
     projectDescription: ''
   });
   const [isSubmitted, setIsSubmitted] = useState(false);
-  const [showTimezoneDropdown, setShowTimezoneDropdown] = useState(false);
-  const [timezoneSearch, setTimezoneSearch] = useState('');
+  const [meetingUrl, setMeetingUrl] = useState('');
+  const [submitError, setSubmitError] = useState('');
   const [selectedTimezone, setSelectedTimezone] = useState<string>('');
   const [currentCalendarMonth, setCurrentCalendarMonth] = useState(dayjs().month());
 
@@ -75,28 +58,59 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
 
   const isBookingPaused = config && !config.isActive;
 
+  // Saved system booking types take the default types' icons and colors in order
   const getActiveVariants = () => {
     if (!config?.isSystemBooking || !config.variants) {
       return SYSTEM_BOOKING_CONSULTATIONS;
     }
-    return config.variants.filter(v => v.isActive);
+    return config.variants
+      .map((variant, index) => {
+        const style = SYSTEM_BOOKING_CONSULTATIONS[index % SYSTEM_BOOKING_CONSULTATIONS.length];
+        return { ...variant, icon: style.icon, color: style.color };
+      })
+      .filter(v => v.isActive);
   };
 
   const activeVariants = getActiveVariants();
   const allVariantsPaused = config?.isSystemBooking && activeVariants.length === 0;
 
-  const filteredTimezones = filterTimezones(timezoneSearch);
+  // Each system booking type has its own hours
+  const selectedVariant = config?.variants?.find(v => v.id === consultationType);
+  const availability: BookingAvailability | undefined = selectedVariant || config;
+
+  // Server slots for the visible month
+  const { from: slotsFrom, to: slotsTo } = getBookingSlotsRange(currentCalendarMonth);
+  const needsVariant = !!config?.isSystemBooking && !selectedVariant;
+
+  const { data: serverSlots, isFetching: isLoadingSlots } = useGetBookingSlotsQuery(
+    {
+      id: linkId || '',
+      from: slotsFrom.toISOString(),
+      to: slotsTo.toISOString(),
+      tz: selectedTimezone,
+      ...(config?.isSystemBooking && consultationType && { type: consultationType })
+    },
+    { skip: !linkId || !config || !selectedTimezone || needsVariant || !slotsTo.isAfter(slotsFrom) }
+  );
+  const useServerSlots = !!linkId && !!config;
+  const [bookConsultation, { isLoading: isBooking }] = useBookConsultationMutation();
 
   const getAvailableDates = (): Set<string> => {
+    if (useServerSlots) {
+      return new Set((serverSlots?.slots || []).map(slot => slot.date));
+    }
+
+
     const availableDates = new Set<string>();
     let currentDate = dayjs().add(1, 'day');
     let count = 0;
-    const bufferHours = config?.bufferHours || 48;
+    const bufferHours = availability?.bufferHours || 48;
     
     while (count < 30) {
-      if (config?.availableDays) {
-        const dayName = currentDate.format('dddd').toLowerCase();
-        if (config.availableDays.includes(dayName)) {
+      if (availability?.availableDays) {
+        if (availability.availableDays.length === 0) break;
+        const dayName = currentDate.format('dddd').toLowerCase() as Weekday;
+        if (availability.availableDays.includes(dayName)) {
           if (count % Math.ceil(bufferHours / 24) === 0) {
             availableDates.add(currentDate.format('YYYY-MM-DD'));
           }
@@ -114,12 +128,16 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
   };
   
   const availableDates = getAvailableDates();
-  const isDateAvailable = (date: Dayjs) => availableDates.has(date.format('YYYY-MM-DD'));
 
   const generateTimeSlots = (): string[] => {
-    if (config && selectedDate) {
-      const dayName = selectedDate.format('dddd').toLowerCase();
-      const dayTimes = config.availableTimes[dayName];
+    if (useServerSlots) {
+      const date = selectedDate?.format('YYYY-MM-DD');
+      return (serverSlots?.slots || []).filter(slot => slot.date === date).map(slot => slot.time);
+    }
+
+    if (availability && selectedDate) {
+      const dayName = selectedDate.format('dddd').toLowerCase() as Weekday;
+      const dayTimes = availability.availableTimes[dayName];
       
       if (dayTimes) {
         const slots: string[] = [];
@@ -147,16 +165,51 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
 
   const timeSlots = generateTimeSlots();
 
-  const handleSubmit = () => {
-    console.log('Booking submitted:', { 
-      type: consultationType, 
-      date: selectedDate?.format('YYYY-MM-DD'), 
-      time: selectedTime, 
-      timezone: selectedTimezone, 
-      ...formData,
-      config 
-    });
-    setIsSubmitted(true);
+  // A taken slot sends the booker back to pick another time
+  const handleSlotTaken = (message: string) => {
+    setSubmitError(message);
+    setSelectedTime('');
+    setStep(2);
+  };
+
+  const handleSubmit = async () => {
+    if (!useServerSlots) {
+      setIsSubmitted(true);
+      return;
+    }
+
+    const date = selectedDate?.format('YYYY-MM-DD');
+    const slot = serverSlots?.slots.find(s => s.date === date && s.time === selectedTime);
+
+    if (!slot) {
+      handleSlotTaken('That time is no longer available. Please pick another.');
+      return;
+    }
+
+    setSubmitError('');
+
+    try {
+      const confirmation = await bookConsultation({
+        id: linkId!,
+        start: slot.start,
+        ...(config?.isSystemBooking && consultationType && { type: consultationType }),
+        name: formData.name.trim(),
+        email: formData.email.trim(),
+        ...(formData.company.trim() && { company: formData.company.trim() }),
+        ...(formData.projectDescription.trim() && { projectDescription: formData.projectDescription.trim() }),
+        timezone: selectedTimezone
+      }).unwrap();
+
+      setMeetingUrl(confirmation.meetingUrl);
+      setIsSubmitted(true);
+    } catch (err: any) {
+      const message = err?.data?.error?.message || 'Failed to book. Please try again.';
+      if (err?.status === 409) {
+        handleSlotTaken(message);
+      } else {
+        setSubmitError(message);
+      }
+    }
   };
 
   const resetForm = () => {
@@ -166,10 +219,12 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
     setSelectedTime('');
     setFormData({ name: '', email: '', company: '', projectDescription: '' });
     setIsSubmitted(false);
+    setMeetingUrl('');
+    setSubmitError('');
     setCurrentCalendarMonth(dayjs().month());
   };
 
-  const handleConsultationTypeSelect = (type: any) => {
+  const handleConsultationTypeSelect = (type: string) => {
     setConsultationType(type);
     setStep(2);
   };
@@ -188,25 +243,12 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
     }
   };
 
-  const getMonthDays = (monthIndex: number): Dayjs[][] => {
-    const year = dayjs().year();
-    const firstDayOfMonth = dayjs(new Date(year, monthIndex, 1)).day();
-    let currentMonthCount = 0 - firstDayOfMonth;
-    return new Array(6).fill([]).map(() => new Array(7).fill(null).map(() => {
-      currentMonthCount++;
-      return dayjs(new Date(year, monthIndex, currentMonthCount));
-    }));
-  };
-
-  const handlePrevCalendarMonth = () => setCurrentCalendarMonth(currentCalendarMonth - 1);
-  const handleNextCalendarMonth = () => setCurrentCalendarMonth(currentCalendarMonth + 1);
-
   const getCurrentTimezoneDisplay = () => {
     return getTimezoneDisplay(selectedTimezone);
   };
 
   const displayConfig = config?.isSystemBooking && consultationType
-    ? SYSTEM_BOOKING_CONSULTATIONS.find(t => t.id === consultationType)
+    ? activeVariants.find(t => t.id === consultationType)
     : config 
       ? {
           title: config.consultationType,
@@ -302,6 +344,9 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
             <p className="font-semibold text-blue-900 text-sm">{selectedDate?.format('dddd, MMMM D, YYYY')}</p>
             <p className="text-blue-700 font-bold text-lg">{selectedTime}</p>
             <p className="text-xs text-blue-500 mt-1">{getCurrentTimezoneDisplay()}</p>
+            {meetingUrl && (
+              <a href={meetingUrl} className="block text-xs text-blue-600 hover:underline mt-2 truncate">{meetingUrl}</a>
+            )}
           </div>
           <button onClick={() => { resetForm(); onClose(); }} className="w-full px-6 py-3 bg-blue-900 hover:bg-blue-800 text-white font-semibold rounded-xl transition-all shadow-lg shadow-blue-900/20">Done</button>
           <div className="mt-6 flex items-center justify-center space-x-1.5 opacity-40">
@@ -362,6 +407,12 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
           </div>
 
           <div className="flex-1 overflow-y-auto p-4 md:p-6 custom-scrollbar">
+            {submitError && (
+              <div className="mb-4 flex items-center gap-2 px-3 py-2 bg-red-50 border border-red-100 rounded-lg text-xs text-red-700">
+                <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                {submitError}
+              </div>
+            )}
             <AnimatePresence mode="wait">
               {step === 1 && (!config || config.isSystemBooking) && (
                 <motion.div key="step1" initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} className="space-y-3">
@@ -382,62 +433,20 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
               )}
 
               {step === 2 && (
-                <motion.div key="step2" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="flex flex-col lg:flex-row gap-6 h-full justify-center">
-                  <div className="flex-1 max-w-[340px] flex flex-col mx-auto lg:mx-0">
-                    <button onClick={() => setShowTimezoneDropdown(!showTimezoneDropdown)} className="w-full mb-4 px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-lg text-left transition-colors flex items-center justify-between text-xs font-medium text-gray-600 border border-transparent hover:border-gray-200">
-                      <span className="flex items-center truncate"><Globe className="w-3 h-3 mr-2 text-gray-400" />{getCurrentTimezoneDisplay()}</span>
-                      <ChevronRight className={`w-3 h-3 transition-transform ${showTimezoneDropdown ? 'rotate-90' : ''}`} />
-                    </button>
-
-                    <AnimatePresence>
-                      {showTimezoneDropdown && (
-                        <motion.div initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }} className="mb-4 overflow-hidden border border-gray-100 rounded-lg shadow-sm">
-                          <div className="p-2 bg-gray-50">
-                            <input type="text" value={timezoneSearch} onChange={(e) => setTimezoneSearch(e.target.value)} placeholder="Search..." className="w-full px-2 py-1.5 text-xs bg-white border border-gray-200 rounded focus:outline-none focus:border-blue-500" />
-                          </div>
-                          <div className="max-h-32 overflow-y-auto">
-                            {filteredTimezones.map(tz => (
-                              <button key={tz.value} onClick={() => { setSelectedTimezone(tz.value); setShowTimezoneDropdown(false); }} className="w-full text-left px-3 py-2 text-xs hover:bg-blue-50 text-gray-700 truncate">{tz.label}</button>
-                            ))}
-                          </div>
-                        </motion.div>
-                      )}
-                    </AnimatePresence>
-
-                    <div className="bg-white border border-gray-100 rounded-xl p-4 shadow-sm">
-                      <div className="flex items-center justify-between mb-4 px-1">
-                        <button onClick={handlePrevCalendarMonth} className="p-1 hover:bg-gray-50 rounded-full text-gray-400 hover:text-gray-600 transition-colors"><ChevronLeft className="w-4 h-4" /></button>
-                        <span className="text-sm font-bold text-gray-800">{dayjs(new Date(dayjs().year(), currentCalendarMonth)).format('MMMM YYYY')}</span>
-                        <button onClick={handleNextCalendarMonth} className="p-1 hover:bg-gray-50 rounded-full text-gray-400 hover:text-gray-600 transition-colors"><ChevronRight className="w-4 h-4" /></button>
-                      </div>
-                      <div className="grid grid-cols-7 gap-1 mb-2">
-                        {['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'].map(d => <div key={d} className="text-center text-[10px] font-bold text-gray-400">{d}</div>)}
-                      </div>
-                      <div className="grid grid-cols-7 gap-1">
-                        {getMonthDays(currentCalendarMonth).flat().map((day, idx) => {
-                          const isCurrentMonth = day.month() === currentCalendarMonth;
-                          const isAvailable = isDateAvailable(day) && isCurrentMonth;
-                          const isSelected = selectedDate?.format('YYYY-MM-DD') === day.format('YYYY-MM-DD');
-                          return (
-                            <button key={idx} onClick={() => isAvailable && setSelectedDate(day)} disabled={!isAvailable} className={`aspect-square rounded-lg flex items-center justify-center text-xs font-medium transition-all duration-200 relative ${!isCurrentMonth ? 'invisible' : ''} ${isSelected ? 'bg-blue-600 text-white shadow-md scale-100 z-10' : ''} ${!isSelected && isAvailable ? 'text-gray-700 hover:bg-blue-50 hover:text-blue-600' : ''} ${!isSelected && !isAvailable ? 'text-gray-300 cursor-not-allowed' : ''}`}>
-                              {day.date()}
-                            </button>
-                          );
-                        })}
-                      </div>
-                    </div>
-                  </div>
-
-                  {selectedDate && (
-                    <motion.div initial={{ opacity: 0, x: 10 }} animate={{ opacity: 1, x: 0 }} className="w-full lg:w-40 flex flex-col border-t lg:border-t-0 lg:border-l border-gray-100 pt-4 lg:pt-0 lg:pl-6">
-                      <h4 className="text-xs font-bold text-gray-900 mb-3 sticky top-0 bg-white z-10 py-1">{selectedDate.format('ddd, MMM D')}</h4>
-                      <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-2 max-h-[350px]">
-                        {timeSlots.map((time) => (
-                          <button key={time} onClick={() => { setSelectedTime(time); setStep(3); }} className={`w-full px-3 py-2 rounded-lg text-xs font-semibold border transition-all ${selectedTime === time ? 'bg-blue-600 text-white border-blue-600 shadow-sm' : 'bg-white border-gray-200 text-gray-600 hover:border-blue-400 hover:text-blue-600'}`}>{time}</button>
-                        ))}
-                      </div>
-                    </motion.div>
-                  )}
+                <motion.div key="step2" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="h-full">
+                  <BookingSlotPicker
+                    availableDates={availableDates}
+                    timeSlots={timeSlots}
+                    isLoading={isLoadingSlots}
+                    selectedDate={selectedDate}
+                    onSelectDate={setSelectedDate}
+                    selectedTime={selectedTime}
+                    onSelectTime={(time) => { setSelectedTime(time); setSubmitError(''); setStep(3); }}
+                    timezone={selectedTimezone}
+                    onTimezoneChange={setSelectedTimezone}
+                    month={currentCalendarMonth}
+                    onMonthChange={setCurrentCalendarMonth}
+                  />
                 </motion.div>
               )}
 
@@ -502,11 +511,11 @@ const ConsultationBooking: React.FC<ConsultationBookingProps> = ({
                     whileHover={{ scale: 1.02 }} 
                     whileTap={{ scale: 0.98 }} 
                     onClick={handleSubmit} 
-                    disabled={!formData.name || !formData.email} 
+                    disabled={!formData.name || !formData.email || isBooking} 
                     className="flex items-center space-x-2 px-4 py-2 bg-blue-900 hover:bg-blue-800 text-white text-xs font-bold rounded-lg shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <span>Confirm</span>
-                    <CheckCircle className="w-3.5 h-3.5" />
+                    {isBooking ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <CheckCircle className="w-3.5 h-3.5" />}
                   </motion.button>
                 )}
               </div>
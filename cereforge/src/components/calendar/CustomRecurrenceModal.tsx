@@ -5,6 +5,23 @@ import { motion, AnimatePresence } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
 import type { RecurrenceConfig } from '@/types/calendar.types';
 
+type MonthlyMode = 'monthDay' | 'nthWeekday' | 'lastWeekday';
+
+const ordinalLabel = (n: number): string => {
+  if (n === -1) return 'last';
+  const suffix = n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Nth (or last, ordinal -1) weekday of the month containing `month`
+ */
+const weekdayOfMonth = (month: Dayjs, weekday: number, ordinal: number): Dayjs | null => {
+  const days = Array.from({ length: month.daysInMonth() }, (_, i) => month.startOf('month').add(i, 'day'))
+    .filter(d => d.day() === weekday);
+  return (ordinal > 0 ? days[ordinal - 1] : days[days.length + ordinal]) || null;
+};
+
 interface CustomRecurrenceModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -48,6 +65,16 @@ const CustomRecurrenceModal: React.FC<CustomRecurrenceModalProps> = ({
       : 10
   );
 
+  // Monthly: same date, or the same weekday by position ("2nd Tuesday", "last Friday")
+  const startWeekdayOrdinal = Math.ceil(eventStartDate.date() / 7);
+  const startIsLastWeekday = eventStartDate.date() + 7 > eventStartDate.daysInMonth();
+
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>(() => {
+    const weekday = initialRecurrence?.type === 'custom' ? initialRecurrence.config.byWeekday?.[0] : undefined;
+    if (!weekday?.ordinal) return 'monthDay';
+    return weekday.ordinal === -1 ? 'lastWeekday' : 'nthWeekday';
+  });
+
   const weekDays = [
     { label: 'S', value: 0, full: 'Sunday' },
     { label: 'M', value: 1, full: 'Monday' },
@@ -95,6 +122,14 @@ const CustomRecurrenceModal: React.FC<CustomRecurrenceModalProps> = ({
           }
         }
         currentDate = currentDate.add(repeatEvery, 'week');
+      } else if (repeatUnit === 'month' && monthlyMode !== 'monthDay') {
+        const ordinal = monthlyMode === 'lastWeekday' ? -1 : startWeekdayOrdinal;
+        const occurrence = weekdayOfMonth(currentDate, eventStartDate.day(), ordinal);
+        if (occurrence) {
+          previews.push(occurrence.hour(eventStartDate.hour()).format('ddd, MMM D, YYYY'));
+          count++;
+        }
+        currentDate = currentDate.add(repeatEvery, 'month');
       } else {
         if (count === 0) {
           previews.push(currentDate.format('ddd, MMM D, YYYY'));
@@ -120,6 +155,12 @@ const CustomRecurrenceModal: React.FC<CustomRecurrenceModalProps> = ({
       label += ` on ${dayNames}`;
     }
 
+    if (repeatUnit === 'month') {
+      label += monthlyMode === 'monthDay'
+        ? ` on day ${eventStartDate.date()}`
+        : ` on the ${ordinalLabel(monthlyMode === 'lastWeekday' ? -1 : startWeekdayOrdinal)} ${eventStartDate.format('dddd')}`;
+    }
+
     if (endType === 'on') {
       label += `, until ${dayjs(endDate).format('MMM D, YYYY')}`;
     } else if (endType === 'after') {
@@ -137,6 +178,12 @@ const CustomRecurrenceModal: React.FC<CustomRecurrenceModalProps> = ({
         interval: repeatEvery,
         repeatUnit: repeatUnit,
         daysOfWeek: repeatUnit === 'week' ? repeatOn : [],
+        ...(repeatUnit === 'month' && monthlyMode !== 'monthDay' && {
+          byWeekday: [{
+            day: eventStartDate.day(),
+            ordinal: monthlyMode === 'lastWeekday' ? -1 : startWeekdayOrdinal
+          }]
+        }),
         endType: endType,
         endDate: endType === 'on' ? new Date(endDate) : null,
         occurrences: endType === 'after' ? endOccurrences : null
@@ -239,6 +286,28 @@ const CustomRecurrenceModal: React.FC<CustomRecurrenceModalProps> = ({
             )}
           </AnimatePresence>
 
+          {/* Repeat On (Monthly) */}
+          {repeatUnit === 'month' && (
+            <div className="relative">
+              <select
+                value={monthlyMode}
+                onChange={(e) => setMonthlyMode(e.target.value as MonthlyMode)}
+                className="w-full px-3 py-1.5 border border-gray-300 rounded-md focus:border-blue-500 focus:ring-1 focus:ring-blue-500 text-sm bg-white outline-none cursor-pointer appearance-none"
+              >
+                <option value="monthDay">Monthly on day {eventStartDate.date()}</option>
+                {startWeekdayOrdinal <= 4 && (
+                  <option value="nthWeekday">
+                    Monthly on the {ordinalLabel(startWeekdayOrdinal)} {eventStartDate.format('dddd')}
+                  </option>
+                )}
+                {startIsLastWeekday && (
+                  <option value="lastWeekday">Monthly on the last {eventStartDate.format('dddd')}</option>
+                )}
+              </select>
+              <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+            </div>
+          )}
+
           {/* Ends Section - CLEAN LIST */}
           <div>
             <label className="block text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
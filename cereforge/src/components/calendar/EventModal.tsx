@@ -1,16 +1,22 @@
 // src/components/calendar/EventModal.tsx
 import React, { useState } from 'react';
-import { X, Calendar, Clock, MapPin, FileText, Users, Bell, Trash2, Save, Repeat, Globe, Mail, Send, AlertTriangle} from 'lucide-react';
+import { X, Calendar, Clock, MapPin, FileText, Users, Bell, Trash2, Save, Repeat, Globe, Mail, Send, CalendarSearch, AlertTriangle, Loader2, Lock, CalendarDays } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
 import CustomRecurrenceModal from './CustomRecurrenceModal';
-import { ConfirmationModal } from './modals/ModalsUtils';
+import FindTimePanel from './FindTimePanel';
+import { ChoiceModal } from './modals/ModalsUtils';
+import { getEventConflicts } from '@/utils/calendar.utils';
 import type {
   CalendarEvent,
   RecurrenceType,
   RecurrenceConfig,
+  RecurrenceEditScope,
   EventLabel,
-  Guest
+  Guest,
+  GuestResponseStatus,
+  EventConflict,
+  Calendar as SharedCalendar
 } from '@/types/calendar.types';
 
 interface EventModalProps {
@@ -18,23 +24,42 @@ interface EventModalProps {
   onClose: () => void;
   daySelected: Dayjs;
   selectedEvent?: CalendarEvent | null;
-  onSave: (event: CalendarEvent) => void;
-  onDelete?: (eventId: string) => void;
+  onSave: (event: CalendarEvent, scope?: RecurrenceEditScope, force?: boolean) => Promise<void> | void;
+  onDelete?: (eventId: string, scope?: RecurrenceEditScope) => void;
+  holidayCountry?: string;
+  calendars?: SharedCalendar[];
 }
 
+// Guest chip styling and RSVP summary order
+const RSVP_STATUS: Record<GuestResponseStatus, { label: string; chip: string; dot: string }> = {
+  accepted: { label: 'yes', chip: 'bg-green-50 border-green-200', dot: 'bg-green-500' },
+  declined: { label: 'no', chip: 'bg-red-50 border-red-200', dot: 'bg-red-500' },
+  maybe: { label: 'maybe', chip: 'bg-amber-50 border-amber-200', dot: 'bg-amber-500' },
+  pending: { label: 'awaiting', chip: 'bg-gray-100 border-gray-200', dot: 'bg-gray-400' }
+};
+
+const RECURRENCE_SCOPE_OPTIONS: { label: string; value: RecurrenceEditScope }[] = [
+  { label: 'This event', value: 'single' },
+  { label: 'This and following events', value: 'thisAndFuture' },
+  { label: 'All events', value: 'all' }
+];
+
 const EventModal: React.FC<EventModalProps> = ({
   isOpen,
   onClose,
   daySelected,
   selectedEvent,
   onSave,
-  onDelete
+  onDelete,
+  holidayCountry,
+  calendars = []
 }) => {
   // =========================================================================
   // 🧠 LOGIC SECTION (EXACTLY AS PROVIDED)
   // =========================================================================
   
   // ✅ Basic event fields
+  const [eventDay, setEventDay] = useState(daySelected);
   const [event, setEvent] = useState(selectedEvent?.event || selectedEvent?.title || '');
   const [description, setDescription] = useState(selectedEvent?.description || '');
   const [location, setLocation] = useState(selectedEvent?.location || '');
@@ -43,9 +68,27 @@ const EventModal: React.FC<EventModalProps> = ({
   const [endTime, setEndTime] = useState(selectedEvent?.endTime || '10:00');
   const [selectedLabel, setSelectedLabel] = useState<EventLabel>(selectedEvent?.label || 'blue');
 
+  // Events in calendars shared read-only (or free/busy) open as a view
+  const isReadOnly = selectedEvent?.isEditable === false;
+
+  // Calendars the user may add events to; new events default to the personal one
+  const writableCalendars = calendars.filter(cal => cal.access === 'owner' || cal.access === 'edit');
+  const [calendarId, setCalendarId] = useState(
+    selectedEvent?.calendarId || calendars.find(cal => cal.type === 'personal' && cal.access === 'owner')?.id || ''
+  );
+
   const [showRecurringUpdateModal, setShowRecurringUpdateModal] = useState(false);
+  const [showRecurringDeleteModal, setShowRecurringDeleteModal] = useState(false);
   const [pendingUpdateData, setPendingUpdateData] = useState<CalendarEvent | null>(null);
 
+  // Occurrences of a series (or overrides of one) ask which occurrences to change
+  const isRecurringEvent = !!selectedEvent && !!(
+    selectedEvent.isInstance ||
+    selectedEvent.parentEventId ||
+    (selectedEvent.recurrenceType && selectedEvent.recurrenceType !== 'none') ||
+    selectedEvent.isRecurringParent
+  );
+
   // ✅ Recurrence state
   const [recurrence, setRecurrence] = useState<RecurrenceType | RecurrenceConfig>(() => {
     if (!selectedEvent?.recurrence) return 'none';
@@ -73,6 +116,15 @@ const EventModal: React.FC<EventModalProps> = ({
   const [showCustomRecurrence, setShowCustomRecurrence] = useState(false);
   const [showGuestConfirm, setShowGuestConfirm] = useState(false);
   const [guestInput, setGuestInput] = useState('');
+  const [showFindTime, setShowFindTime] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A save the server refused because of overlaps, kept so it can be forced
+  const [conflictSave, setConflictSave] = useState<{
+    conflicts: EventConflict[];
+    event: CalendarEvent;
+    scope?: RecurrenceEditScope;
+  } | null>(null);
 
   const labels: EventLabel[] = ['indigo', 'grey', 'green', 'blue', 'red', 'purple'];
 
@@ -107,10 +159,33 @@ const EventModal: React.FC<EventModalProps> = ({
     }
   };
 
+  // RSVP summary for guests already saved on the event
+  const rsvpCounts = guests.reduce<Record<GuestResponseStatus, number>>(
+    (counts, guest) => {
+      if (guest.response_status) counts[guest.response_status]++;
+      return counts;
+    },
+    { accepted: 0, declined: 0, maybe: 0, pending: 0 }
+  );
+  const hasGuestResponses = guests.some(guest => guest.response_status);
+
   const handleRemoveGuest = (email: string) => {
     setGuests(guests.filter(g => g.email !== email));
   };
 
+  // Length to search for; all-day or invalid ranges fall back to an hour
+  const timedDuration = dayjs(`2000-01-01 ${endTime}`).diff(dayjs(`2000-01-01 ${startTime}`), 'minute');
+  const findTimeDuration = !allDay && timedDuration >= 5 ? timedDuration : 60;
+
+  // Picking a suggested slot moves the event to that day and time
+  const handleSelectSlot = (start: Dayjs, end: Dayjs) => {
+    setEventDay(start.startOf('day'));
+    setAllDay(false);
+    setStartTime(start.format('HH:mm'));
+    setEndTime(end.format('HH:mm'));
+    setShowFindTime(false);
+  };
+
   // ✅ FIX: This function is now used in the render method below
   const calculateDuration = () => {
     if (allDay) return 'All day';
@@ -142,16 +217,9 @@ const EventModal: React.FC<EventModalProps> = ({
 
   // ✅ Save with guest confirmation
   const handleSubmit = () => {
-    if (!event.trim()) return;
-
-    const isRecurringInstance = selectedEvent && (
-      selectedEvent.isInstance ||
-      selectedEvent.parentEventId ||
-      (selectedEvent.recurrenceType && selectedEvent.recurrenceType !== 'none') ||
-      (selectedEvent.isRecurringParent)
-    );
+    if (!event.trim() || isReadOnly) return;
 
-    if (isRecurringInstance) {
+    if (isRecurringEvent) {
       const eventData: CalendarEvent = {
         id: selectedEvent?.id || selectedEvent?.eventId || `event_${Date.now()}`,
         eventId: selectedEvent?.eventId || `event_${Date.now()}`,
@@ -159,7 +227,7 @@ const EventModal: React.FC<EventModalProps> = ({
         event: event,
         description,
         location,
-        day: daySelected.valueOf(),
+        day: eventDay.valueOf(),
         allDay,
         startTime: allDay ? '00:00' : startTime,
         endTime: allDay ? '23:59' : endTime,
@@ -169,6 +237,9 @@ const EventModal: React.FC<EventModalProps> = ({
         guests: guests,
         selectedGuest: guests,
         userId: selectedEvent?.userId,
+        calendarId: calendarId || undefined,
+        parentEventId: selectedEvent?.parentEventId,
+        originalStart: selectedEvent?.originalStart,
         notification: {
           type: notificationType,
           interval: notificationType === 'Snooze' ? null : notificationInterval,
@@ -202,7 +273,7 @@ const EventModal: React.FC<EventModalProps> = ({
       event: event,
       description,
       location,
-      day: daySelected.valueOf(),
+      day: eventDay.valueOf(),
       allDay,
       startTime: allDay ? '00:00' : startTime,
       endTime: allDay ? '23:59' : endTime,
@@ -212,6 +283,7 @@ const EventModal: React.FC<EventModalProps> = ({
       guests: guests,
       selectedGuest: guests,
       userId: selectedEvent?.userId,
+      calendarId: calendarId || undefined,
       notification: {
         type: notificationType,
         interval: notificationType === 'Snooze' ? null : notificationInterval,
@@ -226,14 +298,28 @@ const EventModal: React.FC<EventModalProps> = ({
 
     (eventData as any).sendInvitations = sendInvites;
     console.log('💾 EventModal: Final event data being saved:', eventData);
-    onSave(eventData);
     setShowGuestConfirm(false);
-    onClose();
+    submitEvent(eventData);
+  };
+
+  // Stays open when the save overlaps other events so the user can decide
+  const submitEvent = async (eventData: CalendarEvent, scope?: RecurrenceEditScope, force = false) => {
+    setIsSaving(true);
+    try {
+      await onSave(eventData, scope, force);
+      setConflictSave(null);
+      onClose();
+    } catch (error) {
+      const conflicts = getEventConflicts(error);
+      if (conflicts) setConflictSave({ conflicts, event: eventData, scope });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
-  const handleDelete = () => {
+  const handleDelete = (scope?: RecurrenceEditScope) => {
     if (selectedEvent && onDelete) {
-      onDelete(selectedEvent.id || selectedEvent.eventId!);
+      onDelete(selectedEvent.id || selectedEvent.eventId!, scope);
       onClose();
     }
   };
@@ -258,17 +344,17 @@ const EventModal: React.FC<EventModalProps> = ({
           <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-white shrink-0">
             <div>
               <h2 className="text-xl font-bold text-gray-900">
-                {selectedEvent ? 'Edit Event' : 'New Event'}
+                {isReadOnly ? 'Event Details' : selectedEvent ? 'Edit Event' : 'New Event'}
               </h2>
               <div className="flex items-center text-sm text-gray-500 mt-0.5">
                 <Calendar className="w-3.5 h-3.5 mr-1.5" />
-                {daySelected.format('dddd, MMMM D, YYYY')}
+                {eventDay.format('dddd, MMMM D, YYYY')}
               </div>
             </div>
             <div className="flex items-center gap-2">
-              {selectedEvent && (
+              {selectedEvent && !isReadOnly && (
                 <button
-                  onClick={() => setShowDeleteConfirm(true)}
+                  onClick={() => isRecurringEvent ? setShowRecurringDeleteModal(true) : setShowDeleteConfirm(true)}
                   className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
                   title="Delete Event"
                 >
@@ -286,6 +372,13 @@ const EventModal: React.FC<EventModalProps> = ({
 
           {/* Body - SCROLLABLE */}
           <div className="flex-1 overflow-y-auto p-6 space-y-6">
+
+            {isReadOnly && (
+              <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-600">
+                <Lock className="w-4 h-4 text-gray-400 shrink-0" />
+                This event is in a calendar shared with you as view only.
+              </div>
+            )}
             
             {/* Title Input - Large & Borderless */}
             <div>
@@ -419,11 +512,43 @@ const EventModal: React.FC<EventModalProps> = ({
                       Add
                     </button>
                   </div>
+                  <button
+                    type="button"
+                    onClick={() => setShowFindTime(!showFindTime)}
+                    className="flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    <CalendarSearch className="w-4 h-4" />
+                    {showFindTime ? 'Hide suggestions' : 'Find a time'}
+                  </button>
+                  {showFindTime && (
+                    <FindTimePanel
+                      attendees={guests.map(guest => guest.email)}
+                      durationMinutes={findTimeDuration}
+                      fromDay={eventDay}
+                      timezone={timezone}
+                      holidayCountry={holidayCountry}
+                      onSelect={handleSelectSlot}
+                    />
+                  )}
+                  {hasGuestResponses && (
+                    <p className="text-xs text-gray-500">
+                      {(Object.keys(RSVP_STATUS) as GuestResponseStatus[])
+                        .filter(status => rsvpCounts[status] > 0)
+                        .map(status => `${rsvpCounts[status]} ${RSVP_STATUS[status].label}`)
+                        .join(' · ')}
+                    </p>
+                  )}
                   {guests.length > 0 && (
                     <div className="flex flex-wrap gap-2">
                       {guests.map((guest, idx) => (
-                        <div key={idx} className="flex items-center gap-1.5 px-2 py-1 bg-gray-100 rounded-md border border-gray-200">
-                          <Mail className="w-3 h-3 text-gray-500" />
+                        <div
+                          key={idx}
+                          title={guest.response_status ? `Response: ${RSVP_STATUS[guest.response_status].label}` : undefined}
+                          className={`flex items-center gap-1.5 px-2 py-1 rounded-md border ${RSVP_STATUS[guest.response_status || 'pending'].chip}`}
+                        >
+                          {guest.response_status
+                            ? <span className={`w-2 h-2 rounded-full ${RSVP_STATUS[guest.response_status].dot}`} />
+                            : <Mail className="w-3 h-3 text-gray-500" />}
                           <span className="text-xs text-gray-700">{guest.email}</span>
                           <button onClick={() => handleRemoveGuest(guest.email)} className="text-gray-400 hover:text-red-500 ml-1">
                             <X className="w-3 h-3" />
@@ -444,7 +569,8 @@ const EventModal: React.FC<EventModalProps> = ({
                     onChange={(e) => setNotificationType(e.target.value as any)}
                     className="px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
                   >
-                    <option value="Snooze">Notification</option>
+                    {/* 'Snooze' is stored as "no reminder" */}
+                    <option value="Snooze">No reminder</option>
                     <option value="Email">Email</option>
                     <option value="Number">SMS</option>
                   </select>
@@ -476,6 +602,22 @@ const EventModal: React.FC<EventModalProps> = ({
                 />
               </div>
 
+              {/* Calendar */}
+              {writableCalendars.length > 1 && !isReadOnly && (
+                <div className="flex items-center gap-4">
+                  <CalendarDays className="w-5 h-5 text-gray-400 shrink-0" />
+                  <select
+                    value={calendarId}
+                    onChange={(e) => setCalendarId(e.target.value)}
+                    className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+                  >
+                    {writableCalendars.map(cal => (
+                      <option key={cal.id} value={cal.id}>{cal.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* Label Colors */}
               <div className="flex items-center gap-4 pt-1">
                  <div className="w-5 h-5" /> {/* Spacer for icon alignment */}
@@ -510,10 +652,10 @@ const EventModal: React.FC<EventModalProps> = ({
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
                 onClick={handleSubmit}
-                disabled={!event.trim()}
+                disabled={!event.trim() || isSaving || isReadOnly}
                 className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg shadow-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                <Save className="w-4 h-4" />
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
                 <span>{selectedEvent ? 'Update Event' : 'Create Event'}</span>
               </motion.button>
           </div>
@@ -542,6 +684,47 @@ const EventModal: React.FC<EventModalProps> = ({
             )}
           </AnimatePresence>
 
+          {/* Conflict Warning Modal */}
+          <AnimatePresence>
+            {conflictSave && (
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="absolute inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-20">
+                <div className="bg-white rounded-xl p-6 max-w-sm w-full shadow-2xl">
+                  <div className="text-center mb-4">
+                    <div className="w-12 h-12 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                      <AlertTriangle className="w-6 h-6 text-amber-600" />
+                    </div>
+                    <h3 className="text-lg font-bold text-gray-900">Time conflict</h3>
+                    <p className="text-sm text-gray-600 mt-1">This overlaps with:</p>
+                  </div>
+                  <ul className="space-y-2 mb-5 max-h-48 overflow-y-auto">
+                    {conflictSave.conflicts.map(conflict => (
+                      <li key={`${conflict.eventId}-${conflict.start}`} className="px-3 py-2 bg-amber-50 border border-amber-100 rounded-lg">
+                        <p className="text-sm font-medium text-gray-900 truncate flex items-center gap-1.5">
+                          {conflict.recurring && <Repeat className="w-3.5 h-3.5 text-gray-400 shrink-0" />}
+                          {conflict.title}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {dayjs(conflict.start).format('ddd, MMM D · h:mm A')} – {dayjs(conflict.end).format('h:mm A')}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="space-y-2">
+                    <button
+                      onClick={() => submitEvent(conflictSave.event, conflictSave.scope, true)}
+                      disabled={isSaving}
+                      className="w-full py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                      {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Save anyway
+                    </button>
+                    <button onClick={() => setConflictSave(null)} className="w-full py-2 text-gray-500 hover:text-gray-700 text-sm font-medium">Change time</button>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           {/* Delete Confirmation Modal */}
           <AnimatePresence>
             {showDeleteConfirm && (
@@ -554,7 +737,7 @@ const EventModal: React.FC<EventModalProps> = ({
                   <p className="text-sm text-gray-600 mb-6">Are you sure? This cannot be undone.</p>
                   <div className="flex gap-3">
                     <button onClick={() => setShowDeleteConfirm(false)} className="flex-1 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200">Cancel</button>
-                    <button onClick={handleDelete} className="flex-1 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700">Delete</button>
+                    <button onClick={() => handleDelete()} className="flex-1 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700">Delete</button>
                   </div>
                 </div>
               </motion.div>
@@ -573,17 +756,24 @@ const EventModal: React.FC<EventModalProps> = ({
         eventStartDate={daySelected}
       />
 
-      <ConfirmationModal
+      <ChoiceModal
         isOpen={showRecurringUpdateModal}
         onClose={() => { setShowRecurringUpdateModal(false); setPendingUpdateData(null); }}
-        onConfirm={() => { if (pendingUpdateData) { onSave(pendingUpdateData); setPendingUpdateData(null); onClose(); } }}
-        title="Update Recurring Series"
-        message="This will update this and all future events in the series."
-        icon={<AlertTriangle className="w-6 h-6 text-amber-600" />}
-        iconBgColor="bg-amber-100"
-        confirmText="Update Series"
-        confirmColor="bg-blue-600 hover:bg-blue-700"
-        cancelText="Cancel"
+        onSelect={(scope) => { if (pendingUpdateData) { submitEvent(pendingUpdateData, scope as RecurrenceEditScope); setPendingUpdateData(null); } }}
+        title="Edit Recurring Event"
+        message="Apply your changes to:"
+        options={RECURRENCE_SCOPE_OPTIONS}
+        icon={<Repeat className="w-6 h-6 text-blue-600" />}
+      />
+
+      <ChoiceModal
+        isOpen={showRecurringDeleteModal}
+        onClose={() => setShowRecurringDeleteModal(false)}
+        onSelect={(scope) => handleDelete(scope as RecurrenceEditScope)}
+        title="Delete Recurring Event"
+        message="Which events do you want to delete? This cannot be undone."
+        options={RECURRENCE_SCOPE_OPTIONS.map(option => ({ ...option, color: 'bg-red-600 hover:bg-red-700' }))}
+        icon={<Trash2 className="w-6 h-6 text-red-600" />}
       />
     </AnimatePresence>
   );
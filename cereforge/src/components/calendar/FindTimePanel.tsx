@@ -0,0 +1,166 @@
+// src/components/calendar/FindTimePanel.tsx
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, AlertCircle, CircleDashed } from 'lucide-react';
+import dayjs, { Dayjs } from 'dayjs';
+import { useGetFreeBusyQuery } from '@/store/api/calendarApi';
+import type { BusyInterval } from '@/types/calendar.types';
+
+interface FindTimePanelProps {
+  attendees: string[];
+  durationMinutes: number;
+  fromDay: Dayjs;
+  timezone: string;
+  holidayCountry?: string;
+  onSelect: (start: Dayjs, end: Dayjs) => void;
+}
+
+const DAYS_PER_PAGE = 7;
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const FindTimePanel: React.FC<FindTimePanelProps> = ({
+  attendees,
+  durationMinutes,
+  fromDay,
+  timezone,
+  holidayCountry,
+  onSelect
+}) => {
+  const [rangeStart, setRangeStart] = useState(() =>
+    fromDay.isBefore(dayjs(), 'day') ? dayjs().startOf('day') : fromDay.startOf('day')
+  );
+  const [workStart, setWorkStart] = useState('09:00');
+  const [workEnd, setWorkEnd] = useState('17:00');
+
+  const validHours = workEnd > workStart;
+
+  const { data, isFetching, error } = useGetFreeBusyQuery(
+    {
+      emails: attendees,
+      start: rangeStart.toISOString(),
+      end: rangeStart.add(DAYS_PER_PAGE, 'day').toISOString(),
+      timezone,
+      durationMinutes,
+      workingHours: { days: WEEKDAYS, start: workStart, end: workEnd },
+      holidayCountry
+    },
+    { skip: !validHours }
+  );
+
+  // Suggestions grouped under their local day
+  const suggestionsByDay = useMemo(() => {
+    const groups = new Map<string, BusyInterval[]>();
+    for (const slot of data?.suggestions || []) {
+      const key = dayjs(slot.start).format('YYYY-MM-DD');
+      groups.set(key, [...(groups.get(key) || []), slot]);
+    }
+    return [...groups.entries()];
+  }, [data]);
+
+  const canGoBack = rangeStart.isAfter(dayjs(), 'day');
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3 bg-gray-50">
+      {/* Range + working hours */}
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => setRangeStart(rangeStart.subtract(DAYS_PER_PAGE, 'day'))}
+            disabled={!canGoBack}
+            className="p-1 text-gray-500 hover:bg-gray-200 rounded disabled:opacity-30"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-xs font-medium text-gray-700">
+            {rangeStart.format('MMM D')} – {rangeStart.add(DAYS_PER_PAGE - 1, 'day').format('MMM D')}
+          </span>
+          <button
+            type="button"
+            onClick={() => setRangeStart(rangeStart.add(DAYS_PER_PAGE, 'day'))}
+            className="p-1 text-gray-500 hover:bg-gray-200 rounded"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex items-center gap-1 text-xs text-gray-500">
+          <span>Working hours</span>
+          <input
+            type="time"
+            value={workStart}
+            onChange={(e) => setWorkStart(e.target.value)}
+            className="px-1.5 py-0.5 border border-gray-300 rounded text-xs outline-none focus:border-blue-500"
+          />
+          <span>-</span>
+          <input
+            type="time"
+            value={workEnd}
+            onChange={(e) => setWorkEnd(e.target.value)}
+            className="px-1.5 py-0.5 border border-gray-300 rounded text-xs outline-none focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      {!validHours ? (
+        <p className="text-xs text-red-600">Working hours must end after they start.</p>
+      ) : isFetching && !data ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-2 text-xs text-red-600">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <span>Couldn't check availability. Try again later.</span>
+        </div>
+      ) : data ? (
+        <>
+          {/* Who was checked */}
+          <div className="flex flex-wrap gap-1.5">
+            {data.calendars.map(calendar => (
+              <span
+                key={calendar.email}
+                title={calendar.internal ? `${calendar.busy.length} busy block(s) this week` : 'Not a Cereforge user - availability unknown'}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border ${calendar.internal ? 'bg-white border-gray-200 text-gray-700' : 'bg-gray-100 border-dashed border-gray-300 text-gray-500'}`}
+              >
+                {!calendar.internal && <CircleDashed className="w-3 h-3" />}
+                {calendar.name || calendar.email}
+              </span>
+            ))}
+          </div>
+
+          {data.holidays.length > 0 && (
+            <p className="text-xs text-gray-500">
+              Skipping {data.holidays.map(holiday => `${holiday.title} (${dayjs(holiday.date).format('MMM D')})`).join(', ')}
+            </p>
+          )}
+
+          {/* Suggested slots */}
+          {suggestionsByDay.length === 0 ? (
+            <p className="text-xs text-gray-500">No time works for everyone this week.</p>
+          ) : (
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {suggestionsByDay.map(([date, slots]) => (
+                <div key={date}>
+                  <p className="text-xs font-semibold text-gray-600 mb-1">{dayjs(date).format('ddd, MMM D')}</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {slots.map(slot => (
+                      <button
+                        key={slot.start}
+                        type="button"
+                        onClick={() => onSelect(dayjs(slot.start), dayjs(slot.end))}
+                        className="px-2 py-1 bg-white border border-gray-200 hover:border-blue-500 hover:text-blue-600 text-xs text-gray-700 rounded-md transition-colors"
+                      >
+                        {dayjs(slot.start).format('h:mm A')}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+};
+
+export default FindTimePanel;
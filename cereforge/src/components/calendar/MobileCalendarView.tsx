@@ -3,6 +3,7 @@ import { ChevronLeft, Menu, Search, Plus, Calendar, Inbox, Clock, MapPin, Users
 import { motion, AnimatePresence } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
 import { CalendarEvent } from '@/types/calendar.types';
+import { calendarStripeStyle } from '@/utils/calendar.utils';
 
 interface MobileCalendarViewProps {
   events: CalendarEvent[];
@@ -358,7 +359,7 @@ const MobileCalendarView: React.FC<MobileCalendarViewProps> = ({
                               whileTap={{ scale: 0.98 }}
                               onClick={() => handleEventClick(event)}
                               className="bg-gray-900 rounded-lg p-3 border-l-4 cursor-pointer"
-                              style={{ borderLeftColor: labelColors[event.label] }}
+                              style={{ borderLeftColor: labelColors[event.label], ...calendarStripeStyle(event) }}
                             >
                               <div className="flex items-start justify-between">
                                 <div className="flex-1">
@@ -428,7 +429,7 @@ const MobileCalendarView: React.FC<MobileCalendarViewProps> = ({
                         whileTap={{ scale: 0.98 }}
                         onClick={() => handleEventClick(evt)}
                         className="px-4 py-3 rounded-xl cursor-pointer"
-                        style={{ backgroundColor: labelColors[evt.label] }}
+                        style={{ backgroundColor: labelColors[evt.label], ...calendarStripeStyle(evt) }}
                       >
                         <div className="flex items-center justify-between">
                           <span className="font-semibold text-white">{evt.event}</span>
@@ -493,7 +494,7 @@ const MobileCalendarView: React.FC<MobileCalendarViewProps> = ({
                           whileTap={{ scale: 0.98 }}
                           onClick={() => handleEventClick(evt)}
                           className="absolute left-2 right-2 rounded-lg p-3 shadow-lg cursor-pointer pointer-events-auto overflow-hidden"
-                          style={{ ...style, backgroundColor: labelColors[evt.label] }}
+                          style={{ ...style, backgroundColor: labelColors[evt.label], ...calendarStripeStyle(evt) }}
                         >
                           <div className="flex items-start justify-between mb-1">
                             <p className="font-bold text-sm leading-tight text-white">{evt.event}</p>
@@ -9,7 +9,7 @@ interface PublicHolidayFilterProps {
   onSelectCountry: (countryCode: string) => void;
 }
 
-const COUNTRIES = [
+export const COUNTRIES = [
   { code: 'NG', name: 'Nigeria' },
   { code: 'US', name: 'United States' },
   { code: 'GB', name: 'United Kingdom' },
@@ -0,0 +1,230 @@
+// src/components/calendar/modals/CalendarFeedModal.tsx
+import React, { useState } from 'react';
+import { Rss, Copy, Check, RefreshCw, Trash2, Loader2, Smartphone, AlertTriangle } from 'lucide-react';
+import dayjs from 'dayjs';
+import { BaseModal, ModalHeader, ConfirmationModal } from './ModalsUtils';
+import { COUNTRIES } from '../PublicHolidayFilter';
+import {
+  useGetCalendarFeedQuery,
+  useRegenerateCalendarFeedMutation,
+  useUpdateCalendarFeedMutation,
+  useRevokeCalendarFeedMutation
+} from '@/store/api/calendarApi';
+import { useAppDispatch } from '@/store/hook';
+import { addToast } from '@/store/slices/uiSlice';
+import type { CalendarFeedOptions } from '@/types/calendar.types';
+
+interface CalendarFeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CalendarFeedModal: React.FC<CalendarFeedModalProps> = ({ isOpen, onClose }) => {
+  const dispatch = useAppDispatch();
+  const { data: feed, isLoading } = useGetCalendarFeedQuery(undefined, { skip: !isOpen });
+  const [regenerateFeed, { isLoading: isRegenerating }] = useRegenerateCalendarFeedMutation();
+  const [updateFeed] = useUpdateCalendarFeedMutation();
+  const [revokeFeed, { isLoading: isRevoking }] = useRevokeCalendarFeedMutation();
+
+  // The URL is only returned once, right after it's generated
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<'regenerate' | 'revoke' | null>(null);
+  const [draftOptions, setDraftOptions] = useState<CalendarFeedOptions>({ includeHolidays: false, holidayCountry: 'NG' });
+
+  const options: CalendarFeedOptions = feed
+    ? { includeHolidays: feed.includeHolidays, holidayCountry: feed.holidayCountry }
+    : draftOptions;
+
+  const handleClose = () => {
+    setFeedUrl(null);
+    setCopied(false);
+    onClose();
+  };
+
+  const showError = (message: string) => dispatch(addToast({ message, type: 'error' }));
+
+  const handleOptionsChange = async (next: CalendarFeedOptions) => {
+    if (!feed) {
+      setDraftOptions(next);
+      return;
+    }
+
+    try {
+      await updateFeed(next).unwrap();
+    } catch {
+      showError('Failed to update feed settings.');
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      const result = await regenerateFeed(options).unwrap();
+      setFeedUrl(result.url || null);
+      setCopied(false);
+    } catch {
+      showError('Failed to create feed URL. Please try again.');
+    }
+  };
+
+  const handleRevoke = async () => {
+    try {
+      await revokeFeed().unwrap();
+      setFeedUrl(null);
+      dispatch(addToast({ message: 'Calendar feed revoked', type: 'success' }));
+    } catch {
+      showError('Failed to revoke feed. Please try again.');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  return (
+    <>
+      <BaseModal isOpen={isOpen} onClose={handleClose} size="md">
+        <ModalHeader
+          title="Calendar Subscription"
+          subtitle="See your events in your phone's calendar"
+          icon={<Rss className="w-5 h-5 text-white" />}
+          onClose={handleClose}
+        />
+
+        <div className="p-6 space-y-5">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <>
+              {/* Feed URL */}
+              {feedUrl ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-700">
+                    Add this URL as a subscribed calendar. Keep it private: anyone with it can see your events.
+                  </p>
+                  <div className="flex gap-2">
+                    <input
+                      readOnly
+                      value={feedUrl}
+                      onFocus={(e) => e.target.select()}
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono text-gray-700 bg-gray-50"
+                    />
+                    <button
+                      onClick={handleCopy}
+                      className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                      title="Copy URL"
+                    >
+                      {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  <a
+                    href={feedUrl.replace(/^https?:/, 'webcal:')}
+                    className="inline-flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    <Smartphone className="w-4 h-4" />
+                    Open in calendar app
+                  </a>
+                </div>
+              ) : feed ? (
+                <div className="p-4 bg-gray-50 border border-gray-200 rounded-xl text-sm text-gray-700 space-y-1">
+                  <p className="font-semibold text-gray-900">Your feed is active</p>
+                  <p>Created {dayjs(feed.createdAt).format('MMM D, YYYY')}</p>
+                  <p>
+                    {feed.lastAccessedAt
+                      ? `Last synced ${dayjs(feed.lastAccessedAt).format('MMM D, YYYY h:mm A')}`
+                      : 'Not synced yet'}
+                  </p>
+                  <p className="text-xs text-gray-500 pt-1">
+                    The URL is only shown when it's created. Regenerate it to get a new one.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-700">
+                  Create a private URL that Google Calendar, Apple Calendar or Outlook can subscribe to.
+                  Changes show up the next time your calendar app refreshes.
+                </p>
+              )}
+
+              {/* Holiday options */}
+              <div className="space-y-3">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={options.includeHolidays}
+                    onChange={() => handleOptionsChange({ ...options, includeHolidays: !options.includeHolidays })}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Include public holidays</span>
+                </label>
+
+                {options.includeHolidays && (
+                  <select
+                    value={options.holidayCountry || ''}
+                    onChange={(e) => handleOptionsChange({ ...options, holidayCountry: e.target.value || null })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+                  >
+                    <option value="">Global holidays only</option>
+                    {COUNTRIES.map(country => (
+                      <option key={country.code} value={country.code}>{country.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex gap-3 pt-2">
+                {feed ? (
+                  <>
+                    <button
+                      onClick={() => setConfirmAction('regenerate')}
+                      disabled={isRegenerating}
+                      className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {isRegenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                      Regenerate URL
+                    </button>
+                    <button
+                      onClick={() => setConfirmAction('revoke')}
+                      disabled={isRevoking}
+                      className="flex items-center justify-center gap-2 px-4 py-2.5 border border-red-200 text-red-600 hover:bg-red-50 text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {isRevoking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                      Revoke
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={handleGenerate}
+                    disabled={isRegenerating}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {isRegenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Rss className="w-4 h-4" />}
+                    Create feed URL
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </BaseModal>
+
+      <ConfirmationModal
+        isOpen={confirmAction !== null}
+        onClose={() => setConfirmAction(null)}
+        onConfirm={confirmAction === 'revoke' ? handleRevoke : handleGenerate}
+        title={confirmAction === 'revoke' ? 'Revoke feed?' : 'Regenerate URL?'}
+        message="Calendar apps subscribed to the current URL will stop receiving updates."
+        icon={<AlertTriangle className="w-8 h-8 text-red-600" />}
+        iconBgColor="bg-red-100"
+        confirmText={confirmAction === 'revoke' ? 'Revoke' : 'Regenerate'}
+        confirmColor="bg-red-600 hover:bg-red-700"
+      />
+    </>
+  );
+};
+
+export default CalendarFeedModal;
@@ -0,0 +1,313 @@
+// src/components/calendar/modals/CalendarSettingsModal.tsx
+import React, { useState } from 'react';
+import { CalendarDays, Check, Loader2, Trash2, UserPlus, X, AlertTriangle } from 'lucide-react';
+import { BaseModal, ModalHeader, ModalFooter, ConfirmationModal } from './ModalsUtils';
+import {
+  useCreateCalendarMutation,
+  useUpdateCalendarMutation,
+  useDeleteCalendarMutation,
+  useGetCalendarMembersQuery,
+  useAddCalendarMemberMutation,
+  useUpdateCalendarMemberMutation,
+  useRemoveCalendarMemberMutation
+} from '@/store/api/calendarApi';
+import { useGetPartnersQuery } from '@/store/api/partnersApi';
+import { useAppDispatch, useAppSelector } from '@/store/hook';
+import { selectUser } from '@/store/slices/authSlice';
+import { addToast } from '@/store/slices/uiSlice';
+import { LABEL_COLORS } from '@/types/calendar.types';
+import type { Calendar, CalendarPermission, CalendarType, EventLabel } from '@/types/calendar.types';
+
+interface CalendarSettingsModalProps {
+  isOpen: boolean;
+  calendar: Calendar | null; // null = create a new calendar
+  onClose: () => void;
+}
+
+const PERMISSIONS: { value: CalendarPermission; label: string }[] = [
+  { value: 'freebusy', label: 'See free/busy only' },
+  { value: 'read', label: 'See all event details' },
+  { value: 'edit', label: 'Make changes to events' }
+];
+
+const COLORS = Object.keys(LABEL_COLORS) as EventLabel[];
+
+const errorMessage = (err: any, fallback: string): string => err?.data?.error?.message || fallback;
+
+const CalendarSettingsModal: React.FC<CalendarSettingsModalProps> = ({ isOpen, calendar, onClose }) => {
+  const dispatch = useAppDispatch();
+  const user = useAppSelector(selectUser);
+  const isNew = !calendar;
+  // Project calendars are staff-only; picking the partner needs the partner list
+  const canPickPartner = (user?.role === 'admin' || user?.role === 'core') && !!user?.permissions?.['partners.view'];
+
+  const [name, setName] = useState(calendar?.name || '');
+  const [color, setColor] = useState<EventLabel>(calendar?.color || 'green');
+  const [type, setType] = useState<Exclude<CalendarType, 'personal'>>('team');
+  const [partnerId, setPartnerId] = useState('');
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberPermission, setMemberPermission] = useState<CalendarPermission>('read');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const [createCalendar, { isLoading: isCreating }] = useCreateCalendarMutation();
+  const [updateCalendar, { isLoading: isUpdating }] = useUpdateCalendarMutation();
+  const [deleteCalendar] = useDeleteCalendarMutation();
+  const [addMember, { isLoading: isAdding }] = useAddCalendarMemberMutation();
+  const [updateMember] = useUpdateCalendarMemberMutation();
+  const [removeMember] = useRemoveCalendarMemberMutation();
+
+  const { data: members = [], isLoading: membersLoading } = useGetCalendarMembersQuery(calendar?.id || '', { skip: !calendar });
+  const { data: partners } = useGetPartnersQuery(
+    { limit: 100 },
+    { skip: !isNew || type !== 'partner_project' || !canPickPartner }
+  );
+
+  const showError = (message: string) => dispatch(addToast({ message, type: 'error' }));
+
+  const canSave = name.trim().length > 0 && (type !== 'partner_project' || !!partnerId);
+
+  const handleSave = async () => {
+    try {
+      if (calendar) {
+        await updateCalendar({ id: calendar.id, name: name.trim(), color }).unwrap();
+        dispatch(addToast({ message: 'Calendar updated', type: 'success' }));
+      } else {
+        await createCalendar({
+          name: name.trim(),
+          type,
+          color,
+          ...(type === 'partner_project' && { partnerId })
+        }).unwrap();
+        dispatch(addToast({ message: `${name.trim()} created`, type: 'success' }));
+      }
+      onClose();
+    } catch (err) {
+      showError(errorMessage(err, 'Failed to save calendar. Please try again.'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!calendar) return;
+
+    try {
+      await deleteCalendar(calendar.id).unwrap();
+      dispatch(addToast({ message: `${calendar.name} deleted`, type: 'success' }));
+      onClose();
+    } catch (err) {
+      showError(errorMessage(err, 'Failed to delete calendar. Please try again.'));
+    }
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!calendar || !memberEmail.trim()) return;
+
+    try {
+      await addMember({ calendarId: calendar.id, email: memberEmail.trim(), permission: memberPermission }).unwrap();
+      setMemberEmail('');
+    } catch (err) {
+      showError(errorMessage(err, 'Failed to share calendar. Please try again.'));
+    }
+  };
+
+  const handlePermissionChange = async (userId: string, permission: CalendarPermission) => {
+    if (!calendar) return;
+
+    try {
+      await updateMember({ calendarId: calendar.id, userId, permission }).unwrap();
+    } catch (err) {
+      showError(errorMessage(err, 'Failed to update permission.'));
+    }
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    if (!calendar) return;
+
+    try {
+      await removeMember({ calendarId: calendar.id, userId }).unwrap();
+    } catch (err) {
+      showError(errorMessage(err, 'Failed to remove member.'));
+    }
+  };
+
+  return (
+    <>
+      <BaseModal isOpen={isOpen} onClose={onClose} size="md">
+        <ModalHeader
+          title={isNew ? 'New Calendar' : calendar.type === 'personal' ? 'Share Your Calendar' : 'Calendar Settings'}
+          subtitle={isNew ? 'A shared calendar for a team or partner project' : calendar.name}
+          icon={<CalendarDays className="w-5 h-5 text-white" />}
+          onClose={onClose}
+        />
+
+        <div className="p-6 space-y-5">
+          {/* Name + color */}
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Calendar name"
+              maxLength={100}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+            />
+            <div className="flex items-center gap-2">
+              {COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setColor(option)}
+                  className="w-6 h-6 rounded-full flex items-center justify-center transition-transform hover:scale-110"
+                  style={{ backgroundColor: LABEL_COLORS[option] }}
+                  title={option}
+                >
+                  {color === option && <Check className="w-3.5 h-3.5 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Type (new calendars only) */}
+          {isNew && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                {(['team', 'partner_project'] as const).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setType(option)}
+                    disabled={option === 'partner_project' && !canPickPartner}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium border transition-colors disabled:opacity-40 ${type === option ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:border-blue-400'}`}
+                  >
+                    {option === 'team' ? 'Team' : 'Partner project'}
+                  </button>
+                ))}
+              </div>
+
+              {type === 'partner_project' && (
+                <select
+                  value={partnerId}
+                  onChange={(e) => setPartnerId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+                >
+                  <option value="">Select a partner</option>
+                  {partners?.data.items.map(partner => (
+                    <option key={partner.id} value={partner.id}>
+                      {partner.partner_name}{partner.project_title ? ` - ${partner.project_title}` : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {type === 'partner_project' && (
+                <p className="text-xs text-gray-500">The partner can see this calendar. You can give them more access after it's created.</p>
+              )}
+            </div>
+          )}
+
+          {/* Members */}
+          {calendar && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-bold text-gray-900">Shared with</h3>
+
+              {membersLoading ? (
+                <div className="flex justify-center py-2">
+                  <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+                </div>
+              ) : members.length === 0 ? (
+                <p className="text-sm text-gray-500">Only you can see this calendar.</p>
+              ) : (
+                <div className="space-y-2 max-h-56 overflow-y-auto">
+                  {members.map(member => (
+                    <div key={member.user_id} className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-800 truncate">{member.full_name || member.email}</p>
+                        {member.full_name && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+                      </div>
+                      <select
+                        value={member.permission}
+                        onChange={(e) => handlePermissionChange(member.user_id, e.target.value as CalendarPermission)}
+                        className="px-2 py-1 border border-gray-300 rounded-lg text-xs outline-none focus:border-blue-500"
+                      >
+                        {PERMISSIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleRemoveMember(member.user_id)}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded"
+                        title="Remove access"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <form onSubmit={handleAddMember} className="flex gap-2">
+                <input
+                  type="email"
+                  value={memberEmail}
+                  onChange={(e) => setMemberEmail(e.target.value)}
+                  placeholder="Colleague's email"
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+                />
+                <select
+                  value={memberPermission}
+                  onChange={(e) => setMemberPermission(e.target.value as CalendarPermission)}
+                  className="px-2 py-2 border border-gray-300 rounded-lg text-xs outline-none focus:border-blue-500"
+                >
+                  {PERMISSIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={isAdding || !memberEmail.trim()}
+                  className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                  title="Share"
+                >
+                  {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                </button>
+              </form>
+            </div>
+          )}
+        </div>
+
+        <ModalFooter>
+          {calendar && calendar.type !== 'personal' ? (
+            <button
+              onClick={() => setConfirmDelete(true)}
+              className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          ) : <span />}
+          <button
+            onClick={handleSave}
+            disabled={!canSave || isCreating || isUpdating}
+            className="flex items-center gap-2 px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50"
+          >
+            {(isCreating || isUpdating) && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isNew ? 'Create' : 'Save'}
+          </button>
+        </ModalFooter>
+      </BaseModal>
+
+      <ConfirmationModal
+        isOpen={confirmDelete}
+        onClose={() => setConfirmDelete(false)}
+        onConfirm={handleDelete}
+        title="Delete calendar?"
+        message={`All events in ${calendar?.name || 'this calendar'} will be deleted for everyone it's shared with.`}
+        icon={<AlertTriangle className="w-8 h-8 text-red-600" />}
+        iconBgColor="bg-red-100"
+        confirmText="Delete"
+        confirmColor="bg-red-600 hover:bg-red-700"
+      />
+    </>
+  );
+};
+
+export default CalendarSettingsModal;
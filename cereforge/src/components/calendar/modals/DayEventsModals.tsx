@@ -5,6 +5,7 @@ import { motion } from 'framer-motion';
 import dayjs, { Dayjs } from 'dayjs';
 import { BaseModal, ModalHeader, ScrollableContent } from './ModalsUtils';
 import type { CalendarEvent } from '@/types/calendar.types';
+import { calendarStripeStyle } from '@/utils/calendar.utils';
 
 interface DayEventsModalProps {
   isOpen: boolean;
@@ -73,6 +74,7 @@ const DayEventsModal: React.FC<DayEventsModalProps> = ({
                     onClose();
                   }}
                   className="group cursor-pointer bg-white border border-gray-200 hover:border-blue-500 rounded-lg p-3 transition-all hover:shadow-md"
+                  style={calendarStripeStyle(event)}
                 >
                   <div className="flex items-start space-x-2">
                     {/* Color Indicator */}
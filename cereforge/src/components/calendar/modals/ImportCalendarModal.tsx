@@ -0,0 +1,179 @@
+// src/components/calendar/modals/ImportCalendarModal.tsx
+import React, { useState } from 'react';
+import { Upload, FileText, Repeat, Users, Loader2, AlertCircle } from 'lucide-react';
+import dayjs from 'dayjs';
+import { BaseModal, ModalHeader, ModalFooter, ScrollableContent } from './ModalsUtils';
+import { useImportCalendarMutation } from '@/store/api/calendarApi';
+import { useAppDispatch } from '@/store/hook';
+import { addToast } from '@/store/slices/uiSlice';
+import type { CalendarImportAction, CalendarImportResult } from '@/types/calendar.types';
+
+interface ImportCalendarModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+const ACTION_BADGES: Record<CalendarImportAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-700' },
+  duplicate: { label: 'Duplicate', className: 'bg-gray-200 text-gray-600' },
+  skip: { label: 'Skipped', className: 'bg-amber-100 text-amber-700' }
+};
+
+const ImportCalendarModal: React.FC<ImportCalendarModalProps> = ({ isOpen, onClose }) => {
+  const dispatch = useAppDispatch();
+  const [importCalendar, { isLoading }] = useImportCalendarMutation();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [ics, setIcs] = useState<string | null>(null);
+  const [preview, setPreview] = useState<CalendarImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const handleClose = () => {
+    setFileName(null);
+    setIcs(null);
+    setPreview(null);
+    setError(null);
+    onClose();
+  };
+
+  const getErrorMessage = (err: any) =>
+    err?.data?.error?.message || 'Could not read this calendar file.';
+
+  // Every file gets a dry run first so the user sees what will change
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setPreview(null);
+    setError(null);
+
+    if (file.size > MAX_FILE_SIZE) {
+      setError('File is too large (max 5MB).');
+      return;
+    }
+
+    const text = await file.text();
+    setFileName(file.name);
+    setIcs(text);
+
+    try {
+      setPreview(await importCalendar({ ics: text, dryRun: true, timezone }).unwrap());
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!ics) return;
+
+    try {
+      const result = await importCalendar({ ics, dryRun: false, timezone }).unwrap();
+      dispatch(addToast({
+        message: `Imported ${result.summary.create} event${result.summary.create === 1 ? '' : 's'}`,
+        type: 'success'
+      }));
+      handleClose();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const formatItemDate = (start: string, allDay: boolean) =>
+    allDay ? dayjs(start).format('ddd, MMM D, YYYY') : dayjs(start).format('ddd, MMM D, YYYY h:mm A');
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={handleClose} size="lg">
+      <ModalHeader
+        title="Import Calendar"
+        subtitle="Add events from an .ics file"
+        icon={<Upload className="w-5 h-5 text-white" />}
+        onClose={handleClose}
+      />
+
+      <ScrollableContent className="p-6 space-y-5">
+        <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-gray-300 hover:border-blue-500 rounded-xl cursor-pointer transition-colors">
+          <FileText className="w-8 h-8 text-gray-400" />
+          <span className="text-sm font-medium text-gray-700">
+            {fileName || 'Choose an .ics file'}
+          </span>
+          <span className="text-xs text-gray-500">Times without a zone are read as {timezone}</span>
+          <input type="file" accept=".ics,text/calendar" onChange={handleFileChange} className="sr-only" />
+        </label>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {isLoading && !preview && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>Reading file...</span>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold">{preview.summary.create}</span> new
+              {' · '}
+              <span className="font-semibold">{preview.summary.duplicate}</span> already in your calendar
+              {preview.summary.skip > 0 && (
+                <>
+                  {' · '}
+                  <span className="font-semibold">{preview.summary.skip}</span> skipped
+                </>
+              )}
+            </p>
+
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+              {preview.items.map((item, idx) => (
+                <li key={`${item.uid}-${item.recurrenceId || idx}`} className="flex items-start justify-between gap-3 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{item.title}</p>
+                    <p className="text-xs text-gray-500 flex items-center gap-2 flex-wrap">
+                      <span>{formatItemDate(item.start, item.allDay)}</span>
+                      {item.recurring && <span className="flex items-center gap-1"><Repeat className="w-3 h-3" />Repeats</span>}
+                      {item.guestCount > 0 && <span className="flex items-center gap-1"><Users className="w-3 h-3" />{item.guestCount}</span>}
+                    </p>
+                    {item.reason && item.action !== 'duplicate' && (
+                      <p className="text-xs text-amber-700 mt-0.5">{item.reason}</p>
+                    )}
+                  </div>
+                  <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${ACTION_BADGES[item.action].className}`}>
+                    {ACTION_BADGES[item.action].label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </ScrollableContent>
+
+      <ModalFooter>
+        <button onClick={handleClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 text-sm font-medium">
+          Cancel
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={!preview || preview.summary.create === 0 || isLoading}
+          className="flex items-center gap-2 px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading && preview && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>
+            {preview ? `Import ${preview.summary.create} event${preview.summary.create === 1 ? '' : 's'}` : 'Import'}
+          </span>
+        </button>
+      </ModalFooter>
+    </BaseModal>
+  );
+};
+
+export default ImportCalendarModal;
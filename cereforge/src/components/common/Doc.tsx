@@ -15,7 +15,7 @@ const CereforgeDatabaseDocs = () => {
     type: 'PostgreSQL (Supabase)',
     version: 'PostgreSQL 15',
     schema: 'public',
-    totalTables: 12,
+    totalTables: 13,
     features: [
       'Row Level Security (RLS)',
       'JSONB Support',
@@ -42,16 +42,26 @@ const CereforgeDatabaseDocs = () => {
         { name: 'created_at', type: 'timestamptz', pk: false, nullable: true, default: 'now()', description: 'Account creation timestamp' },
         { name: 'updated_at', type: 'timestamptz', pk: false, nullable: true, default: 'now()', description: 'Last update timestamp' },
         { name: 'last_login', type: 'timestamptz', pk: false, nullable: true, description: 'Last successful login' },
+        { name: 'must_change_password', type: 'boolean', pk: false, nullable: false, default: 'false', description: 'Set for accounts created with a temporary password; login returns a restricted session until changed' },
+        { name: 'failed_login_attempts', type: 'int4', pk: false, nullable: false, default: '0', description: 'Consecutive failed password / 2FA attempts since the last lockout or sign-in' },
+        { name: 'lockout_count', type: 'int4', pk: false, nullable: false, default: '0', description: 'Lockouts since the last successful sign-in (each one doubles the lock duration)' },
+        { name: 'locked_until', type: 'timestamptz', pk: false, nullable: true, description: 'Sign-in blocked until this time; cleared by an admin or a successful sign-in' },
+        { name: 'last_failed_login', type: 'timestamptz', pk: false, nullable: true, description: 'Most recent failed sign-in attempt' },
         { name: 'metadata', type: 'jsonb', pk: false, nullable: true, description: 'Additional user metadata' },
         { name: 'system_type', type: 'system_type_enum', pk: false, nullable: false, description: 'SYSTEM_USERS | COMMERCIAL_USERS' },
       ],
       foreignKeys: [],
       referencedBy: [
         { table: 'user_sessions', column: 'user_id' },
+        { table: 'user_mfa', column: 'user_id' },
         { table: 'admin_staff', column: 'user_id' },
         { table: 'core_staff', column: 'user_id' },
         { table: 'partners', column: 'user_id' },
         { table: 'calendar_events', column: 'user_id' },
+        { table: 'calendars', column: 'owner_id' },
+        { table: 'calendar_members', column: 'user_id' },
+        { table: 'consultation_types', column: 'owner_id' },
+        { table: 'booking_links', column: 'created_by' },
         { table: 'event_reminders', column: 'user_id' },
         { table: 'password_reset_tokens', column: 'user_id' },
         { table: 'audit_logs', column: 'user_id' },
@@ -72,15 +82,19 @@ const CereforgeDatabaseDocs = () => {
         { name: 'id', type: 'uuid', pk: true, nullable: false, description: 'Session ID (used in JWT payload)' },
         { name: 'user_id', type: 'uuid', pk: false, nullable: false, fk: 'user_profiles(id)', description: 'FK to user_profiles' },
         { name: 'token_hash', type: 'varchar', pk: false, nullable: false, description: 'Hashed access token (first 50 chars)' },
-        { name: 'refresh_token_hash', type: 'varchar', pk: false, nullable: true, description: 'Hashed refresh token (first 50 chars)' },
+        { name: 'refresh_token_hash', type: 'varchar', pk: false, nullable: true, description: 'SHA-256 of the current refresh token; rotated on every refresh (session = token family)' },
+        { name: 'previous_refresh_token_hash', type: 'varchar', pk: false, nullable: true, description: 'SHA-256 of the token the last refresh replaced; still gets an access token for 10 seconds' },
+        { name: 'refresh_rotated_at', type: 'timestamptz', pk: false, nullable: true, description: 'When the refresh token was last rotated (start of the grace window)' },
         { name: 'ip_address', type: 'inet', pk: false, nullable: true, description: 'Client IP address' },
         { name: 'user_agent', type: 'text', pk: false, nullable: true, description: 'Client user agent string' },
         { name: 'device_type', type: 'varchar', pk: false, nullable: true, description: 'Device type (mobile, desktop, tablet)' },
         { name: 'browser', type: 'varchar', pk: false, nullable: true, description: 'Browser name and version' },
         { name: 'os', type: 'varchar', pk: false, nullable: true, description: 'Operating system' },
+        { name: 'country', type: 'varchar(2)', pk: false, nullable: true, description: 'ISO country code from the edge geo header (new-country detection)' },
         { name: 'expires_at', type: 'timestamptz', pk: false, nullable: false, description: 'Session expiration (7 days from creation)' },
         { name: 'last_activity', type: 'timestamptz', pk: false, nullable: true, description: 'Last activity timestamp (updated on each request)' },
         { name: 'is_active', type: 'bool', pk: false, nullable: true, default: 'true', description: 'Session active status (false on logout)' },
+        { name: 'revoked_reason', type: 'varchar', pk: false, nullable: true, description: 'Why the session was force-revoked (e.g. refresh_token_reuse)' },
         { name: 'created_at', type: 'timestamptz', pk: false, nullable: true, default: 'now()', description: 'Session creation timestamp' },
       ],
       foreignKeys: [
@@ -92,6 +106,28 @@ const CereforgeDatabaseDocs = () => {
         { name: 'idx_session_active', columns: ['is_active', 'expires_at'], type: 'INDEX' },
       ],
     },
+    {
+      name: 'user_mfa',
+      description: 'TOTP two-factor settings and hashed recovery codes (one row per user)',
+      category: 'Authentication',
+      rowCount: '~100',
+      columns: [
+        { name: 'user_id', type: 'uuid', pk: true, nullable: false, fk: 'user_profiles(id)', description: 'FK to user_profiles' },
+        { name: 'enabled', type: 'bool', pk: false, nullable: false, default: 'false', description: 'True once enrollment is confirmed with a valid code' },
+        { name: 'enabled_at', type: 'timestamptz', pk: false, nullable: true, description: 'When two-factor was enabled' },
+        { name: 'totp_secret', type: 'text', pk: false, nullable: true, description: 'Confirmed TOTP secret (AES-256-GCM encrypted)' },
+        { name: 'pending_secret', type: 'text', pk: false, nullable: true, description: 'Secret awaiting confirmation during enrollment (encrypted)' },
+        { name: 'recovery_code_hashes', type: 'text[]', pk: false, nullable: true, description: 'SHA-256 hashes of unused recovery codes' },
+        { name: 'last_used_step', type: 'bigint', pk: false, nullable: true, description: 'Last accepted TOTP time step (blocks code replay)' },
+        { name: 'created_at', type: 'timestamptz', pk: false, nullable: true, default: 'now()', description: 'Row creation timestamp' },
+        { name: 'updated_at', type: 'timestamptz', pk: false, nullable: true, default: 'now()', description: 'Last update timestamp' },
+      ],
+      foreignKeys: [
+        { column: 'user_id', references: 'user_profiles(id)', onDelete: 'CASCADE' },
+      ],
+      referencedBy: [],
+      indexes: [],
+    },
     {
       name: 'admin_staff',
       description: 'Admin staff members with elevated permissions',
@@ -102,7 +138,7 @@ const CereforgeDatabaseDocs = () => {
         { name: 'user_id', type: 'uuid', pk: false, nullable: false, fk: 'user_profiles(id)', description: 'FK to user_profiles (must have role=admin)' },
         { name: 'admin_id', type: 'varchar', pk: false, nullable: false, unique: true, description: 'Unique admin identifier (e.g., ADMIN-001)' },
         { name: 'category', type: 'varchar', pk: false, nullable: false, description: 'Admin category (Operations, HR, Finance, etc.)' },
-        { name: 'permissions', type: 'jsonb', pk: false, nullable: true, description: 'Permission object: { approve_partners: true, ... }' },
+        { name: 'permissions', type: 'jsonb', pk: false, nullable: true, description: 'Per-user overrides of the admin role defaults: { "audit.export": true, ... }' },
         { name: 'supervisor_id', type: 'uuid', pk: false, nullable: true, fk: 'admin_staff(id)', description: 'Self-referencing FK to supervising admin' },
         { name: 'created_at', type: 'timestamptz', pk: false, nullable: true, default: 'now()', description: 'Record creation timestamp' },
         { name: 'updated_at', type: 'timestamptz', pk: false, nullable: true, default: 'now()', description: 'Last update timestamp' },
@@ -130,7 +166,7 @@ const CereforgeDatabaseDocs = () => {
         { name: 'employee_id', type: 'varchar', pk: false, nullable: false, unique: true, description: 'Unique employee ID (e.g., CORE-001)' },
         { name: 'department', type: 'varchar', pk: false, nullable: true, description: 'Department name (Engineering, Product, etc.)' },
         { name: 'position', type: 'varchar', pk: false, nullable: true, description: 'Job position/title' },
-        { name: 'permissions', type: 'jsonb', pk: false, nullable: true, description: 'Core staff permissions (usually full access)' },
+        { name: 'permissions', type: 'jsonb', pk: false, nullable: true, description: 'Per-user overrides of the core role defaults (core has every permission by default)' },
         { name: 'created_at', type: 'timestamptz', pk: false, nullable: true, default: 'now()', description: 'Record creation timestamp' },
         { name: 'updated_at', type: 'timestamptz', pk: false, nullable: true, default: 'now()', description: 'Last update timestamp' },
       ],
@@ -179,7 +215,9 @@ const CereforgeDatabaseDocs = () => {
         { column: 'user_id', references: 'user_profiles(id)', onDelete: 'CASCADE' },
         { column: 'approved_by', references: 'user_profiles(id)', onDelete: 'SET NULL' }, // ✅ CHANGED
       ],
-      referencedBy: [],
+      referencedBy: [
+        { table: 'calendars', column: 'partner_id' },
+      ],
       indexes: [
         { name: 'idx_partner_user', columns: ['user_id'], type: 'UNIQUE' },
         { name: 'idx_partner_status', columns: ['onboarding_status'], type: 'INDEX' },
@@ -236,27 +274,36 @@ const CereforgeDatabaseDocs = () => {
       columns: [
         { name: 'id', type: 'uuid', pk: true, nullable: false, description: 'Event ID' },
         { name: 'user_id', type: 'uuid', pk: false, nullable: false, fk: 'user_profiles(id)', description: 'Event owner' },
+        { name: 'calendar_id', type: 'uuid', pk: false, nullable: true, fk: 'calendars(id)', description: "Team or partner-project calendar; NULL = the owner's personal calendar" },
         { name: 'title', type: 'varchar', pk: false, nullable: false, description: 'Event title' },
         { name: 'description', type: 'text', pk: false, nullable: true, description: 'Event description' },
         { name: 'location', type: 'varchar', pk: false, nullable: true, description: 'Event location' },
         { name: 'start_time', type: 'timestamptz', pk: false, nullable: false, description: 'Event start time (UTC)' },
         { name: 'end_time', type: 'timestamptz', pk: false, nullable: false, description: 'Event end time (UTC)' },
         { name: 'all_day', type: 'bool', pk: false, nullable: false, default: 'false', description: 'All-day event flag' },
-        { name: 'timezone', type: 'varchar', pk: false, nullable: false, description: 'User timezone (e.g., Africa/Lagos)' },
+        { name: 'timezone', type: 'varchar', pk: false, nullable: false, description: 'IANA timezone the event was created in (e.g., Africa/Lagos); recurrences expand in this zone' },
         { name: 'recurrence_type', type: 'varchar', pk: false, nullable: false, default: 'none', description: 'none | daily | weekly | monthly | annually | weekdays | custom' },
         { name: 'recurrence_config', type: 'jsonb', pk: false, nullable: true, description: 'Recurrence configuration object' },
-        { name: 'parent_event_id', type: 'uuid', pk: false, nullable: true, fk: 'calendar_events(id)', description: 'Parent event for recurring instances' },
+        { name: 'rrule', type: 'text', pk: false, nullable: true, description: 'RFC 5545 RRULE derived from recurrence_config (BYDAY ordinals, BYMONTHDAY, BYSETPOS, COUNT/UNTIL, WKST); expanded server-side' },
+        { name: 'exdates', type: 'timestamptz[]', pk: false, nullable: false, default: "'{}'", description: 'EXDATE list on recurring parents: original starts of deleted occurrences' },
+        { name: 'parent_event_id', type: 'uuid', pk: false, nullable: true, fk: 'calendar_events(id)', description: 'Series this row overrides (modified single occurrence)' },
+        { name: 'original_start_time', type: 'timestamptz', pk: false, nullable: true, description: 'RECURRENCE-ID: start of the occurrence an override row replaces' },
         { name: 'is_recurring_parent', type: 'bool', pk: false, nullable: true, default: 'false', description: 'Is this a recurring parent event' },
         { name: 'label', type: 'varchar', pk: false, nullable: false, default: 'blue', description: 'Color label: indigo | grey | green | blue | red | purple' },
         { name: 'notification_settings', type: 'jsonb', pk: false, nullable: true, description: 'Notification settings object' },
         { name: 'status', type: 'varchar', pk: false, nullable: false, default: 'active', description: 'active | cancelled | completed' },
+        { name: 'ical_uid', type: 'varchar', pk: false, nullable: true, description: 'UID of an imported event (series UID on its overrides), used to skip re-imports' },
+        { name: 'consultation_id', type: 'uuid', pk: false, nullable: true, fk: 'consultation_types(id)', description: 'Consultation type booked through a public booking link (counts towards its daily limit)' },
+        { name: 'sequence', type: 'int4', pk: false, nullable: false, default: '0', description: 'iCalendar SEQUENCE, bumped each time guests are sent an update or cancellation' },
         { name: 'created_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'Event creation timestamp' },
         { name: 'updated_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'Last update timestamp' },
         { name: 'deleted_at', type: 'timestamptz', pk: false, nullable: true, description: 'Soft delete timestamp' },
       ],
       foreignKeys: [
         { column: 'user_id', references: 'user_profiles(id)', onDelete: 'CASCADE' },
+        { column: 'calendar_id', references: 'calendars(id)', onDelete: 'CASCADE' },
         { column: 'parent_event_id', references: 'calendar_events(id)', onDelete: 'CASCADE' },
+        { column: 'consultation_id', references: 'consultation_types(id)', onDelete: 'SET NULL' },
       ],
       referencedBy: [
         { table: 'event_guests', column: 'event_id' },
@@ -265,8 +312,63 @@ const CereforgeDatabaseDocs = () => {
       ],
       indexes: [
         { name: 'idx_event_user', columns: ['user_id'], type: 'INDEX' },
+        { name: 'idx_event_calendar', columns: ['calendar_id'], type: 'INDEX' },
         { name: 'idx_event_time', columns: ['start_time', 'end_time'], type: 'INDEX' },
         { name: 'idx_event_recurring', columns: ['is_recurring_parent'], type: 'INDEX' },
+        { name: 'idx_event_override', columns: ['parent_event_id', 'original_start_time'], type: 'UNIQUE' },
+        { name: 'idx_event_ical_uid', columns: ['user_id', 'ical_uid'], type: 'INDEX' },
+        { name: 'idx_event_consultation', columns: ['consultation_id', 'start_time'], type: 'INDEX' },
+      ],
+    },
+    {
+      name: 'calendars',
+      description: 'Calendars events belong to: one personal calendar per user plus shared team and partner-project calendars',
+      category: 'Features',
+      rowCount: '~1000',
+      columns: [
+        { name: 'id', type: 'uuid', pk: true, nullable: false, default: 'gen_random_uuid()', description: 'Calendar ID' },
+        { name: 'owner_id', type: 'uuid', pk: false, nullable: false, fk: 'user_profiles(id)', description: 'Owner; manages members and settings' },
+        { name: 'type', type: 'varchar', pk: false, nullable: false, description: 'personal | team | partner_project' },
+        { name: 'name', type: 'varchar', pk: false, nullable: false, description: 'Display name' },
+        { name: 'description', type: 'text', pk: false, nullable: true, description: 'Calendar description' },
+        { name: 'color', type: 'varchar', pk: false, nullable: false, default: 'blue', description: 'Overlay color: indigo | grey | green | blue | red | purple' },
+        { name: 'partner_id', type: 'uuid', pk: false, nullable: true, fk: 'partners(id)', description: 'Partner the project calendar is for (partner_project only)' },
+        { name: 'created_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'Creation timestamp' },
+        { name: 'updated_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'Last update timestamp' },
+      ],
+      foreignKeys: [
+        { column: 'owner_id', references: 'user_profiles(id)', onDelete: 'CASCADE' },
+        { column: 'partner_id', references: 'partners(id)', onDelete: 'SET NULL' },
+      ],
+      referencedBy: [
+        { table: 'calendar_members', column: 'calendar_id' },
+        { table: 'calendar_events', column: 'calendar_id' },
+      ],
+      indexes: [
+        { name: 'idx_calendar_owner', columns: ['owner_id'], type: 'INDEX' },
+      ],
+    },
+    {
+      name: 'calendar_members',
+      description: 'Who a calendar is shared with and what they may do',
+      category: 'Features',
+      rowCount: '~5000',
+      columns: [
+        { name: 'id', type: 'uuid', pk: true, nullable: false, default: 'gen_random_uuid()', description: 'Membership ID' },
+        { name: 'calendar_id', type: 'uuid', pk: false, nullable: false, fk: 'calendars(id)', description: 'Shared calendar' },
+        { name: 'user_id', type: 'uuid', pk: false, nullable: false, fk: 'user_profiles(id)', description: 'Member' },
+        { name: 'permission', type: 'varchar', pk: false, nullable: false, default: 'read', description: 'freebusy (times only) | read (full details) | edit (create, change, delete events)' },
+        { name: 'added_by', type: 'uuid', pk: false, nullable: true, fk: 'user_profiles(id)', description: 'Who shared the calendar' },
+        { name: 'created_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'When access was granted' },
+      ],
+      foreignKeys: [
+        { column: 'calendar_id', references: 'calendars(id)', onDelete: 'CASCADE' },
+        { column: 'user_id', references: 'user_profiles(id)', onDelete: 'CASCADE' },
+      ],
+      referencedBy: [],
+      indexes: [
+        { name: 'idx_member_calendar_user', columns: ['calendar_id', 'user_id'], type: 'UNIQUE' },
+        { name: 'idx_member_user', columns: ['user_id'], type: 'INDEX' },
       ],
     },
     {
@@ -296,20 +398,24 @@ const CereforgeDatabaseDocs = () => {
     },
     {
       name: 'event_reminders',
-      description: 'Scheduled event reminders (processed by queue)',
+      description: 'Scheduled event reminders (claimed and sent by the reminder worker)',
       category: 'Features',
       rowCount: '~15000',
       columns: [
         { name: 'id', type: 'uuid', pk: true, nullable: false, description: 'Reminder ID' },
         { name: 'event_id', type: 'uuid', pk: false, nullable: false, fk: 'calendar_events(id)', description: 'FK to calendar_events' },
         { name: 'user_id', type: 'uuid', pk: false, nullable: false, fk: 'user_profiles(id)', description: 'FK to user_profiles' },
+        { name: 'occurrence_start', type: 'timestamptz', pk: false, nullable: true, description: 'Start of the occurrence the reminder is for (one row per recurring instance)' },
         { name: 'remind_at', type: 'timestamptz', pk: false, nullable: false, description: 'When to send reminder' },
         { name: 'sent', type: 'bool', pk: false, nullable: true, default: 'false', description: 'Reminder sent flag' },
         { name: 'sent_at', type: 'timestamptz', pk: false, nullable: true, description: 'When reminder was sent' },
-        { name: 'delivery_status', type: 'varchar', pk: false, nullable: true, description: 'Delivery status (pending, sent, failed)' },
+        { name: 'delivery_status', type: 'varchar', pk: false, nullable: true, description: 'pending | processing | sent | failed | skipped' },
+        { name: 'claimed_at', type: 'timestamptz', pk: false, nullable: true, description: 'When a worker claimed the reminder; stale claims are retaken after 5 minutes' },
+        { name: 'claimed_by', type: 'varchar', pk: false, nullable: true, description: 'Worker that claimed the reminder (host:pid)' },
         { name: 'reminder_type', type: 'varchar', pk: false, nullable: false, description: 'email | push | sms' },
         { name: 'retry_count', type: 'int4', pk: false, nullable: true, default: '0', description: 'Number of retry attempts' },
         { name: 'last_retry_at', type: 'timestamptz', pk: false, nullable: true, description: 'Last retry timestamp' },
+        { name: 'next_attempt_at', type: 'timestamptz', pk: false, nullable: true, description: 'Earliest time a failed reminder is retried (backoff doubles per failure)' },
         { name: 'created_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'Record creation timestamp' },
       ],
       foreignKeys: [
@@ -320,6 +426,90 @@ const CereforgeDatabaseDocs = () => {
       indexes: [
         { name: 'idx_reminder_event', columns: ['event_id'], type: 'INDEX' },
         { name: 'idx_reminder_time', columns: ['remind_at', 'sent'], type: 'INDEX' },
+        { name: 'idx_reminder_occurrence', columns: ['event_id', 'occurrence_start', 'reminder_type'], type: 'UNIQUE' },
+      ],
+    },
+    {
+      name: 'calendar_feeds',
+      description: 'Private iCal subscription feed per user (secret URL token, stored hashed)',
+      category: 'Features',
+      rowCount: '~500',
+      columns: [
+        { name: 'id', type: 'uuid', pk: true, nullable: false, default: 'gen_random_uuid()', description: 'Feed ID' },
+        { name: 'user_id', type: 'uuid', pk: false, nullable: false, fk: 'user_profiles(id)', description: 'FK to user_profiles (one feed per user)' },
+        { name: 'token_hash', type: 'varchar', pk: false, nullable: false, description: 'SHA-256 of the feed URL token; replaced on regenerate' },
+        { name: 'include_holidays', type: 'bool', pk: false, nullable: false, default: 'false', description: 'Add public holidays to the feed' },
+        { name: 'holiday_country', type: 'varchar', pk: false, nullable: true, description: 'ISO country code for holidays; NULL = global holidays only' },
+        { name: 'last_accessed_at', type: 'timestamptz', pk: false, nullable: true, description: 'Last time a calendar app pulled a fresh copy' },
+        { name: 'created_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'When the current token was generated' },
+      ],
+      foreignKeys: [
+        { column: 'user_id', references: 'user_profiles(id)', onDelete: 'CASCADE' },
+      ],
+      referencedBy: [],
+      indexes: [
+        { name: 'idx_feed_user', columns: ['user_id'], type: 'UNIQUE' },
+        { name: 'idx_feed_token', columns: ['token_hash'], type: 'UNIQUE' },
+      ],
+    },
+    {
+      name: 'consultation_types',
+      description: 'Bookable consultation types behind public booking links (individual per user, or Cereforge system bookings)',
+      category: 'Features',
+      rowCount: '~500',
+      columns: [
+        { name: 'id', type: 'uuid', pk: true, nullable: false, default: 'gen_random_uuid()', description: 'Consultation type ID' },
+        { name: 'owner_id', type: 'uuid', pk: false, nullable: false, fk: 'user_profiles(id)', description: 'User whose calendar bookings land on' },
+        { name: 'consultation_type', type: 'varchar', pk: false, nullable: false, description: 'Display name (e.g. Discovery Call)' },
+        { name: 'company_name', type: 'varchar', pk: false, nullable: false, description: 'Company shown on the booking page' },
+        { name: 'description', type: 'text', pk: false, nullable: true, description: 'Shown to bookers' },
+        { name: 'duration_minutes', type: 'int4', pk: false, nullable: false, default: '30', description: 'Meeting length: 15 | 30 | 45 | 60 | 90' },
+        { name: 'buffer_hours', type: 'int4', pk: false, nullable: false, default: '48', description: 'Minimum notice before a slot can be booked' },
+        { name: 'padding_minutes', type: 'int4', pk: false, nullable: false, default: '0', description: "Free time kept either side of the owner's other meetings" },
+        { name: 'max_per_day', type: 'int4', pk: false, nullable: true, description: 'Bookings allowed per day (null = no limit)' },
+        { name: 'timezone', type: 'varchar', pk: false, nullable: false, description: 'IANA timezone the schedule is in' },
+        { name: 'schedule', type: 'jsonb', pk: false, nullable: false, description: 'Weekly hours: { monday: { enabled, openTime, closeTime }, ... }' },
+        { name: 'is_active', type: 'bool', pk: false, nullable: false, default: 'true', description: 'False = paused; the link shows as unavailable' },
+        { name: 'is_system_booking', type: 'bool', pk: false, nullable: false, default: 'false', description: 'Cereforge-wide booking type (managed by admin/core only)' },
+        { name: 'created_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'Creation timestamp' },
+        { name: 'updated_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'Last update timestamp' },
+      ],
+      foreignKeys: [
+        { column: 'owner_id', references: 'user_profiles(id)', onDelete: 'CASCADE' },
+      ],
+      referencedBy: [
+        { table: 'booking_links', column: 'consultation_id' },
+        { table: 'calendar_events', column: 'consultation_id' },
+      ],
+      indexes: [
+        { name: 'idx_consultation_owner', columns: ['owner_id'], type: 'INDEX' },
+        { name: 'idx_consultation_system', columns: ['is_system_booking'], type: 'INDEX' },
+      ],
+    },
+    {
+      name: 'booking_links',
+      description: 'Public booking URLs (/book/:companySlug/:typeSlug/:linkId); one per individual consultation type plus one shared system link',
+      category: 'Features',
+      rowCount: '~500',
+      columns: [
+        { name: 'id', type: 'uuid', pk: true, nullable: false, default: 'gen_random_uuid()', description: 'Booking link ID' },
+        { name: 'link_id', type: 'varchar', pk: false, nullable: false, description: 'Random id in the public URL (replaced on regenerate)' },
+        { name: 'consultation_id', type: 'uuid', pk: false, nullable: true, fk: 'consultation_types(id)', description: 'Consultation booked through this link (null = system booking link)' },
+        { name: 'is_system_booking', type: 'bool', pk: false, nullable: false, default: 'false', description: 'Shared link for all system booking types' },
+        { name: 'company_slug', type: 'varchar', pk: false, nullable: false, description: 'URL slug of the company name' },
+        { name: 'type_slug', type: 'varchar', pk: false, nullable: false, description: 'URL slug of the consultation name (numbered when taken)' },
+        { name: 'created_by', type: 'uuid', pk: false, nullable: false, fk: 'user_profiles(id)', description: 'User who created the link' },
+        { name: 'created_at', type: 'timestamptz', pk: false, nullable: false, default: 'now()', description: 'Creation timestamp' },
+      ],
+      foreignKeys: [
+        { column: 'consultation_id', references: 'consultation_types(id)', onDelete: 'CASCADE' },
+        { column: 'created_by', references: 'user_profiles(id)', onDelete: 'CASCADE' },
+      ],
+      referencedBy: [],
+      indexes: [
+        { name: 'idx_booking_links_link_id', columns: ['link_id'], type: 'UNIQUE' },
+        { name: 'idx_booking_links_slugs', columns: ['company_slug', 'type_slug'], type: 'UNIQUE' },
+        { name: 'idx_booking_links_consultation', columns: ['consultation_id'], type: 'UNIQUE' },
       ],
     },
     {
@@ -411,6 +601,13 @@ const CereforgeDatabaseDocs = () => {
       description: 'One user can have multiple active sessions',
       onDelete: 'CASCADE',
     },
+    {
+      from: 'user_profiles',
+      to: 'user_mfa',
+      type: 'ONE_TO_ONE',
+      description: 'Users have at most one two-factor settings record',
+      onDelete: 'CASCADE',
+    },
     {
       from: 'user_profiles',
       to: 'admin_staff',
@@ -0,0 +1,28 @@
+import { CheckCircle, Circle } from 'lucide-react';
+import { PASSWORD_RULES } from '@/utils/passwordRules';
+
+interface PasswordRequirementsProps {
+  password: string;
+}
+
+/**
+ * Live checklist of password rules (dark auth theme)
+ */
+export const PasswordRequirements = ({ password }: PasswordRequirementsProps) => (
+  <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1.5 mt-3">
+    {PASSWORD_RULES.map((rule) => {
+      const passed = rule.test(password);
+      return (
+        <li
+          key={rule.id}
+          className={`flex items-center space-x-1.5 text-xs transition-colors ${passed ? 'text-green-500' : 'text-zinc-500'}`}
+        >
+          {passed ? <CheckCircle className="w-3.5 h-3.5" /> : <Circle className="w-3.5 h-3.5" />}
+          <span>{rule.label}</span>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+export default PasswordRequirements;
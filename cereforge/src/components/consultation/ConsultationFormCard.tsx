@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { Trash2, Globe, ChevronRight, Power, PowerOff, Clock, Building2, FileText, CalendarClock } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ConsultationFormData, DURATION_OPTIONS, BUFFER_OPTIONS, DAYS_OF_WEEK } from '@/utils/ConsultationConstants';
+import { ConsultationFormData, DURATION_OPTIONS, BUFFER_OPTIONS, PADDING_OPTIONS, MAX_PER_DAY_OPTIONS, DAYS_OF_WEEK } from '@/utils/ConsultationConstants';
 import { filterTimezones, getTimezoneDisplay } from '@/utils/TimezoneUtils';
 
 interface ConsultationFormCardProps {
@@ -164,6 +164,30 @@ const ConsultationFormCard = ({
               </div>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Padding</label>
+                <select
+                  value={formData.paddingMinutes ?? 0}
+                  onChange={(e) => handleFieldUpdate('paddingMinutes', Number(e.target.value))}
+                  className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition-all"
+                  title="Free time kept before and after your other meetings"
+                >
+                  {PADDING_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Daily Limit</label>
+                <select
+                  value={formData.maxPerDay ? String(formData.maxPerDay) : ''}
+                  onChange={(e) => handleFieldUpdate('maxPerDay', e.target.value ? Number(e.target.value) : null)}
+                  className="w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-100 outline-none transition-all"
+                >
+                  {MAX_PER_DAY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                </select>
+              </div>
+            </div>
+
             <div className="relative">
               <label className="block text-xs font-medium text-gray-700 mb-1">Timezone</label>
               <button
@@ -1,12 +1,20 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { 
   Edit, Trash2, ExternalLink, Calendar, Clock, 
   CheckCircle2, Power, PowerOff, Globe, Sparkles,
-  Link as LinkIcon, Building2
+  Link as LinkIcon, Link2Off, RefreshCw, Building2
 } from 'lucide-react';
-import { useAppSelector } from '@/store/hook';
+import { useAppDispatch, useAppSelector } from '@/store/hook';
 import { selectUser } from '@/store/slices/authSlice';
-import { SYSTEM_BOOKING_CONSULTATIONS } from '@/utils/ConsultationConstants';
+import { addToast } from '@/store/slices/uiSlice';
+import {
+  useGetConsultationsQuery,
+  useUpdateConsultationMutation,
+  useDeleteConsultationMutation,
+  useRegenerateBookingLinkMutation,
+  useRevokeBookingLinkMutation
+} from '@/store/api/consultationApi';
+import { MAX_INDIVIDUAL_CONSULTATIONS, SYSTEM_BOOKING_CONSULTATIONS } from '@/utils/ConsultationConstants';
 import { getTimezoneDisplay } from '@/utils/TimezoneUtils';
 
 interface Consultation {
@@ -20,7 +28,7 @@ interface Consultation {
   timezone: string;
   isActive: boolean;
   createdAt: string;
-  bookingLink: string;
+  bookingLink: string | null; // null = revoked
   isSystemBooking?: boolean;
 }
 
@@ -29,43 +37,58 @@ interface ConsultationListProps {
 }
 
 const ConsultationList = ({ onEdit }: ConsultationListProps) => {
+  const dispatch = useAppDispatch();
   const user = useAppSelector(selectUser);
   const isAdminOrCore = user?.role === 'admin' || user?.role === 'core';
 
-  const [individualConsultations, setIndividualConsultations] = useState<Consultation[]>([]);
-  const [systemConsultations, setSystemConsultations] = useState<Consultation[]>([]);
+  const { data: savedConsultations = [], isLoading } = useGetConsultationsQuery();
+  const [updateConsultation] = useUpdateConsultationMutation();
+  const [deleteConsultation] = useDeleteConsultationMutation();
+  const [regenerateBookingLink] = useRegenerateBookingLinkMutation();
+  const [revokeBookingLink] = useRevokeBookingLinkMutation();
 
-  useEffect(() => {
-    // TODO: Replace with actual API calls when backend is ready
-    // fetchConsultations();
-    
-    // Temporary: Load system booking for admin/core users only
-    if (isAdminOrCore) {
-      const systemBooking: Consultation = {
-        id: 'system_booking_consult',
-        consultationType: 'System Booking',
-        companyName: 'Cereforge',
-        duration: '30, 60, 30',
-        description: 'Global availability for Discovery, Technical, and Follow-up meetings.',
-        availableDays: ['Monday', 'Tuesday', 'Wednesday'],
-        bufferHours: 48,
-        timezone: 'Africa/Lagos',
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        bookingLink: `/book/cereforge/system/system_booking_consult`,
-        isSystemBooking: true
-      };
-      setSystemConsultations([systemBooking]);
-    }
-    
-    // TODO: Fetch individual consultations from API
-    // const response = await dispatch(fetchUserConsultations()).unwrap();
-    // setIndividualConsultations(response);
-  }, [isAdminOrCore]);
+  const systemTypes = savedConsultations.filter(c => c.isSystemBooking);
+
+  // System booking types are managed together as one card
+  const systemConsultations: Consultation[] = isAdminOrCore ? [{
+    id: 'system_booking_consult',
+    consultationType: 'System Booking',
+    companyName: 'Cereforge',
+    duration: systemTypes.map(c => c.durationMinutes).join(', '),
+    description: 'Global availability for Discovery, Technical, and Follow-up meetings.',
+    availableDays: [],
+    bufferHours: systemTypes[0]?.bufferHours ?? 48,
+    timezone: systemTypes[0]?.timezone ?? 'Africa/Lagos',
+    isActive: systemTypes.some(c => c.isActive),
+    createdAt: systemTypes[0]?.createdAt ?? '',
+    bookingLink: systemTypes[0]?.bookingPath ?? null,
+    isSystemBooking: true
+  }] : [];
+
+  const individualConsultations: Consultation[] = savedConsultations
+    .filter(c => !c.isSystemBooking)
+    .map(c => ({
+      id: c.id,
+      consultationType: c.consultationType,
+      companyName: c.companyName,
+      duration: String(c.durationMinutes),
+      description: c.description,
+      availableDays: Object.entries(c.schedule).filter(([, day]) => day.enabled).map(([key]) => key),
+      bufferHours: c.bufferHours,
+      timezone: c.timezone,
+      isActive: c.isActive,
+      createdAt: c.createdAt,
+      bookingLink: c.bookingPath,
+      isSystemBooking: false
+    }));
 
   const allConsultations = [...systemConsultations, ...individualConsultations];
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
+  const showError = (err: any, fallback: string) => {
+    dispatch(addToast({ message: err?.data?.error?.message || fallback, type: 'error' }));
+  };
+
   const handleCopyLink = (link: string, id: string) => {
     const fullUrl = `${window.location.origin}${link}`;
     navigator.clipboard.writeText(fullUrl);
@@ -73,38 +96,64 @@ const ConsultationList = ({ onEdit }: ConsultationListProps) => {
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const handleDelete = (id: string) => {
+  const handleDelete = async (id: string) => {
     if (id === 'system_booking_consult') {
       alert('System booking cannot be deleted. This is managed by Cereforge.');
       return;
     }
     
     if (window.confirm('Are you sure you want to delete this consultation?')) {
-      // TODO: Replace with actual API call
-      // await dispatch(deleteConsultation(id)).unwrap();
-      setIndividualConsultations(individualConsultations.filter(c => c.id !== id));
-      console.log('Delete consultation:', id);
+      try {
+        await deleteConsultation(id).unwrap();
+        dispatch(addToast({ message: 'Consultation deleted', type: 'success' }));
+      } catch (err) {
+        showError(err, 'Failed to delete consultation. Please try again.');
+      }
     }
   };
 
   const handleToggleActive = async (id: string) => {
-    // TODO: Replace with actual API call
-    // await dispatch(toggleConsultationActive(id)).unwrap();
-    
-    if (id === 'system_booking_consult') {
-      setSystemConsultations(systemConsultations.map(c => 
-        c.id === id ? { ...c, isActive: !c.isActive } : c
-      ));
-    } else {
-      setIndividualConsultations(individualConsultations.map(c =>
-        c.id === id ? { ...c, isActive: !c.isActive } : c
-      ));
+    try {
+      if (id === 'system_booking_consult') {
+        const isActive = !systemTypes.some(c => c.isActive);
+        await Promise.all(systemTypes.map(c => updateConsultation({ id: c.id, isActive }).unwrap()));
+      } else {
+        const consultation = savedConsultations.find(c => c.id === id);
+        if (consultation) {
+          await updateConsultation({ id, isActive: !consultation.isActive }).unwrap();
+        }
+      }
+    } catch (err) {
+      showError(err, 'Failed to update booking status. Please try again.');
+    }
+  };
+
+  // The system card's link is shared by every system booking type
+  const linkTarget = (id: string) => id === 'system_booking_consult' ? null : id;
+
+  const handleRegenerateLink = async (consultation: Consultation) => {
+    if (consultation.bookingLink && !window.confirm('Generate a new link? The current link will stop working.')) return;
+
+    try {
+      await regenerateBookingLink(linkTarget(consultation.id)).unwrap();
+      dispatch(addToast({ message: consultation.bookingLink ? 'New booking link generated' : 'Booking link created', type: 'success' }));
+    } catch (err) {
+      showError(err, 'Failed to generate booking link. Please try again.');
+    }
+  };
+
+  const handleRevokeLink = async (consultation: Consultation) => {
+    if (!window.confirm('Revoke this booking link? Nobody will be able to book through it until you generate a new one.')) return;
+
+    try {
+      await revokeBookingLink(linkTarget(consultation.id)).unwrap();
+      dispatch(addToast({ message: 'Booking link revoked', type: 'success' }));
+    } catch (err) {
+      showError(err, 'Failed to revoke booking link. Please try again.');
     }
-    
-    console.log('Toggle active status for:', id);
   };
 
-  const canCreateNew = individualConsultations.length < 2;
+  const canCreateNew = individualConsultations.length < MAX_INDIVIDUAL_CONSULTATIONS;
 
   const StatusBadge = ({ isActive }: { isActive: boolean }) => (
     <div className={`flex items-center space-x-1.5 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider ${
@@ -121,12 +170,19 @@ const ConsultationList = ({ onEdit }: ConsultationListProps) => {
         <h2 className="text-xl font-bold text-gray-900">Your Bookings</h2>
         {!canCreateNew && (
           <span className="text-xs text-amber-600 bg-amber-50 px-3 py-1 rounded-full border border-amber-100">
-            Limit Reached (2/2)
+            Limit Reached ({MAX_INDIVIDUAL_CONSULTATIONS}/{MAX_INDIVIDUAL_CONSULTATIONS})
           </span>
         )}
       </div>
 
-      {allConsultations.length === 0 && (
+      {isLoading && (
+        <div className="flex flex-col items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mb-4"></div>
+          <p className="text-sm text-gray-500 font-medium">Loading consultations...</p>
+        </div>
+      )}
+
+      {!isLoading && allConsultations.length === 0 && (
         <div className="text-center py-16 bg-white rounded-2xl border border-dashed border-gray-200">
           <Calendar className="w-12 h-12 text-gray-300 mx-auto mb-3" />
           <h3 className="text-gray-900 font-medium">No consultations set up</h3>
@@ -139,6 +195,9 @@ const ConsultationList = ({ onEdit }: ConsultationListProps) => {
       <div className="space-y-4">
         {allConsultations.map((consultation) => {
           const isSystem = consultation.isSystemBooking;
+          const bookingLink = consultation.bookingLink;
+          // Nothing to book on the system link until a system type is saved
+          const canManageLink = !isSystem || systemTypes.length > 0;
           
           return (
             <div 
@@ -172,7 +231,10 @@ const ConsultationList = ({ onEdit }: ConsultationListProps) => {
                         </h3>
                         <StatusBadge isActive={consultation.isActive} />
                       </div>
-                      <p className="text-xs text-gray-500 font-medium">{consultation.companyName}</p>
+                      <p className="text-xs text-gray-500 font-medium">
+                        {consultation.companyName}
+                        {canManageLink && !bookingLink && <span className="ml-2 text-amber-600">· Link revoked</span>}
+                      </p>
                     </div>
                   </div>
                   
@@ -182,8 +244,11 @@ const ConsultationList = ({ onEdit }: ConsultationListProps) => {
 
                   {isSystem && (
                     <div className="flex flex-wrap gap-2">
-                      {SYSTEM_BOOKING_CONSULTATIONS.map(t => (
-                        <span key={t.id} className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium bg-gray-100 text-gray-600 border border-gray-200">
+                      {(systemTypes.length > 0
+                        ? systemTypes.map(t => ({ id: t.id, title: t.consultationType, isActive: t.isActive }))
+                        : SYSTEM_BOOKING_CONSULTATIONS.map(t => ({ id: t.id, title: t.title, isActive: true }))
+                      ).map(t => (
+                        <span key={t.id} className={`inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium bg-gray-100 border border-gray-200 ${t.isActive ? 'text-gray-600' : 'text-gray-400 line-through'}`}>
                            {t.title}
                         </span>
                       ))}
@@ -224,25 +289,49 @@ const ConsultationList = ({ onEdit }: ConsultationListProps) => {
                     
                     <div className="w-px h-4 bg-gray-200 mx-1" />
 
-                    <button
-                      onClick={() => window.open(consultation.bookingLink, '_blank')}
-                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
-                      title="Preview Page"
-                    >
-                      <ExternalLink className="w-4 h-4" />
-                    </button>
+                    {bookingLink && (
+                      <>
+                        <button
+                          onClick={() => window.open(bookingLink, '_blank')}
+                          className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+                          title="Preview Page"
+                        >
+                          <ExternalLink className="w-4 h-4" />
+                        </button>
 
-                    <button
-                      onClick={() => handleCopyLink(consultation.bookingLink, consultation.id)}
-                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors relative"
-                      title="Copy Booking Link"
-                    >
-                      {copiedId === consultation.id ? (
-                        <CheckCircle2 className="w-4 h-4 text-green-600" />
-                      ) : (
-                        <LinkIcon className="w-4 h-4" />
-                      )}
-                    </button>
+                        <button
+                          onClick={() => handleCopyLink(bookingLink, consultation.id)}
+                          className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors relative"
+                          title="Copy Booking Link"
+                        >
+                          {copiedId === consultation.id ? (
+                            <CheckCircle2 className="w-4 h-4 text-green-600" />
+                          ) : (
+                            <LinkIcon className="w-4 h-4" />
+                          )}
+                        </button>
+                      </>
+                    )}
+
+                    {canManageLink && (
+                      <button
+                        onClick={() => handleRegenerateLink(consultation)}
+                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors"
+                        title={bookingLink ? 'Generate New Link' : 'Create Booking Link'}
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </button>
+                    )}
+
+                    {canManageLink && bookingLink && (
+                      <button
+                        onClick={() => handleRevokeLink(consultation)}
+                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                        title="Revoke Link"
+                      >
+                        <Link2Off className="w-4 h-4" />
+                      </button>
+                    )}
 
                     <button
                       onClick={() => onEdit(consultation.id)}
@@ -1,12 +1,21 @@
 // src/components/consultation/CreateConsultation.tsx
 
 import { useState, useEffect } from 'react';
-import { ChevronLeft, Save, Plus, Info } from 'lucide-react';
+import { ChevronLeft, Save, Plus, Info, Loader2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import ConsultationFormCard from './ConsultationFormCard';
-import { ConsultationFormData, EMPTY_CONSULTATION_FORM, SYSTEM_BOOKING_CONSULTATIONS } from '@/utils/ConsultationConstants';
-import { useAppSelector } from '@/store/hook';
+import { ConsultationFormData, EMPTY_CONSULTATION_FORM, SYSTEM_BOOKING_CONSULTATIONS, MAX_INDIVIDUAL_CONSULTATIONS } from '@/utils/ConsultationConstants';
+import { formatConsultationForAPI, toConsultationFormData } from '@/utils/ConsultationUtils';
+import { useAppDispatch, useAppSelector } from '@/store/hook';
 import { selectUser } from '@/store/slices/authSlice';
+import { addToast } from '@/store/slices/uiSlice';
+import {
+  useGetConsultationsQuery,
+  useCreateConsultationMutation,
+  useUpdateConsultationMutation,
+  useDeleteConsultationMutation
+} from '@/store/api/consultationApi';
+import type { ConsultationType } from '@/types/consultation.types';
 
 interface CreateConsultationProps {
   editingId: string | null;
@@ -14,6 +23,7 @@ interface CreateConsultationProps {
 }
 
 const CreateConsultation = ({ editingId, onBack }: CreateConsultationProps) => {
+  const dispatch = useAppDispatch();
   const user = useAppSelector(selectUser);
   const isAdminOrCore = user?.role === 'admin' || user?.role === 'core';
   
@@ -21,20 +31,37 @@ const CreateConsultation = ({ editingId, onBack }: CreateConsultationProps) => {
   const [consultations, setConsultations] = useState<ConsultationFormData[]>([
     { ...EMPTY_CONSULTATION_FORM }
   ]);
-  const [isLoading, setIsLoading] = useState(false);
+  // Saved consultations loaded for editing; any removed from the form are deleted on save
+  const [loadedIds, setLoadedIds] = useState<string[]>([]);
+  const [hasLoaded, setHasLoaded] = useState(!editingId);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: savedConsultations, isLoading, isError } = useGetConsultationsQuery();
+  const [createConsultation] = useCreateConsultationMutation();
+  const [updateConsultation] = useUpdateConsultationMutation();
+  const [deleteConsultation] = useDeleteConsultationMutation();
 
   useEffect(() => {
-    if (editingId) {
-      loadConsultationForEditing(editingId);
+    if (editingId && savedConsultations && !hasLoaded) {
+      loadConsultationForEditing(editingId, savedConsultations);
     }
-  }, [editingId]);
+  }, [editingId, savedConsultations, hasLoaded]);
 
-  const loadConsultationForEditing = async (id: string) => {
-    setIsLoading(true);
-    try {
-      if (id === 'system_booking_consult') {
-        // Load System Booking consultations with isActive status
-        const systemConsults: ConsultationFormData[] = SYSTEM_BOOKING_CONSULTATIONS.map((type) => ({
+  useEffect(() => {
+    if (editingId && isError) {
+      dispatch(addToast({ message: 'Failed to load consultation data', type: 'error' }));
+      onBack();
+    }
+  }, [editingId, isError]);
+
+  const loadConsultationForEditing = (id: string, saved: ConsultationType[]) => {
+    if (id === 'system_booking_consult') {
+      const systemConsults = saved.filter(c => c.isSystemBooking);
+
+      // First edit starts from the Cereforge defaults; saving creates them
+      setConsultations(systemConsults.length > 0
+        ? systemConsults.map(toConsultationFormData)
+        : SYSTEM_BOOKING_CONSULTATIONS.map((type) => ({
           consultationType: type.title,
           companyName: 'Cereforge',
           duration: type.duration.replace(' minutes', ''),
@@ -52,48 +79,32 @@ const CreateConsultation = ({ editingId, onBack }: CreateConsultationProps) => {
             sunday: { enabled: false, openTime: '09:00', closeTime: '17:00' },
           },
           isSystemBooking: true
-        }));
-        setConsultations(systemConsults);
-        setIsSystemBooking(true);
-      } else {
-        // TODO: Replace with actual API call when backend is ready
-        // For now, mock individual consultation data
-        const mockIndividualConsults: ConsultationFormData[] = [
-          {
-            consultationType: 'Client Discovery',
-            companyName: 'My Company',
-            duration: '30',
-            description: 'Initial client meeting',
-            bufferHours: 48,
-            timezone: 'America/New_York',
-            isActive: true, // ✅ Load actual isActive status from API
-            schedule: {
-              monday: { enabled: true, openTime: '10:00', closeTime: '16:00' },
-              tuesday: { enabled: true, openTime: '10:00', closeTime: '16:00' },
-              wednesday: { enabled: false, openTime: '09:00', closeTime: '17:00' },
-              thursday: { enabled: false, openTime: '09:00', closeTime: '17:00' },
-              friday: { enabled: false, openTime: '09:00', closeTime: '17:00' },
-              saturday: { enabled: false, openTime: '09:00', closeTime: '17:00' },
-              sunday: { enabled: false, openTime: '09:00', closeTime: '17:00' },
-            },
-            isSystemBooking: false
-          }
-        ];
-        setConsultations(mockIndividualConsults);
-        setIsSystemBooking(false);
+        })));
+      setLoadedIds(systemConsults.map(c => c.id));
+      setIsSystemBooking(true);
+    } else {
+      const consultation = saved.find(c => c.id === id);
+      if (!consultation) {
+        dispatch(addToast({ message: 'Consultation not found', type: 'error' }));
+        onBack();
+        return;
       }
-    } catch (error) {
-      console.error('Error loading consultation:', error);
-      alert('Failed to load consultation data');
-      onBack();
-    } finally {
-      setIsLoading(false);
+      setConsultations([toConsultationFormData(consultation)]);
+      setLoadedIds([consultation.id]);
+      setIsSystemBooking(consultation.isSystemBooking);
     }
+    setHasLoaded(true);
   };
 
+  // Individual types saved elsewhere still count towards the per-user limit
+  const otherIndividualCount = (savedConsultations || [])
+    .filter(c => !c.isSystemBooking && !loadedIds.includes(c.id))
+    .length;
+  const individualLimit = MAX_INDIVIDUAL_CONSULTATIONS - otherIndividualCount;
+  const maxConsultations = isSystemBooking ? Infinity : individualLimit;
+
   const handleAddConsultation = () => {
-    const maxAllowed = isSystemBooking ? Infinity : 2;
-    if (consultations.length < maxAllowed) {
+    if (consultations.length < maxConsultations) {
       setConsultations([
         ...consultations, 
         { 
@@ -120,7 +131,7 @@ const CreateConsultation = ({ editingId, onBack }: CreateConsultationProps) => {
     setConsultations(updated);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validation
@@ -136,55 +147,49 @@ const CreateConsultation = ({ editingId, onBack }: CreateConsultationProps) => {
       }
     }
 
-    const bookingGroupId = editingId || (isSystemBooking 
-      ? 'system_booking_consult' 
-      : `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
-    
-    const bookingData = {
-      id: bookingGroupId,
-      isSystemBooking,
-      consultations: consultations.map((consultation, index) => {
-        const companySlug = consultation.companyName.toLowerCase().replace(/\s+/g, '-');
-        const typeSlug = consultation.consultationType.toLowerCase().replace(/\s+/g, '-');
-        const consultationId = `${bookingGroupId}_${index}`;
-        
-        return {
-          id: consultationId,
-          consultationType: consultation.consultationType,
-          companyName: consultation.companyName,
-          duration: consultation.duration,
-          description: consultation.description,
-          bufferHours: consultation.bufferHours,
-          timezone: consultation.timezone, // ✅ Include timezone
-          isActive: consultation.isActive, // ✅ Include isActive status
-          schedule: consultation.schedule,
-          isSystemBooking: consultation.isSystemBooking,
-          bookingLink: `/book/${companySlug}/${typeSlug}/${consultationId}`,
-        };
-      }),
-      createdAt: editingId ? undefined : new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
+    setIsSaving(true);
+    try {
+      const keptIds = consultations.map(c => c.id).filter(Boolean);
+      const removedIds = loadedIds.filter(id => !keptIds.includes(id));
 
-    console.log('Saving booking group:', bookingData);
-    
-    // TODO: Replace with actual API call when backend is ready
-    // Example: await dispatch(createConsultation(bookingData)).unwrap();
-    
-    alert(`${consultations.length} consultation(s) ${editingId ? 'updated' : 'saved'} successfully!`);
-    onBack();
+      // Deletes first so replacing a variant never trips the per-user limit
+      for (const id of removedIds) {
+        await deleteConsultation(id).unwrap();
+      }
+
+      for (const consultation of consultations) {
+        const { isSystemBooking: _isSystemBooking, ...input } = formatConsultationForAPI({ ...consultation, isSystemBooking });
+        if (consultation.id) {
+          await updateConsultation({ id: consultation.id, ...input }).unwrap();
+        } else {
+          await createConsultation({ ...input, isSystemBooking }).unwrap();
+        }
+      }
+
+      dispatch(addToast({
+        message: `${consultations.length} consultation(s) ${editingId ? 'updated' : 'saved'} successfully!`,
+        type: 'success'
+      }));
+      onBack();
+    } catch (err: any) {
+      dispatch(addToast({
+        message: err?.data?.error?.message || 'Failed to save consultation. Please try again.',
+        type: 'error'
+      }));
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const isFormValid = consultations.every(consultation => 
     consultation.consultationType && 
     consultation.companyName && 
     Object.values(consultation.schedule).some(day => day.enabled)
-  );
+  ) && consultations.length <= maxConsultations;
 
-  const maxConsultations = isSystemBooking ? Infinity : 2;
   const canAddMore = consultations.length < maxConsultations;
 
-  if (isLoading) {
+  if (isLoading || !hasLoaded) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px]">
         <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mb-4"></div>
@@ -227,10 +232,10 @@ const CreateConsultation = ({ editingId, onBack }: CreateConsultationProps) => {
           )}
           <button
             onClick={(e) => handleSubmit(e as any)}
-            disabled={!isFormValid}
+            disabled={!isFormValid || isSaving}
             className="flex items-center space-x-2 px-5 py-2 bg-blue-900 hover:bg-blue-800 text-white font-semibold text-xs rounded-lg shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            <Save className="w-3.5 h-3.5" />
+            {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
             <span>{editingId ? 'Update Changes' : 'Save Booking'}</span>
           </button>
         </div>
@@ -285,6 +290,17 @@ const CreateConsultation = ({ editingId, onBack }: CreateConsultationProps) => {
           </motion.div>
         )}
 
+        {/* Limit Banner */}
+        {!isSystemBooking && consultations.length > individualLimit && (
+          <div className="flex items-start gap-3 p-4 bg-amber-50/50 border border-amber-100 rounded-xl text-amber-800">
+            <Info className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              You can have up to {MAX_INDIVIDUAL_CONSULTATIONS} consultation types.
+              {individualLimit > 0 ? ' Remove a variant to save.' : ' Delete one from "My Consultations" to create another.'}
+            </div>
+          </div>
+        )}
+
         {/* Info Banner for Editing */}
         {editingId && (
           <motion.div 
@@ -6,8 +6,15 @@ import {
   FileEdit, 
   Calendar as CalendarIcon,
   CalendarCheck,
-  Users
+  Users,
+  ShieldCheck,
+  ScrollText,
+  UserCog
 } from 'lucide-react';
+import { useAppSelector } from '@/store/hook';
+import { selectUser } from '@/store/slices/authSlice';
+import { hasPermission } from '@/hooks/usePermission';
+import type { Permission } from '@/types/permissions.types';
 
 interface SidebarProps {
   activeTab: string;
@@ -25,14 +32,23 @@ const Sidebar = ({ activeTab, setActiveTab, handleLogout, isLoading }: SidebarPr
     setIsHovered(false); // Forces the menu to snap shut immediately
   };
 
-  const tabs = [
+  const user = useAppSelector(selectUser);
+
+  // Tabs without a `permission` are shown to everyone; `coreOnly` tabs also need the core role
+  const allTabs: Array<{ id: string; label: string; icon: typeof LayoutDashboard; permission?: Permission; coreOnly?: boolean }> = [
     { id: 'overview', label: 'Overview', icon: LayoutDashboard },
     { id: 'editor', label: 'Editor', icon: FileEdit },
     { id: 'calendar', label: 'Calendar', icon: CalendarIcon },
     { id: 'video', label: 'Video', icon: Video },
     { id: 'consultation', label: 'Consultation', icon: CalendarCheck },
-    { id: 'partners', label: 'Partners', icon: Users },
+    { id: 'partners', label: 'Partners', icon: Users, permission: 'partners.view' },
+    { id: 'audit', label: 'Audit', icon: ScrollText, permission: 'audit.read' },
+    { id: 'users', label: 'Users', icon: UserCog, permission: 'users.manage', coreOnly: true },
+    { id: 'security', label: 'Security', icon: ShieldCheck },
   ];
+  const tabs = allTabs.filter((tab) =>
+    (!tab.permission || hasPermission(user, tab.permission)) && (!tab.coreOnly || user?.role === 'core')
+  );
 
   return (
     <aside
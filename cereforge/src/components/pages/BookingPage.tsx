@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { useDocumentTitle } from '@/hooks/useDocumentTitle';
+import { useGetBookingConfigQuery } from '@/store/api/bookingApi';
+import ConsultationBooking from '../calendar/ConsultationBooking';
+
+// Public booking link: /book/:companySlug/:typeSlug/:uniqueId (only uniqueId is looked up)
+const BookingPage = () => {
+  useDocumentTitle(
+    "Cereforge - Book a Consultation",
+    "Pick a time for your consultation.",
+    "/book"
+  );
+
+  const navigate = useNavigate();
+  const { companySlug, typeSlug, uniqueId = '' } = useParams<{ companySlug: string; typeSlug: string; uniqueId: string }>();
+  const { data: config, isLoading, error } = useGetBookingConfigQuery(uniqueId, { skip: !uniqueId });
+
+  // Renamed consultations keep their link id; move old URLs onto the current slugs
+  useEffect(() => {
+    if (config && config.bookingPath !== `/book/${companySlug}/${typeSlug}/${uniqueId}`) {
+      navigate(config.bookingPath, { replace: true });
+    }
+  }, [config, companySlug, typeSlug, uniqueId, navigate]);
+
+  const serverError = error as any;
+  const errorMessage = serverError?.status === 404
+    ? 'This booking link is invalid or has been revoked.'
+    : serverError?.data?.error?.message || 'Failed to load this booking page. Please try again later.';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      {isLoading ? (
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      ) : !config ? (
+        <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-8 text-center">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <AlertCircle className="w-8 h-8 text-red-600" />
+          </div>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Booking Link Unavailable</h2>
+          <p className="text-sm text-gray-600 leading-relaxed">{errorMessage}</p>
+        </div>
+      ) : (
+        <ConsultationBooking
+          isOpen={true}
+          onClose={() => navigate('/')}
+          mode="standalone"
+          config={config}
+          linkId={uniqueId}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BookingPage;
@@ -12,10 +12,11 @@ import MobileCalendarView from '../../components/calendar/MobileCalendarView';
 import EventModal from '../calendar/EventModal';
 import PublicHolidayViewModal from '../../components/calendar/modals/PublicHolidayModal'; // ✅ IMPORT
 import CalendarLoadingToast from '../../components/calendar/modals/CalendarLoadingToats';
-import type { CalendarEvent } from '../../types/calendar.types';
+import type { CalendarEvent, RecurrenceEditScope } from '../../types/calendar.types';
 import { useDocumentTitle } from '@/hooks/useDocumentTitle';
 import { useAppDispatch } from '@/store/hook';
 import { addToast } from '@/store/slices/uiSlice';
+import { getEventConflicts } from '@/utils/calendar.utils';
 
 type CalendarView = 'day' | 'week' | 'month' | 'year';
 
@@ -54,6 +55,9 @@ const CalendarPage = () => {
     isDeleting,
     labels,
     updateLabel,
+    calendars,
+    hiddenCalendarIds,
+    toggleCalendar,
     showHolidays,
     setShowHolidays,
     selectedCountry,
@@ -118,16 +122,16 @@ const CalendarPage = () => {
     }
   };
 
-  const handleSaveEvent = async (event: CalendarEvent) => {
+  const handleSaveEvent = async (event: CalendarEvent, scope?: RecurrenceEditScope, force?: boolean) => {
     try {
       if (selectedEvent) {
-        await updateEvent(event);
+        await updateEvent(event, scope, force);
         dispatch(addToast({
           message: 'Event updated successfully!',
           type: 'success'
         }));
       } else {
-        await addEvent(event);
+        await addEvent(event, force);
         dispatch(addToast({
           message: 'Event created successfully!',
           type: 'success'
@@ -136,6 +140,9 @@ const CalendarPage = () => {
       setShowEventModal(false);
       setSelectedEvent(null);
     } catch (error) {
+      // The event modal shows overlaps and offers to save anyway
+      if (getEventConflicts(error)) throw error;
+
       dispatch(addToast({
         message: 'Failed to save event. Please try again.',
         type: 'error'
@@ -149,9 +156,9 @@ const CalendarPage = () => {
     setShowHolidayModal(false); // ✅ ENSURE HOLIDAY MODAL CLOSED
   };
 
-  const handleDeleteEvent = async (eventId: string) => {
+  const handleDeleteEvent = async (eventId: string, scope?: RecurrenceEditScope) => {
     try {
-      await deleteEvent(eventId);
+      await deleteEvent(eventId, scope, selectedEvent?.originalStart ?? undefined);
       dispatch(addToast({
         message: 'Event deleted successfully!',
         type: 'success'
@@ -253,6 +260,8 @@ const CalendarPage = () => {
             selectedEvent={selectedEvent}
             onSave={handleSaveEvent}
             onDelete={handleDeleteEvent}
+            holidayCountry={selectedCountry}
+            calendars={calendars}
           />
         )}
 
@@ -265,6 +274,8 @@ const CalendarPage = () => {
             selectedEvent={null}
             onSave={handleSaveEvent}
             onDelete={handleDeleteEvent}
+            holidayCountry={selectedCountry}
+            calendars={calendars}
           />
         )}
 
@@ -303,6 +314,9 @@ const CalendarPage = () => {
         setShowHolidays={setShowHolidays}
         selectedCountry={selectedCountry}
         setSelectedCountry={setSelectedCountry}
+        calendars={calendars}
+        hiddenCalendarIds={hiddenCalendarIds}
+        toggleCalendar={toggleCalendar}
       />
 
       {/* Main Content */}
@@ -343,6 +357,8 @@ const CalendarPage = () => {
           selectedEvent={selectedEvent}
           onSave={handleSaveEvent}
           onDelete={handleDeleteEvent}
+          holidayCountry={selectedCountry}
+          calendars={calendars}
         />
       )}
 
@@ -0,0 +1,227 @@
+import { useState, FormEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Eye, EyeOff, Lock, Loader2, AlertCircle, ArrowRight, KeyRound } from 'lucide-react';
+import cereForge from '../../assets/cereForge.png';
+import { useDocumentTitle } from '@/hooks/useDocumentTitle';
+import { useChangePasswordMutation, useLogoutMutation } from '@/store/api/authApi';
+import { useAppDispatch, useAppSelector } from '@/store/hook';
+import { selectUser } from '@/store/slices/authSlice';
+import { addToast } from '@/store/slices/uiSlice';
+import { isPasswordStrong } from '@/utils/passwordRules';
+import PasswordRequirements from '../common/PasswordRequirements';
+
+const dashboardPath = (role?: 'core' | 'admin' | 'partner') => {
+  switch (role) {
+    case 'core':
+      return '/core/dashboard';
+    case 'admin':
+      return '/admin/dashboard';
+    case 'partner':
+      return '/partner/dashboard';
+    default:
+      return '/';
+  }
+};
+
+const ChangePassword = () => {
+  useDocumentTitle(
+    "Cereforge - Change Password",
+    "Set a new password for your Cereforge account.",
+    "/change-password"
+  );
+
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const user = useAppSelector(selectUser);
+
+  const [changePassword, { isLoading }] = useChangePasswordMutation();
+  const [logout] = useLogoutMutation();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isForced = !!user?.mustChangePassword;
+  const passwordsMatch = newPassword.length > 0 && newPassword === confirmPassword;
+  const canSubmit = !!currentPassword && isPasswordStrong(newPassword) && passwordsMatch && !isLoading;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setError(null);
+
+    try {
+      await changePassword({ currentPassword, newPassword }).unwrap();
+
+      dispatch(addToast({
+        message: 'Password changed successfully',
+        type: 'success'
+      }));
+      navigate(dashboardPath(user?.role), { replace: true });
+    } catch (err: any) {
+      const serverError = err?.data?.error;
+      setError(serverError?.message || 'Unable to change password. Please try again.');
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await logout().unwrap();
+    } finally {
+      navigate('/login', { replace: true });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black text-zinc-100 font-sans flex flex-col items-center justify-center overflow-hidden">
+      <div className="absolute inset-0 bg-[linear-gradient(to_right,#80808008_1px,transparent_1px),linear-gradient(to_bottom,#80808008_1px,transparent_1px)] bg-[size:24px_24px] pointer-events-none"></div>
+
+      <div className="relative z-10 w-full max-w-sm sm:max-w-md flex flex-col max-h-full p-4 gap-6">
+        {/* Branding */}
+        <div className="flex-shrink-0 text-center">
+          <div className="flex items-center justify-center space-x-3 mb-2">
+            <img src={cereForge} alt="Cereforge Logo" className="w-12 h-12 rounded-lg bg-white/10 p-1 object-contain border border-white/10" />
+            <div className="flex items-center">
+              <div className="relative inline-block mr-1">
+                <div className="absolute inset-0 bg-white/10 backdrop-blur-md rounded-lg transform -skew-x-12 border border-white/20"></div>
+                <span className="text-blue-500 relative z-10 px-3 py-1 font-bold text-2xl tracking-tight">CERE</span>
+              </div>
+              <span className="text-white font-bold text-2xl tracking-tight">FORGE</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Card */}
+        <div className="flex flex-col bg-zinc-900/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-zinc-700 overflow-hidden shrink min-h-0">
+          <div className="flex-shrink-0 p-4 sm:p-5 text-center border-b border-white/5 bg-white/5">
+            <div className="inline-flex items-center space-x-2 bg-orange-500/10 text-orange-500 border border-orange-500/50 px-4 py-1.5 rounded-full">
+              <KeyRound className="w-5 h-5" />
+              <span className="font-semibold text-sm">Change Password</span>
+            </div>
+            <p className="text-zinc-400 text-sm mt-2">
+              {isForced
+                ? 'Replace your temporary password to continue'
+                : 'Other sessions will be signed out'}
+            </p>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 py-6 scrollbar-hide">
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div>
+                <label htmlFor="current-password" className="block text-xs font-mono text-zinc-500 uppercase tracking-wider mb-1.5 ml-1">
+                  {isForced ? 'Temporary Password' : 'Current Password'}
+                </label>
+                <div className="relative group">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zinc-500 group-focus-within:text-white" />
+                  <input
+                    id="current-password"
+                    type={showPassword ? 'text' : 'password'}
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    autoComplete="current-password"
+                    className="w-full pl-10 pr-10 py-3 bg-black/50 border border-white/10 rounded-xl text-sm text-white outline-none focus:border-orange-500/50 focus:ring-1 focus:ring-orange-500/50"
+                    placeholder="••••••••••••"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-zinc-500 hover:text-white p-1"
+                  >
+                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="new-password" className="block text-xs font-mono text-zinc-500 uppercase tracking-wider mb-1.5 ml-1">
+                  New Password
+                </label>
+                <div className="relative group">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zinc-500 group-focus-within:text-white" />
+                  <input
+                    id="new-password"
+                    type={showPassword ? 'text' : 'password'}
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    autoComplete="new-password"
+                    className="w-full pl-10 pr-4 py-3 bg-black/50 border border-white/10 rounded-xl text-sm text-white outline-none focus:border-orange-500/50 focus:ring-1 focus:ring-orange-500/50"
+                    placeholder="••••••••••••"
+                  />
+                </div>
+                <PasswordRequirements password={newPassword} />
+              </div>
+
+              <div>
+                <label htmlFor="confirm-password" className="block text-xs font-mono text-zinc-500 uppercase tracking-wider mb-1.5 ml-1">
+                  Confirm New Password
+                </label>
+                <div className="relative group">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zinc-500 group-focus-within:text-white" />
+                  <input
+                    id="confirm-password"
+                    type={showPassword ? 'text' : 'password'}
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                    className="w-full pl-10 pr-4 py-3 bg-black/50 border border-white/10 rounded-xl text-sm text-white outline-none focus:border-orange-500/50 focus:ring-1 focus:ring-orange-500/50"
+                    placeholder="••••••••••••"
+                  />
+                </div>
+                {confirmPassword && !passwordsMatch && (
+                  <p className="mt-2 text-xs text-red-500">Passwords do not match</p>
+                )}
+              </div>
+
+              {error && (
+                <div className="flex items-center space-x-1.5 text-red-500 text-xs font-medium">
+                  <AlertCircle className="w-3.5 h-3.5" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={!canSubmit}
+                className={`w-full py-3 px-4 rounded-xl font-bold text-white flex items-center justify-center space-x-2 transition-all duration-200
+                  ${!canSubmit
+                    ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed border border-white/5'
+                    : 'bg-orange-600 hover:bg-orange-500'
+                  }`}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    <span>Updating...</span>
+                  </>
+                ) : (
+                  <>
+                    <span>Update Password</span>
+                    <ArrowRight className="w-4 h-4" />
+                  </>
+                )}
+              </button>
+            </form>
+          </div>
+
+          <div className="flex-shrink-0 px-6 py-4 bg-zinc-950/30 border-t border-white/5 flex items-center justify-between text-xs sm:text-sm">
+            <span className="text-zinc-500 truncate mr-4">{user?.email}</span>
+            {isForced ? (
+              <button type="button" onClick={handleSignOut} className="text-zinc-500 hover:text-white transition-colors">
+                Sign out
+              </button>
+            ) : (
+              <button type="button" onClick={() => navigate(dashboardPath(user?.role))} className="text-zinc-500 hover:text-white transition-colors">
+                Back to Dashboard
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangePassword;
@@ -1,35 +1,142 @@
-import { useState } from "react";
-
+import { useState, FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { Mail, Loader2, AlertCircle, ArrowRight, MailCheck } from 'lucide-react';
+import cereForge from '../../assets/cereForge.png';
+import { useDocumentTitle } from '@/hooks/useDocumentTitle';
+import { useForgotPasswordMutation } from '@/store/api/authApi';
 
 const ForgotPassword = () => {
-    const [mail, setMail] = useState("");
+    useDocumentTitle(
+        "Cereforge - Forgot Password",
+        "Reset the password for your Cereforge account.",
+        "/forgot-password"
+    );
+
+    const [forgotPassword, { isLoading }] = useForgotPasswordMutation();
+
+    const [email, setEmail] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitted, setIsSubmitted] = useState(false);
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleSubmit = async (e: FormEvent) => {
         e.preventDefault();
-        setMail(mail)
-    }
+
+        if (!email) {
+            setError('Please enter your email');
+            return;
+        }
+
+        setError(null);
+
+        try {
+            await forgotPassword({ email }).unwrap();
+            setIsSubmitted(true);
+        } catch (err: any) {
+            const serverError = err?.data?.error;
+            setError(serverError?.message || 'Unable to send reset link. Please try again.');
+        }
+    };
 
     return (
-        <>
-            <div className="flex flex-col items-center justify-center mt-10 gap-6">
-
-                <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-6 gap-4">
-                    <label htmlFor="ForgetPassword">Enter Your Email*</label>
-                    <input
-                        type="email"
-                        value={mail}
-                        onChange={(e) => setMail(e.target.value)}
-                        className={`w-90 pl-9 sm:pl-10 pr-10 sm:pr-12 py-2 sm:py-3 text-sm sm:text-base border rounded-lg focus:ring-2 `}
-                        placeholder="Enter your email"
-                    />
-                    <button>Submit</button>
-
-                </form>
+        <div className="fixed inset-0 bg-black text-zinc-100 font-sans flex flex-col items-center justify-center overflow-hidden">
+            <div className="absolute inset-0 bg-[linear-gradient(to_right,#80808008_1px,transparent_1px),linear-gradient(to_bottom,#80808008_1px,transparent_1px)] bg-[size:24px_24px] pointer-events-none"></div>
 
-            </div>
+            <div className="relative z-10 w-full max-w-sm sm:max-w-md flex flex-col max-h-full p-4 gap-6">
+                {/* Branding */}
+                <div className="flex-shrink-0 text-center">
+                    <div className="flex items-center justify-center space-x-3 mb-2">
+                        <img src={cereForge} alt="Cereforge Logo" className="w-12 h-12 rounded-lg bg-white/10 p-1 object-contain border border-white/10" />
+                        <div className="flex items-center">
+                            <div className="relative inline-block mr-1">
+                                <div className="absolute inset-0 bg-white/10 backdrop-blur-md rounded-lg transform -skew-x-12 border border-white/20"></div>
+                                <span className="text-blue-500 relative z-10 px-3 py-1 font-bold text-2xl tracking-tight">CERE</span>
+                            </div>
+                            <span className="text-white font-bold text-2xl tracking-tight">FORGE</span>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Card */}
+                <div className="flex flex-col bg-zinc-900/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-zinc-700 overflow-hidden">
+                    <div className="p-4 sm:p-5 text-center border-b border-white/5 bg-white/5">
+                        <h1 className="font-semibold text-lg">Forgot Password</h1>
+                        <p className="text-zinc-400 text-sm mt-1">We'll email you a link to set a new one</p>
+                    </div>
+
+                    <div className="px-6 py-6">
+                        {isSubmitted ? (
+                            <div className="text-center space-y-4 animate-in fade-in duration-300">
+                                <MailCheck className="w-12 h-12 text-green-500 mx-auto" />
+                                <p className="text-sm text-zinc-300">
+                                    If an account exists for <span className="font-semibold text-white">{email}</span>, a reset link is on its way. The link expires in 1 hour.
+                                </p>
+                                <button
+                                    type="button"
+                                    onClick={() => setIsSubmitted(false)}
+                                    className="text-xs text-zinc-500 hover:text-white transition-colors"
+                                >
+                                    Didn't get it? Send again
+                                </button>
+                            </div>
+                        ) : (
+                            <form onSubmit={handleSubmit} className="space-y-5">
+                                <div>
+                                    <label htmlFor="forgot-email" className="block text-xs font-mono text-zinc-500 uppercase tracking-wider mb-1.5 ml-1">
+                                        Identity / Email
+                                    </label>
+                                    <div className="relative group">
+                                        <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zinc-500 group-focus-within:text-white" />
+                                        <input
+                                            id="forgot-email"
+                                            type="email"
+                                            value={email}
+                                            onChange={(e) => setEmail(e.target.value)}
+                                            disabled={isLoading}
+                                            className="w-full pl-10 pr-4 py-3 bg-black/50 border border-white/10 rounded-xl text-sm text-white outline-none focus:border-orange-500/50 focus:ring-1 focus:ring-orange-500/50"
+                                            placeholder="authorized@access.com"
+                                        />
+                                    </div>
+                                    {error && (
+                                        <div className="flex items-center space-x-1.5 mt-2 text-red-500 text-xs font-medium">
+                                            <AlertCircle className="w-3.5 h-3.5" />
+                                            <span>{error}</span>
+                                        </div>
+                                    )}
+                                </div>
 
-        </>
-    )
-}
+                                <button
+                                    type="submit"
+                                    disabled={!email || isLoading}
+                                    className={`w-full py-3 px-4 rounded-xl font-bold text-white flex items-center justify-center space-x-2 transition-all duration-200
+                                        ${(!email || isLoading)
+                                            ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed border border-white/5'
+                                            : 'bg-orange-600 hover:bg-orange-500'
+                                        }`}
+                                >
+                                    {isLoading ? (
+                                        <>
+                                            <Loader2 className="w-5 h-5 animate-spin" />
+                                            <span>Sending Link...</span>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <span>Send Reset Link</span>
+                                            <ArrowRight className="w-4 h-4" />
+                                        </>
+                                    )}
+                                </button>
+                            </form>
+                        )}
+                    </div>
+
+                    <div className="px-6 py-4 bg-zinc-950/30 border-t border-white/5 flex items-center justify-between text-xs sm:text-sm">
+                        <Link to="/login" className="text-zinc-500 hover:text-white transition-colors">Back to Login</Link>
+                        <Link to="/" className="text-zinc-500 hover:text-white transition-colors">Home</Link>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
 
-export default ForgotPassword;
\ No newline at end of file
+export default ForgotPassword;
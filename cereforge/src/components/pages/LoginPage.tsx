@@ -1,12 +1,19 @@
 import { useState, useRef, FormEvent, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Eye, EyeOff, User, Mail, Lock, Shield, Building, Loader2, CheckCircle, AlertCircle, ArrowRight } from 'lucide-react';
+import { Eye, EyeOff, User, Mail, Lock, Shield, Building, Loader2, CheckCircle, AlertCircle, ArrowRight, ShieldCheck } from 'lucide-react';
 import cereForge from '../../assets/cereForge.png';
 import { useDocumentTitle } from '@/hooks/useDocumentTitle';
 
 // ✅ Redux hooks
 import { useAppDispatch, useAppSelector } from '@/store/hook';
-import { useVerifyEmailMutation, useLoginMutation } from '@/store/api/authApi';
+import {
+  useVerifyEmailMutation,
+  useLoginMutation,
+  useMfaLoginSetupMutation,
+  useMfaLoginMutation,
+  MfaChallenge,
+  TotpEnrollment
+} from '@/store/api/authApi';
 import { selectEmailVerified, selectVerificationResult, clearEmailVerification, selectIsAuthenticated, selectUser } from '@/store/slices/authSlice';
 import { addToast } from '@/store/slices/uiSlice';
 
@@ -28,10 +35,20 @@ const LoginPage = () => {
 
   const [verifyEmail, { isLoading: isVerifying }] = useVerifyEmailMutation();
   const [login, { isLoading: isLoggingIn }] = useLoginMutation();
+  const [mfaLoginSetup, { isLoading: isLoadingSetup }] = useMfaLoginSetupMutation();
+  const [mfaLogin, { isLoading: isVerifyingCode }] = useMfaLoginMutation();
+
+  // ✅ Step 3: two-factor challenge (admin/core)
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [mfaCode, setMfaCode] = useState<string>('');
+  const [mfaError, setMfaError] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
 
   // ✅ PRESERVED LOGIC: Quick redirect check
+  // (held back while the 2FA step is on screen so recovery codes can be read)
   useEffect(() => {
-    if (isAuthenticated && user) {
+    if (isAuthenticated && user && !mfaChallenge) {
       switch (user.role) {
         case 'core':
           navigate('/core/dashboard', { replace: true });
@@ -44,7 +61,7 @@ const LoginPage = () => {
           break;
       }
     }
-  }, [isAuthenticated, user, navigate]);
+  }, [isAuthenticated, user, navigate, mfaChallenge]);
 
   const [showPassword, setShowPassword] = useState<boolean>(false);
   const [email, setEmail] = useState<string>('');
@@ -103,12 +120,28 @@ const LoginPage = () => {
     setLoginError(null);
 
     try {
-      await login({
+      const result = await login({
         email,
         password,
         role: verificationResult!.role!
       }).unwrap();
 
+      if ('mfaRequired' in result.data) {
+        const challenge = result.data;
+        setMfaChallenge(challenge);
+
+        // First login since 2FA became mandatory: set up the authenticator now
+        if (!challenge.mfaEnrolled) {
+          try {
+            const setup = await mfaLoginSetup({ mfaToken: challenge.mfaToken }).unwrap();
+            setEnrollment(setup.data);
+          } catch (setupError: any) {
+            setMfaError(setupError?.data?.error?.message || 'Unable to start two-factor setup. Please start over.');
+          }
+        }
+        return;
+      }
+
       const role = verificationResult!.role!;
       switch (role) {
         case 'core':
@@ -123,7 +156,10 @@ const LoginPage = () => {
       }
     } catch (error: any) {
       const serverError = error?.data?.error;
-      setLoginError(serverError?.message || 'Login failed. Please try again.');
+      const lockedUntil = serverError?.code === 'ACCOUNT_LOCKED' ? serverError?.details?.lockedUntil : null;
+      setLoginError(lockedUntil
+        ? `${serverError.message} Try again after ${new Date(lockedUntil).toLocaleTimeString()}.`
+        : serverError?.message || 'Login failed. Please try again.');
 
       dispatch(addToast({
         message: serverError?.message || 'Login failed',
@@ -132,11 +168,42 @@ const LoginPage = () => {
     }
   };
 
+  const handleMfaSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!mfaChallenge || !mfaCode.trim()) return;
+
+    setMfaError(null);
+
+    try {
+      const result = await mfaLogin({
+        mfaToken: mfaChallenge.mfaToken,
+        code: mfaCode.trim()
+      }).unwrap();
+
+      if (result.data.recoveryCodes?.length) {
+        setRecoveryCodes(result.data.recoveryCodes);
+        return;
+      }
+
+      // Clearing the challenge lets the redirect effect take over
+      setMfaChallenge(null);
+    } catch (error: any) {
+      const serverError = error?.data?.error;
+      setMfaError(serverError?.message || 'Verification failed. Please try again.');
+      setMfaCode('');
+    }
+  };
+
   const handleReset = () => {
     setEmail('');
     setPassword('');
     setEmailError(null);
     setLoginError(null);
+    setMfaChallenge(null);
+    setEnrollment(null);
+    setMfaCode('');
+    setMfaError(null);
+    setRecoveryCodes(null);
     dispatch(clearEmailVerification());
   };
 
@@ -248,6 +315,114 @@ const LoginPage = () => {
 
           {/* Body (Scrollable) */}
           <div className="flex-1 overflow-y-auto px-6 py-6 scrollbar-hide overscroll-contain">
+            {recoveryCodes ? (
+              // Step 3 done: show recovery codes once
+              <div className="space-y-5">
+                <div className="flex items-center space-x-2 text-green-500 text-sm font-medium">
+                  <ShieldCheck className="w-5 h-5" />
+                  <span>Two-factor authentication enabled</span>
+                </div>
+                <p className="text-zinc-400 text-sm">
+                  Save these recovery codes somewhere safe. Each one works once if you lose access to your authenticator app. They won't be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 p-4 bg-black/50 border border-white/10 rounded-xl font-mono text-sm text-zinc-200">
+                  {recoveryCodes.map((code) => (
+                    <span key={code}>{code}</span>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setMfaChallenge(null)}
+                  className={`w-full py-3 px-4 rounded-xl font-bold text-white shadow-lg flex items-center justify-center space-x-2 ${config.buttonColor}`}
+                >
+                  <span>I've saved my codes</span>
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              </div>
+            ) : mfaChallenge ? (
+              // Step 3: authenticator code
+              <form onSubmit={handleMfaSubmit} className="space-y-5">
+                <div className="flex justify-start">
+                  <button
+                    type="button"
+                    onClick={handleReset}
+                    className="text-xs font-medium text-zinc-500 hover:text-white flex items-center transition-colors group"
+                  >
+                    <ArrowRight className="w-3 h-3 mr-1 rotate-180 group-hover:-translate-x-1 transition-transform" />
+                    Start over
+                  </button>
+                </div>
+
+                {!mfaChallenge.mfaEnrolled && (
+                  <div className="space-y-3">
+                    <p className="text-zinc-400 text-sm">
+                      Your role requires two-factor authentication. Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+                    </p>
+                    {isLoadingSetup ? (
+                      <div className="flex justify-center py-6">
+                        <Loader2 className="w-6 h-6 text-orange-500 animate-spin" />
+                      </div>
+                    ) : enrollment && (
+                      <>
+                        <div className="flex justify-center">
+                          <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" className="w-44 h-44 rounded-lg bg-white p-2" />
+                        </div>
+                        <p className="text-center text-xs text-zinc-500">
+                          Can't scan? Enter this key: <span className="font-mono text-zinc-300 break-all">{enrollment.secret}</span>
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-xs font-mono text-zinc-500 uppercase tracking-wider mb-1.5 ml-1">
+                    {mfaChallenge.mfaEnrolled ? 'Authenticator or Recovery Code' : 'Authenticator Code'}
+                  </label>
+                  <div className="relative group">
+                    <ShieldCheck className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-zinc-500 group-focus-within:text-white" />
+                    <input
+                      type="text"
+                      inputMode={mfaChallenge.mfaEnrolled ? 'text' : 'numeric'}
+                      autoComplete="one-time-code"
+                      autoFocus
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(e.target.value)}
+                      className="w-full pl-10 pr-4 py-3 bg-black/50 border border-white/10 rounded-xl text-sm font-mono tracking-widest text-white outline-none focus:border-orange-500/50 focus:ring-1 focus:ring-orange-500/50"
+                      placeholder="123456"
+                    />
+                  </div>
+                  {mfaError && (
+                    <div className="flex items-center space-x-1.5 mt-2 text-red-500 text-xs font-medium animate-in slide-in-from-top-1">
+                      <AlertCircle className="w-3.5 h-3.5" />
+                      <span>{mfaError}</span>
+                    </div>
+                  )}
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={!mfaCode.trim() || isVerifyingCode}
+                  className={`w-full py-3 px-4 rounded-xl font-bold text-white shadow-lg transition-all duration-200 flex items-center justify-center space-x-2
+                    ${(!mfaCode.trim() || isVerifyingCode)
+                      ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed shadow-none border border-white/5'
+                      : config.buttonColor
+                    }`}
+                >
+                  {isVerifyingCode ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      <span>Verifying Code...</span>
+                    </>
+                  ) : (
+                    <>
+                      <span>Verify & Continue</span>
+                      <ArrowRight className="w-4 h-4" />
+                    </>
+                  )}
+                </button>
+              </form>
+            ) : (
             <form onSubmit={handleSubmit} className="space-y-5">
 
               {/* Switch Account */}
@@ -394,6 +569,7 @@ const LoginPage = () => {
                 )}
               </button>
             </form>
+            )}
           </div>
 
           {/* Footer */}
@@ -403,7 +579,7 @@ const LoginPage = () => {
               <span>Remind Me</span>
             </label>
             <div className="flex space-x-4">
-              <a href="#" className="text-zinc-500 hover:text-white transition-colors">Forgot Password?</a>
+              <a href="/forgot-password" className="text-zinc-500 hover:text-white transition-colors">Forgot Password?</a>
               <a href="/" className="text-zinc-500 hover:text-white transition-colors">Home</a>
             </div>
           </div>
@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Calendar, Clock, Video, User, Loader2, AlertCircle, CheckCircle, RefreshCw, XCircle } from 'lucide-react';
+import { Dayjs } from 'dayjs';
+import { useDocumentTitle } from '@/hooks/useDocumentTitle';
+import {
+  useGetManagedBookingQuery,
+  useGetRescheduleSlotsQuery,
+  useRescheduleBookingMutation,
+  useCancelBookingMutation
+} from '@/store/api/bookingApi';
+import { getTimezoneDisplay, getUserTimezone } from '@/utils/TimezoneUtils';
+import { getBookingSlotsRange } from '@/utils/ConsultationUtils';
+import BookingSlotPicker from '../calendar/BookingSlotPicker';
+
+type Mode = 'view' | 'reschedule' | 'cancel';
+
+const formatWhen = (iso: string, timeZone: string) => new Date(iso).toLocaleString(undefined, {
+  weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit', timeZone
+});
+
+// Booker's manage link from the confirmation email: /book/manage/:token
+const ManageBookingPage = () => {
+  useDocumentTitle(
+    "Cereforge - Manage Your Booking",
+    "Reschedule or cancel your consultation.",
+    "/book/manage"
+  );
+
+  const { token = '' } = useParams<{ token: string }>();
+  const [mode, setMode] = useState<Mode>('view');
+  const [timezone, setTimezone] = useState(getUserTimezone());
+  const [month, setMonth] = useState(new Date().getMonth());
+  const [selectedDate, setSelectedDate] = useState<Dayjs | null>(null);
+  const [selectedTime, setSelectedTime] = useState('');
+  const [reason, setReason] = useState('');
+  const [actionError, setActionError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const { data: booking, isLoading, error } = useGetManagedBookingQuery(token, { skip: !token });
+  const [rescheduleBooking, { isLoading: isRescheduling }] = useRescheduleBookingMutation();
+  const [cancelBooking, { isLoading: isCancelling }] = useCancelBookingMutation();
+
+  const { from, to } = getBookingSlotsRange(month);
+  const { data: slotsResult, isFetching: isLoadingSlots } = useGetRescheduleSlotsQuery(
+    { token, from: from.toISOString(), to: to.toISOString(), tz: timezone },
+    { skip: mode !== 'reschedule' || !booking?.canChange || !to.isAfter(from) }
+  );
+
+  const slots = slotsResult?.slots || [];
+  const selectedDay = selectedDate?.format('YYYY-MM-DD');
+  const selectedSlot = slots.find(slot => slot.date === selectedDay && slot.time === selectedTime);
+
+  const serverError = error as any;
+  const errorMessage = serverError?.status === 404
+    ? 'This booking link is invalid.'
+    : serverError?.data?.error?.message || 'Failed to load your booking. Please try again later.';
+
+  const openMode = (next: Mode) => {
+    setMode(next);
+    setActionError('');
+    setNotice('');
+    setSelectedDate(null);
+    setSelectedTime('');
+  };
+
+  const handleReschedule = async () => {
+    if (!selectedSlot) return;
+    setActionError('');
+
+    try {
+      await rescheduleBooking({ token, start: selectedSlot.start, timezone }).unwrap();
+      openMode('view');
+      setNotice("Your booking has been moved. We've emailed you an updated invitation.");
+    } catch (err: any) {
+      setActionError(err?.data?.error?.message || 'Failed to reschedule. Please try again.');
+      if (err?.status === 409) setSelectedTime('');
+    }
+  };
+
+  const handleCancel = async () => {
+    setActionError('');
+
+    try {
+      await cancelBooking({ token, ...(reason.trim() && { reason: reason.trim() }) }).unwrap();
+      openMode('view');
+      setNotice('Your booking has been cancelled.');
+    } catch (err: any) {
+      setActionError(err?.data?.error?.message || 'Failed to cancel. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      {isLoading ? (
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      ) : !booking ? (
+        <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-8 text-center">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <AlertCircle className="w-8 h-8 text-red-600" />
+          </div>
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Booking Not Found</h2>
+          <p className="text-sm text-gray-600">{errorMessage}</p>
+        </div>
+      ) : (
+        <div className={`bg-white rounded-xl border border-gray-200 shadow-sm w-full ${mode === 'reschedule' ? 'max-w-3xl' : 'max-w-md'}`}>
+          <div className="px-6 py-4 border-b border-gray-100">
+            <div className="flex items-center justify-between gap-3">
+              <h1 className="text-lg font-bold text-gray-900">{booking.title}</h1>
+              {booking.status === 'cancelled' && (
+                <span className="text-[10px] font-semibold text-red-600 bg-red-50 border border-red-100 px-2 py-0.5 rounded-full">Cancelled</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 mt-0.5">{booking.companyName}</p>
+          </div>
+
+          <div className="p-6 space-y-5">
+            <div className="space-y-2 text-sm text-gray-700">
+              <div className="flex items-start gap-2">
+                <Calendar className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                <span>
+                  {formatWhen(booking.start, timezone)}
+                  <span className="block text-xs text-gray-400">{getTimezoneDisplay(timezone)}</span>
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Clock className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <span>{booking.durationMinutes} minutes</span>
+              </div>
+              {booking.meetingUrl && booking.status === 'active' && (
+                <div className="flex items-center gap-2">
+                  <Video className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <a href={booking.meetingUrl} className="text-blue-600 hover:underline truncate">{booking.meetingUrl}</a>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <User className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <span>With {booking.ownerName}</span>
+              </div>
+            </div>
+
+            {notice && (
+              <div className="flex items-center gap-2 px-3 py-2 bg-green-50 border border-green-100 rounded-lg text-xs text-green-700">
+                <CheckCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                {notice}
+              </div>
+            )}
+
+            {actionError && (
+              <div className="flex items-center gap-2 px-3 py-2 bg-red-50 border border-red-100 rounded-lg text-xs text-red-700">
+                <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                {actionError}
+              </div>
+            )}
+
+            {booking.status === 'active' && !booking.canChange && (
+              <p className="text-xs text-gray-500 bg-gray-50 rounded-lg p-3">
+                Bookings can't be changed online within {booking.bufferHours} hours of the start.
+                Please contact {booking.companyName} if you need to make a change.
+              </p>
+            )}
+
+            {booking.canChange && mode === 'view' && (
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => openMode('reschedule')}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-900 hover:bg-blue-800 text-white text-xs font-bold rounded-lg transition-colors"
+                >
+                  <RefreshCw className="w-3.5 h-3.5" />
+                  Reschedule
+                </button>
+                <button
+                  onClick={() => openMode('cancel')}
+                  className="flex items-center justify-center gap-2 px-4 py-2 border border-gray-200 hover:border-red-300 hover:bg-red-50 text-gray-700 hover:text-red-600 text-xs font-bold rounded-lg transition-colors"
+                >
+                  <XCircle className="w-3.5 h-3.5" />
+                  Cancel booking
+                </button>
+              </div>
+            )}
+
+            {booking.canChange && mode === 'reschedule' && (
+              <div className="space-y-4">
+                <BookingSlotPicker
+                  availableDates={new Set(slots.map(slot => slot.date))}
+                  timeSlots={slots.filter(slot => slot.date === selectedDay).map(slot => slot.time)}
+                  isLoading={isLoadingSlots}
+                  selectedDate={selectedDate}
+                  onSelectDate={(date) => { setSelectedDate(date); setSelectedTime(''); }}
+                  selectedTime={selectedTime}
+                  onSelectTime={setSelectedTime}
+                  timezone={timezone}
+                  onTimezoneChange={setTimezone}
+                  month={month}
+                  onMonthChange={setMonth}
+                />
+                <div className="flex items-center justify-between border-t border-gray-100 pt-4">
+                  <button onClick={() => openMode('view')} className="px-3 py-2 text-xs font-semibold text-gray-500 hover:text-gray-800 rounded-lg hover:bg-gray-100">
+                    Back
+                  </button>
+                  <button
+                    onClick={handleReschedule}
+                    disabled={!selectedSlot || isRescheduling}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-900 hover:bg-blue-800 text-white text-xs font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isRescheduling && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                    {selectedSlot ? `Move to ${selectedDate?.format('MMM D')}, ${selectedTime}` : 'Pick a new time'}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {booking.canChange && mode === 'cancel' && (
+              <div className="space-y-3">
+                <label className="block text-[11px] font-bold text-gray-500 uppercase tracking-wide">Reason (optional)</label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  maxLength={500}
+                  className="w-full px-4 py-2 text-sm bg-gray-50 border border-gray-200 rounded-lg focus:bg-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all outline-none resize-none"
+                  placeholder={`Let ${booking.ownerName} know why`}
+                />
+                <div className="flex items-center justify-between">
+                  <button onClick={() => openMode('view')} className="px-3 py-2 text-xs font-semibold text-gray-500 hover:text-gray-800 rounded-lg hover:bg-gray-100">
+                    Keep booking
+                  </button>
+                  <button
+                    onClick={handleCancel}
+                    disabled={isCancelling}
+                    className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-xs font-bold rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {isCancelling && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                    Cancel booking
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManageBookingPage;
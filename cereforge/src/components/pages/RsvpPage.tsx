@@ -0,0 +1,197 @@
+import { useEffect, useRef } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Calendar, MapPin, User, Check, X, HelpCircle, Loader2, AlertCircle } from 'lucide-react';
+import cereForge from '../../assets/cereForge.png';
+import { useDocumentTitle } from '@/hooks/useDocumentTitle';
+import {
+  useGetInvitationQuery,
+  useRespondToInvitationMutation,
+  RsvpInvitation,
+  RsvpResponse
+} from '@/store/api/rsvpApi';
+
+const RESPONSE_OPTIONS: { value: RsvpResponse; label: string; icon: typeof Check; active: string }[] = [
+  { value: 'accepted', label: 'Yes', icon: Check, active: 'bg-green-600 border-green-500 text-white' },
+  { value: 'maybe', label: 'Maybe', icon: HelpCircle, active: 'bg-amber-600 border-amber-500 text-white' },
+  { value: 'declined', label: 'No', icon: X, active: 'bg-red-600 border-red-500 text-white' }
+];
+
+const RESPONSE_MESSAGES: Record<RsvpResponse, string> = {
+  accepted: "You're going. The organizer has been notified.",
+  maybe: "You've replied maybe. You can change this any time.",
+  declined: "You've declined this invitation."
+};
+
+const isRsvpResponse = (value: string | null): value is RsvpResponse =>
+  value === 'accepted' || value === 'declined' || value === 'maybe';
+
+// All-day events are read on their own calendar dates; timed events in the guest's zone
+const formatWhen = ({ start_time, end_time, all_day, timezone }: RsvpInvitation['event']) => {
+  if (all_day) {
+    const dateFormat: Intl.DateTimeFormatOptions = { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', timeZone: timezone };
+    const start = new Date(start_time).toLocaleDateString(undefined, dateFormat);
+    const end = new Date(end_time).toLocaleDateString(undefined, dateFormat);
+    return start === end ? `${start} (all day)` : `${start} – ${end}`;
+  }
+
+  const start = new Date(start_time).toLocaleString(undefined, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit'
+  });
+  const end = new Date(end_time).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit', timeZoneName: 'short' });
+  return `${start} – ${end}`;
+};
+
+const RsvpPage = () => {
+  useDocumentTitle(
+    "Cereforge - Event Invitation",
+    "Respond to your Cereforge event invitation.",
+    "/rsvp"
+  );
+
+  const { token = '' } = useParams<{ token: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedResponse = searchParams.get('response');
+
+  const { data: invitation, isLoading, error } = useGetInvitationQuery(token, { skip: !token });
+  const [respond, { isLoading: isResponding, error: respondError }] = useRespondToInvitationMutation();
+  const autoSubmitted = useRef(false);
+
+  // Links in the email carry the chosen answer; record it once the invitation loads
+  useEffect(() => {
+    if (!invitation || autoSubmitted.current || invitation.event.cancelled) return;
+    if (!isRsvpResponse(requestedResponse)) return;
+
+    autoSubmitted.current = true;
+    setSearchParams({}, { replace: true });
+
+    if (invitation.guest.response_status !== requestedResponse) {
+      respond({ token, response: requestedResponse });
+    }
+  }, [invitation, requestedResponse, respond, setSearchParams, token]);
+
+  const currentResponse = invitation?.guest.response_status;
+  const serverError = (error || respondError) as any;
+  const errorMessage = serverError?.data?.error?.message
+    || (serverError ? 'This invitation link is invalid or has expired.' : null);
+
+  return (
+    <div className="fixed inset-0 bg-black text-zinc-100 font-sans flex flex-col items-center justify-center overflow-hidden">
+      <div className="absolute inset-0 bg-[linear-gradient(to_right,#80808008_1px,transparent_1px),linear-gradient(to_bottom,#80808008_1px,transparent_1px)] bg-[size:24px_24px] pointer-events-none"></div>
+
+      <div className="relative z-10 w-full max-w-sm sm:max-w-md flex flex-col max-h-full p-4 gap-6">
+        {/* Branding */}
+        <div className="flex-shrink-0 text-center">
+          <div className="flex items-center justify-center space-x-3 mb-2">
+            <img src={cereForge} alt="Cereforge Logo" className="w-12 h-12 rounded-lg bg-white/10 p-1 object-contain border border-white/10" />
+            <div className="flex items-center">
+              <div className="relative inline-block mr-1">
+                <div className="absolute inset-0 bg-white/10 backdrop-blur-md rounded-lg transform -skew-x-12 border border-white/20"></div>
+                <span className="text-blue-500 relative z-10 px-3 py-1 font-bold text-2xl tracking-tight">CERE</span>
+              </div>
+              <span className="text-white font-bold text-2xl tracking-tight">FORGE</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Card */}
+        <div className="flex flex-col bg-zinc-900/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-zinc-700 overflow-hidden shrink min-h-0">
+          <div className="flex-shrink-0 p-4 sm:p-5 text-center border-b border-white/5 bg-white/5">
+            <div className="inline-flex items-center space-x-2 bg-orange-500/10 text-orange-500 border border-orange-500/50 px-4 py-1.5 rounded-full">
+              <Calendar className="w-5 h-5" />
+              <span className="font-semibold text-sm">Event Invitation</span>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 py-6 scrollbar-hide">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-8 h-8 animate-spin text-orange-500" />
+              </div>
+            ) : !invitation ? (
+              <div className="text-center space-y-4">
+                <AlertCircle className="w-10 h-10 text-red-500 mx-auto" />
+                <p className="text-sm text-zinc-300">{errorMessage || 'This invitation link is invalid.'}</p>
+              </div>
+            ) : (
+              <div className="space-y-5">
+                <div>
+                  <h1 className="text-xl font-bold text-white">{invitation.event.title}</h1>
+                  {invitation.event.cancelled && (
+                    <span className="inline-block mt-2 text-xs font-semibold text-red-400 bg-red-500/10 border border-red-500/40 px-2 py-0.5 rounded-full">
+                      Cancelled
+                    </span>
+                  )}
+                </div>
+
+                <div className="space-y-2 text-sm text-zinc-300">
+                  <div className="flex items-start space-x-2">
+                    <Calendar className="w-4 h-4 mt-0.5 text-zinc-500 flex-shrink-0" />
+                    <span>{formatWhen(invitation.event)}</span>
+                  </div>
+                  {invitation.event.location && (
+                    <div className="flex items-start space-x-2">
+                      <MapPin className="w-4 h-4 mt-0.5 text-zinc-500 flex-shrink-0" />
+                      <span className="break-words">{invitation.event.location}</span>
+                    </div>
+                  )}
+                  <div className="flex items-start space-x-2">
+                    <User className="w-4 h-4 mt-0.5 text-zinc-500 flex-shrink-0" />
+                    <span>Organized by {invitation.event.organizer_name}</span>
+                  </div>
+                </div>
+
+                {invitation.event.description && (
+                  <p className="text-sm text-zinc-400 whitespace-pre-line">{invitation.event.description}</p>
+                )}
+
+                {invitation.event.cancelled ? (
+                  <p className="text-sm text-zinc-400">The organizer cancelled this event. No response is needed.</p>
+                ) : (
+                  <div className="space-y-3">
+                    <p className="text-xs font-mono text-zinc-500 uppercase tracking-wider">
+                      Going? · {invitation.guest.email}
+                    </p>
+                    <div className="grid grid-cols-3 gap-2">
+                      {RESPONSE_OPTIONS.map(({ value, label, icon: Icon, active }) => (
+                        <button
+                          key={value}
+                          type="button"
+                          disabled={isResponding}
+                          onClick={() => respond({ token, response: value })}
+                          className={`py-2.5 rounded-xl border text-sm font-semibold flex items-center justify-center space-x-1.5 transition-colors disabled:opacity-60
+                            ${currentResponse === value
+                              ? active
+                              : 'bg-black/50 border-white/10 text-zinc-300 hover:border-orange-500/50'
+                            }`}
+                        >
+                          <Icon className="w-4 h-4" />
+                          <span>{label}</span>
+                        </button>
+                      ))}
+                    </div>
+
+                    {isResponding ? (
+                      <div className="flex items-center space-x-1.5 text-zinc-400 text-xs">
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        <span>Saving your response...</span>
+                      </div>
+                    ) : respondError ? (
+                      <div className="flex items-center space-x-1.5 text-red-500 text-xs font-medium">
+                        <AlertCircle className="w-3.5 h-3.5" />
+                        <span>{errorMessage}</span>
+                      </div>
+                    ) : currentResponse && currentResponse !== 'pending' ? (
+                      <p className="text-xs text-zinc-400">{RESPONSE_MESSAGES[currentResponse]}</p>
+                    ) : null}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RsvpPage;
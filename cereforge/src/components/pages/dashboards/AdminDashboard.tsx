@@ -10,9 +10,11 @@ import CereforgeEditor from '@/components/textEditor/RichtextEditor';
 import CalendarPage from '../CalendarPage';
 import ConsultationOverview from '@/components/consultation/ConsultationOverview';
 import PartnerOverview from '@/components/partners/PartnerOverview';
+import SecurityPanel from '@/components/security/SecurityPanel';
+import AuditLogPanel from '@/components/audit/AuditLogPanel';
 import Sidebar from '@/components/layouts/Sidebar'; // Using the shared sidebar
 
-type TabType = 'overview' | 'editor' | 'calendar' | 'video' | 'consultation' | 'partners';
+type TabType = 'overview' | 'editor' | 'calendar' | 'video' | 'consultation' | 'partners' | 'security' | 'audit';
 
 const AdminOverview = () => (
   <div className="p-6 space-y-6">
@@ -74,6 +76,8 @@ const AdminDashboard = () => {
       case 'video': return <VideoOverview />;
       case 'consultation': return <ConsultationOverview />;
       case 'partners': return <PartnerOverview />;
+      case 'security': return <SecurityPanel />;
+      case 'audit': return <AuditLogPanel />;
       default: return <AdminOverview />;
     }
   };
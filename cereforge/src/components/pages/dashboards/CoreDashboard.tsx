@@ -10,9 +10,12 @@ import CereforgeEditor from '@/components/textEditor/RichtextEditor';
 import CalendarPage from '../CalendarPage';
 import ConsultationOverview from '@/components/consultation/ConsultationOverview';
 import PartnerOverview from '@/components/partners/PartnerOverview';
+import SecurityPanel from '@/components/security/SecurityPanel';
+import AuditLogPanel from '@/components/audit/AuditLogPanel';
+import UsersPanel from '@/components/users/UsersPanel';
 import Sidebar from '@/components/layouts/Sidebar';
 
-type TabType = 'overview' | 'editor' | 'calendar' | 'video' | 'consultation' | 'partners';
+type TabType = 'overview' | 'editor' | 'calendar' | 'video' | 'consultation' | 'partners' | 'security' | 'audit' | 'users';
 
 const CoreOverview = () => (
   <div className="p-6 space-y-6">
@@ -70,6 +73,9 @@ const CoreDashboard = () => {
       case 'video': return <VideoOverview />;
       case 'consultation': return <ConsultationOverview />;
       case 'partners': return <PartnerOverview />;
+      case 'security': return <SecurityPanel />;
+      case 'audit': return <AuditLogPanel />;
+      case 'users': return <UsersPanel />;
       default: return <CoreOverview />;
     }
   };
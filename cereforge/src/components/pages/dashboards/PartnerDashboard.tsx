@@ -9,29 +9,11 @@ import VideoOverview from '@/components/video/VideoOverview';
 import CalendarPage from '../CalendarPage';
 import CereforgeEditor from '@/components/textEditor/RichtextEditor';
 import ConsultationOverview from '@/components/consultation/ConsultationOverview';
+import SecurityPanel from '@/components/security/SecurityPanel';
 import Sidebar from '@/components/layouts/Sidebar'; // Using the shared sidebar
+import MyPartnerOverview from '@/components/partners/portal/MyPartnerOverview';
 
-type TabType = 'overview' | 'editor' | 'calendar' | 'video' | 'consultation';
-
-const PartnerOverview = () => (
-  <div className="p-6 space-y-6">
-    <h2 className="text-3xl font-bold text-gray-900">Partner Overview</h2>
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-      <div className="bg-white rounded-xl shadow-lg p-6">
-        <h3 className="text-lg font-semibold mb-2">Recent Files</h3>
-        <p className="text-gray-600">Files overview</p>
-      </div>
-      <div className="bg-white rounded-xl shadow-lg p-6">
-        <h3 className="text-lg font-semibold mb-2">Upcoming Events</h3>
-        <p className="text-gray-600">Events overview</p>
-      </div>
-      <div className="bg-white rounded-xl shadow-lg p-6">
-        <h3 className="text-lg font-semibold mb-2">Transcripts</h3>
-        <p className="text-gray-600">Transcripts overview</p>
-      </div>
-    </div>
-  </div>
-);
+type TabType = 'overview' | 'editor' | 'calendar' | 'video' | 'consultation' | 'security';
 
 const PartnerDashboard = () => {
   const dispatch = useDispatch();
@@ -67,12 +49,13 @@ const PartnerDashboard = () => {
 
   const renderContent = () => {
     switch (activeTab) {
-      case 'overview': return <PartnerOverview />;
+      case 'overview': return <MyPartnerOverview />;
       case 'editor': return <CereforgeEditor />;
       case 'calendar': return <CalendarPage />;
       case 'video': return <VideoOverview />;
       case 'consultation': return <ConsultationOverview />;
-      default: return <PartnerOverview />;
+      case 'security': return <SecurityPanel />;
+      default: return <MyPartnerOverview />;
     }
   };
 
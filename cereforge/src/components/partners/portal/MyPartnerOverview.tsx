@@ -0,0 +1,319 @@
+// src/components/partners/portal/MyPartnerOverview.tsx
+
+import { useState, useEffect, useRef, FormEvent } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Loader2, Save, Globe, Linkedin, Mail, FileText, Image, Upload,
+  ExternalLink, CheckCircle, Pause, XCircle, AlertCircle, Users
+} from 'lucide-react';
+import { useGetMyPartnerQuery, useUpdateMyPartnerMutation } from '@/store/api/partnerPortalApi';
+import type { PartnerDocument, PartnerOnboardingStatus, UpdateMyPartnerInput } from '@/types/partners.types';
+import { uploadFile } from '@/services/fileUpload';
+import { useAppDispatch } from '@/store/hook';
+import { addToast } from '@/store/slices/uiSlice';
+
+type ReplaceableDocument = 'project_brief_url' | 'profile_photo_url';
+
+const STATUS_CONFIG: Record<PartnerOnboardingStatus, { color: string; icon: typeof CheckCircle; description: string }> = {
+  active: {
+    color: 'bg-green-100 text-green-700 border-green-200',
+    icon: CheckCircle,
+    description: 'Your project is underway with the Cereforge team.'
+  },
+  paused: {
+    color: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+    icon: Pause,
+    description: 'Work is on hold. Your account manager will be in touch before it resumes.'
+  },
+  suspended: {
+    color: 'bg-red-100 text-red-700 border-red-200',
+    icon: XCircle,
+    description: 'Your partnership is suspended. Please contact your account manager.'
+  },
+  completed: {
+    color: 'bg-blue-100 text-blue-700 border-blue-200',
+    icon: CheckCircle,
+    description: 'Your project has been delivered.'
+  }
+};
+
+const UPLOAD_TYPES: Record<ReplaceableDocument, { fileType: 'project-brief' | 'profile-photo'; label: string; accept: string }> = {
+  project_brief_url: { fileType: 'project-brief', label: 'Project brief', accept: '.pdf,.docx,.pptx' },
+  profile_photo_url: { fileType: 'profile-photo', label: 'Profile photo', accept: '.jpg,.jpeg,.png' }
+};
+
+const inputClass = 'w-full pl-9 pr-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Partner-facing overview of the logged-in partner's own record
+ */
+const MyPartnerOverview = () => {
+  const dispatch = useAppDispatch();
+  const { data, isLoading, isError, refetch } = useGetMyPartnerQuery();
+  const [updateMyPartner, { isLoading: isSaving }] = useUpdateMyPartnerMutation();
+
+  const [links, setLinks] = useState({ company_website: '', linkedin_profile: '' });
+  const [uploading, setUploading] = useState<ReplaceableDocument | null>(null);
+  const fileInputs = useRef<Partial<Record<ReplaceableDocument, HTMLInputElement | null>>>({});
+
+  const partner = data?.data.partner;
+
+  useEffect(() => {
+    if (partner) {
+      setLinks({
+        company_website: partner.company_website || '',
+        linkedin_profile: partner.linkedin_profile || ''
+      });
+    }
+  }, [partner]);
+
+  const save = async (body: UpdateMyPartnerInput, successMessage?: string) => {
+    try {
+      const result = await updateMyPartner(body).unwrap();
+      dispatch(addToast({ message: successMessage || result.message || 'Profile updated', type: 'success' }));
+      return true;
+    } catch (err: any) {
+      dispatch(addToast({
+        message: err?.data?.error?.message || 'Failed to update profile',
+        type: 'error'
+      }));
+      return false;
+    }
+  };
+
+  const handleLinksSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    save({
+      company_website: links.company_website.trim(),
+      linkedin_profile: links.linkedin_profile.trim()
+    });
+  };
+
+  const handleFileSelected = async (key: ReplaceableDocument, file: File | undefined) => {
+    if (!file || !data) return;
+
+    setUploading(key);
+    try {
+      // Fresh folder per upload inside the partner's own, storage paths are never overwritten
+      const result = await uploadFile(file, `${data.data.uploadFolder}/${uuidv4()}`, UPLOAD_TYPES[key].fileType);
+      await save({ [key]: result.path }, `${UPLOAD_TYPES[key].label} updated`);
+    } catch (err: any) {
+      dispatch(addToast({ message: err?.message || 'Upload failed', type: 'error' }));
+    } finally {
+      setUploading(null);
+      const input = fileInputs.current[key];
+      if (input) input.value = '';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError || !data || !partner) {
+    return (
+      <div className="p-6 max-w-3xl mx-auto">
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 text-center space-y-3">
+          <AlertCircle className="w-8 h-8 text-red-500 mx-auto" />
+          <p className="text-gray-700">We couldn't load your partner profile.</p>
+          <button
+            onClick={() => refetch()}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 border border-gray-200 hover:bg-gray-50"
+          >
+            Try again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { contacts, documents } = data.data;
+  const status = STATUS_CONFIG[partner.onboarding_status];
+  const StatusIcon = status.icon;
+  const photo = documents.find((doc) => doc.key === 'profile_photo_url');
+  const documentFor = (key: ReplaceableDocument) => documents.find((doc) => doc.key === key);
+
+  const renderDocument = (doc: PartnerDocument) => (
+    <a
+      href={doc.url || undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`inline-flex items-center gap-1 text-sm ${doc.url ? 'text-blue-600 hover:underline' : 'text-gray-400 pointer-events-none'}`}
+    >
+      {doc.fileName}
+      {doc.url && <ExternalLink className="w-3 h-3" />}
+    </a>
+  );
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        {photo?.url ? (
+          <img src={photo.url} alt={partner.partner_name} className="w-14 h-14 rounded-full object-cover border border-gray-200" />
+        ) : (
+          <div className="w-14 h-14 rounded-full bg-blue-100 text-blue-700 flex items-center justify-center text-xl font-semibold">
+            {partner.partner_name.charAt(0).toUpperCase()}
+          </div>
+        )}
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{partner.partner_name}</h2>
+          <p className="text-sm text-gray-500 font-mono">{partner.partner_id}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Onboarding status */}
+        <div className="md:col-span-2 bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-gray-900">Onboarding</h3>
+            <span className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium border capitalize ${status.color}`}>
+              <StatusIcon className="w-3.5 h-3.5" />
+              {partner.onboarding_status}
+            </span>
+          </div>
+          <p className="text-sm text-gray-600">{status.description}</p>
+          <dl className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Project</dt>
+              <dd className="text-gray-900 font-medium">{partner.project_title}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Stage</dt>
+              <dd className="text-gray-900 capitalize">{partner.project_stage}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Partner since</dt>
+              <dd className="text-gray-900">
+                {partner.approved_at ? new Date(partner.approved_at).toLocaleDateString() : '—'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Ideal start</dt>
+              <dd className="text-gray-900">
+                {partner.ideal_start_date ? new Date(partner.ideal_start_date).toLocaleDateString() : '—'}
+              </dd>
+            </div>
+          </dl>
+        </div>
+
+        {/* Assigned contacts */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Users className="w-4 h-4 text-gray-500" />
+            Your contacts
+          </h3>
+          {contacts.length === 0 ? (
+            <p className="text-sm text-gray-500">No contact assigned yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {contacts.map((contact) => (
+                <li key={contact.id}>
+                  <p className="text-sm font-medium text-gray-900">{contact.name}</p>
+                  <p className="text-xs text-gray-500">{contact.role}</p>
+                  <a href={`mailto:${contact.email}`} className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline">
+                    <Mail className="w-3.5 h-3.5" />
+                    {contact.email}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Documents */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <FileText className="w-4 h-4 text-gray-500" />
+            Documents
+          </h3>
+          <ul className="divide-y divide-gray-100">
+            {(Object.keys(UPLOAD_TYPES) as ReplaceableDocument[]).map((key) => {
+              const doc = documentFor(key);
+              const Icon = key === 'profile_photo_url' ? Image : FileText;
+              return (
+                <li key={key} className="flex items-center gap-3 py-3">
+                  <Icon className="w-4 h-4 text-gray-400" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900">{UPLOAD_TYPES[key].label}</p>
+                    {doc ? renderDocument(doc) : <p className="text-xs text-gray-400">Not uploaded</p>}
+                  </div>
+                  <input
+                    ref={(el) => { fileInputs.current[key] = el; }}
+                    type="file"
+                    accept={UPLOAD_TYPES[key].accept}
+                    className="hidden"
+                    onChange={(e) => handleFileSelected(key, e.target.files?.[0])}
+                  />
+                  <button
+                    onClick={() => fileInputs.current[key]?.click()}
+                    disabled={uploading !== null}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium text-gray-600 border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {uploading === key ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+                    {doc ? 'Replace' : 'Upload'}
+                  </button>
+                </li>
+              );
+            })}
+            {documents
+              .filter((doc) => doc.key === 'reference_images_url')
+              .map((doc) => (
+                <li key={doc.key} className="flex items-center gap-3 py-3">
+                  <Image className="w-4 h-4 text-gray-400" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900">{doc.label}</p>
+                    {renderDocument(doc)}
+                  </div>
+                </li>
+              ))}
+          </ul>
+          <p className="text-xs text-gray-500">Download links expire after an hour. Refresh the page for new ones.</p>
+        </div>
+
+        {/* Editable links */}
+        <form onSubmit={handleLinksSubmit} className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+          <h3 className="font-semibold text-gray-900">Company links</h3>
+          <div className="relative">
+            <Globe className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="url"
+              value={links.company_website}
+              onChange={(e) => setLinks((prev) => ({ ...prev, company_website: e.target.value }))}
+              placeholder="https://example.com"
+              className={inputClass}
+            />
+          </div>
+          <div className="relative">
+            <Linkedin className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="url"
+              value={links.linkedin_profile}
+              onChange={(e) => setLinks((prev) => ({ ...prev, linkedin_profile: e.target.value }))}
+              placeholder="https://linkedin.com/company/..."
+              className={inputClass}
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MyPartnerOverview;
@@ -15,6 +15,7 @@ import {
 import type { ApplicationStatus } from '@/types/partners.types';
 import { useAppDispatch } from '@/store/hook';
 import { addToast } from '@/store/slices/uiSlice';
+import { usePermission } from '@/hooks/usePermission';
 
 // ==========================================
 // 1. THE DETAIL COMPONENT
@@ -29,6 +30,7 @@ const PartnerApplicationDetail = ({ applicationId, onBack }: PartnerApplicationD
   const dispatch = useAppDispatch();
   const { data, isLoading, error } = useGetPartnerApplicationQuery(applicationId);
   const [updateStatus, { isLoading: isUpdating }] = useUpdateApplicationStatusMutation();
+  const canReview = usePermission('partners.approve');
   
   const [showStatusMenu, setShowStatusMenu] = useState(false);
   const [rejectionReason, setRejectionReason] = useState('');
@@ -141,6 +143,7 @@ const PartnerApplicationDetail = ({ applicationId, onBack }: PartnerApplicationD
             <span className="text-xs font-semibold capitalize">{application.status}</span>
           </div>
 
+          {canReview && (
           <div className="relative">
             <button
               onClick={() => setShowStatusMenu(!showStatusMenu)}
@@ -169,6 +172,7 @@ const PartnerApplicationDetail = ({ applicationId, onBack }: PartnerApplicationD
               </motion.div>
             )}
           </div>
+          )}
         </div>
       </div>
 
@@ -7,6 +7,8 @@ import { useGetPartnerQuery, useUpdatePartnerMutation, useUpdatePartnerStatusMut
 import type { PartnerOnboardingStatus, UpdatePartnerInput } from '@/types/partners.types';
 import { useAppDispatch } from '@/store/hook';
 import { addToast } from '@/store/slices/uiSlice';
+import { usePermission } from '@/hooks/usePermission';
+import AuditTimeline from '@/components/audit/AuditTimeline';
 
 interface PartnerDetailProps {
   partnerId: string;
@@ -18,6 +20,8 @@ const PartnerDetail = ({ partnerId, onBack }: PartnerDetailProps) => {
   const { data, isLoading, error } = useGetPartnerQuery(partnerId);
   const [updatePartner, { isLoading: isUpdating }] = useUpdatePartnerMutation();
   const [updateStatus, { isLoading: isUpdatingStatus }] = useUpdatePartnerStatusMutation();
+  const canEdit = usePermission('partners.edit');
+  const canChangeStatus = usePermission('partners.status');
   
   const [isEditing, setIsEditing] = useState(false);
   const [showStatusMenu, setShowStatusMenu] = useState(false);
@@ -135,6 +139,7 @@ const PartnerDetail = ({ partnerId, onBack }: PartnerDetailProps) => {
             <span className="text-xs font-semibold capitalize">{partner.onboarding_status}</span>
           </div>
 
+          {canChangeStatus && (
           <div className="relative">
             <button
               onClick={() => setShowStatusMenu(!showStatusMenu)}
@@ -163,15 +168,18 @@ const PartnerDetail = ({ partnerId, onBack }: PartnerDetailProps) => {
               </motion.div>
             )}
           </div>
+          )}
 
           {!isEditing ? (
-            <button
-              onClick={() => setIsEditing(true)}
-              className="flex items-center gap-2 px-4 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <Edit2 className="w-4 h-4" />
-              <span>Edit</span>
-            </button>
+            canEdit && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="flex items-center gap-2 px-4 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Edit2 className="w-4 h-4" />
+                <span>Edit</span>
+              </button>
+            )
           ) : (
             <div className="flex gap-2">
               <button
@@ -465,6 +473,9 @@ const PartnerDetail = ({ partnerId, onBack }: PartnerDetailProps) => {
             </div>
           </div>
 
+          {/* Audit history */}
+          <AuditTimeline entityType="partner" entityId={partner.id} title="Partner history" />
+
           {/* Attachments */}
           {(partner.project_brief_url || partner.reference_images_url || partner.profile_photo_url) && (
             <div className="bg-white border border-gray-100 rounded-xl p-6">
@@ -0,0 +1,162 @@
+// src/components/security/SecurityPanel.tsx
+
+import { useNavigate } from 'react-router-dom';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import {
+  ShieldCheck,
+  Monitor,
+  Smartphone,
+  Tablet,
+  Globe,
+  Loader2,
+  AlertCircle,
+  LogOut,
+  KeyRound
+} from 'lucide-react';
+import {
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+  useRevokeOtherSessionsMutation,
+  UserSession
+} from '@/store/api/authApi';
+import { useAppDispatch } from '@/store/hook';
+import { addToast } from '@/store/slices/uiSlice';
+import TwoFactorSection from './TwoFactorSection';
+
+dayjs.extend(relativeTime);
+
+const DeviceIcon = ({ type }: { type: UserSession['deviceType'] }) => {
+  switch (type) {
+    case 'mobile': return <Smartphone className="w-5 h-5" />;
+    case 'tablet': return <Tablet className="w-5 h-5" />;
+    case 'desktop': return <Monitor className="w-5 h-5" />;
+    default: return <Globe className="w-5 h-5" />;
+  }
+};
+
+const SecurityPanel = () => {
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+
+  const { data, isLoading, error } = useGetSessionsQuery();
+  const [revokeSession, { isLoading: isRevoking, originalArgs: revokingId }] = useRevokeSessionMutation();
+  const [revokeOtherSessions, { isLoading: isRevokingOthers }] = useRevokeOtherSessionsMutation();
+
+  const sessions = data?.data || [];
+  const otherSessions = sessions.filter((s) => !s.isCurrent);
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await revokeSession(id).unwrap();
+      dispatch(addToast({ message: 'Device signed out', type: 'success' }));
+    } catch (err: any) {
+      dispatch(addToast({
+        message: err?.data?.error?.message || 'Failed to sign out device',
+        type: 'error'
+      }));
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      const result = await revokeOtherSessions().unwrap();
+      dispatch(addToast({ message: result.message, type: 'success' }));
+    } catch (err: any) {
+      dispatch(addToast({
+        message: err?.data?.error?.message || 'Failed to sign out other sessions',
+        type: 'error'
+      }));
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-8">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="space-y-1">
+          <h2 className="text-2xl font-bold text-gray-900 tracking-tight flex items-center gap-2">
+            Security <ShieldCheck className="w-5 h-5 text-blue-600" />
+          </h2>
+          <p className="text-sm text-gray-500">
+            Manage two-factor authentication and the devices signed in to your account.
+          </p>
+        </div>
+        <button
+          onClick={() => navigate('/change-password')}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 shadow-sm"
+        >
+          <KeyRound className="w-4 h-4" />
+          Change password
+        </button>
+      </div>
+
+      <TwoFactorSection />
+
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-100">
+          <h3 className="font-semibold text-gray-900">Active sessions</h3>
+          <button
+            onClick={handleRevokeOthers}
+            disabled={isRevokingOthers || otherSessions.length === 0}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isRevokingOthers ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+            Sign out everywhere else
+          </button>
+        </div>
+
+        {isLoading && (
+          <div className="flex flex-col items-center justify-center py-12 text-gray-400">
+            <Loader2 className="w-8 h-8 animate-spin mb-2" />
+            <p className="text-sm">Loading sessions...</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 px-5 py-6 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            Failed to load sessions
+          </div>
+        )}
+
+        {!isLoading && !error && (
+          <ul className="divide-y divide-gray-100">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center gap-4 px-5 py-4">
+                <div className={`p-2.5 rounded-lg ${session.isCurrent ? 'bg-blue-50 text-blue-600' : 'bg-gray-100 text-gray-500'}`}>
+                  <DeviceIcon type={session.deviceType} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {session.browser || 'Unknown browser'} on {session.os || 'Unknown OS'}
+                    </p>
+                    {session.isCurrent && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-50 text-emerald-700 border border-emerald-200">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {session.ipAddress || 'Unknown IP'}{session.country && ` (${session.country})`} · Active {dayjs(session.lastActivity).fromNow()} · Signed in {dayjs(session.createdAt).format('MMM D, YYYY')}
+                  </p>
+                </div>
+                {!session.isCurrent && (
+                  <button
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={isRevoking && revokingId === session.id}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium text-gray-600 border border-gray-200 hover:text-red-600 hover:border-red-200 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    {isRevoking && revokingId === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Sign out'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecurityPanel;
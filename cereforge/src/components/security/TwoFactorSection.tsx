@@ -0,0 +1,271 @@
+// src/components/security/TwoFactorSection.tsx
+
+import { useState, FormEvent } from 'react';
+import dayjs from 'dayjs';
+import { Smartphone, Loader2, AlertCircle, ShieldCheck, ShieldAlert, KeyRound } from 'lucide-react';
+import {
+  useGetMfaStatusQuery,
+  useStartMfaEnrollmentMutation,
+  useConfirmMfaEnrollmentMutation,
+  useVerifyMfaMutation,
+  useRegenerateRecoveryCodesMutation,
+  useDisableMfaMutation,
+  TotpEnrollment
+} from '@/store/api/authApi';
+import { useAppDispatch } from '@/store/hook';
+import { addToast } from '@/store/slices/uiSlice';
+
+// Actions that need a fresh authenticator code
+type CodeAction = 'confirm' | 'verify' | 'regenerate' | 'disable';
+
+const ACTION_LABELS: Record<CodeAction, string> = {
+  confirm: 'Enable two-factor',
+  verify: 'Verify this session',
+  regenerate: 'Generate new codes',
+  disable: 'Disable two-factor'
+};
+
+const TwoFactorSection = () => {
+  const dispatch = useAppDispatch();
+
+  const { data, isLoading, error } = useGetMfaStatusQuery();
+  const [startEnrollment, { isLoading: isStarting }] = useStartMfaEnrollmentMutation();
+  const [confirmEnrollment, { isLoading: isConfirming }] = useConfirmMfaEnrollmentMutation();
+  const [verifyMfa, { isLoading: isVerifying }] = useVerifyMfaMutation();
+  const [regenerateCodes, { isLoading: isRegenerating }] = useRegenerateRecoveryCodesMutation();
+  const [disableMfa, { isLoading: isDisabling }] = useDisableMfaMutation();
+
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [action, setAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const status = data?.data;
+  const isSubmitting = isConfirming || isVerifying || isRegenerating || isDisabling;
+
+  const showError = (err: any, fallback: string) => {
+    dispatch(addToast({
+      message: err?.data?.error?.message || fallback,
+      type: 'error'
+    }));
+  };
+
+  const handleStart = async () => {
+    try {
+      const result = await startEnrollment().unwrap();
+      setEnrollment(result.data);
+      setAction('confirm');
+      setCode('');
+    } catch (err: any) {
+      showError(err, 'Failed to start two-factor setup');
+    }
+  };
+
+  const handleCancel = () => {
+    setEnrollment(null);
+    setAction(null);
+    setCode('');
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!action || !code.trim()) return;
+
+    const body = { code: code.trim() };
+
+    try {
+      switch (action) {
+        case 'confirm': {
+          const result = await confirmEnrollment(body).unwrap();
+          setRecoveryCodes(result.data.recoveryCodes);
+          dispatch(addToast({ message: result.message, type: 'success' }));
+          break;
+        }
+        case 'verify': {
+          const result = await verifyMfa(body).unwrap();
+          dispatch(addToast({ message: result.message, type: 'success' }));
+          break;
+        }
+        case 'regenerate': {
+          const result = await regenerateCodes(body).unwrap();
+          setRecoveryCodes(result.data.recoveryCodes);
+          dispatch(addToast({ message: result.message, type: 'success' }));
+          break;
+        }
+        case 'disable': {
+          const result = await disableMfa(body).unwrap();
+          setRecoveryCodes(null);
+          dispatch(addToast({ message: result.message, type: 'success' }));
+          break;
+        }
+      }
+      handleCancel();
+    } catch (err: any) {
+      setCode('');
+      showError(err, 'Invalid authentication code');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-gray-100">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <Smartphone className="w-4 h-4 text-gray-500" />
+          Two-factor authentication
+        </h3>
+        {status && (
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${status.enabled
+            ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
+            : 'bg-gray-50 text-gray-600 border-gray-200'
+            }`}>
+            {status.enabled ? 'Enabled' : 'Off'}
+          </span>
+        )}
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8 text-gray-400">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 px-5 py-6 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          Failed to load two-factor settings
+        </div>
+      )}
+
+      {status && (
+        <div className="px-5 py-4 space-y-4">
+          {status.enabled ? (
+            <div className="space-y-1 text-sm text-gray-600">
+              <p>
+                Authenticator app enabled{status.enabledAt && ` on ${dayjs(status.enabledAt).format('MMM D, YYYY')}`}.
+                {' '}{status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+              </p>
+              {!status.sessionVerified && (
+                <p className="flex items-center gap-1.5 text-amber-600">
+                  <ShieldAlert className="w-4 h-4" />
+                  This session hasn't been verified with a code yet.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {status.required
+                ? 'Your role requires two-factor authentication. Set up an authenticator app to keep access to protected actions.'
+                : 'Add a second step to sign-in with a code from an authenticator app.'}
+            </p>
+          )}
+
+          {/* Enrollment: QR code */}
+          {enrollment && (
+            <div className="flex flex-col sm:flex-row items-center gap-4 p-4 rounded-lg bg-gray-50 border border-gray-100">
+              <img src={enrollment.qrCodeDataUrl} alt="Authenticator QR code" className="w-40 h-40 rounded-lg bg-white p-2 border border-gray-200" />
+              <div className="text-sm text-gray-600 space-y-2">
+                <p>Scan the QR code with your authenticator app, then enter the 6-digit code it shows.</p>
+                <p className="text-xs text-gray-500">
+                  Can't scan? Enter this key: <span className="font-mono text-gray-800 break-all">{enrollment.secret}</span>
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Code prompt for the pending action */}
+          {action && (
+            <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder={action === 'confirm' ? '123456' : 'Code or recovery code'}
+                className="flex-1 px-3 py-2 rounded-lg border border-gray-200 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!code.trim() || isSubmitting}
+                className={`inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50 ${action === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                {ACTION_LABELS[action]}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 border border-gray-200 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </form>
+          )}
+
+          {/* Freshly issued recovery codes */}
+          {recoveryCodes && (
+            <div className="p-4 rounded-lg bg-amber-50 border border-amber-200 space-y-3">
+              <p className="text-sm text-amber-800 flex items-center gap-1.5">
+                <KeyRound className="w-4 h-4" />
+                Save these recovery codes. Each works once and they won't be shown again.
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 font-mono text-sm text-gray-800">
+                {recoveryCodes.map((c) => (
+                  <span key={c}>{c}</span>
+                ))}
+              </div>
+              <button
+                onClick={() => setRecoveryCodes(null)}
+                className="text-sm font-medium text-amber-800 hover:underline"
+              >
+                I've saved them
+              </button>
+            </div>
+          )}
+
+          {!action && (
+            <div className="flex flex-wrap gap-2">
+              {!status.enabled ? (
+                <button
+                  onClick={handleStart}
+                  disabled={isStarting}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isStarting ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+                  Set up authenticator
+                </button>
+              ) : (
+                <>
+                  {!status.sessionVerified && (
+                    <button
+                      onClick={() => setAction('verify')}
+                      className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700"
+                    >
+                      Verify this session
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setAction('regenerate')}
+                    className="px-4 py-2 rounded-lg border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    New recovery codes
+                  </button>
+                  {!status.required && (
+                    <button
+                      onClick={() => setAction('disable')}
+                      className="px-4 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50"
+                    >
+                      Disable
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSection;
@@ -0,0 +1,140 @@
+// src/components/users/InviteUserModal.tsx
+
+import { useState, FormEvent } from 'react';
+import { X, Loader2, UserPlus } from 'lucide-react';
+import { useCreateUserMutation } from '@/store/api/userApi';
+import type { CreateUserInput, StaffRole } from '@/types/users.types';
+import { useAppDispatch } from '@/store/hook';
+import { addToast } from '@/store/slices/uiSlice';
+
+interface InviteUserModalProps {
+  onClose: () => void;
+  onCreated: (userId: string) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const InviteUserModal = ({ onClose, onCreated }: InviteUserModalProps) => {
+  const dispatch = useAppDispatch();
+  const [createUser, { isLoading }] = useCreateUserMutation();
+
+  const [form, setForm] = useState<CreateUserInput>({
+    email: '',
+    full_name: '',
+    phone: '',
+    role: 'admin',
+    category: '',
+    department: '',
+    position: ''
+  });
+
+  const update = (field: keyof CreateUserInput, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    // Only send the staff fields that belong to the chosen role
+    const body: CreateUserInput = {
+      email: form.email.trim(),
+      full_name: form.full_name.trim(),
+      role: form.role,
+      ...(form.phone?.trim() && { phone: form.phone.trim() }),
+      ...(form.role === 'admin'
+        ? form.category?.trim() && { category: form.category.trim() }
+        : {
+          ...(form.department?.trim() && { department: form.department.trim() }),
+          ...(form.position?.trim() && { position: form.position.trim() })
+        })
+    };
+
+    try {
+      const result = await createUser(body).unwrap();
+      dispatch(addToast({
+        message: result.message,
+        type: result.data.inviteSent ? 'success' : 'warning'
+      }));
+      onCreated(result.data.user.id);
+    } catch (err: any) {
+      dispatch(addToast({
+        message: err?.data?.error?.message || 'Failed to create user',
+        type: 'error'
+      }));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white rounded-xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-100">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <UserPlus className="w-4 h-4 text-blue-600" />
+            Invite staff member
+          </h3>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100 text-gray-400">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="px-6 py-5 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['admin', 'core'] as StaffRole[]).map((role) => (
+              <button
+                key={role}
+                type="button"
+                onClick={() => update('role', role)}
+                className={`py-2 rounded-lg border text-sm font-medium capitalize ${form.role === role
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+              >
+                {role}
+              </button>
+            ))}
+          </div>
+
+          <input required value={form.full_name} onChange={(e) => update('full_name', e.target.value)} placeholder="Full name" className={inputClass} />
+          <input required type="email" value={form.email} onChange={(e) => update('email', e.target.value)} placeholder="Email" className={inputClass} />
+          <input value={form.phone} onChange={(e) => update('phone', e.target.value)} placeholder="Phone (optional)" className={inputClass} />
+
+          {form.role === 'admin' ? (
+            <input value={form.category} onChange={(e) => update('category', e.target.value)} placeholder="Category (e.g. Operations)" className={inputClass} />
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <input value={form.department} onChange={(e) => update('department', e.target.value)} placeholder="Department" className={inputClass} />
+              <input value={form.position} onChange={(e) => update('position', e.target.value)} placeholder="Position" className={inputClass} />
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            We'll email a temporary password. They'll be asked to change it on first sign-in.
+          </p>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 border border-gray-200 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Send invite
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default InviteUserModal;
@@ -0,0 +1,311 @@
+// src/components/users/UserDetail.tsx
+
+import { useState, useEffect, FormEvent } from 'react';
+import dayjs from 'dayjs';
+import { ArrowLeft, Loader2, AlertCircle, Lock, Unlock, Save, ShieldCheck, Ban, RotateCcw, PauseCircle } from 'lucide-react';
+import {
+  useGetUserQuery,
+  useUpdateUserMutation,
+  useUpdateUserRoleMutation,
+  useUpdateUserStatusMutation,
+  useUnlockUserMutation
+} from '@/store/api/userApi';
+import type { ManagedUser, StaffRole, UpdateUserStatusInput } from '@/types/users.types';
+import { useAppDispatch, useAppSelector } from '@/store/hook';
+import { selectUser } from '@/store/slices/authSlice';
+import { addToast } from '@/store/slices/uiSlice';
+import AuditTimeline from '@/components/audit/AuditTimeline';
+import { usePermission } from '@/hooks/usePermission';
+import UserPermissions from './UserPermissions';
+import { USER_STATUS_STYLES, USER_ROLE_STYLES, isLocked } from './UsersPanel';
+
+interface UserDetailProps {
+  userId: string;
+  onBack: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const first = <T,>(value: T[] | T | null): T | null =>
+  Array.isArray(value) ? value[0] ?? null : value;
+
+const toForm = (user: ManagedUser) => {
+  const admin = first(user.admin_staff);
+  const core = first(user.core_staff);
+  return {
+    full_name: user.full_name,
+    phone: user.phone || '',
+    category: admin?.category || '',
+    department: core?.department || '',
+    position: core?.position || ''
+  };
+};
+
+const UserDetail = ({ userId, onBack }: UserDetailProps) => {
+  const dispatch = useAppDispatch();
+  const currentUser = useAppSelector(selectUser);
+  const canUnlock = usePermission('users.unlock');
+
+  const { data, isLoading, error } = useGetUserQuery(userId);
+  const [updateUser, { isLoading: isSaving }] = useUpdateUserMutation();
+  const [updateRole, { isLoading: isChangingRole }] = useUpdateUserRoleMutation();
+  const [updateStatus, { isLoading: isChangingStatus }] = useUpdateUserStatusMutation();
+  const [unlockUser, { isLoading: isUnlocking }] = useUnlockUserMutation();
+
+  const user = data?.data;
+  const [form, setForm] = useState({ full_name: '', phone: '', category: '', department: '', position: '' });
+
+  useEffect(() => {
+    if (user) setForm(toForm(user));
+  }, [user]);
+
+  const showError = (err: any, fallback: string) => {
+    dispatch(addToast({
+      message: err?.data?.error?.message || fallback,
+      type: 'error'
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-gray-400">
+        <Loader2 className="w-8 h-8 animate-spin mb-2" />
+        <span className="text-sm font-medium">Loading user...</span>
+      </div>
+    );
+  }
+
+  if (error || !user) {
+    return (
+      <div className="space-y-4">
+        <button onClick={onBack} className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="w-4 h-4" /> Back to users
+        </button>
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+          <p className="text-sm text-red-700">Failed to load user.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isSelf = currentUser?.id === user.id;
+  const isStaff = user.role !== 'partner';
+  const locked = isLocked(user.locked_until);
+  const partner = first(user.partners);
+  const staffId = first(user.admin_staff)?.admin_id || first(user.core_staff)?.employee_id;
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    const body = {
+      full_name: form.full_name.trim(),
+      phone: form.phone.trim(),
+      ...(user.role === 'admin' && form.category.trim() && { category: form.category.trim() }),
+      ...(user.role === 'core' && { department: form.department.trim(), position: form.position.trim() })
+    };
+
+    try {
+      const result = await updateUser({ id: user.id, body }).unwrap();
+      dispatch(addToast({ message: result.message, type: 'success' }));
+    } catch (err: any) {
+      showError(err, 'Failed to update user');
+    }
+  };
+
+  const handleRoleChange = async (role: StaffRole) => {
+    if (!window.confirm(`Make ${user.full_name} ${role}? They will be signed out of every device.`)) return;
+
+    try {
+      const result = await updateRole({ id: user.id, body: { role } }).unwrap();
+      dispatch(addToast({ message: result.message, type: 'success' }));
+    } catch (err: any) {
+      showError(err, 'Failed to change role');
+    }
+  };
+
+  const handleStatusChange = async (status: UpdateUserStatusInput['status']) => {
+    let reason: string | undefined;
+    if (status !== 'active') {
+      const input = window.prompt(`Reason for ${status === 'suspended' ? 'suspending' : 'deactivating'} ${user.full_name} (optional). They will be signed out everywhere.`);
+      if (input === null) return;
+      reason = input.trim() || undefined;
+    }
+
+    try {
+      const result = await updateStatus({ id: user.id, body: { status, reason } }).unwrap();
+      dispatch(addToast({ message: result.message, type: 'success' }));
+    } catch (err: any) {
+      showError(err, 'Failed to update status');
+    }
+  };
+
+  const handleUnlock = async () => {
+    try {
+      const result = await unlockUser(user.id).unwrap();
+      dispatch(addToast({ message: result.message, type: 'success' }));
+    } catch (err: any) {
+      showError(err, 'Failed to unlock account');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="w-4 h-4" /> Back to users
+      </button>
+
+      {/* Header */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 flex flex-col md:flex-row md:items-center gap-4">
+        <div className="w-14 h-14 rounded-full bg-blue-50 text-blue-600 flex items-center justify-center font-bold text-xl border border-blue-100">
+          {user.full_name.charAt(0).toUpperCase()}
+        </div>
+        <div className="flex-1 min-w-0">
+          <h2 className="text-xl font-bold text-gray-900 truncate">{user.full_name}</h2>
+          <p className="text-sm text-gray-500 truncate">{user.email}</p>
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${USER_ROLE_STYLES[user.role]}`}>{user.role}</span>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${USER_STATUS_STYLES[user.status]}`}>{user.status}</span>
+            {staffId && <span className="text-xs font-mono text-gray-400">{staffId}</span>}
+            {partner && <span className="text-xs text-gray-500">{partner.partner_name} · {partner.partner_id}</span>}
+            {user.must_change_password && (
+              <span className="text-xs text-amber-600">Temporary password not yet changed</span>
+            )}
+          </div>
+        </div>
+        <dl className="text-xs text-gray-500 grid grid-cols-2 gap-x-4 gap-y-1">
+          <dt>Last sign-in</dt>
+          <dd className="text-gray-900">{user.last_login ? dayjs(user.last_login).format('MMM D, YYYY h:mm A') : 'Never'}</dd>
+          <dt>Active sessions</dt>
+          <dd className="text-gray-900">{user.active_sessions ?? 0}</dd>
+          <dt>Created</dt>
+          <dd className="text-gray-900">{dayjs(user.created_at).format('MMM D, YYYY')}</dd>
+        </dl>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Profile */}
+          <form onSubmit={handleSave} className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+            <h3 className="font-semibold text-gray-900">Profile</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input required value={form.full_name} onChange={(e) => setForm({ ...form, full_name: e.target.value })} placeholder="Full name" className={inputClass} />
+              <input value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} placeholder="Phone" className={inputClass} />
+              {user.role === 'admin' && (
+                <input value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })} placeholder="Category" className={inputClass} />
+              )}
+              {user.role === 'core' && (
+                <>
+                  <input value={form.department} onChange={(e) => setForm({ ...form, department: e.target.value })} placeholder="Department" className={inputClass} />
+                  <input value={form.position} onChange={(e) => setForm({ ...form, position: e.target.value })} placeholder="Position" className={inputClass} />
+                </>
+              )}
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                Save changes
+              </button>
+            </div>
+          </form>
+
+          {isStaff && <UserPermissions user={user} readOnly={isSelf} />}
+
+          <AuditTimeline key={user.id} entityType="user" entityId={user.id} title="Account history" />
+        </div>
+
+        {/* Access */}
+        <div className="space-y-6">
+          <div className={`rounded-xl border shadow-sm p-5 space-y-3 ${locked ? 'bg-rose-50 border-rose-200' : 'bg-white border-gray-200'}`}>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              {locked ? <Lock className="w-4 h-4 text-rose-600" /> : <Unlock className="w-4 h-4 text-gray-500" />}
+              Sign-in lockout
+            </h3>
+            <p className="text-sm text-gray-600">
+              {locked
+                ? `Locked after repeated failed sign-ins until ${dayjs(user.locked_until).format('MMM D, h:mm A')}.`
+                : `${user.failed_login_attempts || 0} recent failed sign-in attempt${user.failed_login_attempts === 1 ? '' : 's'}.`}
+            </p>
+            {canUnlock && (locked || !!user.failed_login_attempts) && (
+              <button
+                onClick={handleUnlock}
+                disabled={isUnlocking}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isUnlocking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Unlock className="w-4 h-4" />}
+                {locked ? 'Unlock account' : 'Reset attempts'}
+              </button>
+            )}
+          </div>
+
+          {isSelf ? (
+            <p className="text-sm text-gray-500 bg-white rounded-xl border border-gray-200 p-5">
+              You can't change the role or status of your own account.
+            </p>
+          ) : (
+            <>
+              {isStaff && (
+                <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5 space-y-3">
+                  <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                    <ShieldCheck className="w-4 h-4 text-gray-500" />
+                    Role
+                  </h3>
+                  <p className="text-sm text-gray-600">Changing the role signs the user out of every device.</p>
+                  <button
+                    onClick={() => handleRoleChange(user.role === 'core' ? 'admin' : 'core')}
+                    disabled={isChangingRole}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {isChangingRole && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Make {user.role === 'core' ? 'admin' : 'core'}
+                  </button>
+                </div>
+              )}
+
+              <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-5 space-y-3">
+                <h3 className="font-semibold text-gray-900">Account status</h3>
+                <div className="flex flex-wrap gap-2">
+                  {user.status !== 'active' && (
+                    <button
+                      onClick={() => handleStatusChange('active')}
+                      disabled={isChangingStatus}
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Reactivate
+                    </button>
+                  )}
+                  {user.status === 'active' && (
+                    <button
+                      onClick={() => handleStatusChange('suspended')}
+                      disabled={isChangingStatus}
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-amber-200 text-sm font-medium text-amber-700 hover:bg-amber-50 disabled:opacity-50"
+                    >
+                      <PauseCircle className="w-4 h-4" />
+                      Suspend
+                    </button>
+                  )}
+                  {user.status !== 'deactivated' && (
+                    <button
+                      onClick={() => handleStatusChange('deactivated')}
+                      disabled={isChangingStatus}
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <Ban className="w-4 h-4" />
+                      Deactivate
+                    </button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserDetail;
@@ -0,0 +1,120 @@
+// src/components/users/UserPermissions.tsx
+
+import { useState, useEffect } from 'react';
+import { KeyRound, Loader2, Save } from 'lucide-react';
+import { useGetPermissionCatalogQuery, useUpdateUserPermissionsMutation } from '@/store/api/userApi';
+import type { ManagedUser } from '@/types/users.types';
+import type { Permission, PermissionOverrides } from '@/types/permissions.types';
+import { useAppDispatch } from '@/store/hook';
+import { addToast } from '@/store/slices/uiSlice';
+
+interface UserPermissionsProps {
+  user: ManagedUser;
+  readOnly?: boolean;
+}
+
+/**
+ * Role defaults with per-user overrides on top
+ * Only differences from the role default are stored
+ */
+const UserPermissions = ({ user, readOnly = false }: UserPermissionsProps) => {
+  const dispatch = useAppDispatch();
+  const { data: catalog, isLoading } = useGetPermissionCatalogQuery();
+  const [updatePermissions, { isLoading: isSaving }] = useUpdateUserPermissionsMutation();
+
+  const [overrides, setOverrides] = useState<PermissionOverrides>({});
+
+  useEffect(() => {
+    setOverrides(user.permission_overrides || {});
+  }, [user.permission_overrides]);
+
+  if (isLoading || !catalog) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 flex justify-center text-gray-400">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    );
+  }
+
+  const roleDefaults = catalog.data.roleDefaults[user.role] || [];
+  const isDefault = (key: Permission) => roleDefaults.includes(key);
+  const isGranted = (key: Permission) => overrides[key] ?? isDefault(key);
+
+  const saved = user.permission_overrides || {};
+  const isDirty = JSON.stringify(saved) !== JSON.stringify(overrides);
+
+  const toggle = (key: Permission) => {
+    const next = !isGranted(key);
+    setOverrides((prev) => {
+      const updated = { ...prev };
+      if (next === isDefault(key)) {
+        delete updated[key];
+      } else {
+        updated[key] = next;
+      }
+      return updated;
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      const result = await updatePermissions({ id: user.id, body: { overrides } }).unwrap();
+      dispatch(addToast({ message: result.message, type: 'success' }));
+    } catch (err: any) {
+      dispatch(addToast({
+        message: err?.data?.error?.message || 'Failed to update permissions',
+        type: 'error'
+      }));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <KeyRound className="w-4 h-4 text-gray-500" />
+          Permissions
+        </h3>
+        {!readOnly && (
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save
+          </button>
+        )}
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {catalog.data.permissions.map(({ key, description }) => (
+          <li key={key} className="flex items-center gap-3 py-2">
+            <input
+              type="checkbox"
+              checked={isGranted(key)}
+              onChange={() => toggle(key)}
+              disabled={readOnly}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-gray-900">{description}</p>
+              <p className="text-xs font-mono text-gray-400">{key}</p>
+            </div>
+            {overrides[key] !== undefined && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-50 text-amber-700 border border-amber-200">
+                {overrides[key] ? 'Granted' : 'Revoked'}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <p className="text-xs text-gray-500">
+        Entries without a badge follow the {user.role} role default. Changes apply when the user's session next refreshes.
+      </p>
+    </div>
+  );
+};
+
+export default UserPermissions;
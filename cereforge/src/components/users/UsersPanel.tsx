@@ -0,0 +1,209 @@
+// src/components/users/UsersPanel.tsx
+
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import dayjs from 'dayjs';
+import { Search, Filter, Loader2, AlertCircle, ChevronRight, UserPlus, Lock, Users } from 'lucide-react';
+import { useGetUsersQuery } from '@/store/api/userApi';
+import type { UserRole, UserStatus } from '@/types/users.types';
+import InviteUserModal from './InviteUserModal';
+import UserDetail from './UserDetail';
+
+export const USER_STATUS_STYLES: Record<UserStatus, string> = {
+  active: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  pending: 'bg-blue-50 text-blue-700 border-blue-200',
+  suspended: 'bg-amber-50 text-amber-700 border-amber-200',
+  deactivated: 'bg-gray-100 text-gray-600 border-gray-200'
+};
+
+export const USER_ROLE_STYLES: Record<UserRole, string> = {
+  core: 'bg-purple-50 text-purple-700',
+  admin: 'bg-blue-50 text-blue-700',
+  partner: 'bg-orange-50 text-orange-700'
+};
+
+export const isLocked = (lockedUntil: string | null) =>
+  !!lockedUntil && dayjs(lockedUntil).isAfter(dayjs());
+
+const UsersPanel = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const userId = searchParams.get('userId');
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<UserStatus | 'all'>('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+
+  const { data, isLoading, isFetching, error } = useGetUsersQuery({
+    page: currentPage,
+    limit: 20,
+    ...(roleFilter !== 'all' && { role: roleFilter }),
+    ...(statusFilter !== 'all' && { status: statusFilter }),
+    ...(searchQuery && { search: searchQuery })
+  });
+
+  const openUser = (id: string) => setSearchParams({ tab: 'users', userId: id });
+  const handleBack = () => setSearchParams({ tab: 'users' });
+
+  if (userId) {
+    return (
+      <div className="p-6 max-w-5xl mx-auto">
+        <UserDetail userId={userId} onBack={handleBack} />
+      </div>
+    );
+  }
+
+  const users = data?.data.items || [];
+  const pagination = data?.data.pagination;
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="space-y-1">
+          <h2 className="text-2xl font-bold text-gray-900 tracking-tight flex items-center gap-2">
+            Users <Users className="w-5 h-5 text-blue-600" />
+          </h2>
+          <p className="text-sm text-gray-500">Invite staff, manage roles and control account access.</p>
+        </div>
+        <button
+          onClick={() => setIsInviteOpen(true)}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 shadow-sm"
+        >
+          <UserPlus className="w-4 h-4" />
+          Invite staff
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+        {/* Control Bar */}
+        <div className="p-5 border-b border-gray-100 flex flex-col md:flex-row gap-4 justify-between items-center">
+          <div className="relative w-full md:max-w-md group">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 group-focus-within:text-blue-500 transition-colors" />
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => { setSearchQuery(e.target.value); setCurrentPage(1); }}
+              placeholder="Search by name or email..."
+              className="w-full pl-10 pr-4 py-2 text-sm bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 focus:bg-white focus:ring-4 focus:ring-blue-500/10 transition-all"
+            />
+          </div>
+
+          <div className="flex items-center gap-2 w-full md:w-auto">
+            <div className="relative flex-1 md:flex-none">
+              <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-500" />
+              <select
+                value={roleFilter}
+                onChange={(e) => { setRoleFilter(e.target.value as UserRole | 'all'); setCurrentPage(1); }}
+                className="w-full md:w-36 pl-9 pr-8 py-2 text-sm bg-white border border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 appearance-none cursor-pointer font-medium text-gray-700"
+              >
+                <option value="all">All Roles</option>
+                <option value="core">Core</option>
+                <option value="admin">Admin</option>
+                <option value="partner">Partner</option>
+              </select>
+            </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => { setStatusFilter(e.target.value as UserStatus | 'all'); setCurrentPage(1); }}
+              className="flex-1 md:flex-none md:w-40 px-3 py-2 text-sm bg-white border border-gray-200 rounded-lg focus:outline-none focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 cursor-pointer font-medium text-gray-700"
+            >
+              <option value="all">All Status</option>
+              <option value="active">Active</option>
+              <option value="pending">Pending</option>
+              <option value="suspended">Suspended</option>
+              <option value="deactivated">Deactivated</option>
+            </select>
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+            <Loader2 className="w-8 h-8 animate-spin mb-2" />
+            <span className="text-sm font-medium">Loading users...</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="m-5 bg-red-50 border border-red-200 rounded-xl p-4 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+            <p className="text-sm text-red-700">Failed to load users. Please try again.</p>
+          </div>
+        )}
+
+        {!isLoading && !error && users.length === 0 && (
+          <p className="py-16 text-center text-sm text-gray-500">No users match these filters.</p>
+        )}
+
+        {users.length > 0 && (
+          <ul className="divide-y divide-gray-100">
+            {users.map((user) => (
+              <li
+                key={user.id}
+                onClick={() => openUser(user.id)}
+                className="group flex items-center gap-4 px-5 py-3 cursor-pointer hover:bg-blue-50/40 transition-colors"
+              >
+                <div className="w-9 h-9 rounded-full bg-blue-50 text-blue-600 flex items-center justify-center font-bold text-sm border border-blue-100 flex-shrink-0">
+                  {user.full_name.charAt(0).toUpperCase()}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-semibold text-gray-900 truncate group-hover:text-blue-600">{user.full_name}</p>
+                  <p className="text-xs text-gray-500 truncate">{user.email}</p>
+                </div>
+                <span className={`hidden sm:inline px-2 py-0.5 rounded-md text-xs font-medium ${USER_ROLE_STYLES[user.role]}`}>
+                  {user.role}
+                </span>
+                {isLocked(user.locked_until) && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-rose-50 text-rose-700 border border-rose-200">
+                    <Lock className="w-3 h-3" />
+                    Locked
+                  </span>
+                )}
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${USER_STATUS_STYLES[user.status]}`}>
+                  {user.status}
+                </span>
+                <span className="hidden md:block w-32 text-right text-xs text-gray-400">
+                  {user.last_login ? `Seen ${dayjs(user.last_login).format('MMM D, YYYY')}` : 'Never signed in'}
+                </span>
+                <ChevronRight className="w-4 h-4 text-gray-300 group-hover:text-blue-600" />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between px-5 py-4 border-t border-gray-100">
+            <p className="text-xs text-gray-500 font-medium">
+              Showing <span className="text-gray-900">{users.length}</span> of {pagination.total} users
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                disabled={currentPage === 1 || isFetching}
+                className="px-3 py-1.5 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setCurrentPage(p => Math.min(pagination.totalPages, p + 1))}
+                disabled={currentPage === pagination.totalPages || isFetching}
+                className="px-3 py-1.5 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isInviteOpen && (
+        <InviteUserModal
+          onClose={() => setIsInviteOpen(false)}
+          onCreated={(id) => { setIsInviteOpen(false); openUser(id); }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default UsersPanel;
@@ -7,14 +7,16 @@ import {
   useCreateEventMutation,
   useUpdateEventMutation,
   useDeleteEventMutation,
-  useGetPublicHolidaysQuery
+  useGetPublicHolidaysQuery,
+  useGetCalendarsQuery
 } from '../store/api/calendarApi';
 import type {
   CalendarEvent,
   LabelFilter,
   CreateEventInput,
   UpdateEventInput,
-  RecurrenceConfig
+  RecurrenceConfig,
+  RecurrenceEditScope
 } from '../types/calendar.types';
 
 dayjs.extend(utc);
@@ -68,6 +70,11 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
     { skip: !showHolidays }
   );
 
+  const { data: calendars = [] } = useGetCalendarsQuery();
+
+  // Calendars switched off in the sidebar
+  const [hiddenCalendarIds, setHiddenCalendarIds] = useState<string[]>([]);
+
   const [createEventMutation, { isLoading: isCreating }] = useCreateEventMutation();
   const [updateEventMutation, { isLoading: isUpdating }] = useUpdateEventMutation();
   const [deleteEventMutation, { isLoading: isDeleting }] = useDeleteEventMutation();
@@ -83,10 +90,23 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
 
   const filteredEvents = useMemo(() => {
     if (!eventsData?.data?.userEvents) return [];
-    return eventsData.data.userEvents.filter(evt =>
-      labels.find(lbl => lbl.label === evt.label && lbl.checked)
+
+    // Calendar colors are overlaid only when there's more than one to tell apart
+    const visibleCalendars = calendars.filter(calendar => !hiddenCalendarIds.includes(calendar.id));
+    const colorByCalendar = new Map(
+      visibleCalendars.length > 1 ? visibleCalendars.map(calendar => [calendar.id, calendar.color]) : []
     );
-  }, [eventsData?.data?.userEvents, labels]);
+
+    return eventsData.data.userEvents
+      .filter(evt =>
+        labels.find(lbl => lbl.label === evt.label && lbl.checked) &&
+        !(evt.calendarId && hiddenCalendarIds.includes(evt.calendarId))
+      )
+      .map(evt => {
+        const calendarColor = evt.calendarId ? colorByCalendar.get(evt.calendarId) : undefined;
+        return calendarColor ? { ...evt, calendarColor } : evt;
+      });
+  }, [eventsData?.data?.userEvents, labels, calendars, hiddenCalendarIds]);
 
   // ✅ 3. ROBUST HOLIDAY PROCESSING (The Fix)
   const publicHolidays = useMemo((): CalendarEvent[] => {
@@ -146,8 +166,14 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
     );
   }, []);
 
+  const toggleCalendar = useCallback((calendarId: string) => {
+    setHiddenCalendarIds(prev =>
+      prev.includes(calendarId) ? prev.filter(id => id !== calendarId) : [...prev, calendarId]
+    );
+  }, []);
+
  // ✅ FIXED: Preserve full recurrence config
-  const addEvent = useCallback(async (event: CalendarEvent) => {
+  const addEvent = useCallback(async (event: CalendarEvent, force = false) => {
     try {
       console.log('➕ Creating event with recurrence:', event.recurrence);
       
@@ -165,14 +191,10 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
         recurrenceData = {
           type: 'custom',
           config: {
+            ...event.recurrence.config,
             type: 'custom',
-            interval: event.recurrence.config.interval,
-            repeatUnit: event.recurrence.config.repeatUnit,
-            daysOfWeek: event.recurrence.config.daysOfWeek,
-            endType: event.recurrence.config.endType,
             endDate: event.recurrence.config.endDate ? 
-              dayjs(event.recurrence.config.endDate).format('YYYY-MM-DD') : null,
-            occurrences: event.recurrence.config.occurrences
+              dayjs(event.recurrence.config.endDate).format('YYYY-MM-DD') : null
           }
         };
       } else {
@@ -207,7 +229,9 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
         notification: event.notification || event.notificationSettings || { 
           type: 'Snooze', 
           interval: null 
-        }
+        },
+        ...(event.calendarId && { calendarId: event.calendarId }),
+        ...(force && { force })
       };
 
       console.log('📤 Full payload to API:', JSON.stringify(backendEvent, null, 2));
@@ -220,7 +244,8 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
   }, [createEventMutation]);
 
   // ✅ FIXED: Preserve full recurrence config in updates
-  const editEvent = useCallback(async (event: CalendarEvent) => {
+  // scope picks the occurrences of a recurring event the edit applies to
+  const editEvent = useCallback(async (event: CalendarEvent, scope: RecurrenceEditScope = 'all', force = false) => {
     try {
       const parentId = extractParentId(event.id || event.eventId!);
       
@@ -237,14 +262,10 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
         recurrenceData = {
           type: 'custom',
           config: {
+            ...event.recurrence.config,
             type: 'custom',
-            interval: event.recurrence.config.interval,
-            repeatUnit: event.recurrence.config.repeatUnit,
-            daysOfWeek: event.recurrence.config.daysOfWeek,
-            endType: event.recurrence.config.endType,
             endDate: event.recurrence.config.endDate ? 
-              dayjs(event.recurrence.config.endDate).format('YYYY-MM-DD') : null,
-            occurrences: event.recurrence.config.occurrences
+              dayjs(event.recurrence.config.endDate).format('YYYY-MM-DD') : null
           }
         };
       } else {
@@ -275,7 +296,10 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
         recurrence: recurrenceData as RecurrenceConfig,
         label: event.label,
         guests: event.selectedGuest || event.guests,
-        notification: event.notification || event.notificationSettings
+        notification: event.notification || event.notificationSettings,
+        ...(event.originalStart && { scope, instanceStart: event.originalStart }),
+        ...(event.calendarId && { calendarId: event.calendarId }),
+        ...(force && { force })
       };
 
       console.log('📤 Full update payload:', JSON.stringify(backendEvent, null, 2));
@@ -289,7 +313,8 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
 
   const removeEvent = useCallback(async (
     eventId: string, 
-    deleteType: 'single' | 'thisAndFuture' | 'all' = 'all'
+    deleteType: RecurrenceEditScope = 'all',
+    instanceStart?: string
   ) => {
     try {
       const parentId = extractParentId(eventId);
@@ -298,10 +323,11 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
         originalId: eventId,
         parentId,
         deleteType,
+        instanceStart,
         isInstance: eventId.includes('_instance_')
       });
       
-      await deleteEventMutation({ id: parentId, deleteType }).unwrap();
+      await deleteEventMutation({ id: parentId, deleteType, instanceStart }).unwrap();
       console.log('✅ Event deleted successfully');
     } catch (error) {
       console.error('❌ Failed to delete event:', error);
@@ -325,6 +351,9 @@ export const useCalendarEvents = ({ monthIndex, year }: UseCalendarEventsParams)
     refetchEvents,
     labels,
     updateLabel,
+    calendars,
+    hiddenCalendarIds,
+    toggleCalendar,
     // ✅ 4. EXPORT NEW STATE
     showHolidays,
     setShowHolidays,
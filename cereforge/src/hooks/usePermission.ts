@@ -0,0 +1,16 @@
+import { useAppSelector } from '@/store/hook';
+import { selectUser } from '@/store/slices/authSlice';
+import type { User } from '@/store/api/authApi';
+import type { Permission } from '@/types/permissions.types';
+
+/**
+ * Permissions come resolved (role defaults + overrides) on the session user
+ * This only hides UI - the server still enforces every permission
+ */
+export const hasPermission = (user: User | null | undefined, permission: Permission): boolean =>
+  !!user?.permissions?.[permission];
+
+export const usePermission = (permission: Permission): boolean => {
+  const user = useAppSelector(selectUser);
+  return hasPermission(user, permission);
+};
@@ -0,0 +1,64 @@
+// src/store/api/auditApi.ts
+
+import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type {
+  AuditLogsListResponse,
+  GetAuditLogsParams,
+  ExportAuditLogsParams
+} from '../../types/audit.types';
+
+export const auditApi = createApi({
+  reducerPath: 'auditApi',
+  baseQuery: fetchBaseQuery({
+    baseUrl: `${import.meta.env.VITE_API_URL}/admin`,
+    credentials: 'include'
+  }),
+  tagTypes: ['AuditLogs'],
+  keepUnusedDataFor: 60, // Audit data goes stale quickly
+  refetchOnMountOrArgChange: 30,
+  refetchOnReconnect: true,
+
+  endpoints: (builder) => ({
+    /**
+     * GET /admin/audit-logs
+     * Cursor pages are merged into one list per filter set ("Load more")
+     */
+    getAuditLogs: builder.query<AuditLogsListResponse, GetAuditLogsParams>({
+      query: (params) => ({
+        url: '/audit-logs',
+        params
+      }),
+      serializeQueryArgs: ({ endpointName, queryArgs }) => {
+        const { cursor: _cursor, ...filters } = queryArgs;
+        return `${endpointName}(${JSON.stringify(filters)})`;
+      },
+      merge: (currentCache, response, { arg }) => {
+        if (!arg.cursor) return response;
+        // Refetching the same page must not duplicate rows
+        const seen = new Set(currentCache.data.items.map((item) => item.id));
+        currentCache.data.items.push(...response.data.items.filter((item) => !seen.has(item.id)));
+        currentCache.data.pagination = response.data.pagination;
+      },
+      forceRefetch: ({ currentArg, previousArg }) => currentArg?.cursor !== previousArg?.cursor,
+      providesTags: ['AuditLogs']
+    }),
+
+    /**
+     * GET /admin/audit-logs/export
+     * Returns the file as a Blob for download
+     */
+    exportAuditLogs: builder.mutation<Blob, ExportAuditLogsParams>({
+      query: (params) => ({
+        url: '/audit-logs/export',
+        params,
+        responseHandler: (response) => response.blob(),
+        cache: 'no-cache'
+      })
+    })
+  })
+});
+
+export const {
+  useGetAuditLogsQuery,
+  useExportAuditLogsMutation
+} = auditApi;
@@ -10,6 +10,8 @@ export interface User {
   role: 'core' | 'admin' | 'partner';
   systemType: 'SYSTEM_USERS' | 'COMMERCIAL_USERS';
   permissions?: Record<string, boolean>;
+  mustChangePassword?: boolean;
+  mfa?: boolean;
 }
 
 export interface EmailVerificationResult {
@@ -35,11 +37,60 @@ export interface LoginResponse {
   user: User;
 }
 
+// Returned by /auth/login instead of a session when 2FA is required
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaEnrolled: boolean;
+  mfaToken: string;
+}
+
+export interface MfaLoginResponse extends LoginResponse {
+  recoveryCodes?: string[];
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  sessionVerified: boolean;
+}
+
 export interface MeResponse {
   user: User;
   authenticated: boolean;
 }
 
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+export interface UserSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown' | null;
+  browser: string | null;
+  os: string | null;
+  country: string | null;
+  lastActivity: string;
+  createdAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
 const baseQuery = fetchBaseQuery({
   baseUrl: import.meta.env.VITE_API_URL || 'http://localhost:5000/api/v1',
   credentials: 'include', // ✅ Sends cookies with every request
@@ -152,7 +203,7 @@ const baseQueryWithReauth: BaseQueryFn<
 export const authApi = createApi({
   reducerPath: 'authApi',
   baseQuery: baseQueryWithReauth,
-  tagTypes: ['Auth', 'User'],
+  tagTypes: ['Auth', 'User', 'Sessions', 'Mfa'],
   // ✅ OPTIMIZED: Longer cache time for auth data
   keepUnusedDataFor: 600, // 10 minutes (was 300)
   refetchOnMountOrArgChange: false, // ✅ Don't auto-refetch (trust cache)
@@ -172,7 +223,7 @@ export const authApi = createApi({
     }),
 
     // POST /auth/login
-    login: builder.mutation<{ data: LoginResponse }, LoginRequest>({
+    login: builder.mutation<{ data: LoginResponse | MfaChallenge }, LoginRequest>({
       query: (credentials) => ({
         url: '/auth/login',
         method: 'POST',
@@ -181,6 +232,25 @@ export const authApi = createApi({
       invalidatesTags: ['Auth', 'User']
     }),
 
+    // POST /auth/login/mfa/setup (first-time 2FA setup during login)
+    mfaLoginSetup: builder.mutation<{ data: TotpEnrollment }, { mfaToken: string }>({
+      query: (body) => ({
+        url: '/auth/login/mfa/setup',
+        method: 'POST',
+        body
+      })
+    }),
+
+    // POST /auth/login/mfa (Step 3)
+    mfaLogin: builder.mutation<{ data: MfaLoginResponse }, { mfaToken: string; code: string }>({
+      query: (body) => ({
+        url: '/auth/login/mfa',
+        method: 'POST',
+        body
+      }),
+      invalidatesTags: ['Auth', 'User', 'Mfa']
+    }),
+
     // GET /auth/me (Fast session check)
     getMe: builder.query<{ data: MeResponse }, void>({
       query: () => '/auth/me',
@@ -204,6 +274,114 @@ export const authApi = createApi({
         url: '/auth/refresh',
         method: 'POST'
       })
+    }),
+
+    // POST /auth/forgot-password
+    forgotPassword: builder.mutation<{ success: boolean; message: string }, { email: string }>({
+      query: (body) => ({
+        url: '/auth/forgot-password',
+        method: 'POST',
+        body
+      })
+    }),
+
+    // POST /auth/reset-password
+    resetPassword: builder.mutation<{ success: boolean; message: string }, ResetPasswordRequest>({
+      query: (body) => ({
+        url: '/auth/reset-password',
+        method: 'POST',
+        body
+      })
+    }),
+
+    // POST /auth/change-password
+    changePassword: builder.mutation<{ data: LoginResponse; message: string }, ChangePasswordRequest>({
+      query: (body) => ({
+        url: '/auth/change-password',
+        method: 'POST',
+        body
+      }),
+      invalidatesTags: ['Auth', 'Sessions']
+    }),
+
+    // GET /auth/sessions
+    getSessions: builder.query<{ data: UserSession[] }, void>({
+      query: () => '/auth/sessions',
+      providesTags: ['Sessions'],
+      keepUnusedDataFor: 60
+    }),
+
+    // DELETE /auth/sessions/:id
+    revokeSession: builder.mutation<{ success: boolean; message: string }, string>({
+      query: (id) => ({
+        url: `/auth/sessions/${id}`,
+        method: 'DELETE'
+      }),
+      invalidatesTags: ['Sessions']
+    }),
+
+    // DELETE /auth/sessions (everything except the current session)
+    revokeOtherSessions: builder.mutation<{ data: { revokedCount: number }; message: string }, void>({
+      query: () => ({
+        url: '/auth/sessions',
+        method: 'DELETE'
+      }),
+      invalidatesTags: ['Sessions']
+    }),
+
+    // GET /auth/mfa
+    getMfaStatus: builder.query<{ data: MfaStatus }, void>({
+      query: () => '/auth/mfa',
+      providesTags: ['Mfa'],
+      keepUnusedDataFor: 60
+    }),
+
+    // POST /auth/mfa/enroll
+    startMfaEnrollment: builder.mutation<{ data: TotpEnrollment }, void>({
+      query: () => ({
+        url: '/auth/mfa/enroll',
+        method: 'POST'
+      })
+    }),
+
+    // POST /auth/mfa/enroll/confirm
+    confirmMfaEnrollment: builder.mutation<{ data: { recoveryCodes: string[] }; message: string }, { code: string }>({
+      query: (body) => ({
+        url: '/auth/mfa/enroll/confirm',
+        method: 'POST',
+        body
+      }),
+      invalidatesTags: ['Mfa', 'Auth']
+    }),
+
+    // POST /auth/mfa/verify (step-up for the current session)
+    verifyMfa: builder.mutation<{ data: { mfa: boolean; method: string }; message: string }, { code: string }>({
+      query: (body) => ({
+        url: '/auth/mfa/verify',
+        method: 'POST',
+        body
+      }),
+      invalidatesTags: ['Mfa', 'Auth']
+    }),
+
+    // POST /auth/mfa/recovery-codes
+    regenerateRecoveryCodes: builder.mutation<{ data: { recoveryCodes: string[] }; message: string }, { code: string }>({
+      query: (body) => ({
+        url: '/auth/mfa/recovery-codes',
+        method: 'POST',
+        body
+      }),
+      invalidatesTags: ['Mfa']
+    }),
+
+    // DELETE /auth/mfa
+    disableMfa: builder.mutation<{ success: boolean; message: string }, { code: string }>({
+      query: (body) => ({
+        url: '/auth/mfa',
+        method: 'DELETE',
+        body
+      }),
+      invalidatesTags: ['Mfa', 'Auth']
     })
   })
 });
@@ -214,5 +392,19 @@ export const {
   useLoginMutation,
   useGetMeQuery,
   useLogoutMutation,
-  useRefreshTokenMutation
+  useRefreshTokenMutation,
+  useForgotPasswordMutation,
+  useResetPasswordMutation,
+  useChangePasswordMutation,
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+  useRevokeOtherSessionsMutation,
+  useMfaLoginSetupMutation,
+  useMfaLoginMutation,
+  useGetMfaStatusQuery,
+  useStartMfaEnrollmentMutation,
+  useConfirmMfaEnrollmentMutation,
+  useVerifyMfaMutation,
+  useRegenerateRecoveryCodesMutation,
+  useDisableMfaMutation
 } = authApi;
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type {
+  BookConsultationRequest,
+  BookingConfirmation,
+  BookingSlotsQuery,
+  BookingSlotsResult,
+  CancelBookingRequest,
+  ManagedBooking,
+  PublicBookingConfig,
+  RescheduleBookingRequest,
+  RescheduleSlotsQuery
+} from '@/types/consultation.types';
+
+interface BookingApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+  timestamp: string;
+}
+
+// ✅ Public booking API slice (the link id in the URL is the key, no session needed)
+export const bookingApi = createApi({
+  reducerPath: 'bookingApi',
+  baseQuery: fetchBaseQuery({
+    baseUrl: `${import.meta.env.VITE_API_URL}/public`
+  }),
+  tagTypes: ['BookingConfig', 'BookingSlots', 'ManagedBooking'],
+  endpoints: (builder) => ({
+    // GET /public/booking/:id
+    getBookingConfig: builder.query<PublicBookingConfig, string>({
+      query: (id) => `/booking/${encodeURIComponent(id)}`,
+      transformResponse: (response: BookingApiResponse<PublicBookingConfig>) => response.data,
+      providesTags: ['BookingConfig']
+    }),
+
+    // GET /public/booking/:id/slots
+    getBookingSlots: builder.query<BookingSlotsResult, BookingSlotsQuery>({
+      query: ({ id, ...params }) => ({
+        url: `/booking/${encodeURIComponent(id)}/slots`,
+        params
+      }),
+      transformResponse: (response: BookingApiResponse<BookingSlotsResult>) => response.data,
+      providesTags: ['BookingSlots']
+    }),
+
+    // POST /public/booking/:id/book
+    bookConsultation: builder.mutation<BookingConfirmation, BookConsultationRequest>({
+      query: ({ id, ...body }) => ({
+        url: `/booking/${encodeURIComponent(id)}/book`,
+        method: 'POST',
+        body
+      }),
+      transformResponse: (response: BookingApiResponse<BookingConfirmation>) => response.data,
+      invalidatesTags: ['BookingSlots']
+    }),
+
+    // GET /public/booking/manage/:token
+    getManagedBooking: builder.query<ManagedBooking, string>({
+      query: (token) => `/booking/manage/${encodeURIComponent(token)}`,
+      transformResponse: (response: BookingApiResponse<ManagedBooking>) => response.data,
+      providesTags: ['ManagedBooking']
+    }),
+
+    // GET /public/booking/manage/:token/slots
+    getRescheduleSlots: builder.query<BookingSlotsResult, RescheduleSlotsQuery>({
+      query: ({ token, ...params }) => ({
+        url: `/booking/manage/${encodeURIComponent(token)}/slots`,
+        params
+      }),
+      transformResponse: (response: BookingApiResponse<BookingSlotsResult>) => response.data,
+      providesTags: ['BookingSlots']
+    }),
+
+    // POST /public/booking/manage/:token/reschedule
+    rescheduleBooking: builder.mutation<ManagedBooking, RescheduleBookingRequest>({
+      query: ({ token, ...body }) => ({
+        url: `/booking/manage/${encodeURIComponent(token)}/reschedule`,
+        method: 'POST',
+        body
+      }),
+      transformResponse: (response: BookingApiResponse<ManagedBooking>) => response.data,
+      invalidatesTags: ['ManagedBooking', 'BookingSlots']
+    }),
+
+    // POST /public/booking/manage/:token/cancel
+    cancelBooking: builder.mutation<ManagedBooking, CancelBookingRequest>({
+      query: ({ token, ...body }) => ({
+        url: `/booking/manage/${encodeURIComponent(token)}/cancel`,
+        method: 'POST',
+        body
+      }),
+      transformResponse: (response: BookingApiResponse<ManagedBooking>) => response.data,
+      invalidatesTags: ['ManagedBooking', 'BookingSlots']
+    })
+  })
+});
+
+// ✅ Export hooks
+export const {
+  useGetBookingConfigQuery,
+  useGetBookingSlotsQuery,
+  useBookConsultationMutation,
+  useGetManagedBookingQuery,
+  useGetRescheduleSlotsQuery,
+  useRescheduleBookingMutation,
+  useCancelBookingMutation
+} = bookingApi;
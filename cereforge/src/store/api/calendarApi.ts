@@ -9,7 +9,18 @@ import type {
   DeleteEventInput,
   PublicHoliday,
   GetEventsParams,
-  CalendarEventsResponse
+  CalendarEventsResponse,
+  CalendarImportResult,
+  ImportCalendarInput,
+  CalendarFeed,
+  CalendarFeedOptions,
+  FreeBusyRequest,
+  FreeBusyResponse,
+  Calendar,
+  CalendarMember,
+  CalendarPermission,
+  CreateCalendarInput,
+  UpdateCalendarInput
 } from '../../types/calendar.types';
 
 // ============================================
@@ -21,7 +32,14 @@ import type {
  * Key: Ensure `day` is always a Unix timestamp
  */
 function transformBackendEvent(backendEvent: any): CalendarEvent {
-  const startTime = dayjs(backendEvent.start_time);
+  // Event lists carry wall-clock times already localized by the server
+  // (viewer zone for timed events, the event's own dates for all-day ones)
+  const startTime = backendEvent.local_start_date
+    ? dayjs(`${backendEvent.local_start_date}T${backendEvent.local_start_time}`)
+    : dayjs(backendEvent.start_time);
+  const endTime = backendEvent.local_end_date
+    ? dayjs(`${backendEvent.local_end_date}T${backendEvent.local_end_time}`)
+    : dayjs(backendEvent.end_time);
 
   return {
     // IDs
@@ -36,12 +54,8 @@ function transformBackendEvent(backendEvent: any): CalendarEvent {
     location: backendEvent.location,
 
     // Timing - CRITICAL FIX
-    startTime: backendEvent.all_day
-      ? startTime.format('HH:mm')
-      : startTime.format('HH:mm'),
-    endTime: backendEvent.all_day
-      ? dayjs(backendEvent.end_time).format('HH:mm')
-      : dayjs(backendEvent.end_time).format('HH:mm'),
+    startTime: startTime.format('HH:mm'),
+    endTime: endTime.format('HH:mm'),
     day: startTime.valueOf(), // ✅ UNIX TIMESTAMP for filtering
     allDay: backendEvent.all_day,
     timezone: backendEvent.timezone,
@@ -53,12 +67,20 @@ function transformBackendEvent(backendEvent: any): CalendarEvent {
       config: backendEvent.recurrence_config
     },
     recurrenceConfig: backendEvent.recurrence_config,
+    rrule: backendEvent.rrule,
     parentEventId: backendEvent.parent_event_id,
     isRecurringParent: backendEvent.is_recurring_parent,
+    isInstance: !!backendEvent.isInstance,
+    originalStart: backendEvent.instanceDate || backendEvent.original_start_time || null,
 
     // Visual
     label: backendEvent.label as EventLabel,
 
+    // Calendar
+    calendarId: backendEvent.calendar_id || undefined,
+    access: backendEvent.access,
+    isEditable: !backendEvent.access || backendEvent.access === 'owner' || backendEvent.access === 'edit',
+
     // Notifications
     notificationSettings: backendEvent.notification_settings || { type: 'Snooze', interval: null },
     notification: backendEvent.notification_settings || { type: 'Snooze', interval: null },
@@ -122,7 +144,7 @@ export const calendarApi = createApi({
       return headers;
     }
   }),
-  tagTypes: ['CalendarEvents', 'PublicHolidays'],
+  tagTypes: ['CalendarEvents', 'PublicHolidays', 'CalendarFeed', 'Calendars'],
   keepUnusedDataFor: 180, // ⚡ 3 min cache - balance speed & freshness
   refetchOnMountOrArgChange: 30, // ⚡ Refetch if data is 30s+ old
   refetchOnFocus: true, // ✅ ALWAYS sync when returning to tab (catch partner updates)
@@ -134,9 +156,14 @@ export const calendarApi = createApi({
     // GET EVENTS - OPTIMIZED
     // ============================================
     getEvents: builder.query<CalendarEventsResponse, GetEventsParams>({
-      query: ({ startDate, endDate, includeRecurring = true }) => ({
+      query: ({
+        startDate,
+        endDate,
+        includeRecurring = true,
+        timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+      }) => ({
         url: '/events',
-        params: { startDate, endDate, includeRecurring }
+        params: { startDate, endDate, includeRecurring, timezone }
       }),
       providesTags: ['CalendarEvents'],
       // ⚡ PERFORMANCE: Transform once, cache for 5 minutes
@@ -248,12 +275,12 @@ export const calendarApi = createApi({
     // DELETE EVENT - OPTIMISTIC UPDATE
     // ============================================
     deleteEvent: builder.mutation<void, DeleteEventInput>({
-      query: ({ id, deleteType = 'single' }) => ({
+      query: ({ id, deleteType = 'single', instanceStart }) => ({
         url: `/events/${id}`,
         method: 'DELETE',
-        params: { deleteType }
+        params: { deleteType, instanceStart }
       }),
-      async onQueryStarted({ id, deleteType }, { dispatch, queryFulfilled }) {
+      async onQueryStarted({ id, deleteType, instanceStart }, { dispatch, queryFulfilled }) {
         // ⚡ OPTIMISTIC: Remove immediately
         const patchResult = dispatch(
           calendarApi.util.updateQueryData('getEvents', {} as any, (draft) => {
@@ -262,6 +289,13 @@ export const calendarApi = createApi({
                 draft.data.userEvents = draft.data.userEvents.filter(
                   evt => evt.id !== id && evt.eventId !== id && evt.parentEventId !== id
                 );
+              } else if (instanceStart) {
+                const from = dayjs(instanceStart);
+                draft.data.userEvents = draft.data.userEvents.filter(evt => {
+                  if (evt.parentEventId !== id || !evt.originalStart) return evt.id !== id;
+                  const occurrence = dayjs(evt.originalStart);
+                  return deleteType === 'single' ? !occurrence.isSame(from) : occurrence.isBefore(from);
+                });
               } else {
                 draft.data.userEvents = draft.data.userEvents.filter(
                   evt => evt.id !== id && evt.eventId !== id
@@ -280,6 +314,155 @@ export const calendarApi = createApi({
       invalidatesTags: ['CalendarEvents']
     }),
 
+    // ============================================
+    // ICS EXPORT (raw file text, never cached)
+    // ============================================
+    exportCalendar: builder.query<string, { start?: string; end?: string }>({
+      query: ({ start, end }) => ({
+        url: '/export.ics',
+        params: { start, end },
+        responseHandler: 'text'
+      }),
+      keepUnusedDataFor: 0
+    }),
+
+    // ============================================
+    // ICS IMPORT (dryRun previews without writing)
+    // ============================================
+    importCalendar: builder.mutation<CalendarImportResult, ImportCalendarInput>({
+      query: (data) => ({
+        url: '/import',
+        method: 'POST',
+        body: data
+      }),
+      transformResponse: (response: any) => response.data,
+      invalidatesTags: (result) => (result && !result.dryRun ? ['CalendarEvents'] : [])
+    }),
+
+    // ============================================
+    // FREE/BUSY (read-only, refreshed with the calendar)
+    // ============================================
+    getFreeBusy: builder.query<FreeBusyResponse, FreeBusyRequest>({
+      query: (data) => ({
+        url: '/freebusy',
+        method: 'POST',
+        body: data
+      }),
+      providesTags: ['CalendarEvents'],
+      transformResponse: (response: any) => response.data,
+      keepUnusedDataFor: 60
+    }),
+
+    // ============================================
+    // SHARED CALENDARS
+    // ============================================
+    getCalendars: builder.query<Calendar[], void>({
+      query: () => '/calendars',
+      providesTags: ['Calendars'],
+      transformResponse: (response: any) => response.data || []
+    }),
+
+    createCalendar: builder.mutation<Calendar, CreateCalendarInput>({
+      query: (data) => ({
+        url: '/calendars',
+        method: 'POST',
+        body: data
+      }),
+      transformResponse: (response: any) => response.data,
+      invalidatesTags: ['Calendars']
+    }),
+
+    updateCalendar: builder.mutation<Calendar, UpdateCalendarInput>({
+      query: ({ id, ...data }) => ({
+        url: `/calendars/${id}`,
+        method: 'PATCH',
+        body: data
+      }),
+      transformResponse: (response: any) => response.data,
+      invalidatesTags: ['Calendars']
+    }),
+
+    // Removes the calendar's events too
+    deleteCalendar: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/calendars/${id}`,
+        method: 'DELETE'
+      }),
+      invalidatesTags: ['Calendars', 'CalendarEvents']
+    }),
+
+    getCalendarMembers: builder.query<CalendarMember[], string>({
+      query: (id) => `/calendars/${id}/members`,
+      providesTags: (_result, _error, id) => [{ type: 'Calendars', id }],
+      transformResponse: (response: any) => response.data || []
+    }),
+
+    addCalendarMember: builder.mutation<CalendarMember, { calendarId: string; email: string; permission: CalendarPermission }>({
+      query: ({ calendarId, ...data }) => ({
+        url: `/calendars/${calendarId}/members`,
+        method: 'POST',
+        body: data
+      }),
+      transformResponse: (response: any) => response.data,
+      invalidatesTags: (_result, _error, { calendarId }) => ['Calendars', { type: 'Calendars', id: calendarId }]
+    }),
+
+    updateCalendarMember: builder.mutation<void, { calendarId: string; userId: string; permission: CalendarPermission }>({
+      query: ({ calendarId, userId, permission }) => ({
+        url: `/calendars/${calendarId}/members/${userId}`,
+        method: 'PATCH',
+        body: { permission }
+      }),
+      invalidatesTags: (_result, _error, { calendarId }) => [{ type: 'Calendars', id: calendarId }]
+    }),
+
+    // Also used to leave a calendar shared with you
+    removeCalendarMember: builder.mutation<void, { calendarId: string; userId: string }>({
+      query: ({ calendarId, userId }) => ({
+        url: `/calendars/${calendarId}/members/${userId}`,
+        method: 'DELETE'
+      }),
+      invalidatesTags: (_result, _error, { calendarId }) => ['Calendars', { type: 'Calendars', id: calendarId }, 'CalendarEvents']
+    }),
+
+    // ============================================
+    // PRIVATE ICAL FEED
+    // ============================================
+    getCalendarFeed: builder.query<CalendarFeed | null, void>({
+      query: () => '/feed',
+      providesTags: ['CalendarFeed'],
+      transformResponse: (response: any) => response.data
+    }),
+
+    // Returns the new URL once; the old one stops working
+    regenerateCalendarFeed: builder.mutation<CalendarFeed, CalendarFeedOptions>({
+      query: (data) => ({
+        url: '/feed',
+        method: 'POST',
+        body: data
+      }),
+      transformResponse: (response: any) => response.data,
+      invalidatesTags: ['CalendarFeed']
+    }),
+
+    updateCalendarFeed: builder.mutation<CalendarFeed, CalendarFeedOptions>({
+      query: (data) => ({
+        url: '/feed',
+        method: 'PATCH',
+        body: data
+      }),
+      transformResponse: (response: any) => response.data,
+      invalidatesTags: ['CalendarFeed']
+    }),
+
+    revokeCalendarFeed: builder.mutation<void, void>({
+      query: () => ({
+        url: '/feed',
+        method: 'DELETE'
+      }),
+      invalidatesTags: ['CalendarFeed']
+    }),
+
     // ============================================
     // GET PUBLIC HOLIDAYS - LONG CACHE
     // ============================================
@@ -312,6 +495,21 @@ export const {
   useCreateEventMutation,
   useUpdateEventMutation,
   useDeleteEventMutation,
+  useLazyExportCalendarQuery,
+  useImportCalendarMutation,
+  useGetFreeBusyQuery,
+  useGetCalendarFeedQuery,
+  useRegenerateCalendarFeedMutation,
+  useUpdateCalendarFeedMutation,
+  useRevokeCalendarFeedMutation,
+  useGetCalendarsQuery,
+  useCreateCalendarMutation,
+  useUpdateCalendarMutation,
+  useDeleteCalendarMutation,
+  useGetCalendarMembersQuery,
+  useAddCalendarMemberMutation,
+  useUpdateCalendarMemberMutation,
+  useRemoveCalendarMemberMutation,
   useGetPublicHolidaysQuery,
   useCreatePublicHolidayMutation
 } = calendarApi;
\ No newline at end of file
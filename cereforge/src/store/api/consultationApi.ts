@@ -0,0 +1,116 @@
+// src/store/api/consultationApi.ts
+
+import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type {
+  ConsultationType,
+  CreateConsultationTypeInput,
+  UpdateConsultationTypeInput
+} from '../../types/consultation.types';
+
+export const consultationApi = createApi({
+  reducerPath: 'consultationApi',
+  baseQuery: fetchBaseQuery({
+    baseUrl: `${import.meta.env.VITE_API_URL}/consultations`,
+    credentials: 'include',
+    prepareHeaders: (headers) => {
+      headers.set('Content-Type', 'application/json');
+      return headers;
+    }
+  }),
+  tagTypes: ['Consultations'],
+  refetchOnReconnect: true,
+
+  endpoints: (builder) => ({
+    /**
+     * GET /consultations
+     * Own consultation types, plus system bookings for admin/core
+     */
+    getConsultations: builder.query<ConsultationType[], void>({
+      query: () => '/',
+      transformResponse: (response: any) => response.data,
+      providesTags: (result) => result
+        ? [...result.map(({ id }) => ({ type: 'Consultations' as const, id })), 'Consultations']
+        : ['Consultations']
+    }),
+
+    /**
+     * GET /consultations/:id
+     */
+    getConsultation: builder.query<ConsultationType, string>({
+      query: (id) => `/${id}`,
+      transformResponse: (response: any) => response.data,
+      providesTags: (_result, _error, id) => [{ type: 'Consultations', id }]
+    }),
+
+    /**
+     * POST /consultations
+     */
+    createConsultation: builder.mutation<ConsultationType, CreateConsultationTypeInput>({
+      query: (body) => ({
+        url: '/',
+        method: 'POST',
+        body
+      }),
+      transformResponse: (response: any) => response.data,
+      invalidatesTags: ['Consultations']
+    }),
+
+    /**
+     * PATCH /consultations/:id
+     */
+    updateConsultation: builder.mutation<ConsultationType, UpdateConsultationTypeInput>({
+      query: ({ id, ...body }) => ({
+        url: `/${id}`,
+        method: 'PATCH',
+        body
+      }),
+      transformResponse: (response: any) => response.data,
+      invalidatesTags: (_result, _error, { id }) => [{ type: 'Consultations', id }]
+    }),
+
+    /**
+     * DELETE /consultations/:id
+     */
+    deleteConsultation: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/${id}`,
+        method: 'DELETE'
+      }),
+      invalidatesTags: ['Consultations']
+    }),
+
+    /**
+     * POST /consultations/:id/link (null = the shared system booking link)
+     * New URL for the booking link; the old one stops working
+     */
+    regenerateBookingLink: builder.mutation<{ bookingPath: string }, string | null>({
+      query: (id) => ({
+        url: `/${id ?? 'system'}/link`,
+        method: 'POST'
+      }),
+      transformResponse: (response: any) => response.data,
+      invalidatesTags: ['Consultations']
+    }),
+
+    /**
+     * DELETE /consultations/:id/link (null = the shared system booking link)
+     */
+    revokeBookingLink: builder.mutation<void, string | null>({
+      query: (id) => ({
+        url: `/${id ?? 'system'}/link`,
+        method: 'DELETE'
+      }),
+      invalidatesTags: ['Consultations']
+    })
+  })
+});
+
+export const {
+  useGetConsultationsQuery,
+  useGetConsultationQuery,
+  useCreateConsultationMutation,
+  useUpdateConsultationMutation,
+  useDeleteConsultationMutation,
+  useRegenerateBookingLinkMutation,
+  useRevokeBookingLinkMutation
+} = consultationApi;
@@ -0,0 +1,49 @@
+// src/store/api/partnerPortalApi.ts
+
+import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type { MyPartnerResponse, UpdateMyPartnerInput } from '../../types/partners.types';
+
+export const partnerPortalApi = createApi({
+  reducerPath: 'partnerPortalApi',
+  baseQuery: fetchBaseQuery({
+    baseUrl: `${import.meta.env.VITE_API_URL}/partner`,
+    credentials: 'include',
+    prepareHeaders: (headers) => {
+      headers.set('Content-Type', 'application/json');
+      return headers;
+    }
+  }),
+  tagTypes: ['MyPartner'],
+  keepUnusedDataFor: 300, // Well inside the one-hour signed URL lifetime
+  refetchOnMountOrArgChange: 30,
+  refetchOnReconnect: true,
+
+  endpoints: (builder) => ({
+    /**
+     * GET /partner/me
+     * Own partner record, assigned contacts and signed document links
+     */
+    getMyPartner: builder.query<MyPartnerResponse, void>({
+      query: () => '/me',
+      providesTags: ['MyPartner']
+    }),
+
+    /**
+     * PATCH /partner/me
+     * Update website, LinkedIn, profile photo or project brief
+     */
+    updateMyPartner: builder.mutation<MyPartnerResponse, UpdateMyPartnerInput>({
+      query: (body) => ({
+        url: '/me',
+        method: 'PATCH',
+        body
+      }),
+      invalidatesTags: ['MyPartner']
+    })
+  })
+});
+
+export const {
+  useGetMyPartnerQuery,
+  useUpdateMyPartnerMutation
+} = partnerPortalApi;
@@ -0,0 +1,74 @@
+import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type { GuestResponseStatus } from '@/types/calendar.types';
+
+export type RsvpResponse = Exclude<GuestResponseStatus, 'pending'>;
+
+// ✅ What a guest sees on their RSVP link
+export interface RsvpInvitation {
+  guest: {
+    name: string;
+    email: string;
+    response_status: GuestResponseStatus;
+    responded_at?: string | null;
+  };
+  event: {
+    title: string;
+    description?: string | null;
+    location?: string | null;
+    start_time: string;
+    end_time: string;
+    all_day: boolean;
+    timezone: string;
+    cancelled: boolean;
+    organizer_name: string;
+  };
+}
+
+interface RsvpApiResponse {
+  success: boolean;
+  data: RsvpInvitation;
+  message?: string;
+  timestamp: string;
+}
+
+// ✅ Public RSVP API slice (token in the URL, no session needed)
+export const rsvpApi = createApi({
+  reducerPath: 'rsvpApi',
+  baseQuery: fetchBaseQuery({
+    baseUrl: `${import.meta.env.VITE_API_URL}/public`
+  }),
+  tagTypes: ['Invitation'],
+  endpoints: (builder) => ({
+    // GET /public/rsvp/:token
+    getInvitation: builder.query<RsvpInvitation, string>({
+      query: (token) => `/rsvp/${encodeURIComponent(token)}`,
+      transformResponse: (response: RsvpApiResponse) => response.data,
+      providesTags: ['Invitation']
+    }),
+
+    // POST /public/rsvp/:token
+    respondToInvitation: builder.mutation<RsvpInvitation, { token: string; response: RsvpResponse }>({
+      query: ({ token, response }) => ({
+        url: `/rsvp/${encodeURIComponent(token)}`,
+        method: 'POST',
+        body: { response }
+      }),
+      transformResponse: (response: RsvpApiResponse) => response.data,
+      // Write the new answer straight into the cached invitation
+      async onQueryStarted({ token }, { dispatch, queryFulfilled }) {
+        try {
+          const { data } = await queryFulfilled;
+          dispatch(rsvpApi.util.upsertQueryData('getInvitation', token, data));
+        } catch {
+          // Error surfaced by the mutation hook
+        }
+      }
+    })
+  })
+});
+
+// ✅ Export hooks
+export const {
+  useGetInvitationQuery,
+  useRespondToInvitationMutation
+} = rsvpApi;
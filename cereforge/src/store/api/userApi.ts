@@ -1,24 +1,155 @@
+// src/store/api/userApi.ts
+
 import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
+import type {
+  UsersListResponse,
+  UserDetailResponse,
+  CreateUserInput,
+  CreateUserResponse,
+  UpdateUserInput,
+  UpdateUserResponse,
+  UpdateUserRoleInput,
+  UpdateUserStatusInput,
+  UserAccessChangeResponse,
+  UnlockUserResponse,
+  UpdateUserPermissionsInput,
+  GetUsersParams
+} from '../../types/users.types';
+import type { PermissionCatalogResponse } from '../../types/permissions.types';
 
-// ✅ Placeholder for future user-related endpoints
+// User management (Core only, except unlock which admins can use too)
 export const userApi = createApi({
   reducerPath: 'userApi',
   baseQuery: fetchBaseQuery({
-    baseUrl: import.meta.env.VITE_API_URL || 'http://localhost:5000/api/v1',
-    credentials: 'include'
+    baseUrl: `${import.meta.env.VITE_API_URL}/admin`,
+    credentials: 'include',
+    prepareHeaders: (headers) => {
+      headers.set('Content-Type', 'application/json');
+      return headers;
+    }
   }),
-  tagTypes: ['User', 'Profile'],
+  tagTypes: ['Users', 'Permissions'],
+  keepUnusedDataFor: 300,
+  refetchOnMountOrArgChange: 30,
+
   endpoints: (builder) => ({
-    // Example: GET /user/profile
-    getUserProfile: builder.query<any, string>({
-      query: (userId) => `/user/${userId}`,
-      providesTags: ['Profile']
+    /**
+     * GET /admin/users
+     * List system users with filters
+     */
+    getUsers: builder.query<UsersListResponse, GetUsersParams | undefined>({
+      query: (params = {}) => ({
+        url: '/users',
+        params
+      }),
+      providesTags: ['Users']
+    }),
+
+    /**
+     * GET /admin/users/:id
+     * Get single user by ID
+     */
+    getUser: builder.query<UserDetailResponse, string>({
+      query: (id) => `/users/${id}`,
+      providesTags: (_result, _error, id) => [{ type: 'Users', id }]
+    }),
+
+    /**
+     * POST /admin/users
+     * Create an admin / core account and send the invite
+     */
+    createUser: builder.mutation<CreateUserResponse, CreateUserInput>({
+      query: (body) => ({
+        url: '/users',
+        method: 'POST',
+        body
+      }),
+      invalidatesTags: ['Users']
+    }),
+
+    /**
+     * PUT /admin/users/:id
+     * Update profile and staff details
+     */
+    updateUser: builder.mutation<UpdateUserResponse, { id: string; body: UpdateUserInput }>({
+      query: ({ id, body }) => ({
+        url: `/users/${id}`,
+        method: 'PUT',
+        body
+      }),
+      invalidatesTags: (_result, _error, { id }) => ['Users', { type: 'Users', id }]
+    }),
+
+    /**
+     * PATCH /admin/users/:id/role
+     * Switch between admin and core (signs the user out)
+     */
+    updateUserRole: builder.mutation<UserAccessChangeResponse, { id: string; body: UpdateUserRoleInput }>({
+      query: ({ id, body }) => ({
+        url: `/users/${id}/role`,
+        method: 'PATCH',
+        body
+      }),
+      invalidatesTags: (_result, _error, { id }) => ['Users', { type: 'Users', id }]
+    }),
+
+    /**
+     * PATCH /admin/users/:id/status
+     * Activate, suspend or deactivate an account
+     */
+    updateUserStatus: builder.mutation<UserAccessChangeResponse, { id: string; body: UpdateUserStatusInput }>({
+      query: ({ id, body }) => ({
+        url: `/users/${id}/status`,
+        method: 'PATCH',
+        body
+      }),
+      invalidatesTags: (_result, _error, { id }) => ['Users', { type: 'Users', id }]
+    }),
+
+    /**
+     * GET /admin/permissions
+     * Permission catalog and role defaults
+     */
+    getPermissionCatalog: builder.query<PermissionCatalogResponse, void>({
+      query: () => '/permissions',
+      providesTags: ['Permissions']
+    }),
+
+    /**
+     * PUT /admin/users/:id/permissions
+     * Replace a staff user's permission overrides
+     */
+    updateUserPermissions: builder.mutation<UpdateUserResponse, { id: string; body: UpdateUserPermissionsInput }>({
+      query: ({ id, body }) => ({
+        url: `/users/${id}/permissions`,
+        method: 'PUT',
+        body
+      }),
+      invalidatesTags: (_result, _error, { id }) => [{ type: 'Users', id }]
+    }),
+
+    /**
+     * DELETE /admin/users/:id/lockout
+     * Clear a failed-login lockout
+     */
+    unlockUser: builder.mutation<UnlockUserResponse, string>({
+      query: (id) => ({
+        url: `/users/${id}/lockout`,
+        method: 'DELETE'
+      }),
+      invalidatesTags: (_result, _error, id) => ['Users', { type: 'Users', id }]
     })
-    
-    // Add more user endpoints here as needed
   })
 });
 
 export const {
-  useGetUserProfileQuery
-} = userApi;
\ No newline at end of file
+  useGetUsersQuery,
+  useGetUserQuery,
+  useCreateUserMutation,
+  useUpdateUserMutation,
+  useUpdateUserRoleMutation,
+  useUpdateUserStatusMutation,
+  useUnlockUserMutation,
+  useGetPermissionCatalogQuery,
+  useUpdateUserPermissionsMutation
+} = userApi;
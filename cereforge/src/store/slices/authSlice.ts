@@ -63,6 +63,9 @@ const authSlice = createSlice({
         builder.addMatcher(
             authApi.endpoints.login.matchFulfilled,
             (state, { payload }) => {
+                // 2FA challenge - no session yet, wait for mfaLogin
+                if (!('user' in payload.data)) return;
+
                 console.log('✅ authSlice: Login fulfilled', payload.data.user);
                 state.user = payload.data.user;
                 state.isAuthenticated = true;
@@ -72,6 +75,18 @@ const authSlice = createSlice({
             }
         );
 
+        builder.addMatcher(
+            authApi.endpoints.mfaLogin.matchFulfilled,
+            (state, { payload }) => {
+                console.log('✅ authSlice: MFA login fulfilled', payload.data.user);
+                state.user = payload.data.user;
+                state.isAuthenticated = true;
+                state.emailVerified = false;
+                state.verificationResult = null;
+                state.isAuthChecked = true;
+            }
+        );
+
         builder.addMatcher(
             authApi.endpoints.getMe.matchFulfilled,
             (state, { payload }) => {
@@ -109,6 +124,15 @@ const authSlice = createSlice({
             }
         );
 
+        builder.addMatcher(
+            authApi.endpoints.changePassword.matchFulfilled,
+            (state, { payload }) => {
+                console.log('✅ authSlice: ChangePassword fulfilled');
+                state.user = payload.data.user;
+                state.isAuthenticated = true;
+            }
+        );
+
         builder.addMatcher(
             authApi.endpoints.verifyEmail.matchFulfilled,
             (state, { payload }) => {
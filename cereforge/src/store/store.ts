@@ -7,6 +7,11 @@ import { userApi } from './api/userApi';
 import { getStartedApi } from './api/getStartedApi';
 import { calendarApi } from './api/calendarApi';  // ✅ ADD THIS
 import { partnersApi } from './api/partnersApi';
+import { auditApi } from './api/auditApi';
+import { partnerPortalApi } from './api/partnerPortalApi';
+import { rsvpApi } from './api/rsvpApi';
+import { consultationApi } from './api/consultationApi';
+import { bookingApi } from './api/bookingApi';
 
 // Import regular slices
 import authReducer from './slices/authSlice';
@@ -21,6 +26,11 @@ export const store = configureStore({
     [getStartedApi.reducerPath]: getStartedApi.reducer,
     [calendarApi.reducerPath]: calendarApi.reducer,  // ✅ ADD THIS
     [partnersApi.reducerPath]: partnersApi.reducer,
+    [auditApi.reducerPath]: auditApi.reducer,
+    [partnerPortalApi.reducerPath]: partnerPortalApi.reducer,
+    [rsvpApi.reducerPath]: rsvpApi.reducer,
+    [consultationApi.reducerPath]: consultationApi.reducer,
+    [bookingApi.reducerPath]: bookingApi.reducer,
     
     // Regular slices (memory-only, no localStorage)
     auth: authReducer,
@@ -36,7 +46,12 @@ export const store = configureStore({
       .concat(userApi.middleware)
       .concat(getStartedApi.middleware)
       .concat(calendarApi.middleware)  // ✅ ADD THIS
-      .concat(partnersApi.middleware),
+      .concat(partnersApi.middleware)
+      .concat(auditApi.middleware)
+      .concat(partnerPortalApi.middleware)
+      .concat(rsvpApi.middleware)
+      .concat(consultationApi.middleware)
+      .concat(bookingApi.middleware),
   
   devTools: import.meta.env.DEV // Only in development
 });
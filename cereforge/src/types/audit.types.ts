@@ -0,0 +1,61 @@
+// src/types/audit.types.ts
+
+export type AuditRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface AuditLogActor {
+  id: string;
+  email: string;
+  full_name: string;
+  role: 'core' | 'admin' | 'partner';
+}
+
+export interface AuditLog {
+  id: string;
+  user_id: string | null;
+  action: string;
+  entity_type: string | null;
+  entity_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  request_method: string | null;
+  request_path: string | null;
+  details: Record<string, any> | null;
+  risk_level: AuditRiskLevel;
+  created_at: string;
+  user: AuditLogActor | null;
+}
+
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface AuditLogsListResponse {
+  success: boolean;
+  data: {
+    items: AuditLog[];
+    pagination: CursorPagination;
+  };
+  timestamp: string;
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string; // comma-separated
+  entityType?: string;
+  entityId?: string;
+  riskLevel?: string; // comma-separated
+  from?: string;
+  to?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface GetAuditLogsParams extends AuditLogFilters {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ExportAuditLogsParams extends AuditLogFilters {
+  format: 'csv' | 'json';
+}
@@ -8,16 +8,17 @@ import { Dayjs } from 'dayjs';
 export type EventLabel = 'indigo' | 'grey' | 'green' | 'blue' | 'red' | 'purple';
 export type RecurrenceType = 'none' | 'daily' | 'weekly' | 'monthly' | 'annually' | 'weekdays' | 'custom';
 export type EventStatus = 'active' | 'cancelled' | 'completed';
+export type GuestResponseStatus = 'pending' | 'accepted' | 'declined' | 'maybe';
 
 export interface Guest {
   name: string;
   email: string;
   id?: string;
-  response_status?: 'pending' | 'accepted' | 'declined' | 'maybe';
+  response_status?: GuestResponseStatus;
 }
 
 export interface NotificationSettings {
-  type: 'Email' | 'Number' | 'Snooze';
+  type: 'Email' | 'Number' | 'Snooze'; // 'Snooze' = no reminder
   interval: number | null;
   timeUnit?: 'Day' | 'Minute' | 'Hour' | null;
   email?: string;
@@ -25,12 +26,23 @@ export interface NotificationSettings {
   country?: string;
 }
 
+// Weekday with optional ordinal (RRULE BYDAY): ordinal 2 = "2nd", -1 = "last"
+export interface RecurrenceWeekday {
+  day: number; // 0 = Sunday
+  ordinal?: number;
+}
+
 // ✅ FIXED: Custom recurrence config structure
 export interface CustomRecurrenceConfig {
   type: 'custom';
   interval: number;
   repeatUnit: 'day' | 'week' | 'month' | 'year';
   daysOfWeek: number[];
+  byWeekday?: RecurrenceWeekday[];
+  byMonthDay?: number[]; // Negative counts from month end
+  byMonth?: number[];
+  bySetPos?: number[];
+  weekStart?: number;
   endType: 'never' | 'on' | 'after';
   endDate: Date | null;
   occurrences: number | null;
@@ -68,11 +80,18 @@ export interface CalendarEvent {
   recurrenceType?: RecurrenceType;
   recurrence?: RecurrenceType | RecurrenceConfig;
   recurrenceConfig?: any;
+  rrule?: string | null; // RFC 5545 RRULE the server expands
   parentEventId?: string | null;
   isRecurringParent?: boolean;
+  originalStart?: string | null; // Occurrence start (instances and single-occurrence overrides)
   
   // Visual
   label: EventLabel;
+
+  // Calendar
+  calendarId?: string;
+  access?: CalendarAccess; // Viewer's access to the event's calendar
+  calendarColor?: EventLabel; // Set while more than one calendar is shown
   
   // Notifications
   notificationSettings?: NotificationSettings;
@@ -113,6 +132,8 @@ export interface CreateEventInput {
   guests?: Guest[];
   sendInvitations?: boolean;
   notification: NotificationSettings;
+  calendarId?: string; // Defaults to the personal calendar
+  force?: boolean; // Save even if it overlaps other events
 }
 
 export interface UpdateEventInput {
@@ -129,11 +150,21 @@ export interface UpdateEventInput {
   guests?: Guest[];
   notification?: NotificationSettings;
   status?: EventStatus;
+  scope?: RecurrenceEditScope;
+  instanceStart?: string;
+  calendarId?: string; // Moves the whole series
+  force?: boolean;
 }
 
+/**
+ * Which occurrences of a recurring event an edit or delete applies to
+ */
+export type RecurrenceEditScope = 'single' | 'thisAndFuture' | 'all';
+
 export interface DeleteEventInput {
   id: string;
-  deleteType?: 'single' | 'thisAndFuture' | 'all';
+  deleteType?: RecurrenceEditScope;
+  instanceStart?: string;
 }
 
 export interface PublicHoliday {
@@ -150,6 +181,7 @@ export interface GetEventsParams {
   startDate: string;
   endDate: string;
   includeRecurring?: boolean;
+  timezone?: string; // Viewer zone, defaults to the browser's
 }
 
 export interface CalendarEventsResponse {
@@ -161,6 +193,152 @@ export interface CalendarEventsResponse {
   timestamp: string;
 }
 
+// ============================================
+// ICS IMPORT / EXPORT
+// ============================================
+
+export interface ImportCalendarInput {
+  ics: string;
+  dryRun: boolean;
+  timezone?: string;
+  label?: EventLabel;
+}
+
+export type CalendarImportAction = 'create' | 'duplicate' | 'skip';
+
+export interface CalendarImportItem {
+  uid: string;
+  title: string;
+  start: string;
+  end: string;
+  allDay: boolean;
+  recurring: boolean;
+  recurrenceId?: string;
+  guestCount: number;
+  action: CalendarImportAction;
+  reason?: string;
+}
+
+export interface CalendarImportResult {
+  dryRun: boolean;
+  summary: Record<CalendarImportAction, number>;
+  items: CalendarImportItem[];
+}
+
+// ============================================
+// PRIVATE ICAL FEED
+// ============================================
+
+export interface CalendarFeedOptions {
+  includeHolidays: boolean;
+  holidayCountry?: string | null;
+}
+
+export interface CalendarFeed extends CalendarFeedOptions {
+  createdAt: string;
+  lastAccessedAt?: string | null;
+  url?: string; // Only present right after the token is (re)generated
+}
+
+// ============================================
+// SHARED CALENDARS
+// ============================================
+
+export type CalendarType = 'personal' | 'team' | 'partner_project';
+
+// freebusy = times only, read = full details, edit = create/change/delete events
+export type CalendarPermission = 'freebusy' | 'read' | 'edit';
+
+export type CalendarAccess = CalendarPermission | 'owner';
+
+export interface Calendar {
+  id: string;
+  owner_id: string;
+  type: CalendarType;
+  name: string;
+  description?: string | null;
+  color: EventLabel;
+  partner_id?: string | null;
+  access: CalendarAccess;
+  member_count?: number; // Owner only
+}
+
+export interface CalendarMember {
+  user_id: string;
+  email: string;
+  full_name?: string;
+  permission: CalendarPermission;
+  created_at: string;
+}
+
+export interface CreateCalendarInput {
+  name: string;
+  description?: string;
+  type: Exclude<CalendarType, 'personal'>;
+  color: EventLabel;
+  partnerId?: string;
+}
+
+export interface UpdateCalendarInput {
+  id: string;
+  name?: string;
+  description?: string | null;
+  color?: EventLabel;
+}
+
+// ============================================
+// CONFLICTS
+// ============================================
+
+// One of the user's events a save would overlap (409 CONFLICT details)
+export interface EventConflict {
+  eventId: string;
+  title: string;
+  start: string;
+  end: string;
+  recurring: boolean;
+}
+
+// ============================================
+// FREE/BUSY
+// ============================================
+
+export interface WorkingHours {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export interface FreeBusyRequest {
+  emails: string[];
+  start: string;
+  end: string;
+  timezone?: string;
+  durationMinutes?: number;
+  workingHours?: WorkingHours;
+  holidayCountry?: string | null;
+}
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+export interface FreeBusyCalendar {
+  email: string;
+  name?: string;
+  internal: boolean; // false = not a Cereforge user, availability unknown
+  busy: BusyInterval[];
+}
+
+export interface FreeBusyResponse {
+  timezone: string;
+  workingHours: WorkingHours;
+  calendars: FreeBusyCalendar[];
+  holidays: { date: string; title: string }[];
+  suggestions: BusyInterval[];
+}
+
 // ============================================
 // UI COMPONENT PROPS
 // ============================================
@@ -182,6 +360,9 @@ export interface CalendarSidebarProps {
   setShowHolidays: (show: boolean) => void;
   selectedCountry: string;
   setSelectedCountry: (country: string) => void;
+  calendars: Calendar[];
+  hiddenCalendarIds: string[];
+  toggleCalendar: (calendarId: string) => void;
 }
 
 export interface CalendarGridProps {
@@ -0,0 +1,140 @@
+// src/types/consultation.types.ts
+import type { ConsultationFormData } from '@/utils/ConsultationConstants';
+
+export type WeeklySchedule = ConsultationFormData['schedule'];
+
+// ✅ Consultation booking type as stored on the server
+export interface ConsultationType {
+  id: string;
+  ownerId: string;
+  consultationType: string;
+  companyName: string;
+  description: string;
+  durationMinutes: number;
+  bufferHours: number; // Minimum notice
+  paddingMinutes: number; // Kept free either side of other meetings
+  maxPerDay: number | null; // Bookings per day; null = no cap
+  timezone: string;
+  schedule: WeeklySchedule;
+  isActive: boolean;
+  isSystemBooking: boolean;
+  bookingPath: string | null; // /book/:companySlug/:typeSlug/:uniqueId; null when revoked
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateConsultationTypeInput = Omit<ConsultationType, 'id' | 'ownerId' | 'bookingPath' | 'createdAt' | 'updatedAt'>;
+
+export interface UpdateConsultationTypeInput extends Partial<Omit<CreateConsultationTypeInput, 'isSystemBooking'>> {
+  id: string;
+}
+
+export type Weekday = keyof WeeklySchedule;
+
+// ✅ Hours a booking link can be booked in (owner's timezone)
+export interface BookingAvailability {
+  availableDays: Weekday[];
+  availableTimes: Partial<Record<Weekday, { openTime: string; closeTime: string }>>;
+  bufferHours: number;
+  timezone: string;
+}
+
+export interface BookingVariant extends BookingAvailability {
+  id: string;
+  title: string;
+  duration: string; // e.g. "30 minutes"
+  durationMinutes: number;
+  description: string;
+  isActive: boolean;
+}
+
+// ✅ What a public booking link resolves to
+export interface PublicBookingConfig extends BookingAvailability {
+  bookingPath: string;
+  consultationType: string;
+  companyName: string;
+  duration: string; // Minutes
+  description: string;
+  isActive: boolean;
+  isSystemBooking: boolean;
+  variants?: BookingVariant[];
+}
+
+// ✅ A bookable time; date and time are in the booker's timezone
+export interface BookableSlot {
+  start: string;
+  end: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+}
+
+export interface BookingSlotsResult {
+  timezone: string;
+  durationMinutes: number;
+  slots: BookableSlot[];
+}
+
+export interface BookingSlotsQuery {
+  id: string; // Booking link id
+  from: string;
+  to: string;
+  tz: string;
+  type?: string; // Consultation id on the system booking link
+}
+
+export interface BookConsultationRequest {
+  id: string; // Booking link id
+  start: string; // ISO start of one of the bookable slots
+  type?: string; // Consultation id on the system booking link
+  name: string;
+  email: string;
+  company?: string;
+  projectDescription?: string;
+  timezone: string;
+}
+
+export interface BookingConfirmation {
+  eventId: string;
+  title: string;
+  start: string;
+  end: string;
+  timezone: string;
+  meetingUrl: string;
+  ownerName: string;
+}
+
+// Booker self-service (manage link from the confirmation email)
+export interface ManagedBooking {
+  title: string;
+  companyName: string;
+  ownerName: string;
+  bookerName: string;
+  bookerEmail: string;
+  start: string;
+  end: string;
+  durationMinutes: number;
+  timezone: string; // Consultation's
+  meetingUrl: string | null;
+  status: 'active' | 'cancelled' | 'completed';
+  bufferHours: number;
+  changeableUntil: string; // No online changes after this (minimum notice)
+  canChange: boolean;
+}
+
+export interface RescheduleSlotsQuery {
+  token: string;
+  from: string;
+  to: string;
+  tz: string;
+}
+
+export interface RescheduleBookingRequest {
+  token: string;
+  start: string;
+  timezone: string;
+}
+
+export interface CancelBookingRequest {
+  token: string;
+  reason?: string;
+}
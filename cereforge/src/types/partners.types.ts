@@ -182,6 +182,48 @@ export interface UpdatePartnerStatusResponse {
   timestamp: string;
 }
 
+// ============================================
+// PARTNER SELF-SERVICE (partner portal)
+// ============================================
+
+export type MyPartnerProfile = Omit<Partner, 'user_id' | 'approved_by' | 'schedule_call' | 'metadata'>;
+
+export interface PartnerContact {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+export interface PartnerDocument {
+  key: 'project_brief_url' | 'reference_images_url' | 'profile_photo_url';
+  label: string;
+  path: string;
+  fileName: string;
+  url: string | null; // Signed URL, expires after an hour
+}
+
+export interface MyPartner {
+  partner: MyPartnerProfile;
+  contacts: PartnerContact[];
+  documents: PartnerDocument[];
+  uploadFolder: string; // Storage folder replacement documents must be uploaded to
+}
+
+export interface MyPartnerResponse {
+  success: boolean;
+  data: MyPartner;
+  message?: string;
+  timestamp: string;
+}
+
+export interface UpdateMyPartnerInput {
+  company_website?: string;
+  linkedin_profile?: string;
+  profile_photo_url?: string | null;
+  project_brief_url?: string | null;
+}
+
 // ============================================
 // QUERY PARAMS
 // ============================================
@@ -0,0 +1,31 @@
+// src/types/permissions.types.ts
+
+// Mirrors the server catalog in cereforge-server/src/utils/permissions.ts
+export type Permission =
+  | 'partners.view'
+  | 'partners.approve'
+  | 'partners.edit'
+  | 'partners.status'
+  | 'holidays.manage'
+  | 'audit.read'
+  | 'audit.export'
+  | 'users.manage'
+  | 'users.unlock';
+
+export type PermissionSet = Record<Permission, boolean>;
+
+export type PermissionOverrides = Partial<PermissionSet>;
+
+export interface PermissionDefinition {
+  key: Permission;
+  description: string;
+}
+
+export interface PermissionCatalogResponse {
+  success: boolean;
+  data: {
+    permissions: PermissionDefinition[];
+    roleDefaults: Record<'core' | 'admin' | 'partner', Permission[]>;
+  };
+  timestamp: string;
+}
@@ -0,0 +1,152 @@
+// src/types/users.types.ts
+
+import type { Pagination } from './partners.types';
+import type { PermissionOverrides, PermissionSet } from './permissions.types';
+
+export type UserRole = 'core' | 'admin' | 'partner';
+export type StaffRole = 'core' | 'admin';
+export type UserStatus = 'active' | 'suspended' | 'pending' | 'deactivated';
+
+export interface AdminStaffRecord {
+  admin_id: string;
+  category: string;
+}
+
+export interface CoreStaffRecord {
+  employee_id: string;
+  department: string | null;
+  position: string | null;
+}
+
+export interface UserPartnerRecord {
+  id: string;
+  partner_id: string;
+  partner_name: string;
+}
+
+// Embedded relations come back as an array or a single row depending on the FK
+type Embedded<T> = T[] | T | null;
+
+export interface ManagedUser {
+  id: string;
+  email: string;
+  full_name: string;
+  phone: string | null;
+  role: UserRole;
+  status: UserStatus;
+  must_change_password: boolean;
+  locked_until: string | null;
+  failed_login_attempts: number | null;
+  last_login: string | null;
+  created_at: string;
+  updated_at: string;
+  admin_staff: Embedded<AdminStaffRecord>;
+  core_staff: Embedded<CoreStaffRecord>;
+  partners: Embedded<UserPartnerRecord>;
+  // detail endpoint only
+  active_sessions?: number;
+  permissions?: PermissionSet;
+  permission_overrides?: PermissionOverrides;
+}
+
+// ============================================
+// API RESPONSES
+// ============================================
+
+export interface UsersListResponse {
+  success: boolean;
+  data: {
+    items: ManagedUser[];
+    pagination: Pagination;
+  };
+  timestamp: string;
+}
+
+export interface UserDetailResponse {
+  success: boolean;
+  data: ManagedUser;
+  timestamp: string;
+}
+
+export interface CreateUserResponse {
+  success: boolean;
+  data: {
+    user: ManagedUser;
+    inviteSent: boolean;
+  };
+  message: string;
+  timestamp: string;
+}
+
+export interface UpdateUserResponse {
+  success: boolean;
+  data: ManagedUser;
+  message: string;
+  timestamp: string;
+}
+
+export interface UserAccessChangeResponse {
+  success: boolean;
+  data: {
+    user: ManagedUser;
+    revokedSessions: number;
+  };
+  message: string;
+  timestamp: string;
+}
+
+export interface UnlockUserResponse {
+  success: boolean;
+  data: { wasLocked: boolean };
+  message: string;
+  timestamp: string;
+}
+
+// ============================================
+// INPUTS
+// ============================================
+
+export interface StaffDetailsInput {
+  category?: string;   // admin
+  department?: string; // core
+  position?: string;   // core
+}
+
+export interface CreateUserInput extends StaffDetailsInput {
+  email: string;
+  full_name: string;
+  phone?: string;
+  role: StaffRole;
+}
+
+export interface UpdateUserInput extends StaffDetailsInput {
+  full_name?: string;
+  phone?: string;
+}
+
+export interface UpdateUserRoleInput extends StaffDetailsInput {
+  role: StaffRole;
+}
+
+export interface UpdateUserPermissionsInput {
+  overrides: PermissionOverrides;
+}
+
+export interface UpdateUserStatusInput {
+  status: Exclude<UserStatus, 'pending'>;
+  reason?: string;
+}
+
+// ============================================
+// QUERY PARAMS
+// ============================================
+
+export interface GetUsersParams {
+  page?: number;
+  limit?: number;
+  role?: UserRole;
+  status?: UserStatus;
+  search?: string;
+  sortBy?: 'created_at' | 'full_name' | 'email' | 'last_login';
+  sortOrder?: 'asc' | 'desc';
+}
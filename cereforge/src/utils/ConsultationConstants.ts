@@ -7,11 +7,14 @@ export interface DaySchedule {
 }
 
 export interface ConsultationFormData {
+  id?: string; // Set once the consultation has been saved
   consultationType: string;
   companyName: string;
   duration: string;
   description: string;
   bufferHours: number;
+  paddingMinutes?: number; // Free time kept either side of other meetings
+  maxPerDay?: number | null; // Bookings per day; null = no cap
   timezone: string; // ✅ NEW: Creator's timezone
   isActive: boolean; // ✅ NEW: Active/paused status
   schedule: {
@@ -26,6 +29,9 @@ export interface ConsultationFormData {
   isSystemBooking?: boolean;
 }
 
+// Individual (non-system) consultation types per user
+export const MAX_INDIVIDUAL_CONSULTATIONS = 2;
+
 export const DEFAULT_SCHEDULE: ConsultationFormData['schedule'] = {
   monday: { enabled: false, openTime: '09:00', closeTime: '17:00' },
   tuesday: { enabled: false, openTime: '09:00', closeTime: '17:00' },
@@ -142,6 +148,24 @@ export const DURATION_OPTIONS = [
   { value: '90', label: '90 minutes' },
 ];
 
+export const PADDING_OPTIONS = [
+  { value: 0, label: 'None' },
+  { value: 5, label: '5 minutes' },
+  { value: 10, label: '10 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+];
+
+export const MAX_PER_DAY_OPTIONS = [
+  { value: '', label: 'No limit' },
+  { value: '1', label: '1 per day' },
+  { value: '2', label: '2 per day' },
+  { value: '3', label: '3 per day' },
+  { value: '4', label: '4 per day' },
+  { value: '6', label: '6 per day' },
+  { value: '8', label: '8 per day' },
+];
+
 export const BUFFER_OPTIONS = [
   { value: 24, label: '24 hours' },
   { value: 48, label: '48 hours' },
@@ -1,6 +1,8 @@
 // src/utils/consultationUtils.ts
 
+import dayjs, { Dayjs } from 'dayjs';
 import { ConsultationFormData, CEREFORGE_DEFAULT_CONSULTATIONS } from './ConsultationConstants';
+import type { ConsultationType, CreateConsultationTypeInput } from '@/types/consultation.types';
 
 /**
  * Generate Cereforge default consultations with company name
@@ -14,14 +16,22 @@ export const generateCereforgeConsultations = (companyName: string = 'Cereforge'
 };
 
 /**
- * Generate unique booking link
+ * Load a saved consultation into the form
  */
-export const generateBookingLink = (companyName: string, consultationType: string): string => {
-  const uniqueId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  const companySlug = companyName.toLowerCase().replace(/\s+/g, '-');
-  const typeSlug = consultationType.toLowerCase().replace(/\s+/g, '-');
-  return `/book/${companySlug}/${typeSlug}/${uniqueId}`;
-};
+export const toConsultationFormData = (consultation: ConsultationType): ConsultationFormData => ({
+  id: consultation.id,
+  consultationType: consultation.consultationType,
+  companyName: consultation.companyName,
+  duration: String(consultation.durationMinutes),
+  description: consultation.description,
+  bufferHours: consultation.bufferHours,
+  paddingMinutes: consultation.paddingMinutes,
+  maxPerDay: consultation.maxPerDay,
+  timezone: consultation.timezone,
+  isActive: consultation.isActive,
+  schedule: consultation.schedule,
+  isSystemBooking: consultation.isSystemBooking
+});
 
 /**
  * Validate consultation form data
@@ -58,23 +68,28 @@ export const validateConsultation = (consultation: ConsultationFormData): { vali
 /**
  * Format consultation data for API
  */
-export const formatConsultationForAPI = (consultation: ConsultationFormData) => {
-  const enabledDays = Object.entries(consultation.schedule)
-    .filter(([_, day]) => day.enabled)
-    .reduce((acc, [key, day]) => ({
-      ...acc,
-      [key]: { openTime: day.openTime, closeTime: day.closeTime }
-    }), {});
+export const formatConsultationForAPI = (consultation: ConsultationFormData): CreateConsultationTypeInput => ({
+  consultationType: consultation.consultationType.trim(),
+  companyName: consultation.companyName.trim(),
+  description: consultation.description,
+  durationMinutes: parseInt(consultation.duration),
+  bufferHours: consultation.bufferHours,
+  paddingMinutes: consultation.paddingMinutes ?? 0,
+  maxPerDay: consultation.maxPerDay ?? null,
+  timezone: consultation.timezone,
+  schedule: consultation.schedule,
+  isActive: consultation.isActive,
+  isSystemBooking: !!consultation.isSystemBooking
+});
 
-  return {
-    consultationType: consultation.consultationType,
-    companyName: consultation.companyName,
-    duration: parseInt(consultation.duration),
-    description: consultation.description,
-    bufferHours: consultation.bufferHours,
-    availableDays: Object.keys(enabledDays),
-    availableTimes: enabledDays,
-    bookingLink: generateBookingLink(consultation.companyName, consultation.consultationType),
-    createdAt: new Date().toISOString()
-  };
-};
\ No newline at end of file
+/**
+ * Range to load bookable slots for a calendar month (this year's month index),
+ * with a day's margin each side for timezone shifts and nothing before today
+ */
+export const getBookingSlotsRange = (monthIndex: number): { from: Dayjs; to: Dayjs } => {
+  const monthStart = dayjs(new Date(dayjs().year(), monthIndex, 1));
+  const today = dayjs().startOf('day');
+  const from = monthStart.subtract(1, 'day').isBefore(today) ? today : monthStart.subtract(1, 'day');
+
+  return { from, to: monthStart.add(1, 'month').add(1, 'day') };
+};
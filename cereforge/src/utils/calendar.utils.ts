@@ -1,6 +1,9 @@
 // Cereforge Calendar Utilities
+import type { CSSProperties } from 'react';
 import dayjs, { Dayjs } from 'dayjs';
 import isSameOrAfter from 'dayjs/plugin/isSameOrAfter';
+import { LABEL_COLORS } from '@/types/calendar.types';
+import type { CalendarEvent, EventConflict } from '@/types/calendar.types';
 
 dayjs.extend(isSameOrAfter);
 
@@ -215,4 +218,21 @@ export const getAvailableConsultationDates = (daysAhead: number = 30): Dayjs[] =
   }
   
   return dates;
-};
\ No newline at end of file
+};
+
+/**
+ * Overlapping events from a 409 CONFLICT save response, or null for other errors
+ */
+export const getEventConflicts = (error: any): EventConflict[] | null => {
+  if (error?.status !== 409 || error?.data?.error?.code !== 'CONFLICT') return null;
+  return error.data.error.details?.conflicts || [];
+};
+
+/**
+ * Left stripe in the color of the event's calendar
+ * calendarColor is only set while more than one calendar is shown
+ */
+export const calendarStripeStyle = (event: CalendarEvent): CSSProperties | undefined => {
+  if (!event.calendarColor) return undefined;
+  return { boxShadow: `inset 4px 0 0 ${LABEL_COLORS[event.calendarColor]}, inset 6px 0 0 rgba(255, 255, 255, 0.8)` };
+};
@@ -0,0 +1,19 @@
+// src/utils/passwordRules.ts
+// Mirrors validatePasswordStrength() on the server so users see failures before submitting
+
+export interface PasswordRule {
+  id: string;
+  label: string;
+  test: (password: string) => boolean;
+}
+
+export const PASSWORD_RULES: PasswordRule[] = [
+  { id: 'length', label: 'At least 12 characters', test: (p) => p.length >= 12 && p.length <= 128 },
+  { id: 'upper', label: 'One uppercase letter', test: (p) => /[A-Z]/.test(p) },
+  { id: 'lower', label: 'One lowercase letter', test: (p) => /[a-z]/.test(p) },
+  { id: 'number', label: 'One number', test: (p) => /\d/.test(p) },
+  { id: 'special', label: 'One special character', test: (p) => /[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?]/.test(p) }
+];
+
+export const isPasswordStrong = (password: string): boolean =>
+  PASSWORD_RULES.every(rule => rule.test(password));